@@ -1,12 +1,40 @@
 /**
  * App Root
  * Renders TradeListPage with full trade + market data flow.
+ * When the journal is encrypted, shows UnlockScreen until the passphrase is
+ * entered, and locks again after inactivity or when another tab changes the
+ * encryption settings.
  */
 
+import { useCallback, useEffect, useState } from 'react';
 import { TradeListPage } from './components/TradeListPage';
+import { UnlockScreen } from './components/UnlockScreen';
+import { encryptionService } from './services/encryptionService';
+import { useIdleTimeout } from './hooks/useIdleTimeout';
 
 function App() {
-  return <TradeListPage />;
+  const [locked, setLocked] = useState(() => encryptionService.isEnabled() && !encryptionService.isUnlocked());
+  const [autoLockMinutes, setAutoLockMinutes] = useState(encryptionService.getAutoLockMinutes);
+
+  const lock = useCallback(() => {
+    encryptionService.lock();
+    setLocked(encryptionService.isEnabled());
+  }, []);
+
+  useEffect(
+    () =>
+      encryptionService.subscribe((source) => {
+        setAutoLockMinutes(encryptionService.getAutoLockMinutes());
+        // The key this tab holds may no longer match what another tab writes
+        if (source === 'remote') lock();
+      }),
+    [lock]
+  );
+
+  useIdleTimeout(!locked && encryptionService.isEnabled(), autoLockMinutes, lock);
+
+  if (locked) return <UnlockScreen onUnlock={() => setLocked(false)} />;
+  return <TradeListPage onLock={lock} />;
 }
 
 export default App;
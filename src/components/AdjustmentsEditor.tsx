@@ -0,0 +1,108 @@
+/**
+ * AdjustmentsEditor Component
+ * Editable log of stop-loss and take-profit moves (trailing, breakeven) for a
+ * trade in TradeDetailModal. The initial stop and targets stay as entered.
+ */
+
+import React from 'react';
+import { ADJUSTMENT_KIND, type SymbolRules } from './constants/types';
+import { toDateTimeLocalGMT, fromDateTimeLocalGMT } from '../utils/calculations';
+import { createAdjustmentDraft, type AdjustmentDraft } from '../utils/adjustmentDrafts';
+import type { TakeProfitDraft } from '../utils/takeProfitDrafts';
+import { SelectBox } from './ui-components/SelectBox';
+
+interface AdjustmentsEditorProps {
+  adjustments: AdjustmentDraft[];
+  onChange: (adjustments: AdjustmentDraft[]) => void;
+  /** Take-profit rows being edited; moves can target any of them */
+  targets: TakeProfitDraft[];
+  /** Time given to a new move when there are none yet */
+  defaultTimestamp: number;
+  rules?: SymbolRules;
+  quoteAsset?: string;
+}
+
+const inputClass =
+  'w-full rounded border border-gray-300 bg-white px-2 py-1.5 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+export const AdjustmentsEditor: React.FC<AdjustmentsEditorProps> = ({
+  adjustments,
+  onChange,
+  targets,
+  defaultTimestamp,
+  rules,
+  quoteAsset = '$',
+}) => {
+  const targetOptions = [
+    { value: ADJUSTMENT_KIND.STOP, label: 'Stop' },
+    ...targets.map((t, i) => ({ value: t.id, label: `TP${i + 1}` })),
+  ];
+
+  const updateAdjustment = (id: string, updates: Partial<AdjustmentDraft>) => {
+    onChange(adjustments.map((a) => (a.id === id ? { ...a, ...updates } : a)));
+  };
+
+  const addAdjustment = () => {
+    const lastTimestamp = adjustments.length > 0
+      ? Math.max(...adjustments.map((a) => a.timestamp))
+      : defaultTimestamp;
+    onChange([...adjustments, createAdjustmentDraft(ADJUSTMENT_KIND.STOP, lastTimestamp)]);
+  };
+
+  return (
+    <div>
+      <div className="mb-1.5 flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">Stop / target moves</label>
+        <button
+          type="button"
+          onClick={addAdjustment}
+          className="rounded border border-blue-300 px-2 py-0.5 text-xs font-medium text-blue-700 hover:bg-blue-50"
+        >
+          + Move
+        </button>
+      </div>
+      {adjustments.length > 0 ? (
+        <div className="space-y-2">
+          {adjustments.map((adjustment) => (
+            <div key={adjustment.id} className="grid grid-cols-[7rem_1fr_1fr_2rem] items-center gap-2">
+              <SelectBox
+                mode="single"
+                options={targetOptions}
+                value={adjustment.target}
+                onChange={(v) => v && updateAdjustment(adjustment.id, { target: v })}
+                minWidth="6rem"
+              />
+              <input
+                type="datetime-local"
+                value={toDateTimeLocalGMT(adjustment.timestamp)}
+                onChange={(e) => updateAdjustment(adjustment.id, { timestamp: fromDateTimeLocalGMT(e.target.value) })}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                step={rules ? rules.tickSize : 'any'}
+                min={0}
+                value={adjustment.price}
+                onChange={(e) => updateAdjustment(adjustment.id, { price: e.target.value })}
+                className={inputClass}
+                placeholder={`New price (${quoteAsset})`}
+              />
+              <button
+                type="button"
+                onClick={() => onChange(adjustments.filter((a) => a.id !== adjustment.id))}
+                className="flex h-7 w-7 items-center justify-center rounded text-gray-400 hover:bg-gray-100 hover:text-gray-700"
+                aria-label="Remove move"
+              >
+                <span aria-hidden>&times;</span>
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">
+          No moves logged. R is always measured from the initial stop loss.
+        </p>
+      )}
+    </div>
+  );
+};
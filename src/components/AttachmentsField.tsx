@@ -0,0 +1,194 @@
+/**
+ * AttachmentsField Component
+ * Thumbnails of a trade's screenshots and files with a lightbox for images.
+ * When editable, files can be dropped, pasted (anywhere while mounted) or browsed;
+ * they are stored in IndexedDB right away and the parent keeps the metadata.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { AttachmentMeta } from './constants/types';
+import { attachmentService, isImageAttachment } from '../services/attachmentService';
+import { useAttachmentUrls } from '../hooks/useAttachmentUrls';
+import { formatFileSize } from '../utils/storageUsage';
+
+interface AttachmentsFieldProps {
+  attachments: AttachmentMeta[];
+  /** Omit for a read-only gallery */
+  onChange?: (attachments: AttachmentMeta[]) => void;
+}
+
+const Lightbox: React.FC<{ url: string; name: string; onClose: () => void }> = ({ url, name, onClose }) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation();
+        onClose();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown, true);
+    return () => document.removeEventListener('keydown', handleKeyDown, true);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-[70] flex flex-col items-center justify-center bg-black/80 p-6"
+      onClick={(e) => {
+        e.stopPropagation();
+        onClose();
+      }}
+    >
+      <img src={url} alt={name} className="max-h-[85vh] max-w-full rounded shadow-2xl" />
+      <div className="mt-3 flex items-center gap-4 text-sm text-gray-200">
+        <span>{name}</span>
+        <a
+          href={url}
+          download={name}
+          onClick={(e) => e.stopPropagation()}
+          className="font-medium text-blue-300 hover:text-blue-200"
+        >
+          Download
+        </a>
+      </div>
+    </div>
+  );
+};
+
+export const AttachmentsField: React.FC<AttachmentsFieldProps> = ({ attachments, onChange }) => {
+  const urls = useAttachmentUrls(attachments);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<AttachmentMeta | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const attachmentsRef = useRef(attachments);
+  attachmentsRef.current = attachments;
+  const editable = onChange != null;
+
+  const addFiles = async (files: File[]) => {
+    if (!onChange || files.length === 0) return;
+    setError(null);
+    setIsSaving(true);
+    const added: AttachmentMeta[] = [];
+    for (const file of files) {
+      try {
+        added.push(await attachmentService.add(file));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : `Could not store ${file.name}`);
+      }
+    }
+    setIsSaving(false);
+    if (added.length) onChange([...attachmentsRef.current, ...added]);
+  };
+
+  // Pasted screenshots are attached wherever focus is; pasted text is left alone
+  const addFilesRef = useRef(addFiles);
+  addFilesRef.current = addFiles;
+  useEffect(() => {
+    if (!editable) return;
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files ?? []);
+      if (files.length === 0) return;
+      e.preventDefault();
+      void addFilesRef.current(files);
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [editable]);
+
+  if (!editable && attachments.length === 0) return null;
+
+  return (
+    <div>
+      {attachments.length > 0 && (
+        <div className="mb-2 flex flex-wrap gap-3">
+          {attachments.map((a) => (
+            <div key={a.id} className="group relative w-28">
+              {isImageAttachment(a) && urls[a.id] ? (
+                <button
+                  type="button"
+                  onClick={() => setPreview(a)}
+                  className="block h-20 w-28 overflow-hidden rounded border border-gray-200 bg-gray-100"
+                >
+                  <img src={urls[a.id]} alt={a.name} className="h-full w-full object-cover" />
+                </button>
+              ) : (
+                <a
+                  href={urls[a.id]}
+                  download={a.name}
+                  className={`flex h-20 w-28 flex-col items-center justify-center rounded border border-gray-200 bg-gray-50 text-xs text-gray-500 ${
+                    urls[a.id] ? 'hover:bg-gray-100' : 'pointer-events-none'
+                  }`}
+                >
+                  <span className="text-lg font-semibold uppercase text-gray-400">
+                    {a.name.includes('.') ? a.name.split('.').pop() : 'file'}
+                  </span>
+                  {!urls[a.id] && <span>unavailable</span>}
+                </a>
+              )}
+              <div className="mt-1 truncate text-xs text-gray-600" title={a.name}>{a.name}</div>
+              <div className="text-xs text-gray-400">{formatFileSize(a.size)}</div>
+              {editable && (
+                <button
+                  type="button"
+                  onClick={() => onChange(attachments.filter((x) => x.id !== a.id))}
+                  className="absolute -right-2 -top-2 hidden h-6 w-6 items-center justify-center rounded-full bg-gray-800 text-white shadow group-hover:flex"
+                  aria-label={`Remove ${a.name}`}
+                >
+                  <span aria-hidden>&times;</span>
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editable && (
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            void addFiles(Array.from(e.dataTransfer.files));
+          }}
+          className={`rounded-lg border-2 border-dashed px-4 py-4 text-center text-sm transition-colors ${
+            isDragging ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-500'
+          }`}
+        >
+          {isSaving ? (
+            'Saving…'
+          ) : (
+            <>
+              Drop screenshots or files here, paste an image, or{' '}
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="font-medium text-blue-600 hover:underline"
+              >
+                browse
+              </button>
+            </>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              void addFiles(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
+        </div>
+      )}
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+
+      {preview && urls[preview.id] && (
+        <Lightbox url={urls[preview.id]} name={preview.name} onClose={() => setPreview(null)} />
+      )}
+    </div>
+  );
+};
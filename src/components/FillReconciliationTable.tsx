@@ -0,0 +1,69 @@
+/**
+ * FillReconciliationTable Component
+ * Per-symbol totals of a fill import (fills, bought, sold, left open, trades,
+ * realized PNL, fees) so they can be checked against the exchange before saving.
+ */
+
+import React from 'react';
+import type { FillReconciliation } from './constants/types';
+import { isReconciled } from '../utils/binanceImport';
+
+interface FillReconciliationTableProps {
+  symbols: FillReconciliation[];
+}
+
+const formatAmount = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 8 });
+
+export const FillReconciliationTable: React.FC<FillReconciliationTableProps> = ({ symbols }) => (
+  <div className="overflow-x-auto rounded-lg border border-gray-200">
+    <table className="min-w-full text-sm">
+      <thead className="bg-gray-50 text-left text-xs text-gray-500">
+        <tr>
+          <th className="px-3 py-2 font-medium">Symbol</th>
+          <th className="px-3 py-2 font-medium">Fills (orders)</th>
+          <th className="px-3 py-2 font-medium">Bought</th>
+          <th className="px-3 py-2 font-medium">Sold</th>
+          <th className="px-3 py-2 font-medium">Left open</th>
+          <th className="px-3 py-2 font-medium">Not matched</th>
+          <th className="px-3 py-2 font-medium">Trades</th>
+          <th className="px-3 py-2 font-medium">Realized PNL</th>
+          <th className="px-3 py-2 font-medium">Fees</th>
+          <th className="px-3 py-2 font-medium">Check</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {symbols.map((s) => {
+          const other = Object.entries(s.otherFees).map(([asset, amount]) => `${formatAmount(amount)} ${asset}`);
+          const ok = isReconciled(s);
+          return (
+            <tr key={s.symbol}>
+              <td className="px-3 py-1.5 font-medium">{s.symbol}</td>
+              <td className="px-3 py-1.5">
+                {s.fills} ({s.orders})
+              </td>
+              <td className="px-3 py-1.5">{formatAmount(s.bought)}</td>
+              <td className="px-3 py-1.5">{formatAmount(s.sold)}</td>
+              <td className="px-3 py-1.5">{formatAmount(s.openQuantity)}</td>
+              <td className={`px-3 py-1.5 ${s.unmatchedQuantity > 0 ? 'text-amber-700' : ''}`}>
+                {formatAmount(s.unmatchedQuantity)}
+              </td>
+              <td className="px-3 py-1.5 whitespace-nowrap">
+                {s.closedTrades} closed, {s.openTrades} open
+              </td>
+              <td className={`px-3 py-1.5 ${s.realizedPnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                {formatAmount(s.realizedPnl)} {s.quoteAsset}
+              </td>
+              <td className="px-3 py-1.5">
+                {formatAmount(s.fees)} {s.quoteAsset}
+                {other.length > 0 && <span className="block text-xs text-amber-700">+ {other.join(', ')}</span>}
+              </td>
+              <td className={`px-3 py-1.5 text-xs ${ok ? 'text-green-700' : 'text-red-700'}`}>
+                {ok ? 'Balances' : 'Does not add up'}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  </div>
+);
@@ -0,0 +1,146 @@
+/**
+ * MarginFields Component
+ * Leverage, isolated/cross margin mode and maintenance margin for futures
+ * trades, with a live initial margin / liquidation price preview and a warning
+ * when the stop loss sits beyond liquidation.
+ */
+
+import React from 'react';
+import { MARGIN_MODE, type Position } from './constants/types';
+import {
+  calculateInitialMargin,
+  calculateLiquidationPrice,
+  isStopBeyondLiquidation,
+  DEFAULT_MAINTENANCE_MARGIN_RATE,
+} from '../utils/calculations';
+import { MAX_LEVERAGE, toValidMargin, type MarginDraft } from '../utils/marginDrafts';
+import { formatPrice } from '../utils/symbolRules';
+
+interface MarginFieldsProps {
+  margin: MarginDraft;
+  onChange: (margin: MarginDraft) => void;
+  position: Position;
+  /** Average entry price so far; null until the entry legs parse */
+  entryPrice: number | null;
+  /** Total entered quantity */
+  quantity: number;
+  stopLoss: number | undefined;
+  /** Decimals for the liquidation price (symbol tick size) */
+  priceDecimals?: number;
+  quoteAsset?: string;
+}
+
+const inputClass = 'w-full border border-gray-300 rounded px-3 py-2';
+
+export const MarginFields: React.FC<MarginFieldsProps> = ({
+  margin,
+  onChange,
+  position,
+  entryPrice,
+  quantity,
+  stopLoss,
+  priceDecimals,
+  quoteAsset = '$',
+}) => {
+  const parsed = toValidMargin(margin);
+  const initialMargin = entryPrice != null
+    ? calculateInitialMargin(entryPrice, quantity, parsed.leverage)
+    : null;
+  const liquidationPrice = entryPrice != null
+    ? calculateLiquidationPrice({ position, ...parsed }, entryPrice, quantity)
+    : null;
+  const stopBeyondLiquidation = isStopBeyondLiquidation(position, stopLoss, liquidationPrice);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Leverage <span className="font-normal text-gray-400">(empty = spot)</span>
+          </label>
+          <input
+            type="number"
+            step="any"
+            min={1}
+            max={MAX_LEVERAGE}
+            value={margin.leverage}
+            onChange={(e) => onChange({ ...margin, leverage: e.target.value })}
+            className={inputClass}
+            placeholder="e.g. 10"
+          />
+        </div>
+        {margin.leverage.trim() && (
+          <>
+            <div>
+              <div className="mb-1 text-sm font-medium text-gray-700">Margin mode</div>
+              <div className="inline-flex rounded-lg border border-gray-200 bg-white p-0.5">
+                {([MARGIN_MODE.ISOLATED, MARGIN_MODE.CROSS] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => onChange({ ...margin, marginMode: mode })}
+                    className={`rounded-md px-3 py-1.5 text-xs font-medium transition-colors ${
+                      margin.marginMode === mode ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    {mode === MARGIN_MODE.ISOLATED ? 'Isolated' : 'Cross'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Maint. margin %</label>
+              <input
+                type="number"
+                step="any"
+                min={0}
+                value={margin.maintenanceMarginPct}
+                onChange={(e) => onChange({ ...margin, maintenanceMarginPct: e.target.value })}
+                className={inputClass}
+                placeholder={String(DEFAULT_MAINTENANCE_MARGIN_RATE * 100)}
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      {margin.leverage.trim() && margin.marginMode === MARGIN_MODE.CROSS && (
+        <div className="sm:w-1/3">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Cross balance ({quoteAsset})
+          </label>
+          <input
+            type="number"
+            step="any"
+            min={0}
+            value={margin.crossBalance}
+            onChange={(e) => onChange({ ...margin, crossBalance: e.target.value })}
+            className={inputClass}
+            placeholder="Wallet balance"
+          />
+        </div>
+      )}
+
+      {parsed.leverage != null && (
+        <p className="text-xs text-gray-500">
+          Initial margin{' '}
+          <span className="font-semibold text-gray-700">
+            {initialMargin != null ? `${initialMargin.toFixed(2)} ${quoteAsset}` : '—'}
+          </span>
+          {' · '}Est. liquidation{' '}
+          <span className="font-semibold text-gray-700">
+            {liquidationPrice != null ? formatPrice(liquidationPrice, priceDecimals) : '—'}
+          </span>
+          {margin.marginMode === MARGIN_MODE.CROSS && parsed.crossMarginBalance == null && (
+            <span className="ml-1 text-gray-400">(no cross balance: treated as isolated)</span>
+          )}
+        </p>
+      )}
+      {stopBeyondLiquidation && (
+        <p className="rounded bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          Stop loss is beyond the estimated liquidation price — the position would be liquidated before the stop triggers.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,243 @@
+/**
+ * PerformanceReportView Component
+ * Print layout of a performance report: summary stats, equity curve,
+ * breakdowns by symbol and tag, best and worst trades with notes, and the
+ * full trade list. Sized for A4 portrait; the chart has a fixed width so it
+ * prints the same as on screen.
+ */
+
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ReferenceLine } from 'recharts';
+import type { PerformanceReport, ReportBreakdownRow, ReportTrade } from '../utils/performanceReport';
+import { formatDuration, formatTimestampGMT } from '../utils/calculations';
+import { getTradeQuoteAsset } from '../utils/currency';
+import { formatPrice } from '../utils/symbolRules';
+
+interface PerformanceReportViewProps {
+  report: PerformanceReport;
+  /** Journal (account) name, or "All accounts" */
+  journalName: string;
+  homeCurrency: string;
+  generatedAt: number;
+}
+
+const CHART_WIDTH = 700;
+const CHART_HEIGHT = 240;
+
+function formatSigned(n: number): string {
+  return `${n >= 0 ? '+' : '-'}${formatPrice(Math.abs(n))}`;
+}
+
+function formatPercent(n: number | null): string {
+  return n != null ? `${(n * 100).toFixed(1)}%` : '—';
+}
+
+function formatR(n: number | null): string {
+  return n != null ? `${n.toFixed(2)}R` : '—';
+}
+
+function formatDay(ts: number): string {
+  return new Date(ts).toLocaleDateString(undefined, { timeZone: 'UTC', day: 'numeric', month: 'short' });
+}
+
+function formatDate(ts: number): string {
+  return new Date(ts).toLocaleDateString(undefined, { timeZone: 'UTC', dateStyle: 'medium' });
+}
+
+function pnlClass(n: number | null): string {
+  if (n == null) return 'text-gray-500';
+  return n >= 0 ? 'text-green-700' : 'text-red-700';
+}
+
+const BreakdownTable: React.FC<{ title: string; keyLabel: string; rows: ReportBreakdownRow[]; homeCurrency: string }> = ({
+  title,
+  keyLabel,
+  rows,
+  homeCurrency,
+}) => (
+  <section className="break-inside-avoid">
+    <h3 className="mb-2 text-sm font-semibold text-gray-900">{title}</h3>
+    {rows.length === 0 ? (
+      <p className="text-sm text-gray-500">No closed trades.</p>
+    ) : (
+      <table className="w-full text-xs">
+        <thead className="border-b border-gray-300 text-left text-gray-500">
+          <tr>
+            <th className="py-1 pr-2 font-medium">{keyLabel}</th>
+            <th className="py-1 pr-2 text-right font-medium">Trades</th>
+            <th className="py-1 pr-2 text-right font-medium">Win rate</th>
+            <th className="py-1 pr-2 text-right font-medium">Avg R</th>
+            <th className="py-1 text-right font-medium">Net PNL ({homeCurrency})</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.map((row) => (
+            <tr key={row.key} className="break-inside-avoid">
+              <td className="py-1 pr-2 font-medium">{row.key}</td>
+              <td className="py-1 pr-2 text-right">{row.trades}</td>
+              <td className="py-1 pr-2 text-right">{formatPercent(row.winRate)}</td>
+              <td className="py-1 pr-2 text-right">{formatR(row.averageR)}</td>
+              <td className={`py-1 text-right font-medium ${pnlClass(row.netPnl)}`}>{formatSigned(row.netPnl)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </section>
+);
+
+const HighlightList: React.FC<{ title: string; rows: ReportTrade[]; homeCurrency: string }> = ({ title, rows, homeCurrency }) => (
+  <section className="break-inside-avoid">
+    <h3 className="mb-2 text-sm font-semibold text-gray-900">{title}</h3>
+    {rows.length === 0 ? (
+      <p className="text-sm text-gray-500">None.</p>
+    ) : (
+      <ol className="space-y-2">
+        {rows.map(({ trade, netPnlHome, r }) => (
+          <li key={trade.id} className="break-inside-avoid rounded border border-gray-200 px-3 py-2 text-xs">
+            <div className="flex justify-between gap-3">
+              <span className="font-semibold">
+                {trade.symbol} {trade.position}
+              </span>
+              <span className={`font-semibold ${pnlClass(netPnlHome)}`}>
+                {netPnlHome != null ? `${formatSigned(netPnlHome)} ${homeCurrency}` : '—'} · {formatR(r)}
+              </span>
+            </div>
+            <p className="text-gray-500">
+              {formatTimestampGMT(trade.openTimestamp)}
+              {trade.closeTimestamp != null && ` → ${formatTimestampGMT(trade.closeTimestamp)}`}
+            </p>
+            {trade.notes && <p className="mt-1 whitespace-pre-wrap text-gray-700">{trade.notes}</p>}
+          </li>
+        ))}
+      </ol>
+    )}
+  </section>
+);
+
+export const PerformanceReportView: React.FC<PerformanceReportViewProps> = ({
+  report,
+  journalName,
+  homeCurrency,
+  generatedAt,
+}) => {
+  const { summary } = report;
+  const stats = [
+    { label: `Net PNL (${homeCurrency})`, value: formatSigned(summary.netPnl), className: pnlClass(summary.netPnl) },
+    { label: 'Closed trades', value: `${summary.closedCount} (${summary.wins} W / ${summary.losses} L)` },
+    { label: 'Win rate', value: formatPercent(summary.winRate) },
+    { label: 'Profit factor', value: summary.profitFactor != null ? summary.profitFactor.toFixed(2) : '—' },
+    { label: 'Average win', value: summary.averageWin != null ? formatSigned(summary.averageWin) : '—' },
+    { label: 'Average loss', value: summary.averageLoss != null ? formatSigned(summary.averageLoss) : '—' },
+    { label: 'Expectancy', value: formatR(summary.expectancyR) },
+    { label: 'Max drawdown', value: summary.maxDrawdown > 0 ? `-${formatPrice(summary.maxDrawdown)}` : '0' },
+    { label: 'Fees and funding', value: formatPrice(summary.costs) },
+    { label: 'Average hold', value: summary.averageHoldMs != null ? formatDuration(0, summary.averageHoldMs) : '—' },
+    { label: 'Still open', value: String(summary.openCount) },
+  ];
+
+  return (
+    <article className="mx-auto max-w-[760px] space-y-6 bg-white text-gray-900">
+      <header className="border-b border-gray-300 pb-3">
+        <h2 className="text-xl font-bold">Performance report — {journalName}</h2>
+        <p className="text-sm text-gray-600">
+          {formatDate(report.from)} to {formatDate(report.to)} (GMT) · amounts in{' '}
+          {homeCurrency} · generated {formatTimestampGMT(generatedAt)}
+        </p>
+        {summary.unconverted > 0 && (
+          <p className="mt-1 text-xs text-amber-700">
+            {summary.unconverted} closed trade{summary.unconverted === 1 ? '' : 's'} without a {homeCurrency} rate are left
+            out of the amounts.
+          </p>
+        )}
+      </header>
+
+      <section className="break-inside-avoid">
+        <dl className="grid grid-cols-4 gap-px overflow-hidden rounded-lg border border-gray-200 bg-gray-200 text-sm">
+          {stats.map((s) => (
+            <div key={s.label} className="bg-white px-3 py-2">
+              <dt className="text-xs text-gray-500">{s.label}</dt>
+              <dd className={`font-semibold ${s.className ?? ''}`}>{s.value}</dd>
+            </div>
+          ))}
+        </dl>
+      </section>
+
+      <section className="break-inside-avoid">
+        <h3 className="mb-2 text-sm font-semibold text-gray-900">Equity curve ({homeCurrency})</h3>
+        {report.equity.length < 2 ? (
+          <p className="text-sm text-gray-500">No closed trades in this range.</p>
+        ) : (
+          <LineChart width={CHART_WIDTH} height={CHART_HEIGHT} data={report.equity} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              scale="time"
+              domain={[report.from, report.to]}
+              tickFormatter={formatDay}
+              tick={{ fontSize: 11 }}
+            />
+            <YAxis tick={{ fontSize: 11 }} tickFormatter={(v: number) => v.toLocaleString()} width={70} />
+            <ReferenceLine y={0} stroke="#9ca3af" />
+            <Line type="stepAfter" dataKey="equity" stroke="#2563eb" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </LineChart>
+        )}
+      </section>
+
+      <div className="grid grid-cols-2 gap-6">
+        <BreakdownTable title="By symbol" keyLabel="Symbol" rows={report.bySymbol} homeCurrency={homeCurrency} />
+        <BreakdownTable title="By tag" keyLabel="Tag" rows={report.byTag} homeCurrency={homeCurrency} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        <HighlightList title="Best trades" rows={report.best} homeCurrency={homeCurrency} />
+        <HighlightList title="Worst trades" rows={report.worst} homeCurrency={homeCurrency} />
+      </div>
+
+      <section>
+        <h3 className="mb-2 text-sm font-semibold text-gray-900">All trades ({report.trades.length})</h3>
+        <table className="w-full text-xs">
+          <thead className="border-b border-gray-300 text-left text-gray-500">
+            <tr>
+              <th className="py-1 pr-2 font-medium">Opened</th>
+              <th className="py-1 pr-2 font-medium">Closed</th>
+              <th className="py-1 pr-2 font-medium">Symbol</th>
+              <th className="py-1 pr-2 font-medium">Side</th>
+              <th className="py-1 pr-2 text-right font-medium">Qty</th>
+              <th className="py-1 pr-2 text-right font-medium">Entry</th>
+              <th className="py-1 pr-2 text-right font-medium">Exit</th>
+              <th className="py-1 pr-2 text-right font-medium">Net PNL</th>
+              <th className="py-1 pr-2 text-right font-medium">{homeCurrency}</th>
+              <th className="py-1 pr-2 text-right font-medium">R</th>
+              <th className="py-1 font-medium">Tags</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {report.trades.map(({ trade, netPnl, netPnlHome, r }) => (
+              <tr key={trade.id} className="break-inside-avoid align-top">
+                <td className="py-1 pr-2 whitespace-nowrap">{formatTimestampGMT(trade.openTimestamp).replace(' GMT', '')}</td>
+                <td className="py-1 pr-2 whitespace-nowrap">
+                  {trade.closeTimestamp != null ? formatTimestampGMT(trade.closeTimestamp).replace(' GMT', '') : 'Open'}
+                </td>
+                <td className="py-1 pr-2 font-medium">{trade.symbol}</td>
+                <td className="py-1 pr-2">{trade.position}</td>
+                <td className="py-1 pr-2 text-right">{trade.quantity}</td>
+                <td className="py-1 pr-2 text-right">{formatPrice(trade.openPrice)}</td>
+                <td className="py-1 pr-2 text-right">{trade.closePrice != null ? formatPrice(trade.closePrice) : '—'}</td>
+                <td className={`py-1 pr-2 text-right ${pnlClass(netPnl)}`}>
+                  {netPnl != null ? `${formatSigned(netPnl)} ${getTradeQuoteAsset(trade)}` : '—'}
+                </td>
+                <td className={`py-1 pr-2 text-right ${pnlClass(netPnlHome)}`}>
+                  {netPnlHome != null ? formatSigned(netPnlHome) : '—'}
+                </td>
+                <td className="py-1 pr-2 text-right">{formatR(r)}</td>
+                <td className="py-1">{trade.tags?.join(', ') || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </article>
+  );
+};
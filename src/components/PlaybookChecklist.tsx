@@ -0,0 +1,92 @@
+/**
+ * PlaybookChecklist Component
+ * Playbook picker plus the chosen playbook's entry checklist to tick off.
+ * With the playbook's default risk, entry and stop, suggests a position size.
+ */
+
+import React from 'react';
+import type { Playbook } from './constants/types';
+import { calculatePositionSize } from '../utils/calculations';
+import { SelectBox } from './ui-components/SelectBox';
+
+interface PlaybookChecklistProps {
+  playbooks: Playbook[];
+  playbookId: string;
+  checkedRules: string[];
+  onChange: (playbookId: string, checkedRules: string[]) => void;
+  /** Average entry price so far, for the size suggestion */
+  entryPrice?: number | null;
+  stopLoss?: number;
+  quoteAsset?: string;
+  required?: boolean;
+}
+
+export const PlaybookChecklist: React.FC<PlaybookChecklistProps> = ({
+  playbooks,
+  playbookId,
+  checkedRules,
+  onChange,
+  entryPrice,
+  stopLoss,
+  quoteAsset = '$',
+  required = false,
+}) => {
+  const playbook = playbooks.find((p) => p.id === playbookId);
+  const options = playbooks.map((p) => ({ value: p.id, label: p.name }));
+  const unchecked = playbook ? playbook.rules.filter((r) => !checkedRules.includes(r.id)).length : 0;
+  const suggestedSize = playbook?.defaultRisk != null && entryPrice != null
+    ? calculatePositionSize(playbook.defaultRisk, entryPrice, stopLoss)
+    : null;
+
+  const toggleRule = (ruleId: string) => {
+    onChange(
+      playbookId,
+      checkedRules.includes(ruleId) ? checkedRules.filter((id) => id !== ruleId) : [...checkedRules, ruleId]
+    );
+  };
+
+  return (
+    <div>
+      <SelectBox
+        mode="single"
+        label={`Playbook${required ? ' *' : ''}`}
+        options={options}
+        value={playbookId || null}
+        onChange={(v) => onChange(v ?? '', [])}
+        placeholder={playbooks.length ? 'Select playbook' : 'No playbooks yet'}
+        allowClear={!required}
+        clearLabel="None"
+        disabled={playbooks.length === 0}
+        minWidth="160px"
+      />
+      {playbook && (
+        <div className="mt-2 rounded-lg border border-gray-200 bg-gray-50 p-3">
+          {playbook.description && <p className="mb-2 text-xs text-gray-600">{playbook.description}</p>}
+          <div className="space-y-1.5">
+            {playbook.rules.map((rule) => (
+              <label key={rule.id} className="flex cursor-pointer items-start gap-2 text-sm text-gray-800">
+                <input
+                  type="checkbox"
+                  checked={checkedRules.includes(rule.id)}
+                  onChange={() => toggleRule(rule.id)}
+                  className="mt-0.5 h-4 w-4 rounded border-gray-300 text-blue-600"
+                />
+                {rule.text}
+              </label>
+            ))}
+          </div>
+          <p className={`mt-2 text-xs ${unchecked > 0 ? 'text-amber-700' : 'text-green-700'}`}>
+            {unchecked > 0
+              ? `${unchecked} of ${playbook.rules.length} rules not met`
+              : 'All rules met'}
+            {suggestedSize != null && (
+              <span className="ml-2 text-gray-500">
+                · Size for {playbook.defaultRisk} {quoteAsset} risk: {Number(suggestedSize.toFixed(8))}
+              </span>
+            )}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+/**
+ * PnlTotalsBar Component
+ * Net realized PNL of the visible trades: per quote asset, plus the total
+ * converted into the home currency.
+ */
+
+import React from 'react';
+import type { PnlTotals } from '../utils/currency';
+import { formatPrice } from '../utils/symbolRules';
+
+interface PnlTotalsBarProps {
+  totals: PnlTotals;
+  homeCurrency: string;
+}
+
+function formatSigned(n: number): string {
+  return `${n >= 0 ? '+' : '-'}${formatPrice(Math.abs(n))}`;
+}
+
+export const PnlTotalsBar: React.FC<PnlTotalsBarProps> = ({ totals, homeCurrency }) => {
+  const quotes = Object.keys(totals.byQuote).sort();
+  if (quotes.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs">
+      {quotes.map((quote) => (
+        <span
+          key={quote}
+          className={totals.byQuote[quote] >= 0 ? 'text-green-700' : 'text-red-700'}
+        >
+          {formatSigned(totals.byQuote[quote])} {quote}
+        </span>
+      ))}
+      <span
+        className={`font-semibold ${totals.homeTotal >= 0 ? 'text-green-700' : 'text-red-700'}`}
+        title={totals.unconverted > 0 ? `${totals.unconverted} trade(s) without a ${homeCurrency} rate are excluded` : undefined}
+      >
+        ≈ {formatSigned(totals.homeTotal)} {homeCurrency}
+        {totals.unconverted > 0 && <span className="ml-1 font-normal text-amber-600">*</span>}
+      </span>
+    </div>
+  );
+};
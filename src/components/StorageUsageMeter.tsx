@@ -0,0 +1,76 @@
+/**
+ * StorageUsageMeter Component
+ * Bar of how full storage is (the tighter of the localStorage and browser
+ * limits) with what the trades and their history take.
+ */
+
+import React from 'react';
+import { STORAGE_BACKEND, STORAGE_USAGE_LEVEL, type StorageUsage } from './constants/types';
+import { formatFileSize } from '../utils/storageUsage';
+
+interface StorageUsageMeterProps {
+  usage: StorageUsage;
+}
+
+const barClass: Record<StorageUsage['level'], string> = {
+  [STORAGE_USAGE_LEVEL.OK]: 'bg-blue-500',
+  [STORAGE_USAGE_LEVEL.WARNING]: 'bg-amber-500',
+  [STORAGE_USAGE_LEVEL.CRITICAL]: 'bg-red-500',
+};
+
+const backendLabel: Record<StorageUsage['backend'], string> = {
+  [STORAGE_BACKEND.INDEXED_DB]: 'IndexedDB',
+  [STORAGE_BACKEND.LOCAL_STORAGE]: 'localStorage',
+  [STORAGE_BACKEND.MEMORY]: 'memory (not saved)',
+};
+
+export const StorageUsageMeter: React.FC<StorageUsageMeterProps> = ({ usage }) => {
+  const percent = Math.min(100, Math.round(usage.ratio * 100));
+  const rows = [
+    { label: `Trades (in ${backendLabel[usage.backend]})`, value: formatFileSize(usage.tradesBytes) },
+    { label: 'Trade history', value: formatFileSize(usage.historyBytes) },
+    {
+      label: 'localStorage',
+      value: `${formatFileSize(usage.localStorageBytes)} of about ${formatFileSize(usage.localStorageQuota)}`,
+    },
+    ...(usage.originUsage !== null && usage.originQuota
+      ? [
+          {
+            label: 'Browser storage (with attachments)',
+            value: `${formatFileSize(usage.originUsage)} of ${formatFileSize(usage.originQuota)}`,
+          },
+        ]
+      : []),
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-gray-700">{percent}% used</span>
+        {usage.level !== STORAGE_USAGE_LEVEL.OK && (
+          <span className={usage.level === STORAGE_USAGE_LEVEL.CRITICAL ? 'text-red-600' : 'text-amber-700'}>
+            {usage.level === STORAGE_USAGE_LEVEL.CRITICAL ? 'Almost full' : 'Getting full'}
+          </span>
+        )}
+      </div>
+      <div
+        className="h-2 overflow-hidden rounded-full bg-gray-200"
+        role="meter"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+        aria-label="Storage used"
+      >
+        <div className={`h-full ${barClass[usage.level]}`} style={{ width: `${percent}%` }} />
+      </div>
+      <dl className="divide-y divide-gray-100 rounded-lg border border-gray-200 text-sm">
+        {rows.map((row) => (
+          <div key={row.label} className="flex justify-between gap-4 px-4 py-2">
+            <dt className="text-gray-500">{row.label}</dt>
+            <dd className="text-right font-medium text-gray-900">{row.value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+};
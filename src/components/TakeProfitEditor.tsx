@@ -0,0 +1,100 @@
+/**
+ * TakeProfitEditor Component
+ * Editable take-profit targets (price + % of position) with the planned R:R
+ * they give against the current entry and stop loss.
+ */
+
+import React from 'react';
+import type { Position } from './constants/types';
+import { calculatePlannedRR } from '../utils/calculations';
+import { createTakeProfitDraft, toValidTakeProfits, type TakeProfitDraft } from '../utils/takeProfitDrafts';
+
+interface TakeProfitEditorProps {
+  position: Position;
+  /** Average entry price so far; null until the entry legs parse */
+  entryPrice: number | null;
+  stopLoss: number | undefined;
+  targets: TakeProfitDraft[];
+  onChange: (targets: TakeProfitDraft[]) => void;
+  quoteAsset?: string;
+}
+
+const inputClass =
+  'w-full rounded border border-gray-300 bg-white px-2 py-1.5 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+export const TakeProfitEditor: React.FC<TakeProfitEditorProps> = ({
+  position,
+  entryPrice,
+  stopLoss,
+  targets,
+  onChange,
+  quoteAsset = '$',
+}) => {
+  const plannedR = entryPrice != null
+    ? calculatePlannedRR(position, entryPrice, stopLoss, toValidTakeProfits(targets))
+    : null;
+
+  const updateTarget = (id: string, updates: Partial<TakeProfitDraft>) => {
+    onChange(targets.map((t) => (t.id === id ? { ...t, ...updates } : t)));
+  };
+
+  return (
+    <div>
+      <div className="mb-1.5 flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">
+          Take-profit targets (optional)
+        </label>
+        <button
+          type="button"
+          onClick={() => onChange([...targets, createTakeProfitDraft()])}
+          className="rounded border border-blue-300 px-2 py-0.5 text-xs font-medium text-blue-700 hover:bg-blue-50"
+        >
+          + Target
+        </button>
+      </div>
+      {targets.length > 0 && (
+        <div className="space-y-2">
+          {targets.map((target, i) => (
+            <div key={target.id} className="grid grid-cols-[3rem_1fr_1fr_2rem] items-center gap-2">
+              <span className="text-sm font-medium text-gray-600">TP{i + 1}</span>
+              <input
+                type="number"
+                step="any"
+                min={0}
+                value={target.price}
+                onChange={(e) => updateTarget(target.id, { price: e.target.value })}
+                className={inputClass}
+                placeholder={`Price (${quoteAsset})`}
+              />
+              <input
+                type="number"
+                step="any"
+                min={0}
+                max={100}
+                value={target.percent}
+                onChange={(e) => updateTarget(target.id, { percent: e.target.value })}
+                className={inputClass}
+                placeholder="% of position (auto)"
+              />
+              <button
+                type="button"
+                onClick={() => onChange(targets.filter((t) => t.id !== target.id))}
+                className="flex h-7 w-7 items-center justify-center rounded text-gray-400 hover:bg-gray-100 hover:text-gray-700"
+                aria-label="Remove target"
+              >
+                <span aria-hidden>&times;</span>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="mt-1.5 text-xs text-gray-500">
+        Planned R:R{' '}
+        <span className="font-semibold text-gray-700">
+          {plannedR != null ? `${plannedR.toFixed(2)}R` : '—'}
+        </span>
+        {plannedR == null && targets.length > 0 && ' (needs entry, stop loss and a target)'}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+/**
+ * TradeCostsFields Component
+ * Exchange fee schedule, maker/taker per side, and fee/commission/funding inputs.
+ * Fees are filled in from the schedule until the user types over them.
+ */
+
+import React from 'react';
+import { LIQUIDITY, type Liquidity } from './constants/types';
+import { FEE_SCHEDULES } from './constants/feeSchedules';
+import { getFeesDisplayValue, type TradeCostsDraft } from '../utils/tradeCostDrafts';
+import type { TradeLegDraft } from '../utils/tradeLegDrafts';
+import { SelectBox } from './ui-components/SelectBox';
+
+interface TradeCostsFieldsProps {
+  costs: TradeCostsDraft;
+  legs: TradeLegDraft[];
+  onChange: (costs: TradeCostsDraft) => void;
+  /** Asset costs are paid in (the trade's quote asset) */
+  quoteAsset?: string;
+}
+
+const scheduleOptions = FEE_SCHEDULES.map((s) => ({
+  value: s.id,
+  label: `${s.label} (${(s.makerRate * 100).toFixed(3)}% / ${(s.takerRate * 100).toFixed(3)}%)`,
+}));
+
+const inputClass = 'w-full border border-gray-300 rounded px-3 py-2';
+
+const LiquidityToggle: React.FC<{
+  label: string;
+  value: Liquidity;
+  onChange: (v: Liquidity) => void;
+}> = ({ label, value, onChange }) => (
+  <div>
+    <div className="mb-1 text-sm font-medium text-gray-700">{label}</div>
+    <div className="inline-flex rounded-lg border border-gray-200 bg-white p-0.5">
+      {([LIQUIDITY.MAKER, LIQUIDITY.TAKER] as const).map((opt) => (
+        <button
+          key={opt}
+          type="button"
+          onClick={() => onChange(opt)}
+          className={`rounded-md px-3 py-1.5 text-xs font-medium transition-colors ${
+            value === opt ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          {opt === LIQUIDITY.MAKER ? 'Maker' : 'Taker'}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export const TradeCostsFields: React.FC<TradeCostsFieldsProps> = ({
+  costs,
+  legs,
+  onChange,
+  quoteAsset = '$',
+}) => {
+  const feesValue = getFeesDisplayValue(costs, legs);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div className="sm:col-span-1">
+          <SelectBox
+            mode="single"
+            label="Fee schedule"
+            options={scheduleOptions}
+            value={costs.exchange || null}
+            onChange={(v) => onChange({ ...costs, exchange: v ?? '', fees: v ? null : costs.fees })}
+            placeholder="None"
+            allowClear
+            clearLabel="None"
+            minWidth="120px"
+            dropdownMinWidth="260px"
+          />
+        </div>
+        {costs.exchange && (
+          <>
+            <LiquidityToggle
+              label="Entries"
+              value={costs.entryLiquidity}
+              onChange={(v) => onChange({ ...costs, entryLiquidity: v })}
+            />
+            <LiquidityToggle
+              label="Exits"
+              value={costs.exitLiquidity}
+              onChange={(v) => onChange({ ...costs, exitLiquidity: v })}
+            />
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Fees ({quoteAsset})
+            {costs.exchange && costs.fees !== null && (
+              <button
+                type="button"
+                onClick={() => onChange({ ...costs, fees: null })}
+                className="ml-2 text-xs font-medium text-blue-600 hover:underline"
+              >
+                use schedule
+              </button>
+            )}
+          </label>
+          <input
+            type="number"
+            step="any"
+            min={0}
+            value={feesValue}
+            onChange={(e) => onChange({ ...costs, fees: e.target.value })}
+            className={inputClass}
+            placeholder="0.00"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Commission ({quoteAsset})</label>
+          <input
+            type="number"
+            step="any"
+            min={0}
+            value={costs.commission}
+            onChange={(e) => onChange({ ...costs, commission: e.target.value })}
+            className={inputClass}
+            placeholder="0.00"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Funding ({quoteAsset}) <span className="font-normal text-gray-400">(− = received)</span>
+          </label>
+          <input
+            type="number"
+            step="any"
+            value={costs.funding}
+            onChange={(e) => onChange({ ...costs, funding: e.target.value })}
+            className={inputClass}
+            placeholder="0.00"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
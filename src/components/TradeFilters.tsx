@@ -1,18 +1,26 @@
 /**
  * TradeFilters Component
- * Filter by symbol, position, status, entry (Buy/Sell), tags, search notes.
+ * Filter by symbol, position, status, entry (Buy/Sell), tags, playbook, mistakes, emotion, execution grade, search notes.
  * Uses shared SelectBox from ui-components.
  */
 
 import React, { useMemo } from 'react';
-import type { Trade, TradeFilters as TradeFiltersType } from './constants/types';
-import { POSITION_OPTIONS, STATUS_OPTIONS, ENTRY_TYPE_OPTIONS } from './constants/filterOptions';
+import type { MistakeCategory, Playbook, Trade, TradeFilters as TradeFiltersType } from './constants/types';
+import {
+  POSITION_OPTIONS,
+  STATUS_OPTIONS,
+  ENTRY_TYPE_OPTIONS,
+  EMOTION_RATING_OPTIONS,
+  EXECUTION_GRADE_OPTIONS,
+} from './constants/filterOptions';
 import { SelectBox } from './ui-components/SelectBox';
 
 interface TradeFiltersProps {
   trades: Trade[];
   filters: TradeFiltersType;
   onFiltersChange: (f: TradeFiltersType) => void;
+  playbooks?: Playbook[];
+  mistakeCategories?: MistakeCategory[];
 }
 
 const labelBase = 'mb-1.5 block text-xs font-semibold uppercase tracking-wider text-gray-500';
@@ -21,6 +29,8 @@ export const TradeFilters: React.FC<TradeFiltersProps> = ({
   trades,
   filters,
   onFiltersChange,
+  playbooks = [],
+  mistakeCategories = [],
 }) => {
   const uniqueSymbols = useMemo(() => {
     const set = new Set(trades.map((t) => t.symbol.toUpperCase()));
@@ -33,6 +43,16 @@ export const TradeFilters: React.FC<TradeFiltersProps> = ({
     return Array.from(set).sort();
   }, [trades]);
 
+  const playbookOptions = useMemo(
+    () => playbooks.map((p) => ({ value: p.id, label: p.name })),
+    [playbooks]
+  );
+
+  const mistakeOptions = useMemo(
+    () => mistakeCategories.map((c) => ({ value: c.id, label: c.label })),
+    [mistakeCategories]
+  );
+
   return (
     <div className="sticky top-0 z-30 mb-6 overflow-visible rounded-xl border border-gray-200 bg-white p-5 shadow-sm">
       <div className="flex flex-wrap items-end gap-5">
@@ -98,6 +118,60 @@ export const TradeFilters: React.FC<TradeFiltersProps> = ({
           dropdownMaxHeight="160px"
         />
 
+        {playbookOptions.length > 0 && (
+          <SelectBox
+            mode="single"
+            label="Playbook"
+            options={playbookOptions}
+            value={filters.playbookId || null}
+            onChange={(v) => onFiltersChange({ ...filters, playbookId: v ?? '' })}
+            placeholder="All"
+            allowClear
+            clearLabel="All"
+            minWidth="140px"
+            dropdownMaxHeight="160px"
+          />
+        )}
+
+        {mistakeOptions.length > 0 && (
+          <SelectBox
+            mode="multi"
+            label="Mistakes"
+            options={mistakeOptions}
+            value={filters.mistakes}
+            onChange={(mistakes) => onFiltersChange({ ...filters, mistakes })}
+            placeholder="All"
+            selectAllLabel="All"
+            minWidth="160px"
+            dropdownMinWidth="180px"
+            dropdownMaxHeight="160px"
+          />
+        )}
+
+        <SelectBox
+          mode="multi"
+          label="Emotion"
+          options={EMOTION_RATING_OPTIONS}
+          value={filters.emotionRatings}
+          onChange={(emotionRatings) => onFiltersChange({ ...filters, emotionRatings })}
+          placeholder="All"
+          selectAllLabel="All"
+          minWidth="140px"
+          dropdownMinWidth="160px"
+        />
+
+        <SelectBox
+          mode="multi"
+          label="Execution"
+          options={EXECUTION_GRADE_OPTIONS}
+          value={filters.executionGrades}
+          onChange={(executionGrades) => onFiltersChange({ ...filters, executionGrades })}
+          placeholder="All"
+          selectAllLabel="All"
+          minWidth="140px"
+          dropdownMinWidth="160px"
+        />
+
         <div className="min-w-[200px] flex-1">
           <label htmlFor="filter-search" className={labelBase}>
             Search notes
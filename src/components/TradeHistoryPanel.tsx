@@ -0,0 +1,90 @@
+/**
+ * TradeHistoryPanel Component
+ * Audit trail of a trade (newest first): each revision's action, time and
+ * field-level before → after diff, with Restore to return to that version.
+ */
+
+import React from 'react';
+import { REVISION_ACTION, type Trade, type TradeRevision } from './constants/types';
+import { formatTimestampGMT } from '../utils/calculations';
+import { formatRevisionValue, getRevisionActionLabel, isRevisionCurrent } from '../utils/tradeHistory';
+import { TruncateWithTooltip } from './ui-components/TruncateWithTooltip';
+
+interface TradeHistoryPanelProps {
+  trade: Trade;
+  /** Revisions of this trade, newest first */
+  revisions: TradeRevision[];
+  onRestore?: (revision: TradeRevision) => void;
+}
+
+const actionClass: Record<TradeRevision['action'], string> = {
+  [REVISION_ACTION.CREATE]: 'bg-green-100 text-green-800',
+  [REVISION_ACTION.UPDATE]: 'bg-blue-100 text-blue-800',
+  [REVISION_ACTION.DELETE]: 'bg-red-100 text-red-800',
+  [REVISION_ACTION.RESTORE]: 'bg-amber-100 text-amber-800',
+};
+
+export const TradeHistoryPanel: React.FC<TradeHistoryPanelProps> = ({ trade, revisions, onRestore }) => {
+  if (revisions.length === 0) {
+    return (
+      <p className="rounded-lg bg-gray-50 p-4 text-sm text-gray-500">
+        No recorded changes yet. Edits made from now on are kept here.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="space-y-3">
+      {revisions.map((revision) => {
+        const isCurrent = isRevisionCurrent(revision, trade);
+        return (
+          <li key={revision.id} className="rounded-lg border border-gray-200 bg-white">
+            <div className="flex items-center justify-between gap-3 border-b border-gray-100 px-4 py-2.5">
+              <div className="flex items-center gap-3">
+                <span className={`inline-flex rounded px-2 py-0.5 text-xs font-semibold ${actionClass[revision.action]}`}>
+                  {getRevisionActionLabel(revision.action)}
+                </span>
+                <span className="text-sm text-gray-600">{formatTimestampGMT(revision.timestamp)}</span>
+              </div>
+              {isCurrent ? (
+                <span className="text-xs font-medium text-gray-400">Current version</span>
+              ) : (
+                onRestore && (
+                  <button
+                    type="button"
+                    onClick={() => onRestore(revision)}
+                    className="rounded border border-gray-300 bg-white px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50"
+                  >
+                    Restore
+                  </button>
+                )
+              )}
+            </div>
+            {revision.changes.length > 0 ? (
+              <table className="min-w-full text-sm">
+                <tbody className="divide-y divide-gray-100">
+                  {revision.changes.map((change) => (
+                    <tr key={change.field}>
+                      <td className="w-40 px-4 py-1.5 font-medium text-gray-700">{change.field}</td>
+                      <td className="px-4 py-1.5 font-mono text-red-700">
+                        <TruncateWithTooltip text={formatRevisionValue(change.before)} maxWidth="14rem" />
+                      </td>
+                      <td className="px-1 py-1.5 text-gray-400">→</td>
+                      <td className="px-4 py-1.5 font-mono text-green-700">
+                        <TruncateWithTooltip text={formatRevisionValue(change.after)} maxWidth="14rem" />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="px-4 py-2 text-xs text-gray-500">
+                {revision.action === REVISION_ACTION.CREATE ? 'Trade added to the journal' : 'No field changes'}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
@@ -0,0 +1,152 @@
+/**
+ * TradeLegsEditor Component
+ * Editable list of execution legs (scale-ins and partial exits) for a trade.
+ * Used in CreateTradeModal and TradeDetailModal; parent owns the drafts.
+ */
+
+import React from 'react';
+import { LEG_SIDE, type LegSide, type Position, type SymbolRules } from './constants/types';
+import { toDateTimeLocalGMT, fromDateTimeLocalGMT } from '../utils/calculations';
+import { createLegDraft, getDraftQuantities, type TradeLegDraft } from '../utils/tradeLegDrafts';
+
+interface TradeLegsEditorProps {
+  position: Position;
+  legs: TradeLegDraft[];
+  onChange: (legs: TradeLegDraft[]) => void;
+  /** Lot size / tick size of the symbol; drives input steps and the hint line */
+  rules?: SymbolRules;
+  /** Asset prices are entered in (e.g. USDT, BTC) */
+  quoteAsset?: string;
+  /** Optional hint rendered next to the section label (e.g. price loading) */
+  labelHint?: React.ReactNode;
+}
+
+/** Entry leg: LONG = Buy, SHORT = Sell; exit is the opposite */
+function getLegLabel(side: LegSide, position: Position): string {
+  const isBuy = (side === LEG_SIDE.ENTRY) === (position === 'LONG');
+  return `${side === LEG_SIDE.ENTRY ? 'Entry' : 'Exit'} (${isBuy ? 'Buy' : 'Sell'})`;
+}
+
+const inputClass =
+  'w-full rounded border border-gray-300 bg-white px-2 py-1.5 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+export const TradeLegsEditor: React.FC<TradeLegsEditorProps> = ({
+  position,
+  legs,
+  onChange,
+  rules,
+  quoteAsset = '$',
+  labelHint,
+}) => {
+  const quantities = getDraftQuantities(legs);
+  const openQuantity = Number((quantities.entry - quantities.exit).toFixed(8));
+
+  const updateLeg = (id: string, updates: Partial<TradeLegDraft>) => {
+    onChange(legs.map((l) => (l.id === id ? { ...l, ...updates } : l)));
+  };
+
+  const addLeg = (side: LegSide) => {
+    const lastTimestamp = legs.length > 0 ? Math.max(...legs.map((l) => l.timestamp)) : Date.now();
+    const quantity = side === LEG_SIDE.EXIT && openQuantity > 0 ? String(openQuantity) : '';
+    onChange([...legs, createLegDraft(side, lastTimestamp, '', quantity)]);
+  };
+
+  return (
+    <div>
+      <div className="mb-1.5 flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">
+          Executions * {labelHint}
+        </label>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => addLeg(LEG_SIDE.ENTRY)}
+            className="rounded border border-green-300 px-2 py-0.5 text-xs font-medium text-green-700 hover:bg-green-50"
+          >
+            + Entry
+          </button>
+          <button
+            type="button"
+            onClick={() => addLeg(LEG_SIDE.EXIT)}
+            className="rounded border border-red-300 px-2 py-0.5 text-xs font-medium text-red-700 hover:bg-red-50"
+          >
+            + Exit
+          </button>
+        </div>
+      </div>
+      <div className="overflow-hidden rounded-lg border border-gray-200">
+        <div className="grid grid-cols-[7rem_1fr_1fr_1fr_2rem] gap-2 bg-gray-50 px-3 py-2 text-xs font-semibold uppercase text-gray-500">
+          <span>Leg</span>
+          <span>Time (GMT)</span>
+          <span>Price ({quoteAsset})</span>
+          <span>Quantity</span>
+          <span />
+        </div>
+        {legs.map((leg) => (
+          <div
+            key={leg.id}
+            className="grid grid-cols-[7rem_1fr_1fr_1fr_2rem] items-center gap-2 border-t border-gray-100 px-3 py-2"
+          >
+            <span
+              className={`text-sm font-medium ${
+                leg.side === LEG_SIDE.ENTRY ? 'text-green-700' : 'text-red-700'
+              }`}
+            >
+              {getLegLabel(leg.side, position)}
+            </span>
+            <input
+              type="datetime-local"
+              value={toDateTimeLocalGMT(leg.timestamp)}
+              onChange={(e) => updateLeg(leg.id, { timestamp: fromDateTimeLocalGMT(e.target.value) })}
+              className={inputClass}
+            />
+            <input
+              type="number"
+              step={rules ? rules.tickSize : 'any'}
+              min={0}
+              value={leg.price}
+              onKeyDown={(e) => { if (e.key === '-' || e.key === 'e' || e.key === 'E') e.preventDefault(); }}
+              onChange={(e) => {
+                const v = e.target.value;
+                if (v !== '' && parseFloat(v) < 0) return;
+                updateLeg(leg.id, { price: v });
+              }}
+              className={inputClass}
+              placeholder="0.00"
+            />
+            <input
+              type="number"
+              step={rules ? rules.stepSize : 'any'}
+              min={0}
+              value={leg.quantity}
+              onKeyDown={(e) => { if (e.key === '-' || e.key === 'e' || e.key === 'E') e.preventDefault(); }}
+              onChange={(e) => {
+                const v = e.target.value;
+                if (v !== '' && parseFloat(v) < 0) return;
+                updateLeg(leg.id, { quantity: v });
+              }}
+              className={inputClass}
+            />
+            <button
+              type="button"
+              onClick={() => onChange(legs.filter((l) => l.id !== leg.id))}
+              disabled={legs.length === 1}
+              className="flex h-7 w-7 items-center justify-center rounded text-gray-400 hover:bg-gray-100 hover:text-gray-700 disabled:cursor-not-allowed disabled:opacity-40"
+              aria-label="Remove leg"
+            >
+              <span aria-hidden>&times;</span>
+            </button>
+          </div>
+        ))}
+      </div>
+      <p className="mt-1.5 text-xs text-gray-500">
+        Entered {quantities.entry} · Exited {quantities.exit} · Open {openQuantity}
+        {rules && (
+          <span className="ml-2 text-gray-400">
+            (qty step {rules.stepSize}, min {rules.minQty} · price tick {rules.tickSize})
+          </span>
+        )}
+      </p>
+    </div>
+  );
+};
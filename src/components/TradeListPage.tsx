@@ -4,24 +4,77 @@
  * Syncs API + localStorage via hooks.
  */
 
-import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import { useTrades } from '../hooks/useTrades';
 import { useMarketData } from '../hooks/useMarketData';
+import { useSymbolRules } from '../hooks/useSymbolRules';
+import { useCoins } from '../hooks/useCoins';
+import { usePlaybooks } from '../hooks/usePlaybooks';
+import { useMistakeCategories } from '../hooks/useMistakeCategories';
+import { useJournals } from '../hooks/useJournals';
+import { useSync } from '../hooks/useSync';
+import { useStorageUsage } from '../hooks/useStorageUsage';
 import { TradeTable } from './TradeTable';
 import { TradeFilters } from './TradeFilters';
 import { TradeDetailModal } from './modals/TradeDetailModal';
 import { CreateTradeModal } from './modals/CreateTradeModal';
+import { PlaybooksModal } from './modals/PlaybooksModal';
+import { MistakesModal } from './modals/MistakesModal';
+import { JournalsModal } from './modals/JournalsModal';
+import { QuarantineModal } from './modals/QuarantineModal';
+import { SecurityModal } from './modals/SecurityModal';
+import { BackupModal } from './modals/BackupModal';
+import { SyncModal } from './modals/SyncModal';
+import { ImportTradesModal } from './modals/ImportTradesModal';
+import { ExportTradesModal } from './modals/ExportTradesModal';
+import { ReportModal } from './modals/ReportModal';
+import { TaxReportModal } from './modals/TaxReportModal';
 import { ConfirmModal } from './modals/ConfirmModal';
+import { PnlTotalsBar } from './PnlTotalsBar';
+import { SelectBox } from './ui-components/SelectBox';
+import { Toast } from './ui-components/Toast';
 import { filterTrades, sortTradesByOpenTimestamp } from '../utils/tradeFilters';
 import { tradeStorageService } from '../services/tradeStorageService';
-import { loadFilters, saveFilters } from '../utils/filterStorage';
-import { CONFIRM_MODAL_VARIANT, type Trade, type TradeFilters as TradeFiltersType } from './constants/types';
+import { tradeHistoryService } from '../services/tradeHistoryService';
+import { attachmentService } from '../services/attachmentService';
+import { backupService } from '../services/backupService';
+import { encryptionService } from '../services/encryptionService';
+import { exportService } from '../services/exportService';
+import { buildTradeExport } from '../utils/tradeExport';
+import { loadFilters, removeFilters, saveFilters, subscribeFilters } from '../utils/filterStorage';
+import { ALL_JOURNALS_ID, DEFAULT_JOURNAL_ID, filterTradesByJournal } from '../utils/journals';
+import { loadDemoLoaded, loadSettings, saveDemoLoaded, saveSettings } from '../utils/settingsStorage';
+import { getSyncStatusLabel } from '../utils/sync';
+import {
+  getConversionSteps,
+  getLiveHomeRates,
+  getTradeQuoteAsset,
+  summarizePnlTotals,
+  type ConversionStep,
+} from '../utils/currency';
+import { fetchConversionRate } from '../services/conversionService';
+import { HOME_CURRENCY_OPTIONS } from './constants/filterOptions';
+import {
+  CONFIRM_MODAL_VARIANT,
+  EXPORT_SCOPE,
+  STORAGE_USAGE_LEVEL,
+  SYNC_STATUS,
+  type AppSettings,
+  type ExportFormat,
+  type ExportScope,
+  type Journal,
+  type QuarantinedRecord,
+  type RestorePlan,
+  type Trade,
+  type TradeFilters as TradeFiltersType,
+  type TradeRevision,
+} from './constants/types';
 import { mockTrades } from '../data/mockTrades';
 
-const DEMO_LOADED_KEY = 'trade_journal_demo_loaded';
-
-function getDemoLoaded(): boolean {
-  return localStorage.getItem(DEMO_LOADED_KEY) === 'true';
+/** Text fields keep their native Ctrl+Z */
+function isTextInput(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
 }
 
 const defaultFilters: TradeFiltersType = {
@@ -30,39 +83,271 @@ const defaultFilters: TradeFiltersType = {
   status: '',
   entryType: '',
   tags: [],
+  playbookId: '',
+  mistakes: [],
+  emotionRatings: [],
+  executionGrades: [],
   searchNotes: '',
 };
 
-export const TradeListPage: React.FC = () => {
-  const { trades, addTrade, updateTrade, deleteTrade, loadTrades } = useTrades();
+function loadViewFilters(journalId: string): TradeFiltersType {
+  const loaded = loadFilters(journalId);
+  return loaded ? { ...defaultFilters, ...loaded } : defaultFilters;
+}
+
+/**
+ * Ids of every attachment something can still bring back: trades, revision
+ * snapshots (History restore) and quarantined records (fixed and restored).
+ * null when a quarantined record can't be read (raw text, or sealed with
+ * another passphrase), as it may refer to any file.
+ */
+function getReferencedAttachmentIds(
+  trades: Trade[],
+  history: TradeRevision[],
+  quarantine: QuarantinedRecord[]
+): Set<string> | null {
+  const ids = new Set<string>();
+  const add = (record: unknown) => {
+    const attachments = (record as Partial<Trade> | null)?.attachments;
+    if (!Array.isArray(attachments)) return;
+    attachments.forEach((a) => {
+      if (typeof a?.id === 'string') ids.add(a.id);
+    });
+  };
+  trades.forEach(add);
+  history.forEach((r) => add(r.snapshot));
+  for (const q of quarantine) {
+    if (typeof q.record !== 'object' || q.record === null || 'sealed' in q.record) return null;
+    add(q.record);
+  }
+  return ids;
+}
+
+interface TradeListPageProps {
+  /** Lock the encrypted journal (drops the key and shows the unlock screen) */
+  onLock: () => void;
+}
+
+export const TradeListPage: React.FC<TradeListPageProps> = ({ onLock }) => {
+  const {
+    trades,
+    isLoading,
+    history,
+    addTrade,
+    addTrades,
+    updateTrade,
+    deleteTrades,
+    moveTrades,
+    restoreRevision,
+    loadTrades,
+    quarantine,
+    discardQuarantined,
+    restoreQuarantined,
+    resealAll,
+    saveError,
+    retrySave,
+    loadError,
+    restoreBackup,
+    applyServerChanges,
+    undo,
+    redo,
+    lastRemoteChange,
+    undoLabel,
+    redoLabel,
+  } = useTrades();
+  const { playbooks, savePlaybook, deletePlaybook, replacePlaybooks } = usePlaybooks();
+  const { categories: mistakeCategories, saveCategories: saveMistakeCategories } = useMistakeCategories();
+  const { journals, saveJournals } = useJournals();
+  const sync = useSync(trades, applyServerChanges);
+  const { usage: storageUsage } = useStorageUsage(trades, history, isLoading);
+  const [retryingSave, setRetryingSave] = useState(false);
   const [wsReconnectTrigger, setWsReconnectTrigger] = useState(0);
 
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const homeCurrency = settings.homeCurrency;
+  const { coins } = useCoins();
+
+  const handleHomeCurrencyChange = useCallback((currency: string) => {
+    setSettings((prev) => {
+      const next = { ...prev, homeCurrency: currency };
+      saveSettings(next);
+      return next;
+    });
+  }, []);
+
+  const handleTaxSettingsChange = useCallback((changes: Partial<AppSettings>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...changes };
+      saveSettings(next);
+      return next;
+    });
+  }, []);
+
+  /** Journal shown in the table (ALL_JOURNALS_ID = combined view); a removed journal falls back to the default */
+  const viewJournalId =
+    settings.journalId === ALL_JOURNALS_ID || journals.some((j) => j.id === settings.journalId)
+      ? settings.journalId
+      : DEFAULT_JOURNAL_ID;
+  /** Journal new trades go into */
+  const targetJournalId = viewJournalId === ALL_JOURNALS_ID ? DEFAULT_JOURNAL_ID : viewJournalId;
+
+  const journalTrades = useMemo(
+    () => filterTradesByJournal(trades, viewJournalId),
+    [trades, viewJournalId]
+  );
+
+  const journalNames = useMemo(
+    () => Object.fromEntries(journals.map((j) => [j.id, j.name])),
+    [journals]
+  );
+
+  const journalOptions = useMemo(
+    () => [{ value: ALL_JOURNALS_ID, label: 'All accounts' }, ...journals.map((j) => ({ value: j.id, label: j.name }))],
+    [journals]
+  );
+
   const symbols = useMemo(
-    () => tradeStorageService.getUniqueSymbols(trades),
-    [trades]
+    () => tradeStorageService.getUniqueSymbols(journalTrades),
+    [journalTrades]
   );
 
-  const { data: marketData,  error } = useMarketData(symbols, wsReconnectTrigger);
+  /**
+   * Market pairs converting each quote asset into the home currency. Every
+   * journal's trades, not just the shown one: the report and tax modals can
+   * pick any account.
+   */
+  const conversionSteps = useMemo(() => {
+    const available = new Set(coins.map((c) => c.symbol));
+    const steps: Record<string, ConversionStep[] | null> = {};
+    trades.forEach((t) => {
+      const quote = getTradeQuoteAsset(t);
+      if (!(quote in steps)) steps[quote] = getConversionSteps(quote, homeCurrency, available);
+    });
+    return steps;
+  }, [trades, coins, homeCurrency]);
+
+  const marketSymbols = useMemo(() => {
+    const set = new Set(symbols);
+    Object.values(conversionSteps).forEach((steps) => steps?.forEach((s) => set.add(s.symbol)));
+    return Array.from(set);
+  }, [symbols, conversionSteps]);
 
-  const [filters, setFilters] = useState<TradeFiltersType>(() => {
-    const loaded = loadFilters();
-    return loaded ? { ...defaultFilters, ...loaded } : defaultFilters;
-  });
+  const { data: marketData,  error } = useMarketData(marketSymbols, wsReconnectTrigger);
+  const symbolRules = useSymbolRules();
+
+  const homeRates = useMemo(
+    () => getLiveHomeRates(conversionSteps, marketData),
+    [conversionSteps, marketData]
+  );
+
+  // Files of deleted trades are kept for undo within the session; drop them on the next load,
+  // once the stored trades are in (before that, or after a failed load, the lists are empty).
+  // Files a revision or a quarantined record refers to are kept
+  const prunedRef = useRef(false);
+  useEffect(() => {
+    if (isLoading || loadError || prunedRef.current) return;
+    prunedRef.current = true;
+    const ids = getReferencedAttachmentIds(trades, history, quarantine);
+    if (!ids) return;
+    attachmentService.prune(ids).catch((err) => console.error('Failed to prune attachments:', err));
+  }, [isLoading, loadError, trades, history, quarantine]);
+
+  // Store the quote → home rate at close time on closed trades that don't have one
+  const pendingConversionsRef = useRef(new Set<string>());
+  useEffect(() => {
+    trades.forEach((t) => {
+      if (t.status !== 'CLOSED' || t.closeTimestamp == null) return;
+      const quote = getTradeQuoteAsset(t);
+      if (quote === homeCurrency) return;
+      if (t.homeConversion?.currency === homeCurrency && t.homeConversion.timestamp === t.closeTimestamp) return;
+      const closeTimestamp = t.closeTimestamp;
+      const key = `${t.id}:${homeCurrency}:${closeTimestamp}`;
+      if (pendingConversionsRef.current.has(key)) return;
+      pendingConversionsRef.current.add(key);
+      fetchConversionRate(quote, homeCurrency, closeTimestamp)
+        .then((rate) => {
+          updateTrade(
+            t.id,
+            { homeConversion: { currency: homeCurrency, rate, timestamp: closeTimestamp } },
+            { background: true }
+          );
+        })
+        .catch(() => {
+          // live rate is used until a stored one is available
+        });
+    });
+  }, [trades, homeCurrency, updateTrade]);
+
+  // Each journal (and the combined view) keeps its own saved filters
+  const [filters, setFilters] = useState<TradeFiltersType>(() => loadViewFilters(viewJournalId));
+
+  // A new key (or none) applies to the attachment files too; Retry after a failed save only rewrites the trades
+  const handleReseal = useCallback(async () => {
+    await resealAll();
+    await attachmentService.reseal();
+  }, [resealAll]);
 
   const handleFiltersChange = useCallback((f: TradeFiltersType) => {
     setFilters(f);
-    saveFilters(f);
+    saveFilters(viewJournalId, f);
+  }, [viewJournalId]);
+
+  const handleJournalChange = useCallback((journalId: string) => {
+    setSettings((prev) => {
+      const next = { ...prev, journalId };
+      saveSettings(next);
+      return next;
+    });
+    setFilters(loadViewFilters(journalId));
+    setSelectedTradeIds([]);
   }, []);
+
+  // Filters of the shown journal changed in another tab (already saved there)
+  useEffect(
+    () => subscribeFilters(viewJournalId, (f) => setFilters({ ...defaultFilters, ...f })),
+    [viewJournalId]
+  );
   const [selectedTradeId, setSelectedTradeId] = useState<string | null>(null);
   const [selectedTradeIds, setSelectedTradeIds] = useState<string[]>([]);
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [showPlaybooks, setShowPlaybooks] = useState(false);
+  const [showMistakes, setShowMistakes] = useState(false);
+  const [showJournals, setShowJournals] = useState(false);
+  const [showQuarantine, setShowQuarantine] = useState(false);
+  const [showSecurity, setShowSecurity] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showSync, setShowSync] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [showTaxReport, setShowTaxReport] = useState(false);
   const [showLoadDemoConfirm, setShowLoadDemoConfirm] = useState(false);
   const [showDeleteSelectedConfirm, setShowDeleteSelectedConfirm] = useState(false);
-  const [demoLoaded, setDemoLoaded] = useState(getDemoLoaded);
+  const [demoLoaded, setDemoLoaded] = useState(loadDemoLoaded);
   const [loadDemoHighlighted, setLoadDemoHighlighted] = useState(false);
+  const [toast, setToast] = useState<{ id: number; message: string; undoable?: boolean } | null>(null);
+  /** Id of the open trade after another tab saved it */
+  const [changedElsewhereId, setChangedElsewhereId] = useState<string | null>(null);
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextInput(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   useEffect(() => {
-    if (!getDemoLoaded()) {
+    if (!loadDemoLoaded()) {
       setLoadDemoHighlighted(true);
       const timer = setTimeout(() => setLoadDemoHighlighted(false), 2000);
       return () => clearTimeout(timer);
@@ -70,15 +355,40 @@ export const TradeListPage: React.FC = () => {
   }, []);
 
   const filteredTrades = useMemo(() => {
-    const filtered = filterTrades(trades, filters);
+    const filtered = filterTrades(journalTrades, filters);
     return sortTradesByOpenTimestamp(filtered, true);
-  }, [trades, filters]);
+  }, [journalTrades, filters]);
+
+  const pnlTotals = useMemo(
+    () => summarizePnlTotals(filteredTrades, homeCurrency, homeRates),
+    [filteredTrades, homeCurrency, homeRates]
+  );
 
   const selectedTrade = useMemo(
     () => (selectedTradeId ? trades.find((t) => t.id === selectedTradeId) ?? null : null),
     [trades, selectedTradeId]
   );
 
+  // A save in another tab touched the open trade: flag it, or close the modal if it was deleted
+  const handledRemoteChangeRef = useRef(lastRemoteChange);
+  useEffect(() => {
+    if (!lastRemoteChange || handledRemoteChangeRef.current === lastRemoteChange) return;
+    handledRemoteChangeRef.current = lastRemoteChange;
+    const change = lastRemoteChange.changes.find((c) => c.id === selectedTradeId);
+    if (!change) return;
+    if (change.trade) {
+      setChangedElsewhereId(change.id);
+      return;
+    }
+    setSelectedTradeId(null);
+    setToast({ id: Date.now(), message: 'The open trade was deleted in another tab', undoable: false });
+  }, [lastRemoteChange, selectedTradeId]);
+
+  const selectedTradeHistory = useMemo(
+    () => (selectedTradeId ? tradeHistoryService.getForTrade(history, selectedTradeId) : []),
+    [history, selectedTradeId]
+  );
+
   const existingTags = useMemo(() => {
     const set = new Set<string>();
     trades.forEach((t) => (t.tags || []).forEach((tag) => set.add(tag)));
@@ -110,37 +420,112 @@ export const TradeListPage: React.FC = () => {
   }, []);
 
   const handleConfirmDeleteSelected = useCallback(() => {
-    selectedTradeIds.forEach((id) => deleteTrade(id));
+    deleteTrades(selectedTradeIds);
+    setToast({
+      id: Date.now(),
+      message: selectedTradeIds.length === 1 ? 'Trade deleted' : `${selectedTradeIds.length} trades deleted`,
+    });
     setSelectedTradeIds([]);
     setShowDeleteSelectedConfirm(false);
-  }, [selectedTradeIds, deleteTrade]);
+  }, [selectedTradeIds, deleteTrades]);
+
+  const handleMoveSelected = useCallback((journalId: string) => {
+    const name = journalNames[journalId] ?? 'journal';
+    moveTrades(selectedTradeIds, journalId);
+    setToast({
+      id: Date.now(),
+      message: selectedTradeIds.length === 1 ? `Trade moved to ${name}` : `${selectedTradeIds.length} trades moved to ${name}`,
+    });
+    setSelectedTradeIds([]);
+  }, [selectedTradeIds, moveTrades, journalNames]);
+
+  /** Removed journals are empty: JournalsModal only removes those, a replace restore deletes their trades */
+  const handleSaveJournals = useCallback((next: Journal[]) => {
+    journals.filter((j) => !next.some((n) => n.id === j.id)).forEach((j) => removeFilters(j.id));
+    saveJournals(next);
+  }, [journals, saveJournals]);
+
+  const backupSource = useMemo(
+    () => ({ trades, history, journals, playbooks, mistakeCategories, demoLoaded }),
+    [trades, history, journals, playbooks, mistakeCategories, demoLoaded]
+  );
+
+  const handleRetrySave = useCallback(async () => {
+    setRetryingSave(true);
+    if (await retrySave()) setToast({ id: Date.now(), message: 'All changes saved' });
+    setRetryingSave(false);
+  }, [retrySave]);
+
+  /** Files first, so restored trades find their attachments; trades restore as one undo step */
+  const handleRestoreBackup = useCallback(async (plan: RestorePlan) => {
+    await backupService.restoreFiles(plan.files);
+    restoreBackup(plan.put, plan.remove, plan.revisions);
+    handleSaveJournals(plan.journals);
+    replacePlaybooks(plan.playbooks);
+    saveMistakeCategories(plan.mistakeCategories);
+    Object.entries(plan.filters).forEach(([journalId, f]) => saveFilters(journalId, f));
+    if (plan.settings) {
+      setSettings(plan.settings);
+      saveSettings(plan.settings);
+    }
+    saveDemoLoaded(plan.demoLoaded);
+    setDemoLoaded(plan.demoLoaded);
+    setFilters(loadViewFilters(plan.settings?.journalId ?? viewJournalId));
+    setSelectedTradeIds([]);
+    setShowBackup(false);
+    setToast({ id: Date.now(), message: 'Backup restored' });
+  }, [restoreBackup, handleSaveJournals, replacePlaybooks, saveMistakeCategories, viewJournalId]);
 
   const handleCreateTrade = useCallback(
     (trade: Trade) => {
       addTrade(trade);
-      localStorage.setItem(DEMO_LOADED_KEY, 'true');
+      saveDemoLoaded(true);
       setDemoLoaded(true);
       setShowCreateForm(false);
       setWsReconnectTrigger((k) => k + 1);
       setFilters(defaultFilters);
-      saveFilters(defaultFilters);
-      requestAnimationFrame(() => {
-        loadTrades();
-      });
+      saveFilters(viewJournalId, defaultFilters);
+    },
+    [addTrade, viewJournalId]
+  );
+
+  const handleImportTrades = useCallback((imported: Trade[]) => {
+    addTrades(imported, imported.length === 1 ? 'Import trade' : `Import ${imported.length} trades`);
+    saveDemoLoaded(true);
+    setDemoLoaded(true);
+    setShowImport(false);
+    setToast({ id: Date.now(), message: `${imported.length} trade${imported.length === 1 ? '' : 's'} imported` });
+  }, [addTrades]);
+
+  /** Journal column only in the combined view, as in the table */
+  const tableJournalNames = viewJournalId === ALL_JOURNALS_ID && journals.length > 1 ? journalNames : undefined;
+
+  const handleExport = useCallback(
+    (scope: ExportScope, format: ExportFormat) => {
+      // Table order; selected ids hidden by the filters are left out
+      const rows = scope === EXPORT_SCOPE.SELECTED ? filteredTrades.filter((t) => selectedTradeIds.includes(t.id)) : filteredTrades;
+      exportService.download(
+        buildTradeExport(rows, { marketData, symbolRules, homeCurrency, homeRates, journalNames: tableJournalNames }),
+        format
+      );
+      setShowExport(false);
+      setToast({ id: Date.now(), message: `${rows.length} trade${rows.length === 1 ? '' : 's'} exported` });
     },
-    [addTrade, loadTrades]
+    [filteredTrades, selectedTradeIds, marketData, symbolRules, homeCurrency, homeRates, tableJournalNames]
   );
 
   const handleLoadDemoConfirm = useCallback(() => {
-    const currentTrades = tradeStorageService.getAll();
-    const newTrades = mockTrades.map((t, i) => ({ ...t, id: `trade-${Date.now()}-${i}` }));
-    const allTrades = [...currentTrades, ...newTrades];
-    tradeStorageService.save(allTrades);
-    localStorage.setItem(DEMO_LOADED_KEY, 'true');
+    const newTrades = mockTrades.map((t, i) => ({
+      ...t,
+      id: `trade-${Date.now()}-${i}`,
+      journalId: targetJournalId,
+    }));
+    addTrades(newTrades, 'Add sample list');
+    saveDemoLoaded(true);
     setDemoLoaded(true);
     setShowLoadDemoConfirm(false);
-    loadTrades();
-  }, [loadTrades]);
+    setToast({ id: Date.now(), message: `${newTrades.length} sample trades added` });
+  }, [addTrades, targetJournalId]);
 
   return (
     <div className="min-h-screen bg-gray-100">
@@ -153,7 +538,135 @@ export const TradeListPage: React.FC = () => {
                 Trades with live market data
               </p>
             </div>
-            <div className="flex gap-3">
+            <div className="flex items-center gap-3">
+              <div className="flex items-center gap-2">
+                <label htmlFor="journal-view" className="text-xs font-medium text-blue-100">
+                  Journal
+                </label>
+                <SelectBox
+                  mode="single"
+                  options={journalOptions}
+                  value={viewJournalId}
+                  onChange={(v) => v && handleJournalChange(v)}
+                  minWidth="140px"
+                  id="journal-view"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <label htmlFor="home-currency" className="text-xs font-medium text-blue-100">
+                  Home currency
+                </label>
+                <SelectBox
+                  mode="single"
+                  options={HOME_CURRENCY_OPTIONS}
+                  value={homeCurrency}
+                  onChange={(v) => v && handleHomeCurrencyChange(v)}
+                  minWidth="100px"
+                  id="home-currency"
+                />
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={undo}
+                  disabled={!undoLabel}
+                  title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                  className="rounded-lg px-2.5 py-2 text-sm font-medium text-blue-100 hover:bg-blue-500 disabled:cursor-not-allowed disabled:opacity-40 disabled:hover:bg-transparent"
+                >
+                  Undo
+                </button>
+                <button
+                  type="button"
+                  onClick={redo}
+                  disabled={!redoLabel}
+                  title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                  className="rounded-lg px-2.5 py-2 text-sm font-medium text-blue-100 hover:bg-blue-500 disabled:cursor-not-allowed disabled:opacity-40 disabled:hover:bg-transparent"
+                >
+                  Redo
+                </button>
+              </div>
+              <button
+                type="button"
+                onClick={() => setShowJournals(true)}
+                className="bg-blue-500 hover:bg-blue-400 px-4 py-2 rounded-lg font-medium"
+              >
+                Journals
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowPlaybooks(true)}
+                className="bg-blue-500 hover:bg-blue-400 px-4 py-2 rounded-lg font-medium"
+              >
+                Playbooks
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowMistakes(true)}
+                className="bg-blue-500 hover:bg-blue-400 px-4 py-2 rounded-lg font-medium"
+              >
+                Mistakes
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowReport(true)}
+                className="bg-blue-500 hover:bg-blue-400 px-4 py-2 rounded-lg font-medium"
+              >
+                Report
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowTaxReport(true)}
+                className="bg-blue-500 hover:bg-blue-400 px-4 py-2 rounded-lg font-medium"
+              >
+                Tax
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowImport(true)}
+                className="bg-blue-500 hover:bg-blue-400 px-4 py-2 rounded-lg font-medium"
+              >
+                Import
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowBackup(true)}
+                className="bg-blue-500 hover:bg-blue-400 px-4 py-2 rounded-lg font-medium"
+              >
+                Backup
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowSync(true)}
+                title={sync.config.enabled ? `Sync: ${getSyncStatusLabel(sync.status)}` : 'Sync with a server'}
+                className="bg-blue-500 hover:bg-blue-400 px-4 py-2 rounded-lg font-medium"
+              >
+                Sync
+                {sync.config.enabled && sync.status !== SYNC_STATUS.IDLE && (
+                  <span className="ml-1.5 text-xs text-blue-100">{getSyncStatusLabel(sync.status)}</span>
+                )}
+                {sync.conflicts.length > 0 && (
+                  <span className="ml-1.5 rounded-full bg-amber-400 px-1.5 text-xs font-semibold text-amber-950">
+                    {sync.conflicts.length}
+                  </span>
+                )}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowSecurity(true)}
+                className="bg-blue-500 hover:bg-blue-400 px-4 py-2 rounded-lg font-medium"
+              >
+                Security
+              </button>
+              {encryptionService.isEnabled() && (
+                <button
+                  type="button"
+                  onClick={onLock}
+                  title="Lock the journal"
+                  className="rounded-lg px-2.5 py-2 text-sm font-medium text-blue-100 hover:bg-blue-500"
+                >
+                  Lock
+                </button>
+              )}
               {!demoLoaded && (
                 <button
                   onClick={() => setShowLoadDemoConfirm(true)}
@@ -184,13 +697,92 @@ export const TradeListPage: React.FC = () => {
           </div>
         )}
 
+        {saveError ? (
+          <div className="mb-4 flex items-center justify-between gap-4 p-4 bg-red-50 border border-red-200 rounded-lg text-red-800">
+            <span>
+              Your latest changes could not be saved and will be lost on reload. {saveError.message}
+            </span>
+            <div className="flex shrink-0 gap-2">
+              {saveError.quotaExceeded && (
+                <button
+                  type="button"
+                  onClick={() => setShowBackup(true)}
+                  className="rounded-lg border border-red-300 bg-white px-3 py-1.5 text-sm font-medium text-red-800 hover:bg-red-100"
+                >
+                  Backup
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleRetrySave}
+                disabled={retryingSave}
+                className="rounded-lg border border-red-300 bg-white px-3 py-1.5 text-sm font-medium text-red-800 hover:bg-red-100 disabled:opacity-50"
+              >
+                {retryingSave ? 'Saving…' : 'Retry'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          storageUsage &&
+          storageUsage.level !== STORAGE_USAGE_LEVEL.OK && (
+            <div className="mb-4 flex items-center justify-between gap-4 p-4 bg-amber-50 border border-amber-200 rounded-lg text-amber-800">
+              <span>
+                Storage is {Math.min(100, Math.round(storageUsage.ratio * 100))}% full. Saves will start failing once
+                it is full; download a backup and remove old trades or attachments to make room.
+              </span>
+              <button
+                type="button"
+                onClick={() => setShowBackup(true)}
+                className="shrink-0 rounded-lg border border-amber-300 bg-white px-3 py-1.5 text-sm font-medium text-amber-800 hover:bg-amber-100"
+              >
+                Manage storage
+              </button>
+            </div>
+          )
+        )}
+
+        {quarantine.length > 0 && (
+          <div className="mb-4 flex items-center justify-between gap-4 p-4 bg-amber-50 border border-amber-200 rounded-lg text-amber-800">
+            <span>
+              {quarantine.length} stored record{quarantine.length === 1 ? '' : 's'} failed validation and
+              {quarantine.length === 1 ? ' was' : ' were'} set aside.
+            </span>
+            <button
+              type="button"
+              onClick={() => setShowQuarantine(true)}
+              className="shrink-0 rounded-lg border border-amber-300 bg-white px-3 py-1.5 text-sm font-medium text-amber-800 hover:bg-amber-100"
+            >
+              Review
+            </button>
+          </div>
+        )}
+
         <TradeFilters
-          trades={trades}
+          trades={journalTrades}
           filters={filters}
           onFiltersChange={handleFiltersChange}
+          playbooks={playbooks}
+          mistakeCategories={mistakeCategories}
         />
 
-        {filteredTrades.length === 0 ? (
+        {isLoading ? (
+          <div className="bg-white rounded-lg shadow p-12 text-center text-gray-500">
+            Loading journal…
+          </div>
+        ) : loadError ? (
+          <div className="bg-white rounded-lg shadow p-12 text-center">
+            <h3 className="text-lg font-semibold text-red-700 mb-2">Your journal could not be loaded</h3>
+            <p className="text-gray-600 mb-4">
+              {loadError} Stored trades and attachments were left untouched.
+            </p>
+            <button
+              onClick={() => loadTrades()}
+              className="bg-blue-600 text-white px-6 py-2 rounded-lg font-medium hover:bg-blue-700"
+            >
+              Try again
+            </button>
+          </div>
+        ) : filteredTrades.length === 0 ? (
           <div className="bg-white rounded-lg shadow p-12 text-center">
             <div className="text-4xl text-gray-400 mb-4">📊</div>
             <h3 className="text-lg font-semibold text-gray-700 mb-2">
@@ -209,37 +801,63 @@ export const TradeListPage: React.FC = () => {
         ) : (
           <div className="rounded-lg border border-gray-200 bg-white shadow overflow-hidden">
             <div className="flex min-h-[2.75rem] items-center justify-between border-b border-gray-200 bg-gray-50/80 px-4 py-2">
-              <h2 className="text-sm font-semibold text-gray-700">Trade Journal Store</h2>
-              {selectedTradeIds.length > 0 && (
-                <div className="flex items-center gap-4">
-                  <button
-                    type="button"
-                    onClick={handleEditSelected}
-                    disabled={selectedTradeIds.length !== 1}
-                    className="rounded border border-violet-400 bg-transparent px-2 py-0.5 text-xs font-medium text-violet-600 transition-colors hover:bg-violet-50 disabled:cursor-not-allowed disabled:opacity-50 disabled:border-gray-300 disabled:text-gray-400"
-                  >
-                    Edit
-                  </button>
-                  <button
-                    type="button"
-                    onClick={handleDeleteSelectedClick}
-                    className="bg-transparent px-0 py-0.5 text-xs font-medium text-rose-500 transition-colors hover:text-rose-600 disabled:cursor-not-allowed"
-                  >
-                    Delete
-                  </button>
-                  <span className="text-xs text-gray-500">
-                    {selectedTradeIds.length} selected
-                  </span>
-                </div>
-              )}
+              <div className="flex items-center gap-4">
+                <h2 className="text-sm font-semibold text-gray-700">Trade Journal Store</h2>
+                <PnlTotalsBar totals={pnlTotals} homeCurrency={homeCurrency} />
+              </div>
+              <div className="flex items-center gap-4">
+                {selectedTradeIds.length > 0 && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={handleEditSelected}
+                      disabled={selectedTradeIds.length !== 1}
+                      className="rounded border border-violet-400 bg-transparent px-2 py-0.5 text-xs font-medium text-violet-600 transition-colors hover:bg-violet-50 disabled:cursor-not-allowed disabled:opacity-50 disabled:border-gray-300 disabled:text-gray-400"
+                    >
+                      Edit
+                    </button>
+                    {journals.length > 1 && (
+                      <SelectBox
+                        mode="single"
+                        options={journals.map((j) => ({ value: j.id, label: j.name }))}
+                        value={null}
+                        onChange={(v) => v && handleMoveSelected(v)}
+                        placeholder="Move to…"
+                        minWidth="120px"
+                      />
+                    )}
+                    <button
+                      type="button"
+                      onClick={handleDeleteSelectedClick}
+                      className="bg-transparent px-0 py-0.5 text-xs font-medium text-rose-500 transition-colors hover:text-rose-600 disabled:cursor-not-allowed"
+                    >
+                      Delete
+                    </button>
+                    <span className="text-xs text-gray-500">
+                      {selectedTradeIds.length} selected
+                    </span>
+                  </>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setShowExport(true)}
+                  className="rounded border border-gray-300 bg-white px-2 py-0.5 text-xs font-medium text-gray-700 transition-colors hover:bg-gray-100"
+                >
+                  Export
+                </button>
+              </div>
             </div>
             <TradeTable
               trades={filteredTrades}
               marketData={marketData}
+              symbolRules={symbolRules}
+              homeCurrency={homeCurrency}
+              homeRates={homeRates}
               selectedTradeIds={selectedTradeIds}
               onToggleTrade={handleToggleTrade}
               onSelectAllChange={handleSelectAllChange}
               onRowClick={handleRowClick}
+              journalNames={tableJournalNames}
             />
           </div>
         )}
@@ -249,11 +867,26 @@ export const TradeListPage: React.FC = () => {
         <TradeDetailModal
           key={selectedTrade.id}
           trade={selectedTrade}
+          currentPrice={
+            marketData[selectedTrade.symbol.toUpperCase()]
+              ? parseFloat(marketData[selectedTrade.symbol.toUpperCase()].last)
+              : undefined
+          }
+          symbolRules={symbolRules[selectedTrade.symbol.toUpperCase()]}
+          homeCurrency={homeCurrency}
+          homeRates={homeRates}
           onClose={() => {
             setSelectedTradeId(null);
             setSelectedTradeIds([]);
           }}
           onUpdate={updateTrade}
+          history={selectedTradeHistory}
+          onRestoreRevision={restoreRevision}
+          playbooks={playbooks}
+          mistakeCategories={mistakeCategories}
+          journals={journals}
+          changedElsewhere={changedElsewhereId === selectedTrade.id}
+          onDismissChangedElsewhere={() => setChangedElsewhereId(null)}
         />
       )}
 
@@ -262,9 +895,122 @@ export const TradeListPage: React.FC = () => {
           onSubmit={handleCreateTrade}
           onCancel={() => setShowCreateForm(false)}
           existingTags={existingTags}
+          playbooks={playbooks}
+          journals={journals}
+          journalId={targetJournalId}
+        />
+      )}
+
+      {showPlaybooks && (
+        <PlaybooksModal
+          playbooks={playbooks}
+          trades={journalTrades}
+          onSave={savePlaybook}
+          onDelete={deletePlaybook}
+          onClose={() => setShowPlaybooks(false)}
+        />
+      )}
+
+      {showMistakes && (
+        <MistakesModal
+          categories={mistakeCategories}
+          trades={journalTrades}
+          homeCurrency={homeCurrency}
+          homeRates={homeRates}
+          onSave={saveMistakeCategories}
+          onClose={() => setShowMistakes(false)}
+        />
+      )}
+
+      {showJournals && (
+        <JournalsModal
+          journals={journals}
+          trades={trades}
+          onSave={handleSaveJournals}
+          onClose={() => setShowJournals(false)}
+        />
+      )}
+
+      {showQuarantine && (
+        <QuarantineModal
+          records={quarantine}
+          onRestore={restoreQuarantined}
+          onDiscard={discardQuarantined}
+          onClose={() => setShowQuarantine(false)}
+        />
+      )}
+
+      {showBackup && (
+        <BackupModal
+          source={backupSource}
+          usage={storageUsage}
+          onRestore={handleRestoreBackup}
+          onClose={() => setShowBackup(false)}
+        />
+      )}
+
+      {showReport && (
+        <ReportModal
+          trades={trades}
+          accounts={journalOptions}
+          journalId={viewJournalId}
+          homeCurrency={homeCurrency}
+          homeRates={homeRates}
+          onClose={() => setShowReport(false)}
+        />
+      )}
+
+      {showTaxReport && (
+        <TaxReportModal
+          trades={trades}
+          accounts={journalOptions}
+          journalId={viewJournalId}
+          homeCurrency={homeCurrency}
+          homeRates={homeRates}
+          settings={settings}
+          onSettingsChange={handleTaxSettingsChange}
+          onClose={() => setShowTaxReport(false)}
         />
       )}
 
+      {showExport && (
+        <ExportTradesModal
+          selectedCount={filteredTrades.filter((t) => selectedTradeIds.includes(t.id)).length}
+          filteredCount={filteredTrades.length}
+          onExport={handleExport}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {showImport && (
+        <ImportTradesModal
+          trades={trades}
+          journals={journals}
+          journalId={targetJournalId}
+          onImport={handleImportTrades}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
+      {showSync && (
+        <SyncModal
+          config={sync.config}
+          status={sync.status}
+          error={sync.error}
+          conflicts={sync.conflicts}
+          pendingCount={sync.pendingCount}
+          lastSyncedAt={sync.lastSyncedAt}
+          onSaveConfig={sync.saveConfig}
+          onSyncNow={sync.syncNow}
+          onResolve={sync.resolveConflict}
+          onClose={() => setShowSync(false)}
+        />
+      )}
+
+      {showSecurity && (
+        <SecurityModal onReseal={handleReseal} onLock={onLock} onClose={() => setShowSecurity(false)} />
+      )}
+
       <ConfirmModal
         isOpen={showLoadDemoConfirm}
         title="Try sample list?"
@@ -280,8 +1026,8 @@ export const TradeListPage: React.FC = () => {
         title="Delete trade(s)?"
         message={
           selectedTradeIds.length === 1
-            ? 'Are you sure you want to delete this trade? This cannot be undone.'
-            : `Are you sure you want to delete ${selectedTradeIds.length} selected trades? This cannot be undone.`
+            ? 'Are you sure you want to delete this trade? You can undo this with Ctrl+Z.'
+            : `Are you sure you want to delete ${selectedTradeIds.length} selected trades? You can undo this with Ctrl+Z.`
         }
         variant={CONFIRM_MODAL_VARIANT.DANGER}
         confirmLabel="Delete"
@@ -289,6 +1035,16 @@ export const TradeListPage: React.FC = () => {
         onConfirm={handleConfirmDeleteSelected}
         onCancel={() => setShowDeleteSelectedConfirm(false)}
       />
+
+      {toast && (
+        <Toast
+          key={toast.id}
+          message={toast.message}
+          actionLabel={toast.undoable === false ? undefined : 'Undo'}
+          onAction={undo}
+          onDismiss={dismissToast}
+        />
+      )}
     </div>
   );
 };
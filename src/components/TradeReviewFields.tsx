@@ -0,0 +1,113 @@
+/**
+ * TradeReviewFields Component
+ * Discipline review of a trade: mistake categories, emotional state and
+ * execution grade. Read-only when onChange is omitted.
+ */
+
+import React from 'react';
+import type { MistakeCategory } from './constants/types';
+import { EMOTION_RATING_OPTIONS, EXECUTION_GRADE_OPTIONS, type FilterOption } from './constants/filterOptions';
+
+export interface TradeReview {
+  mistakes: string[];
+  emotionRating?: number;
+  executionGrade?: number;
+}
+
+interface TradeReviewFieldsProps {
+  review: TradeReview;
+  categories: MistakeCategory[];
+  onChange?: (review: TradeReview) => void;
+}
+
+interface RatingRowProps {
+  label: string;
+  options: FilterOption[];
+  value?: number;
+  onChange?: (value: number | undefined) => void;
+}
+
+const RatingRow: React.FC<RatingRowProps> = ({ label, options, value, onChange }) => (
+  <div>
+    <div className="text-sm text-gray-500 mb-1.5">{label}</div>
+    <div className="inline-flex flex-wrap rounded-lg border border-gray-200 bg-white p-0.5">
+      {options.map((option) => {
+        const n = Number(option.value);
+        const active = value === n;
+        return (
+          <button
+            key={option.value}
+            type="button"
+            disabled={!onChange}
+            onClick={() => onChange?.(active ? undefined : n)}
+            title={`${n} – ${option.label}`}
+            className={`rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
+              active ? 'bg-blue-600 text-white' : 'text-gray-600 enabled:hover:bg-gray-100'
+            }`}
+          >
+            {n} {option.label}
+          </button>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export const TradeReviewFields: React.FC<TradeReviewFieldsProps> = ({ review, categories, onChange }) => {
+  const toggleMistake = (id: string) => {
+    onChange?.({
+      ...review,
+      mistakes: review.mistakes.includes(id)
+        ? review.mistakes.filter((m) => m !== id)
+        : [...review.mistakes, id],
+    });
+  };
+  // Read-only view lists only what was recorded; ids of deleted categories are hidden
+  const shown = onChange ? categories : categories.filter((c) => review.mistakes.includes(c.id));
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="text-sm text-gray-500 mb-1.5">Mistakes</div>
+        {shown.length === 0 ? (
+          <p className="text-sm text-gray-500">{onChange ? 'No mistake categories configured.' : 'None recorded.'}</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {shown.map((category) => {
+              const active = review.mistakes.includes(category.id);
+              return (
+                <button
+                  key={category.id}
+                  type="button"
+                  disabled={!onChange}
+                  onClick={() => toggleMistake(category.id)}
+                  className={`rounded-full px-3 py-1 text-sm font-medium ${
+                    active ? 'bg-red-100 text-red-800' : 'border border-gray-300 bg-white text-gray-600 enabled:hover:bg-gray-50'
+                  }`}
+                >
+                  {category.label}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+      {(onChange || review.emotionRating != null) && (
+        <RatingRow
+          label="Emotional state"
+          options={EMOTION_RATING_OPTIONS}
+          value={review.emotionRating}
+          onChange={onChange && ((emotionRating) => onChange({ ...review, emotionRating }))}
+        />
+      )}
+      {(onChange || review.executionGrade != null) && (
+        <RatingRow
+          label="Execution grade"
+          options={EXECUTION_GRADE_OPTIONS}
+          value={review.executionGrade}
+          onChange={onChange && ((executionGrade) => onChange({ ...review, executionGrade }))}
+        />
+      )}
+    </div>
+  );
+};
@@ -5,26 +5,28 @@
  */
 
 import React, { useRef, useEffect, useState } from 'react';
-import type { Trade, MarketDataMap, Position } from './constants/types';
-import {
-  calculatePnL,
-  formatDuration,
-  calculateRMultiple,
-  formatTimestampGMT,
-} from '../utils/calculations';
+import type { Trade, MarketDataMap, Position, SymbolRules } from './constants/types';
+import { formatTimestampGMT } from '../utils/calculations';
+import { formatPrice } from '../utils/symbolRules';
+import { getTradeJournalId } from '../utils/journals';
+import { getTradeRowValues } from '../utils/tradeRow';
 import { TruncateWithTooltip } from './ui-components/TruncateWithTooltip';
 
 interface TradeTableProps {
   trades: Trade[];
   marketData: MarketDataMap;
+  /** Lot size / tick size per symbol; prices and quantities use the symbol's precision */
+  symbolRules?: Record<string, SymbolRules>;
+  /** Currency the "Net PNL (home)" column converts into */
+  homeCurrency: string;
+  /** Live quote → home rates by quote asset */
+  homeRates: Record<string, number>;
   selectedTradeIds: string[];
   onToggleTrade: (tradeId: string) => void;
   onSelectAllChange?: (selected: boolean) => void;
   onRowClick: (trade: Trade) => void;
-}
-
-function formatPrice(n: number): string {
-  return n >= 1 ? n.toLocaleString(undefined, { minimumFractionDigits: 2 }) : n.toFixed(6);
+  /** Journal name by id; when given (combined view), each row shows its journal under the symbol */
+  journalNames?: Record<string, string>;
 }
 
 /** Open leg: LONG = Buy, SHORT = Sell */
@@ -39,10 +41,14 @@ function getCloseLegLabel(position: Position): string {
 export const TradeTable: React.FC<TradeTableProps> = ({
   trades,
   marketData,
+  symbolRules = {},
+  homeCurrency,
+  homeRates,
   selectedTradeIds,
   onToggleTrade,
   onSelectAllChange,
   onRowClick,
+  journalNames,
 }) => {
   const allVisibleSelected =
     trades.length > 0 && trades.every((t) => selectedTradeIds.includes(t.id));
@@ -68,7 +74,7 @@ export const TradeTable: React.FC<TradeTableProps> = ({
         className="min-w-full divide-y divide-gray-200"
         style={{
           tableLayout: 'fixed',
-          minWidth: '98rem',
+          minWidth: '121rem',
           borderCollapse: 'separate',
           borderSpacing: 0,
         }}
@@ -86,8 +92,12 @@ export const TradeTable: React.FC<TradeTableProps> = ({
           <col style={{ width: '6rem' }} />
           <col style={{ width: '6rem' }} />
           <col style={{ width: '4rem' }} />
-          <col style={{ width: '5.5rem' }} />
-          <col style={{ width: '3.5rem' }} />
+          <col style={{ width: '7rem' }} />
+          <col style={{ width: '7rem' }} />
+          <col style={{ width: '6.5rem' }} />
+          <col style={{ width: '6rem' }} />
+          <col style={{ width: '4.5rem' }} />
+          <col style={{ width: '4.5rem' }} />
           <col style={{ width: '5.5rem' }} />
           <col style={{ width: '6rem' }} />
           <col style={{ width: '10rem' }} />
@@ -147,22 +157,34 @@ export const TradeTable: React.FC<TradeTableProps> = ({
               Duration
             </th>
             <th className="px-3 py-3 text-left text-xs font-semibold text-gray-600 uppercase">
-              Open Price ($)
+              Avg Open
             </th>
             <th className="px-3 py-3 text-left text-xs font-semibold text-gray-600 uppercase">
-              Close Price ($)
+              Avg Close
             </th>
             <th className="px-3 py-3 text-left text-xs font-semibold text-gray-600 uppercase">
               Quantity
             </th>
             <th className="px-3 py-3 text-left text-xs font-semibold text-gray-600 uppercase">
-              PNL ($)
+              Gross PNL
+            </th>
+            <th className="px-3 py-3 text-left text-xs font-semibold text-gray-600 uppercase">
+              Net PNL
+            </th>
+            <th className="px-3 py-3 text-left text-xs font-semibold text-gray-600 uppercase">
+              Net PNL ({homeCurrency})
+            </th>
+            <th className="px-3 py-3 text-left text-xs font-semibold text-gray-600 uppercase">
+              Unrealized
+            </th>
+            <th className="px-3 py-3 text-left text-xs font-semibold text-gray-600 uppercase">
+              Planned R
             </th>
             <th className="px-3 py-3 text-left text-xs font-semibold text-gray-600 uppercase">
               R-Value
             </th>
             <th className="px-3 py-3 text-left text-xs font-semibold text-gray-600 uppercase">
-              Stop Loss ($)
+              Stop Loss
             </th>
             <th className="px-3 py-3 text-left text-xs font-semibold text-gray-600 uppercase">
               Tags
@@ -171,7 +193,7 @@ export const TradeTable: React.FC<TradeTableProps> = ({
               Notes
             </th>
             <th className="px-3 py-3 text-left text-xs font-semibold text-gray-600 uppercase">
-              Current Price ($)
+              Current Price
             </th>
             <th className="px-3 py-3 text-left text-xs font-semibold text-gray-600 uppercase">
               Daily %
@@ -180,16 +202,25 @@ export const TradeTable: React.FC<TradeTableProps> = ({
         </thead>
         <tbody className="bg-white divide-y divide-gray-200">
           {trades.map((trade) => {
-            const pnl = trade.status === 'CLOSED' && trade.closePrice != null
-              ? calculatePnL(trade.position, trade.openPrice, trade.closePrice, trade.quantity)
-              : null;
-            const duration = trade.status === 'CLOSED' && trade.closeTimestamp != null
-              ? formatDuration(trade.openTimestamp, trade.closeTimestamp)
-              : '—';
-            const rMultiple = pnl != null
-              ? calculateRMultiple(pnl, trade.openPrice, trade.stopLoss, trade.quantity)
-              : null;
-            const md = marketData[trade.symbol.toUpperCase()];
+            const {
+              legs,
+              openQuantity,
+              entryQuantity,
+              pnl,
+              netPnl,
+              netPnlHome,
+              homeRate,
+              unrealizedPnl,
+              duration,
+              rMultiple,
+              currentStopLoss,
+              stopMoved,
+              quoteAsset,
+              currentPrice,
+              dailyChangePercent,
+              priceDecimals,
+              qtyDecimals,
+            } = getTradeRowValues(trade, { marketData, symbolRules, homeCurrency, homeRates });
 
             return (
               <tr
@@ -215,6 +246,11 @@ export const TradeTable: React.FC<TradeTableProps> = ({
                   style={{ position: 'sticky', left: '2.5rem', minWidth: '6rem', maxWidth: '6rem', boxSizing: 'border-box' }}
                 >
                   <span className="block truncate" title={trade.symbol}>{trade.symbol}</span>
+                  {journalNames && (
+                    <span className="block truncate text-xs font-normal text-gray-500">
+                      {journalNames[getTradeJournalId(trade)] ?? 'Unknown journal'}
+                    </span>
+                  )}
                 </td>
                 <td
                   className="z-10 bg-slate-50 px-3 py-3 text-left shadow-[2px_0_4px_-2px_rgba(0,0,0,0.08)] transition-colors group-hover:bg-slate-100 overflow-hidden"
@@ -270,13 +306,17 @@ export const TradeTable: React.FC<TradeTableProps> = ({
                 </td>
                 <td className="px-3 py-3 text-left text-sm text-gray-600 overflow-hidden">{duration}</td>
                 <td className="px-3 py-3 text-left text-sm font-mono overflow-hidden">
-                  <span className="block truncate">{formatPrice(trade.openPrice)}</span>
+                  <span className="block truncate">{formatPrice(trade.openPrice, priceDecimals)}</span>
                 </td>
                 <td className="px-3 py-3 text-left text-sm font-mono overflow-hidden">
-                  <span className="block truncate">{trade.closePrice != null ? formatPrice(trade.closePrice) : '—'}</span>
+                  <span className="block truncate">{trade.closePrice != null ? formatPrice(trade.closePrice, priceDecimals) : '—'}</span>
                 </td>
                 <td className="px-3 py-3 text-left text-sm font-mono overflow-hidden">
-                  <span className="block truncate">{formatPrice(trade.quantity)}</span>
+                  <span className="block truncate" title={`${legs.length} fill(s)`}>
+                    {openQuantity > 0 && openQuantity < entryQuantity
+                      ? `${formatPrice(openQuantity, qtyDecimals)}/${formatPrice(entryQuantity, qtyDecimals)}`
+                      : formatPrice(entryQuantity, qtyDecimals)}
+                  </span>
                 </td>
                 <td
                   className={`px-3 py-3 text-left text-sm font-semibold overflow-hidden ${
@@ -285,13 +325,76 @@ export const TradeTable: React.FC<TradeTableProps> = ({
                       : 'text-gray-500'
                   }`}
                 >
-                  <span className="block truncate">{pnl != null ? `${pnl >= 0 ? '+' : '-'}${formatPrice(Math.abs(pnl))}` : '—'}</span>
+                  <span className="block truncate">
+                    {pnl != null ? `${pnl >= 0 ? '+' : '-'}${formatPrice(Math.abs(pnl))}` : '—'}
+                    {pnl != null && <span className="ml-1 text-xs font-normal text-gray-400">{quoteAsset}</span>}
+                  </span>
+                </td>
+                <td
+                  className={`px-3 py-3 text-left text-sm font-semibold overflow-hidden ${
+                    netPnl != null
+                      ? netPnl >= 0 ? 'text-green-600' : 'text-red-600'
+                      : 'text-gray-500'
+                  }`}
+                >
+                  <span className="block truncate">
+                    {netPnl != null ? `${netPnl >= 0 ? '+' : '-'}${formatPrice(Math.abs(netPnl))}` : '—'}
+                    {netPnl != null && <span className="ml-1 text-xs font-normal text-gray-400">{quoteAsset}</span>}
+                  </span>
+                </td>
+                <td
+                  className={`px-3 py-3 text-left text-sm font-semibold overflow-hidden ${
+                    netPnlHome != null
+                      ? netPnlHome >= 0 ? 'text-green-600' : 'text-red-600'
+                      : 'text-gray-500'
+                  }`}
+                >
+                  <span
+                    className="block truncate"
+                    title={homeRate != null && homeRate !== 1 ? `1 ${quoteAsset} = ${homeRate} ${homeCurrency}` : undefined}
+                  >
+                    {netPnlHome != null ? `${netPnlHome >= 0 ? '+' : '-'}${formatPrice(Math.abs(netPnlHome))}` : '—'}
+                  </span>
+                </td>
+                <td
+                  className={`px-3 py-3 text-left text-sm overflow-hidden ${
+                    unrealizedPnl != null
+                      ? unrealizedPnl >= 0 ? 'text-green-600' : 'text-red-600'
+                      : 'text-gray-500'
+                  }`}
+                >
+                  <span className="block truncate">
+                    {unrealizedPnl != null ? `${unrealizedPnl >= 0 ? '+' : '-'}${formatPrice(Math.abs(unrealizedPnl))}` : '—'}
+                  </span>
                 </td>
                 <td className="px-3 py-3 text-left text-sm overflow-hidden">
-                  <span className="block truncate">{rMultiple != null ? rMultiple.toFixed(2) + 'R' : '—'}</span>
+                  <span className="block truncate">{trade.plannedR != null ? trade.plannedR.toFixed(2) + 'R' : '—'}</span>
+                </td>
+                <td
+                  className={`px-3 py-3 text-left text-sm overflow-hidden ${
+                    rMultiple != null && trade.plannedR != null
+                      ? rMultiple >= trade.plannedR ? 'text-green-600' : 'text-amber-600'
+                      : ''
+                  }`}
+                >
+                  <span
+                    className="block truncate"
+                    title={trade.status === 'OPEN' && rMultiple != null ? 'Open: R at current price' : undefined}
+                  >
+                    {rMultiple != null ? `${trade.status === 'OPEN' ? '~' : ''}${rMultiple.toFixed(2)}R` : '—'}
+                  </span>
                 </td>
                 <td className="px-3 py-3 text-left text-sm font-mono overflow-hidden">
-                  <span className="block truncate">{trade.stopLoss != null ? formatPrice(trade.stopLoss) : '—'}</span>
+                  {trade.stopLoss != null ? (
+                    <span
+                      className={`block truncate ${stopMoved ? 'text-blue-700' : ''}`}
+                      title={stopMoved ? `Moved from initial ${formatPrice(trade.stopLoss, priceDecimals)}` : undefined}
+                    >
+                      {formatPrice(currentStopLoss ?? trade.stopLoss, priceDecimals)}
+                    </span>
+                  ) : (
+                    <span className="block truncate">—</span>
+                  )}
                 </td>
                 <td className="px-3 py-3 text-left text-sm overflow-hidden">
                   {trade.tags?.length ? (
@@ -323,16 +426,16 @@ export const TradeTable: React.FC<TradeTableProps> = ({
                   />
                 </td>
                 <td className="px-3 py-3 text-left text-sm font-mono overflow-hidden">
-                  <span className="block truncate">{md ? formatPrice(parseFloat(md.last)) : '—'}</span>
+                  <span className="block truncate">{currentPrice != null ? formatPrice(currentPrice, priceDecimals) : '—'}</span>
                 </td>
                 <td
                   className={`px-3 py-3 text-left text-sm overflow-hidden ${
-                    md && parseFloat(md.daily_change_percentage) >= 0
+                    dailyChangePercent != null && dailyChangePercent >= 0
                       ? 'text-green-600'
                       : 'text-red-600'
                   }`}
                 >
-                  <span className="block truncate">{md ? parseFloat(md.daily_change_percentage).toFixed(2) + '%' : '—'}</span>
+                  <span className="block truncate">{dailyChangePercent != null ? dailyChangePercent.toFixed(2) + '%' : '—'}</span>
                 </td>
               </tr>
             );
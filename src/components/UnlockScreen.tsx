@@ -0,0 +1,64 @@
+/**
+ * UnlockScreen Component
+ * Shown instead of the journal while encrypted storage is locked.
+ */
+
+import React, { useState } from 'react';
+import { encryptionService } from '../services/encryptionService';
+
+interface UnlockScreenProps {
+  onUnlock: () => void;
+}
+
+export const UnlockScreen: React.FC<UnlockScreenProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || busy) return;
+    setBusy(true);
+    setError(null);
+    const ok = await encryptionService.unlock(passphrase).catch(() => false);
+    setBusy(false);
+    if (ok) {
+      onUnlock();
+    } else {
+      setError('Wrong passphrase');
+      setPassphrase('');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm rounded-2xl bg-white p-8 shadow-xl space-y-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Trade Journal is locked</h1>
+          <p className="mt-1 text-sm text-gray-500">Enter your passphrase to decrypt your journal.</p>
+        </div>
+        <input
+          type="password"
+          autoFocus
+          autoComplete="current-password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className="w-full border border-gray-300 rounded px-3 py-2"
+          placeholder="Passphrase"
+          aria-label="Passphrase"
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={!passphrase || busy}
+          className="w-full rounded-lg bg-blue-600 px-4 py-2 font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {busy ? 'Unlocking…' : 'Unlock'}
+        </button>
+        <p className="text-xs text-gray-400">
+          The passphrase is never stored. Without it, encrypted trades can't be recovered.
+        </p>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+/**
+ * Default exchange fee schedules (base tier, no discounts).
+ * Used to fill in trade fees from executed notional.
+ */
+
+import type { FeeSchedule } from './types';
+
+export const FEE_SCHEDULES: FeeSchedule[] = [
+  { id: 'binance-spot', label: 'Binance Spot', makerRate: 0.001, takerRate: 0.001 },
+  { id: 'binance-usdm', label: 'Binance USDⓈ-M', makerRate: 0.0002, takerRate: 0.0005 },
+  { id: 'bybit-spot', label: 'Bybit Spot', makerRate: 0.001, takerRate: 0.001 },
+  { id: 'bybit-perp', label: 'Bybit Perpetual', makerRate: 0.0002, takerRate: 0.00055 },
+  { id: 'okx-spot', label: 'OKX Spot', makerRate: 0.0008, takerRate: 0.001 },
+  { id: 'kraken-spot', label: 'Kraken Spot', makerRate: 0.0025, takerRate: 0.004 },
+  { id: 'coinbase-advanced', label: 'Coinbase Advanced', makerRate: 0.004, takerRate: 0.006 },
+];
+
+export function getFeeSchedule(id: string | undefined): FeeSchedule | undefined {
+  return id ? FEE_SCHEDULES.find((s) => s.id === id) : undefined;
+}
@@ -25,3 +25,31 @@ export const ENTRY_TYPE_OPTIONS: FilterOption[] = [
   { value: 'BUY', label: 'Buy' },
   { value: 'SELL', label: 'Sell' },
 ];
+
+/** Home currency options for PNL conversion */
+export const HOME_CURRENCY_OPTIONS: FilterOption[] = [
+  { value: 'USDT', label: 'USDT' },
+  { value: 'USDC', label: 'USDC' },
+  { value: 'FDUSD', label: 'FDUSD' },
+  { value: 'EUR', label: 'EUR' },
+  { value: 'BTC', label: 'BTC' },
+  { value: 'ETH', label: 'ETH' },
+];
+
+/** Emotional state rating, 1–5 */
+export const EMOTION_RATING_OPTIONS: FilterOption[] = [
+  { value: '1', label: 'Tilted' },
+  { value: '2', label: 'Stressed' },
+  { value: '3', label: 'Neutral' },
+  { value: '4', label: 'Calm' },
+  { value: '5', label: 'Focused' },
+];
+
+/** Execution grade, 1–5 */
+export const EXECUTION_GRADE_OPTIONS: FilterOption[] = [
+  { value: '1', label: 'Poor' },
+  { value: '2', label: 'Weak' },
+  { value: '3', label: 'OK' },
+  { value: '4', label: 'Good' },
+  { value: '5', label: 'Flawless' },
+];
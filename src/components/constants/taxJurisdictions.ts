@@ -0,0 +1,38 @@
+/**
+ * Holding-period rules of the tax report. Only the short-term / long-term
+ * split is modelled; rates, allowances and wash-sale or bed-and-breakfast
+ * rules are left to the user's tax software or adviser.
+ */
+
+import { TAX_JURISDICTION, type TaxJurisdictionRule } from './types';
+
+export const TAX_JURISDICTIONS: TaxJurisdictionRule[] = [
+  {
+    id: TAX_JURISDICTION.US,
+    label: 'United States',
+    longTermMonths: 12,
+    note: 'Long-term when held more than one year (the day after the one-year anniversary or later).',
+  },
+  {
+    id: TAX_JURISDICTION.DE,
+    label: 'Germany',
+    longTermMonths: 12,
+    note: 'Private sales held more than one year are long-term (tax-free for crypto held privately).',
+  },
+  {
+    id: TAX_JURISDICTION.NONE,
+    label: 'No holding-period split',
+    longTermMonths: null,
+    note: 'Every gain is reported as short-term.',
+  },
+  {
+    id: TAX_JURISDICTION.CUSTOM,
+    label: 'Custom',
+    longTermMonths: null,
+    note: 'Long-term when held more than the number of days set below.',
+  },
+];
+
+export function getTaxJurisdiction(id: string): TaxJurisdictionRule {
+  return TAX_JURISDICTIONS.find((j) => j.id === id) ?? TAX_JURISDICTIONS[0];
+}
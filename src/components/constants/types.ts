@@ -23,6 +23,139 @@ export const ENTRY_TYPE = {
   SELL: 'SELL',
 } as const;
 
+/** Execution leg side: ENTRY = adds to the position, EXIT = reduces it */
+export const LEG_SIDE = {
+  ENTRY: 'ENTRY',
+  EXIT: 'EXIT',
+} as const;
+
+/** Fill liquidity: MAKER = resting limit order, TAKER = crossed the book */
+export const LIQUIDITY = {
+  MAKER: 'MAKER',
+  TAKER: 'TAKER',
+} as const;
+
+/** Futures margin mode: ISOLATED = margin per position, CROSS = shared account balance */
+export const MARGIN_MODE = {
+  ISOLATED: 'ISOLATED',
+  CROSS: 'CROSS',
+} as const;
+
+/** What a logged adjustment moved: the stop loss or one take-profit target */
+export const ADJUSTMENT_KIND = {
+  STOP: 'STOP',
+  TARGET: 'TARGET',
+} as const;
+
+/** Where trades are persisted (see services/storageAdapters.ts) */
+export const STORAGE_BACKEND = {
+  LOCAL_STORAGE: 'LOCAL_STORAGE',
+  INDEXED_DB: 'INDEXED_DB',
+  MEMORY: 'MEMORY',
+} as const;
+
+/** How close storage is to its limit: WARNING from 80%, CRITICAL from 95% */
+export const STORAGE_USAGE_LEVEL = {
+  OK: 'OK',
+  WARNING: 'WARNING',
+  CRITICAL: 'CRITICAL',
+} as const;
+
+/** How dates are written in an imported file */
+export const IMPORT_DATE_FORMAT = {
+  /** 2024-05-01 14:30[:00], optionally with Z or an offset */
+  ISO: 'ISO',
+  /** 01/05/2024 14:30 */
+  DMY: 'DMY',
+  /** 05/01/2024 2:30 PM */
+  MDY: 'MDY',
+  UNIX_SECONDS: 'UNIX_SECONDS',
+  UNIX_MS: 'UNIX_MS',
+} as const;
+
+/** Why an imported row is considered a trade already in the journal */
+export const IMPORT_DUPLICATE = {
+  /** Same symbol, side, open time, price and quantity as an existing trade */
+  EXISTING: 'EXISTING',
+  /** Same as an earlier row of the file */
+  IN_FILE: 'IN_FILE',
+} as const;
+
+/** Direction of one exchange fill in an imported trade history */
+export const FILL_SIDE = {
+  BUY: 'BUY',
+  SELL: 'SELL',
+} as const;
+
+/** File type of a trade-table export */
+export const EXPORT_FORMAT = {
+  CSV: 'CSV',
+  XLSX: 'XLSX',
+} as const;
+
+/** Which rows of the trade table are exported */
+export const EXPORT_SCOPE = {
+  SELECTED: 'SELECTED',
+  FILTERED: 'FILTERED',
+} as const;
+
+/** Which open lot a disposal is matched against: oldest, newest, or highest cost basis first */
+export const TAX_LOT_METHOD = {
+  FIFO: 'FIFO',
+  LIFO: 'LIFO',
+  HIFO: 'HIFO',
+} as const;
+
+/** Tax rules used to split short-term from long-term gains (see constants/taxJurisdictions.ts) */
+export const TAX_JURISDICTION = {
+  US: 'US',
+  DE: 'DE',
+  NONE: 'NONE',
+  CUSTOM: 'CUSTOM',
+} as const;
+
+/** Holding period of a disposal */
+export const HOLDING_TERM = {
+  SHORT: 'SHORT',
+  LONG: 'LONG',
+} as const;
+
+/** Backup restore: MERGE = add to the journal, REPLACE = the journal becomes the backup */
+export const RESTORE_MODE = {
+  MERGE: 'MERGE',
+  REPLACE: 'REPLACE',
+} as const;
+
+/** Merge restore, trade id already in the journal with other data: keep both, keep mine, or take the backup's */
+export const RESTORE_CONFLICT = {
+  KEEP_BOTH: 'KEEP_BOTH',
+  KEEP_CURRENT: 'KEEP_CURRENT',
+  USE_BACKUP: 'USE_BACKUP',
+} as const;
+
+/** Sync backend: a self-hosted REST server, or the in-memory reference server (development, tests) */
+export const SYNC_TARGET = {
+  HTTP: 'HTTP',
+  MEMORY: 'MEMORY',
+} as const;
+
+/** Sync engine state as shown in the header */
+export const SYNC_STATUS = {
+  OFF: 'OFF',
+  IDLE: 'IDLE',
+  SYNCING: 'SYNCING',
+  OFFLINE: 'OFFLINE',
+  ERROR: 'ERROR',
+} as const;
+
+/** Kind of change recorded in a trade's edit history */
+export const REVISION_ACTION = {
+  CREATE: 'CREATE',
+  UPDATE: 'UPDATE',
+  DELETE: 'DELETE',
+  RESTORE: 'RESTORE',
+} as const;
+
 // ---- Trade types ----
 
 export type Position = (typeof POSITION)[keyof typeof POSITION];
@@ -31,6 +164,92 @@ export type TradeStatus = (typeof TRADE_STATUS)[keyof typeof TRADE_STATUS];
 
 export type EntryType = (typeof ENTRY_TYPE)[keyof typeof ENTRY_TYPE];
 
+export type LegSide = (typeof LEG_SIDE)[keyof typeof LEG_SIDE];
+
+export type Liquidity = (typeof LIQUIDITY)[keyof typeof LIQUIDITY];
+
+export type MarginMode = (typeof MARGIN_MODE)[keyof typeof MARGIN_MODE];
+
+export type AdjustmentKind = (typeof ADJUSTMENT_KIND)[keyof typeof ADJUSTMENT_KIND];
+
+export type RevisionAction = (typeof REVISION_ACTION)[keyof typeof REVISION_ACTION];
+
+export type StorageBackend = (typeof STORAGE_BACKEND)[keyof typeof STORAGE_BACKEND];
+
+export type StorageUsageLevel = (typeof STORAGE_USAGE_LEVEL)[keyof typeof STORAGE_USAGE_LEVEL];
+
+export type RestoreMode = (typeof RESTORE_MODE)[keyof typeof RESTORE_MODE];
+
+export type RestoreConflict = (typeof RESTORE_CONFLICT)[keyof typeof RESTORE_CONFLICT];
+
+export type ImportDateFormat = (typeof IMPORT_DATE_FORMAT)[keyof typeof IMPORT_DATE_FORMAT];
+
+export type ImportDuplicate = (typeof IMPORT_DUPLICATE)[keyof typeof IMPORT_DUPLICATE];
+
+export type FillSide = (typeof FILL_SIDE)[keyof typeof FILL_SIDE];
+
+export type ExportFormat = (typeof EXPORT_FORMAT)[keyof typeof EXPORT_FORMAT];
+
+export type ExportScope = (typeof EXPORT_SCOPE)[keyof typeof EXPORT_SCOPE];
+
+export type TaxLotMethod = (typeof TAX_LOT_METHOD)[keyof typeof TAX_LOT_METHOD];
+
+export type TaxJurisdiction = (typeof TAX_JURISDICTION)[keyof typeof TAX_JURISDICTION];
+
+export type HoldingTerm = (typeof HOLDING_TERM)[keyof typeof HOLDING_TERM];
+
+export type SyncTarget = (typeof SYNC_TARGET)[keyof typeof SYNC_TARGET];
+
+export type SyncStatus = (typeof SYNC_STATUS)[keyof typeof SYNC_STATUS];
+
+/** One fill of a trade: a scale-in (ENTRY) or a partial/full exit (EXIT) */
+export interface TradeLeg {
+  id: string;
+  side: LegSide;
+  timestamp: number;
+  price: number;
+  quantity: number;
+}
+
+/** Take-profit target; percent = share of the position exited there (split evenly when absent) */
+export interface TakeProfitTarget {
+  id: string;
+  price: number;
+  percent?: number;
+}
+
+/** Stored quote → home currency rate, taken at `timestamp` (the trade's close time) */
+export interface HomeConversion {
+  currency: string;
+  rate: number;
+  timestamp: number;
+}
+
+/** Stop or target moved to a new price while the trade was running */
+export interface TradeAdjustment {
+  id: string;
+  timestamp: number;
+  kind: AdjustmentKind;
+  price: number;
+  /** TARGET only: id of the take-profit that moved */
+  targetId?: string;
+}
+
+/** File attached to a trade (metadata only) */
+export interface AttachmentMeta {
+  id: string;
+  name: string;
+  /** MIME type, e.g. image/png */
+  type: string;
+  size: number;
+  addedAt: number;
+}
+
+/**
+ * openPrice/closePrice are the weighted-average entry/exit prices and quantity
+ * the total entered quantity. When `legs` is absent (trades saved before legs
+ * existed) the trade is a single entry and, if closed, a single exit.
+ */
 export interface Trade {
   id: string;
   symbol: string;
@@ -41,10 +260,192 @@ export interface Trade {
   openPrice: number;
   closePrice?: number;
   quantity: number;
+  legs?: TradeLeg[];
+  /** Quote asset prices and PNL are denominated in (e.g. BTC for ETHBTC); inferred from symbol when absent */
+  quoteAsset?: string;
+  /** Quote → home currency rate at close, so closed trades don't move with live rates */
+  homeConversion?: HomeConversion;
+  /** Fee schedule id (see constants/feeSchedules.ts) used to estimate `fees` */
+  exchange?: string;
+  /** Exchange trading fees, in quote currency */
+  fees?: number;
+  /** Broker commission, in quote currency */
+  commission?: number;
+  /** Perpetual funding: positive = paid, negative = received */
+  funding?: number;
+  /** Futures leverage (e.g. 10 for 10x); absent for spot trades */
+  leverage?: number;
+  marginMode?: MarginMode;
+  /** Cross margin: account balance backing the position, in quote currency */
+  crossMarginBalance?: number;
+  /** Maintenance margin rate as a fraction (0.004 = 0.4%); defaults to DEFAULT_MAINTENANCE_MARGIN_RATE */
+  maintenanceMarginRate?: number;
+  /** Initial stop loss set at entry; the risk every R-multiple is measured against */
   stopLoss?: number;
+  /** Take-profit plan set at entry */
+  takeProfits?: TakeProfitTarget[];
+  /** Later stop / target moves (trailing, breakeven), in time order */
+  adjustments?: TradeAdjustment[];
+  /** Planned reward:risk at entry, from stop loss and take-profit targets */
+  plannedR?: number;
+  /** Realized R-multiple (net PNL ÷ initial risk), computed when the trade is saved */
   rValue?: number;
   notes?: string;
   tags?: string[];
+  /** Playbook (setup) the trade was taken under */
+  playbookId?: string;
+  /** Ids of the playbook rules ticked off at entry */
+  checkedRules?: string[];
+  /** Ids of the mistake categories made on this trade */
+  mistakes?: string[];
+  /** Emotional state while trading: 1 (tilted) … 5 (calm and focused) */
+  emotionRating?: number;
+  /** Self-assessed execution quality: 1 (poor) … 5 (flawless) */
+  executionGrade?: number;
+  /** Screenshots / files; the content lives in IndexedDB under each id */
+  attachments?: AttachmentMeta[];
+  /** Journal (account) the trade belongs to; the default journal when absent */
+  journalId?: string;
+  /** Last local change (ms); set on every save, compared when sync finds a conflict */
+  updatedAt?: number;
+}
+
+// ---- Journal types ----
+
+/** A named journal or account (e.g. spot, futures, paper) with its own trades, filters and symbols */
+export interface Journal {
+  id: string;
+  name: string;
+}
+
+// ---- Playbook types ----
+
+export interface PlaybookRule {
+  id: string;
+  text: string;
+}
+
+/** A named setup with the entry checklist a trade should satisfy */
+export interface Playbook {
+  id: string;
+  name: string;
+  description?: string;
+  rules: PlaybookRule[];
+  /** Default amount risked per trade, in the trade's quote asset; suggests position size */
+  defaultRisk?: number;
+}
+
+// ---- Review types ----
+
+/** A user-configurable mistake category (e.g. FOMO entry, moved stop) */
+export interface MistakeCategory {
+  id: string;
+  label: string;
+}
+
+// ---- Storage types ----
+
+/** A stored trade record that failed validation on load, kept for inspection instead of dropped */
+export interface QuarantinedRecord {
+  id: string;
+  /** The record as stored (after migrations); raw text when the whole value was unreadable */
+  record: unknown;
+  errors: string[];
+  /** Schema version the record was migrated to */
+  schemaVersion: number;
+  quarantinedAt: number;
+}
+
+/** A trade or history write that failed; the in-memory state is ahead of storage until a retry succeeds */
+export interface SaveFailure {
+  message: string;
+  /** The browser refused the write because storage is full */
+  quotaExceeded: boolean;
+  failedAt: number;
+}
+
+/** Estimated storage use (bytes). localStorage and the origin quota (IndexedDB, files) are limited separately */
+export interface StorageUsage {
+  backend: StorageBackend;
+  /** Trades as JSON */
+  tradesBytes: number;
+  /** Trade history as JSON */
+  historyBytes: number;
+  /** Everything in localStorage (history, settings, lists; trades too on the localStorage backend) */
+  localStorageBytes: number;
+  localStorageQuota: number;
+  /** navigator.storage.estimate(); null where the browser doesn't report it */
+  originUsage: number | null;
+  originQuota: number | null;
+  /** Share used of the tighter of the two limits (0–1) */
+  ratio: number;
+  level: StorageUsageLevel;
+}
+
+// ---- History types ----
+
+/** One field's value before and after a revision (undefined = not set) */
+export interface FieldChange {
+  field: keyof Trade;
+  before?: unknown;
+  after?: unknown;
+}
+
+/** Timestamped change to a trade; snapshot is the trade after the change (before it, for DELETE) */
+export interface TradeRevision {
+  id: string;
+  tradeId: string;
+  action: RevisionAction;
+  timestamp: number;
+  changes: FieldChange[];
+  snapshot: Trade;
+}
+
+/** A trade's state before and after one change (null = not in the journal) */
+export interface TradeChange {
+  before: Trade | null;
+  after: Trade | null;
+}
+
+/** One undoable user action; may touch several trades (bulk delete, sample list) */
+export interface UndoEntry {
+  label: string;
+  changes: TradeChange[];
+}
+
+// ---- Fee types ----
+
+/** Maker/taker rates of an exchange, as fractions of notional (0.001 = 0.1%) */
+export interface FeeSchedule {
+  id: string;
+  label: string;
+  makerRate: number;
+  takerRate: number;
+}
+
+// ---- Tax types ----
+
+/** Holding-period rule of a tax jurisdiction */
+export interface TaxJurisdictionRule {
+  id: TaxJurisdiction;
+  label: string;
+  /** Long-term when held more than this many months; null = no long-term split (or set in days for CUSTOM) */
+  longTermMonths: number | null;
+  /** Shown under the picker */
+  note: string;
+}
+
+// ---- Symbol rules ----
+
+/** Binance exchangeInfo LOT_SIZE / PRICE_FILTER limits for a symbol */
+export interface SymbolRules {
+  /** Quantity must be a multiple of stepSize */
+  stepSize: number;
+  minQty: number;
+  maxQty: number;
+  /** Price must be a multiple of tickSize */
+  tickSize: number;
+  minPrice: number;
 }
 
 // ---- Market Data API types ----
@@ -69,6 +470,52 @@ export interface MarketDataMap {
   [symbol: string]: MarketSymbolData;
 }
 
+// ---- Tab sync types ----
+
+/** A trade set to `trade` in another tab (null = deleted there) */
+export interface RemoteTradeChange {
+  id: string;
+  trade: Trade | null;
+}
+
+/** Sent to other open tabs after this tab saved trades */
+export interface TabSyncMessage {
+  /** Tab that made the change */
+  sourceId: string;
+  changes: RemoteTradeChange[];
+  /** Revisions recorded for the change, so other tabs' history stays complete */
+  revisions: TradeRevision[];
+}
+
+// ---- Server sync types ----
+
+/** A trade as stored on the sync server (see SYNC_API.md) */
+export interface SyncRecord {
+  id: string;
+  /** Server-assigned, increasing with every write to any trade */
+  revision: number;
+  /** null = deleted (tombstone) */
+  trade: Trade | null;
+}
+
+/** A trade changed both here and on the server since the last sync */
+export interface SyncConflict {
+  id: string;
+  /** This device's version; null = deleted here */
+  local: Trade | null;
+  remote: SyncRecord;
+  detectedAt: number;
+}
+
+export interface SyncConfig {
+  enabled: boolean;
+  target: SyncTarget;
+  /** Base URL of the REST API, e.g. https://journal.example.com/api */
+  url: string;
+  /** Sent as a Bearer token when set */
+  token: string;
+}
+
 // ---- Filter types ----
 
 export interface TradeFilters {
@@ -77,11 +524,194 @@ export interface TradeFilters {
   status: TradeStatus | '';
   entryType: EntryType | '';
   tags: string[];
+  /** Playbook id; '' = all */
+  playbookId: string;
+  /** Mistake category ids; trades with any of them match */
+  mistakes: string[];
+  /** Emotion ratings ('1'–'5'); trades with any of them match */
+  emotionRatings: string[];
+  /** Execution grades ('1'–'5'); trades with any of them match */
+  executionGrades: string[];
   searchNotes: string;
 }
 
 export type TradeFiltersType = TradeFilters;
 
+// ---- Settings types ----
+
+export interface AppSettings {
+  /** Currency PNL is converted into for display and totals (a Binance asset, e.g. USDT) */
+  homeCurrency: string;
+  /** Journal shown in the table, or ALL_JOURNALS_ID for the combined view */
+  journalId: string;
+  /** Lot matching of the tax report */
+  taxLotMethod: TaxLotMethod;
+  /** Holding-period rules of the tax report */
+  taxJurisdiction: TaxJurisdiction;
+  /** TAX_JURISDICTION.CUSTOM: gains are long-term when held more than this many days */
+  taxLongTermDays: number;
+}
+
+/** Stored (plain) settings of at-rest encryption; the key itself is never stored */
+export interface EncryptionConfig {
+  /** PBKDF2 salt, base64 */
+  salt: string;
+  iterations: number;
+  /** A known text sealed with the key; decrypting it checks the passphrase */
+  check: string;
+  /** Lock after this many minutes without activity; 0 = never */
+  autoLockMinutes: number;
+}
+
+// ---- Backup types ----
+
+/** Everything the journal stores, as written to a backup file (see utils/backup.ts) */
+export interface JournalBackup {
+  format: string;
+  /** Version of this file layout */
+  backupVersion: number;
+  exportedAt: number;
+  /** Trade schema version the trades were written at */
+  schemaVersion: number;
+  trades: Trade[];
+  history: TradeRevision[];
+  journals: Journal[];
+  /** Saved filters by journal id (including the combined view) */
+  filters: Record<string, TradeFilters>;
+  settings: AppSettings;
+  demoLoaded: boolean;
+  /** Symbols per journal; rebuilt from the trades on restore */
+  symbols: Record<string, string[]>;
+  playbooks: Playbook[];
+  mistakeCategories: MistakeCategory[];
+  /** Attachment file contents as data URLs, by attachment id */
+  files: Record<string, string>;
+}
+
+/** What a restore will do, shown before it runs and then applied as is */
+export interface RestorePlan {
+  /** Trades to write (new or changed) */
+  put: Trade[];
+  /** Ids of trades to delete (replace only) */
+  remove: string[];
+  added: number;
+  updated: number;
+  unchanged: number;
+  /** Same id, different data in the journal and the backup (merge only) */
+  conflicts: number;
+  /** Conflicting trades added under a new id (keep both) */
+  renamed: number;
+  revisions: TradeRevision[];
+  journals: Journal[];
+  journalsAdded: number;
+  playbooks: Playbook[];
+  playbooksAdded: number;
+  mistakeCategories: MistakeCategory[];
+  mistakeCategoriesAdded: number;
+  /** Filters to write by journal id */
+  filters: Record<string, TradeFilters>;
+  /** null = keep the current settings */
+  settings: AppSettings | null;
+  demoLoaded: boolean;
+  files: Record<string, string>;
+}
+
+// ---- Import types ----
+
+/** Trade fields a CSV column can be mapped to */
+export type ImportField = Extract<
+  keyof Trade,
+  | 'symbol'
+  | 'position'
+  | 'status'
+  | 'openTimestamp'
+  | 'closeTimestamp'
+  | 'openPrice'
+  | 'closePrice'
+  | 'quantity'
+  | 'fees'
+  | 'commission'
+  | 'funding'
+  | 'leverage'
+  | 'stopLoss'
+  | 'quoteAsset'
+  | 'notes'
+  | 'tags'
+>;
+
+/** How a CSV file is read into trades (see utils/tradeImport.ts) */
+export interface CsvImportSettings {
+  delimiter: string;
+  hasHeader: boolean;
+  /** Column index per field; unmapped fields are absent */
+  mapping: Partial<Record<ImportField, number>>;
+  dateFormat: ImportDateFormat;
+  /** IANA time zone of dates without an offset, e.g. UTC or Europe/Berlin */
+  timeZone: string;
+  decimalSeparator: '.' | ',';
+}
+
+/** One data row of an import, as previewed */
+export interface ImportRow {
+  /** Row number in the file (1-based, header included) */
+  line: number;
+  /** null when the row has errors */
+  trade: Trade | null;
+  errors: string[];
+  duplicate: ImportDuplicate | null;
+}
+
+/** One fill read from an exchange trade-history export (see utils/binanceImport.ts) */
+export interface ImportFill {
+  /** Row number in the file (1-based, header included) */
+  line: number;
+  timestamp: number;
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  side: FillSide;
+  price: number;
+  /** Base asset quantity */
+  quantity: number;
+  fee: number;
+  /** Asset the fee was charged in: quote, base or another coin (e.g. BNB) */
+  feeAsset: string;
+}
+
+/** Per-symbol totals of a fill import, shown before saving so the numbers can be checked against the exchange */
+export interface FillReconciliation {
+  symbol: string;
+  quoteAsset: string;
+  /** Fill rows read, and the orders they make once same-time fills are merged */
+  fills: number;
+  orders: number;
+  bought: number;
+  sold: number;
+  /** Quantity still open after pairing: long positive, short negative */
+  openQuantity: number;
+  /** Sells with nothing to close when short trades are not allowed; left out */
+  unmatchedQuantity: number;
+  closedTrades: number;
+  openTrades: number;
+  /** Gross PNL of the matched quantity, in quote currency */
+  realizedPnl: number;
+  /** Fees charged in the quote or base asset, in quote currency */
+  fees: number;
+  /** Fees charged in other assets, which are not converted */
+  otherFees: Record<string, number>;
+}
+
+// ---- Export types ----
+
+/** Cell of an exported table: numbers stay numbers in XLSX, null is an empty cell */
+export type ExportCell = string | number | null;
+
+/** Trade table as exported (see utils/tradeExport.ts) */
+export interface ExportTable {
+  headers: string[];
+  rows: ExportCell[][];
+}
+
 // ---- Component-specific types ----
 
 /** Tooltip info item: title, description, optional icon key */
@@ -0,0 +1,288 @@
+/**
+ * BackupModal Component
+ * Exports the whole journal to one JSON file and restores one: pick a file,
+ * choose merge or replace (and how to resolve trade id conflicts), check the
+ * preview, then restore. Also shows how much storage the journal uses.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  CONFIRM_MODAL_VARIANT,
+  RESTORE_CONFLICT,
+  RESTORE_MODE,
+  type RestoreConflict,
+  type RestoreMode,
+  type RestorePlan,
+  type StorageUsage,
+} from '../constants/types';
+import { parseBackup, planRestore, type ParsedBackup, type RestoreSource } from '../../utils/backup';
+import { formatTimestampGMT } from '../../utils/calculations';
+import { backupService } from '../../services/backupService';
+import { encryptionService } from '../../services/encryptionService';
+import { ConfirmModal } from './ConfirmModal';
+import { StorageUsageMeter } from '../StorageUsageMeter';
+
+interface BackupModalProps {
+  /** Current journal, exported as is and the base a restore is planned against */
+  source: RestoreSource;
+  /** null until estimated */
+  usage: StorageUsage | null;
+  onRestore: (plan: RestorePlan) => Promise<void>;
+  onClose: () => void;
+}
+
+const CONFLICT_OPTIONS: { value: RestoreConflict; label: string }[] = [
+  { value: RESTORE_CONFLICT.KEEP_BOTH, label: 'Keep both (backup copy gets a new id)' },
+  { value: RESTORE_CONFLICT.KEEP_CURRENT, label: 'Keep the version in this journal' },
+  { value: RESTORE_CONFLICT.USE_BACKUP, label: 'Use the version in the backup' },
+];
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? '' : 's'}`;
+}
+
+export const BackupModal: React.FC<BackupModalProps> = ({ source, usage, onRestore, onClose }) => {
+  const [includeFiles, setIncludeFiles] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [parsed, setParsed] = useState<ParsedBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>(RESTORE_MODE.MERGE);
+  const [conflict, setConflict] = useState<RestoreConflict>(RESTORE_CONFLICT.KEEP_BOTH);
+  const [showReplaceConfirm, setShowReplaceConfirm] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const plan = useMemo(
+    () => (parsed ? planRestore(source, parsed.backup, mode, conflict) : null),
+    [source, parsed, mode, conflict]
+  );
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      backupService.download(await backupService.create(source.trades, source.history, includeFiles));
+    } catch (err) {
+      setError(`Could not create the backup: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setParsed(null);
+    setError(null);
+    if (!file) return;
+    const { parsed: result, error: parseError } = parseBackup(await file.text());
+    if (parseError) setError(parseError);
+    setParsed(result);
+  };
+
+  const restore = async () => {
+    if (!plan) return;
+    setShowReplaceConfirm(false);
+    setRestoring(true);
+    setError(null);
+    try {
+      await onRestore(plan);
+    } catch (err) {
+      setError(`Restore failed: ${err instanceof Error ? err.message : String(err)}`);
+      setRestoring(false);
+    }
+  };
+
+  const previewRows: { label: string; value: string }[] = plan
+    ? [
+        {
+          label: 'Trades',
+          value: [
+            `${plan.added} new`,
+            `${plan.updated} updated`,
+            ...(mode === RESTORE_MODE.REPLACE ? [`${plan.remove.length} deleted`] : []),
+            `${plan.unchanged} unchanged`,
+          ].join(', '),
+        },
+        ...(plan.conflicts > 0
+          ? [
+              {
+                label: 'Id conflicts',
+                value:
+                  conflict === RESTORE_CONFLICT.KEEP_BOTH
+                    ? `${plan.conflicts}, backup copies added under a new id`
+                    : conflict === RESTORE_CONFLICT.KEEP_CURRENT
+                      ? `${plan.conflicts}, this journal's version kept`
+                      : `${plan.conflicts}, replaced by the backup's version`,
+              },
+            ]
+          : []),
+        { label: 'History', value: plural(plan.revisions.length, 'revision') + ' added' },
+        { label: 'Journals', value: `${plan.journalsAdded} added` },
+        { label: 'Playbooks', value: `${plan.playbooksAdded} added` },
+        { label: 'Mistake categories', value: `${plan.mistakeCategoriesAdded} added` },
+        { label: 'Attachment files', value: String(Object.keys(plan.files).length) },
+        {
+          label: 'Settings and filters',
+          value: plan.settings ? "Replaced by the backup's" : 'Kept (filters added for new journals)',
+        },
+      ]
+    : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-xl flex-col overflow-hidden rounded-2xl bg-white shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex shrink-0 items-center justify-between border-b border-gray-200 px-8 py-5">
+          <h2 className="text-2xl font-bold text-gray-900">Backup</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+            aria-label="Close"
+          >
+            <span className="text-2xl leading-none">&times;</span>
+          </button>
+        </div>
+
+        <div className="create-trade-form-scroll flex-1 space-y-6 overflow-y-auto px-8 py-6">
+          <section className="space-y-3">
+            <h3 className="text-lg font-semibold">Export</h3>
+            <p className="text-sm text-gray-600">
+              One JSON file with all trades and their history, journals, filters, settings, playbooks and mistake
+              categories.
+              {encryptionService.isEnabled() && ' The file is not encrypted; keep it somewhere safe.'}
+            </p>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={includeFiles}
+                onChange={(e) => setIncludeFiles(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600"
+              />
+              Include attachment files (larger file)
+            </label>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={exporting}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {exporting ? 'Preparing…' : 'Download backup'}
+            </button>
+          </section>
+
+          <section className="space-y-3 border-t border-gray-200 pt-5">
+            <h3 className="text-lg font-semibold">Restore</h3>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="block w-full text-sm text-gray-700"
+            />
+
+            {parsed && plan && (
+              <>
+                <p className="text-xs text-gray-500">
+                  Backup from {parsed.backup.exportedAt ? formatTimestampGMT(parsed.backup.exportedAt) : 'an unknown date'}{' '}
+                  with {plural(parsed.backup.trades.length, 'trade')}.
+                </p>
+                <div className="inline-flex rounded-lg border border-gray-200 bg-white p-0.5">
+                  {[
+                    { value: RESTORE_MODE.MERGE, label: 'Merge' },
+                    { value: RESTORE_MODE.REPLACE, label: 'Replace' },
+                  ].map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setMode(option.value)}
+                      className={`rounded-md px-4 py-2 text-sm font-medium transition-colors ${
+                        mode === option.value ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {mode === RESTORE_MODE.MERGE
+                    ? 'Adds what is new; journals with the same name are combined.'
+                    : 'The journal becomes the backup: trades not in it are deleted, lists and settings are replaced.'}
+                </p>
+
+                {mode === RESTORE_MODE.MERGE && plan.conflicts > 0 && (
+                  <div>
+                    <label htmlFor="restore-conflict" className="mb-1 block text-sm font-medium text-gray-700">
+                      {plural(plan.conflicts, 'trade')} exist here with different data
+                    </label>
+                    <select
+                      id="restore-conflict"
+                      value={conflict}
+                      onChange={(e) => setConflict(e.target.value as RestoreConflict)}
+                      className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                    >
+                      {CONFLICT_OPTIONS.map((o) => (
+                        <option key={o.value} value={o.value}>
+                          {o.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                <dl className="divide-y divide-gray-100 rounded-lg border border-gray-200 text-sm">
+                  {previewRows.map((row) => (
+                    <div key={row.label} className="flex justify-between gap-4 px-4 py-2">
+                      <dt className="text-gray-500">{row.label}</dt>
+                      <dd className="text-right font-medium text-gray-900">{row.value}</dd>
+                    </div>
+                  ))}
+                </dl>
+
+                {parsed.invalid.length > 0 && (
+                  <details className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800">
+                    <summary className="cursor-pointer">
+                      {plural(parsed.invalid.length, 'trade')} in the file failed validation and will be skipped
+                    </summary>
+                    <ul className="mt-2 list-disc space-y-1 pl-5 text-xs">
+                      {parsed.invalid.map((item, i) => (
+                        <li key={i}>{item.errors.join('; ')}</li>
+                      ))}
+                    </ul>
+                  </details>
+                )}
+
+                <button
+                  type="button"
+                  onClick={() => (mode === RESTORE_MODE.REPLACE ? setShowReplaceConfirm(true) : restore())}
+                  disabled={restoring}
+                  className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {restoring ? 'Restoring…' : 'Restore backup'}
+                </button>
+              </>
+            )}
+          </section>
+
+          {usage && (
+            <section className="space-y-3 border-t border-gray-200 pt-5">
+              <h3 className="text-lg font-semibold">Storage</h3>
+              <StorageUsageMeter usage={usage} />
+            </section>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <ConfirmModal
+          isOpen={showReplaceConfirm}
+          title="Replace the journal?"
+          message={`${plural(plan?.remove.length ?? 0, 'trade')} not in the backup will be deleted, and journals, playbooks, mistake categories, filters and settings will be replaced. Undo brings back the trades only.`}
+          variant={CONFIRM_MODAL_VARIANT.DANGER}
+          confirmLabel="Replace"
+          onConfirm={restore}
+          onCancel={() => setShowReplaceConfirm(false)}
+        />
+      </div>
+    </div>
+  );
+};
@@ -1,20 +1,51 @@
 /**
  * CreateTradeModal Component
  * Modal form for creating new trades with the new schema.
- * Symbol selector loads from localStorage.
+ * Symbol selector loads from localStorage. Fills are entered as execution legs.
  */
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import type { Trade, TradeStatus } from '../constants/types';
+import {
+  LEG_SIDE,
+  type AttachmentMeta,
+  type Journal,
+  type Playbook,
+  type Trade,
+  type TradeStatus,
+} from '../constants/types';
 import { useCoins } from '../../hooks/useCoins';
 import { fetchTickerPrice } from '../../services/coinsService';
-import { toDateTimeLocalGMT, fromDateTimeLocalGMT } from '../../utils/calculations';
+import { getTradeFieldsFromLegs, getTradeRFields, summarizeLegs } from '../../utils/calculations';
+import {
+  createLegDraft,
+  getDraftQuantities,
+  parseLegDrafts,
+  toValidLegs,
+  type TradeLegDraft,
+} from '../../utils/tradeLegDrafts';
+import { parseTakeProfitDrafts, type TakeProfitDraft } from '../../utils/takeProfitDrafts';
+import { createCostsDraft, parseCostsDraft, type TradeCostsDraft } from '../../utils/tradeCostDrafts';
+import { createMarginDraft, parseMarginDraft, type MarginDraft } from '../../utils/marginDrafts';
+import { inferQuoteAsset } from '../../utils/currency';
+import { getPriceDecimals } from '../../utils/symbolRules';
 import { SelectBox } from '../ui-components/SelectBox';
+import { TradeLegsEditor } from '../TradeLegsEditor';
+import { TradeCostsFields } from '../TradeCostsFields';
+import { TakeProfitEditor } from '../TakeProfitEditor';
+import { MarginFields } from '../MarginFields';
+import { AttachmentsField } from '../AttachmentsField';
+import { PlaybookChecklist } from '../PlaybookChecklist';
 
 interface CreateTradeModalProps {
   onSubmit: (trade: Trade) => void;
   onCancel: () => void;
   existingTags?: string[];
+  /** When any exist, a playbook must be picked */
+  playbooks?: Playbook[];
+  /** With more than one, a journal picker is shown */
+  journals?: Journal[];
+  /** Journal the trade goes into unless another is picked */
+  journalId?: string;
 }
 
 const DISPLAY_LIMIT = 80;
@@ -23,12 +54,21 @@ export const CreateTradeModal: React.FC<CreateTradeModalProps> = ({
   onSubmit,
   onCancel,
   existingTags = [],
+  playbooks = [],
+  journals = [],
+  journalId: initialJournalId,
 }) => {
   const now = Date.now();
   const { coins, isLoading, error } = useCoins();
   const [symbol, setSymbol] = useState('ETHBTC');
 
   const filteredCoins = useMemo(() => coins.slice(0, DISPLAY_LIMIT), [coins]);
+  const selectedCoin = useMemo(
+    () => coins.find((c) => c.symbol.toUpperCase() === symbol.toUpperCase()),
+    [coins, symbol]
+  );
+  const symbolRules = selectedCoin?.rules;
+  const quoteAsset = selectedCoin?.quoteAsset ?? inferQuoteAsset(symbol);
   const symbolOptions = useMemo(
     () =>
       filteredCoins.map((c) => ({
@@ -50,13 +90,19 @@ export const CreateTradeModal: React.FC<CreateTradeModalProps> = ({
   }, []);
   const [position, setPosition] = useState<'LONG' | 'SHORT'>('LONG');
   const [status, setStatus] = useState<TradeStatus>('CLOSED');
-  const [openTimestamp, setOpenTimestamp] = useState(now);
-  const [closeTimestamp, setCloseTimestamp] = useState(now);
-  const [openPrice, setOpenPrice] = useState('');
-  const [closePrice, setClosePrice] = useState('');
-  const [quantity, setQuantity] = useState('');
+  const [legs, setLegs] = useState<TradeLegDraft[]>(() => [
+    createLegDraft(LEG_SIDE.ENTRY, now),
+    createLegDraft(LEG_SIDE.EXIT, now),
+  ]);
+  const [costs, setCosts] = useState<TradeCostsDraft>(() => createCostsDraft());
+  const [margin, setMargin] = useState<MarginDraft>(() => createMarginDraft());
   const [stopLoss, setStopLoss] = useState('');
+  const [takeProfits, setTakeProfits] = useState<TakeProfitDraft[]>([]);
+  const [journalId, setJournalId] = useState(initialJournalId);
+  const [playbookId, setPlaybookId] = useState('');
+  const [checkedRules, setCheckedRules] = useState<string[]>([]);
   const [notes, setNotes] = useState('');
+  const [attachments, setAttachments] = useState<AttachmentMeta[]>([]);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [tagsInput, setTagsInput] = useState('');
   const [tagsDropdownOpen, setTagsDropdownOpen] = useState(false);
@@ -64,20 +110,26 @@ export const CreateTradeModal: React.FC<CreateTradeModalProps> = ({
   const [validationError, setValidationError] = useState<string | null>(null);
   const [openPriceLoading, setOpenPriceLoading] = useState(false);
 
-  // When symbol changes, fetch current price and pre-fill Open Price
+  // When symbol changes, fetch current price and pre-fill the first entry leg
   useEffect(() => {
     if (!symbol?.trim()) return;
     let cancelled = false;
+    const setFirstEntryPrice = (price: string) => {
+      setLegs((prev) => {
+        const firstEntry = prev.find((l) => l.side === LEG_SIDE.ENTRY);
+        return prev.map((l) => (l === firstEntry ? { ...l, price } : l));
+      });
+    };
     setOpenPriceLoading(true);
     fetchTickerPrice(symbol.trim())
       .then((data) => {
         if (!cancelled) {
-          setOpenPrice(data.price);
+          setFirstEntryPrice(data.price);
         }
       })
       .catch(() => {
         if (!cancelled) {
-          setOpenPrice('');
+          setFirstEntryPrice('');
         }
       })
       .finally(() => {
@@ -100,50 +152,92 @@ export const CreateTradeModal: React.FC<CreateTradeModalProps> = ({
     e.preventDefault();
     setValidationError(null);
 
-    const op = parseFloat(openPrice);
-    const cp = closePrice.trim() ? parseFloat(closePrice) : NaN;
-    const qty = parseFloat(quantity);
+    if (playbooks.length > 0 && !playbookId) {
+      setValidationError('Please pick the playbook this trade follows');
+      return;
+    }
 
-    if (isNaN(op) || isNaN(qty) || op <= 0 || qty <= 0) {
-      setValidationError('Please enter valid open price and quantity');
+    const { legs: parsedLegs, error: legsError } = parseLegDrafts(legs, symbolRules);
+    if (legsError) {
+      setValidationError(legsError);
       return;
     }
-    if (!Number.isInteger(qty)) {
-      setValidationError('Quantity must be a whole number (e.g. 1, 2, 10)');
+    const { openQuantity } = summarizeLegs(parsedLegs);
+    if (status === 'CLOSED' && openQuantity > 0) {
+      setValidationError(`Closed trades need exit legs for the full quantity (${openQuantity} still open)`);
+      return;
+    }
+    if (status === 'OPEN' && openQuantity <= 0) {
+      setValidationError('All quantity is exited; mark the trade as Closed');
+      return;
+    }
+
+    const { costs: parsedCosts, error: costsError } = parseCostsDraft(costs, parsedLegs);
+    if (costsError) {
+      setValidationError(costsError);
       return;
     }
-    if (status === 'CLOSED' && (isNaN(cp) || cp <= 0)) {
-      setValidationError('Please enter valid close price for closed trades');
+
+    const { margin: parsedMargin, error: marginError } = parseMarginDraft(margin);
+    if (marginError) {
+      setValidationError(marginError);
       return;
     }
 
     const trade: Trade = {
       id: `trade-${Date.now()}`,
       symbol: symbol.toUpperCase(),
+      quoteAsset,
       position,
       status,
-      openTimestamp,
-      openPrice: op,
-      quantity: qty,
+      ...getTradeFieldsFromLegs(parsedLegs),
+      legs: parsedLegs,
+      ...parsedCosts,
+      ...parsedMargin,
+      playbookId: playbookId || undefined,
+      checkedRules: playbookId && checkedRules.length ? checkedRules : undefined,
       notes: notes.trim() || undefined,
       tags: selectedTags.length ? selectedTags : undefined,
+      attachments: attachments.length ? attachments : undefined,
+      journalId,
     };
 
-    if (status === 'CLOSED') {
-      trade.closeTimestamp = closeTimestamp;
-      trade.closePrice = cp;
-    }
-
     if (stopLoss.trim()) {
       const sl = parseFloat(stopLoss);
       if (!isNaN(sl)) trade.stopLoss = sl;
     }
 
-    onSubmit(trade);
+    const { targets, error: targetsError } = parseTakeProfitDrafts(
+      takeProfits,
+      position,
+      trade.openPrice,
+      trade.stopLoss
+    );
+    if (targetsError) {
+      setValidationError(targetsError);
+      return;
+    }
+    if (targets.length) trade.takeProfits = targets;
+
+    onSubmit({ ...trade, ...getTradeRFields(trade) });
   };
 
-  const toDateLocal = toDateTimeLocalGMT;
-  const fromDateLocal = fromDateTimeLocalGMT;
+  const liveLegSummary = summarizeLegs(toValidLegs(legs));
+  const liveEntryPrice = liveLegSummary.avgEntryPrice;
+  const liveStopLoss = stopLoss.trim() && !isNaN(parseFloat(stopLoss)) ? parseFloat(stopLoss) : undefined;
+
+  const handleStatusChange = (next: TradeStatus) => {
+    setStatus(next);
+    if (next === 'CLOSED' && !legs.some((l) => l.side === LEG_SIDE.EXIT)) {
+      const { entry, exit } = getDraftQuantities(legs);
+      const remaining = Number((entry - exit).toFixed(8));
+      setLegs((prev) => [...prev, createLegDraft(LEG_SIDE.EXIT, Date.now(), '', remaining > 0 ? String(remaining) : '')]);
+    }
+    if (next === 'OPEN') {
+      // Drop untouched exit rows so an open trade doesn't fail validation on them
+      setLegs((prev) => prev.filter((l) => l.side === LEG_SIDE.ENTRY || l.price.trim() !== ''));
+    }
+  };
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
@@ -169,6 +263,16 @@ export const CreateTradeModal: React.FC<CreateTradeModalProps> = ({
           }}
         >
           <div className="space-y-5">
+          {journals.length > 1 && (
+            <SelectBox
+              mode="single"
+              label="Journal"
+              options={journals.map((j) => ({ value: j.id, label: j.name }))}
+              value={journalId ?? null}
+              onChange={(v) => v && setJournalId(v)}
+              minWidth="160px"
+            />
+          )}
           <div className="grid grid-cols-1 gap-5 sm:grid-cols-3">
           <div className="sm:col-span-2">
             <SelectBox
@@ -228,7 +332,7 @@ export const CreateTradeModal: React.FC<CreateTradeModalProps> = ({
                 <button
                   key={opt}
                   type="button"
-                  onClick={() => setStatus(opt)}
+                  onClick={() => handleStatusChange(opt)}
                   className={`flex flex-1 items-center justify-center gap-2 rounded-lg border-2 px-4 py-3 text-sm font-semibold shadow-sm transition-all ${
                     status === opt
                       ? opt === 'OPEN'
@@ -252,102 +356,34 @@ export const CreateTradeModal: React.FC<CreateTradeModalProps> = ({
             </div>
           </div>
 
-          <div className="grid grid-cols-2 gap-5">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Open Time (GMT) *
-              </label>
-              <input
-                type="datetime-local"
-                value={toDateLocal(openTimestamp)}
-                onChange={(e) => setOpenTimestamp(fromDateLocal(e.target.value))}
-                className="w-full border border-gray-300 rounded px-3 py-2"
-              />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Close Time (GMT) {status === 'CLOSED' ? '*' : '(optional)'}
-              </label>
-              <input
-                type="datetime-local"
-                value={toDateLocal(closeTimestamp)}
-                onChange={(e) => setCloseTimestamp(fromDateLocal(e.target.value))}
-                disabled={status === 'OPEN'}
-                className="w-full border border-gray-300 rounded px-3 py-2 disabled:bg-gray-100"
-              />
-            </div>
-          </div>
+          <PlaybookChecklist
+            playbooks={playbooks}
+            playbookId={playbookId}
+            checkedRules={checkedRules}
+            onChange={(id, rules) => {
+              setPlaybookId(id);
+              setCheckedRules(rules);
+            }}
+            entryPrice={liveEntryPrice}
+            stopLoss={liveStopLoss}
+            quoteAsset={quoteAsset}
+            required={playbooks.length > 0}
+          />
 
-          <div className="grid grid-cols-3 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Open Price ($) * {openPriceLoading && <span className="text-gray-400 font-normal">(fetching…)</span>}
-              </label>
-              <input
-                type="number"
-                step="any"
-                min={0}
-                value={openPrice}
-                onKeyDown={(e) => { if (e.key === '-' || e.key === 'e' || e.key === 'E') e.preventDefault(); }}
-                onChange={(e) => {
-                  const v = e.target.value;
-                  if (v !== '' && parseFloat(v) < 0) return;
-                  setOpenPrice(v);
-                }}
-                disabled={openPriceLoading}
-                className="w-full border border-gray-300 rounded px-3 py-2 disabled:bg-gray-50 disabled:text-gray-600"
-                required
-              />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Close Price ($) {status === 'CLOSED' ? '*' : '(optional)'}
-              </label>
-              <input
-                type="number"
-                step="any"
-                min={0}
-                value={closePrice}
-                onKeyDown={(e) => { if (e.key === '-' || e.key === 'e' || e.key === 'E') e.preventDefault(); }}
-                onChange={(e) => {
-                  const v = e.target.value;
-                  if (v !== '' && parseFloat(v) < 0) return;
-                  setClosePrice(v);
-                }}
-                disabled={status === 'OPEN'}
-                className="w-full border border-gray-300 rounded px-3 py-2 disabled:bg-gray-100"
-                required={status === 'CLOSED'}
-              />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Quantity * (whole numbers only)
-              </label>
-              <input
-                type="number"
-                step="1"
-                min={1}
-                value={quantity}
-                onKeyDown={(e) => { if (e.key === '-' || e.key === '.' || e.key === ',' || e.key === 'e' || e.key === 'E') e.preventDefault(); }}
-                onChange={(e) => {
-                  const v = e.target.value;
-                  if (v === '') {
-                    setQuantity('');
-                    return;
-                  }
-                  const n = parseFloat(v);
-                  if (n < 0 || !Number.isInteger(n)) return;
-                  setQuantity(String(Math.floor(n)));
-                }}
-                className="w-full border border-gray-300 rounded px-3 py-2"
-                required
-              />
-            </div>
-          </div>
+          <TradeLegsEditor
+            position={position}
+            legs={legs}
+            onChange={setLegs}
+            rules={symbolRules}
+            quoteAsset={quoteAsset}
+            labelHint={openPriceLoading && <span className="text-gray-400 font-normal">(fetching price…)</span>}
+          />
+
+          <TradeCostsFields costs={costs} legs={legs} onChange={setCosts} quoteAsset={quoteAsset} />
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Stop Loss ($) (optional)
+              Stop Loss ({quoteAsset}) (optional)
             </label>
             <input
               type="number"
@@ -358,6 +394,26 @@ export const CreateTradeModal: React.FC<CreateTradeModalProps> = ({
             />
           </div>
 
+          <TakeProfitEditor
+            position={position}
+            entryPrice={liveEntryPrice}
+            stopLoss={liveStopLoss}
+            targets={takeProfits}
+            onChange={setTakeProfits}
+            quoteAsset={quoteAsset}
+          />
+
+          <MarginFields
+            margin={margin}
+            onChange={setMargin}
+            position={position}
+            entryPrice={liveEntryPrice}
+            quantity={liveLegSummary.entryQuantity}
+            stopLoss={liveStopLoss}
+            priceDecimals={getPriceDecimals(symbolRules)}
+            quoteAsset={quoteAsset}
+          />
+
           <div ref={tagsRef} className="relative">
             <label className="mb-1.5 block text-xs font-semibold uppercase tracking-wider text-gray-500">
               Tags
@@ -451,6 +507,13 @@ export const CreateTradeModal: React.FC<CreateTradeModalProps> = ({
               className="w-full border border-gray-300 rounded px-3 py-2"
             />
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Screenshots & files
+            </label>
+            <AttachmentsField attachments={attachments} onChange={setAttachments} />
+          </div>
           </div>
 
           {validationError && (
@@ -0,0 +1,122 @@
+/**
+ * ExportTradesModal Component
+ * Exports the trade table as shown (columns, computed PNL, duration, R,
+ * current price, GMT times) to CSV or XLSX, for the selected rows or every
+ * trade the filters show.
+ */
+
+import React, { useState } from 'react';
+import { EXPORT_FORMAT, EXPORT_SCOPE, type ExportFormat, type ExportScope } from '../constants/types';
+
+interface ExportTradesModalProps {
+  /** Selected trades among those the filters show */
+  selectedCount: number;
+  filteredCount: number;
+  onExport: (scope: ExportScope, format: ExportFormat) => void;
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: EXPORT_FORMAT.CSV, label: 'CSV' },
+  { value: EXPORT_FORMAT.XLSX, label: 'Excel (.xlsx)' },
+];
+
+function plural(n: number): string {
+  return `${n} trade${n === 1 ? '' : 's'}`;
+}
+
+export const ExportTradesModal: React.FC<ExportTradesModalProps> = ({ selectedCount, filteredCount, onExport, onClose }) => {
+  const [scope, setScope] = useState<ExportScope>(selectedCount > 0 ? EXPORT_SCOPE.SELECTED : EXPORT_SCOPE.FILTERED);
+  const [format, setFormat] = useState<ExportFormat>(EXPORT_FORMAT.CSV);
+  const count = scope === EXPORT_SCOPE.SELECTED ? selectedCount : filteredCount;
+
+  const scopeOptions = [
+    { value: EXPORT_SCOPE.SELECTED, label: `Selected rows (${plural(selectedCount)})`, disabled: selectedCount === 0 },
+    { value: EXPORT_SCOPE.FILTERED, label: `All shown by the filters (${plural(filteredCount)})`, disabled: false },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-xl flex-col overflow-hidden rounded-2xl bg-white shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex shrink-0 items-center justify-between border-b border-gray-200 px-8 py-5">
+          <h2 className="text-2xl font-bold text-gray-900">Export trades</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+            aria-label="Close"
+          >
+            <span className="text-2xl leading-none">&times;</span>
+          </button>
+        </div>
+
+        <div className="create-trade-form-scroll flex-1 space-y-6 overflow-y-auto px-8 py-6">
+          <fieldset className="space-y-2">
+            <legend className="mb-1 text-sm font-medium text-gray-700">Rows</legend>
+            {scopeOptions.map((option) => (
+              <label
+                key={option.value}
+                className={`flex items-center gap-2 text-sm ${option.disabled ? 'text-gray-400' : 'text-gray-700'}`}
+              >
+                <input
+                  type="radio"
+                  name="export-scope"
+                  checked={scope === option.value}
+                  disabled={option.disabled}
+                  onChange={() => setScope(option.value)}
+                  className="h-4 w-4 border-gray-300 text-blue-600"
+                />
+                {option.label}
+              </label>
+            ))}
+          </fieldset>
+
+          <div>
+            <p className="mb-1 text-sm font-medium text-gray-700">Format</p>
+            <div className="inline-flex rounded-lg border border-gray-200 bg-white p-0.5">
+              {FORMAT_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setFormat(option.value)}
+                  className={`rounded-md px-4 py-2 text-sm font-medium transition-colors ${
+                    format === option.value ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            The table's columns in its order, with times in GMT. Prices, quantities, PNL and R are numbers; the quote
+            asset and the open quantity of open trades get their own columns. Current price, unrealized PNL and open R
+            are as of now.
+          </p>
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-lg bg-gray-100 px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => onExport(scope, format)}
+              disabled={count === 0}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              Export {plural(count)}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,480 @@
+/**
+ * ImportTradesModal Component
+ * CSV import wizard: pick a file, check how it is read (delimiter, header row,
+ * column per trade field, date format, time zone, decimal separator), then
+ * preview every row with its errors and duplicates before importing.
+ * Binance trade-history exports (one row per fill) are recognised by their
+ * headers and paired into trades instead, with a per-symbol reconciliation.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  IMPORT_DATE_FORMAT,
+  IMPORT_DUPLICATE,
+  type CsvImportSettings,
+  type ImportDateFormat,
+  type ImportField,
+  type Journal,
+  type Trade,
+} from '../constants/types';
+import { CSV_DELIMITERS, detectDelimiter, parseCsv } from '../../utils/csv';
+import {
+  IMPORT_FIELDS,
+  buildImportRows,
+  checkImportMapping,
+  detectDateFormat,
+  detectDecimalSeparator,
+  getImportDateFormatLabel,
+  guessColumnMapping,
+  isValidTimeZone,
+} from '../../utils/tradeImport';
+import { isBinanceTradeHistory, pairFills, readBinanceFills } from '../../utils/binanceImport';
+import { formatTimestampGMT } from '../../utils/calculations';
+import { FillReconciliationTable } from '../FillReconciliationTable';
+
+interface ImportTradesModalProps {
+  /** All trades, to find duplicates */
+  trades: Trade[];
+  journals: Journal[];
+  /** Journal imported trades go into unless another is picked */
+  journalId: string;
+  onImport: (trades: Trade[]) => void;
+  onClose: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview';
+
+/** CSV = one row per trade, mapped by the user; BINANCE = Binance fills, paired FIFO */
+type Source = 'csv' | 'binance';
+
+const DELIMITER_LABELS: Record<(typeof CSV_DELIMITERS)[number], string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe',
+};
+
+const PREVIEW_LIMIT = 200;
+
+const LOCAL_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const TIME_ZONES = Array.from(
+  new Set(['UTC', LOCAL_TIME_ZONE, 'Europe/London', 'Europe/Berlin', 'America/New_York', 'America/Chicago', 'Asia/Singapore', 'Asia/Tokyo', 'Australia/Sydney'])
+);
+
+/** First rows of each column, for detecting formats */
+function columnSamples(rows: string[][], hasHeader: boolean, index: number | undefined): string[] {
+  if (index === undefined) return [];
+  return rows.slice(hasHeader ? 1 : 0, 50).map((r) => r[index] ?? '');
+}
+
+export const ImportTradesModal: React.FC<ImportTradesModalProps> = ({ trades, journals, journalId, onImport, onClose }) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [settings, setSettings] = useState<CsvImportSettings | null>(null);
+  const [targetJournalId, setTargetJournalId] = useState(journalId);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [source, setSource] = useState<Source>('csv');
+  const [allowShort, setAllowShort] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rows = useMemo(() => (settings ? parseCsv(text, settings.delimiter) : []), [text, settings]);
+  const fillRead = useMemo(() => (source === 'binance' ? readBinanceFills(rows) : null), [source, rows]);
+  const pairing = useMemo(
+    () =>
+      fillRead ? pairFills(fillRead.fills, { allowShort, journalId: targetJournalId, existing: trades }) : null,
+    [fillRead, allowShort, targetJournalId, trades]
+  );
+  const columns = useMemo(() => {
+    const width = Math.max(0, ...rows.slice(0, 50).map((r) => r.length));
+    return Array.from({ length: width }, (_, i) =>
+      settings?.hasHeader && rows[0]?.[i]?.trim() ? rows[0][i].trim() : `Column ${i + 1}`
+    );
+  }, [rows, settings?.hasHeader]);
+
+  const preview = useMemo(() => {
+    if (pairing) return pairing.rows;
+    return settings && step === 'preview' ? buildImportRows(rows, settings, trades, targetJournalId) : [];
+  }, [pairing, rows, settings, step, trades, targetJournalId]);
+  const valid = preview.filter((r) => r.trade);
+  const duplicates = valid.filter((r) => r.duplicate);
+  const toImport = valid.filter((r) => !(skipDuplicates && r.duplicate)).map((r) => r.trade!);
+
+  /** Settings detected from the file: delimiter, mapping by header names, date and number formats */
+  const detect = (content: string, delimiter = detectDelimiter(content), hasHeader = true): CsvImportSettings => {
+    const parsed = parseCsv(content, delimiter);
+    const mapping = hasHeader ? guessColumnMapping(parsed[0] ?? []) : {};
+    const numberSamples = (['openPrice', 'closePrice', 'quantity'] as const).flatMap((f) =>
+      columnSamples(parsed, hasHeader, mapping[f])
+    );
+    return {
+      delimiter,
+      hasHeader,
+      mapping,
+      dateFormat: detectDateFormat(columnSamples(parsed, hasHeader, mapping.openTimestamp)),
+      timeZone: 'UTC',
+      decimalSeparator: detectDecimalSeparator(numberSamples),
+    };
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setError(null);
+    if (!file) return;
+    const content = await file.text();
+    if (content.trim() === '') {
+      setError('The file is empty');
+      return;
+    }
+    const detected = detect(content);
+    const binance = isBinanceTradeHistory(parseCsv(content, detected.delimiter)[0] ?? []);
+    setText(content);
+    setFileName(file.name);
+    setSettings(detected);
+    setSource(binance ? 'binance' : 'csv');
+    setStep(binance ? 'preview' : 'map');
+  };
+
+  const setMapping = (field: ImportField, value: string) => {
+    if (!settings) return;
+    const mapping = { ...settings.mapping };
+    if (value === '') delete mapping[field];
+    else mapping[field] = Number(value);
+    const next = { ...settings, mapping };
+    // Re-detect the date format when the open date column changes
+    if (field === 'openTimestamp') {
+      next.dateFormat = detectDateFormat(columnSamples(rows, settings.hasHeader, mapping.openTimestamp));
+    }
+    setSettings(next);
+  };
+
+  const handlePreview = () => {
+    if (!settings) return;
+    const mappingError = checkImportMapping(settings.mapping);
+    if (mappingError) {
+      setError(mappingError);
+      return;
+    }
+    if (!isValidTimeZone(settings.timeZone)) {
+      setError(`Unknown time zone ${settings.timeZone}`);
+      return;
+    }
+    setError(null);
+    setStep('preview');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-5xl flex-col overflow-hidden rounded-2xl bg-white shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex shrink-0 items-center justify-between border-b border-gray-200 px-8 py-5">
+          <h2 className="text-2xl font-bold text-gray-900">Import trades from CSV</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+            aria-label="Close"
+          >
+            <span className="text-2xl leading-none">&times;</span>
+          </button>
+        </div>
+
+        <div className="create-trade-form-scroll flex-1 space-y-5 overflow-y-auto px-8 py-6">
+          <ol className="flex gap-6 text-sm">
+            {(source === 'binance' ? (['upload', 'preview'] as const) : (['upload', 'map', 'preview'] as const)).map((s, i) => (
+              <li key={s} className={step === s ? 'font-semibold text-blue-600' : 'text-gray-400'}>
+                {i + 1}. {s === 'upload' ? 'File' : s === 'map' ? 'Columns' : source === 'binance' ? 'Reconcile' : 'Preview'}
+              </li>
+            ))}
+          </ol>
+
+          {step === 'upload' && (
+            <section className="space-y-3">
+              <p className="text-sm text-gray-600">
+                One row per trade: symbol, side, open date, entry price and quantity are needed; exit price and close
+                date make it a closed trade. Fees, stop loss, notes, tags and more can be mapped too.
+              </p>
+              <p className="text-sm text-gray-600">
+                A Binance trade history export (Date(UTC), Pair, Side, Price, Executed, Amount, Fee) is recognised
+                automatically: its fills are paired first-in, first-out into trades. Save .xlsx exports as CSV first.
+              </p>
+              <input
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv,text/plain"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                className="block w-full text-sm text-gray-700"
+              />
+            </section>
+          )}
+
+          {step === 'map' && settings && (
+            <section className="space-y-4">
+              <p className="text-xs text-gray-500">
+                {fileName}: {Math.max(0, rows.length - (settings.hasHeader ? 1 : 0))} data rows, {columns.length} columns
+              </p>
+              <div className="grid gap-3 sm:grid-cols-4">
+                <label className="text-sm text-gray-700">
+                  <span className="mb-1 block font-medium">Delimiter</span>
+                  <select
+                    value={settings.delimiter}
+                    onChange={(e) => setSettings(detect(text, e.target.value, settings.hasHeader))}
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                  >
+                    {CSV_DELIMITERS.map((d) => (
+                      <option key={d} value={d}>
+                        {DELIMITER_LABELS[d]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm text-gray-700">
+                  <span className="mb-1 block font-medium">Date format</span>
+                  <select
+                    value={settings.dateFormat}
+                    onChange={(e) => setSettings({ ...settings, dateFormat: e.target.value as ImportDateFormat })}
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                  >
+                    {Object.values(IMPORT_DATE_FORMAT).map((f) => (
+                      <option key={f} value={f}>
+                        {getImportDateFormatLabel(f)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm text-gray-700">
+                  <span className="mb-1 block font-medium">Time zone of the dates</span>
+                  <input
+                    type="text"
+                    list="import-time-zones"
+                    value={settings.timeZone}
+                    onChange={(e) => setSettings({ ...settings, timeZone: e.target.value.trim() })}
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                  />
+                  <datalist id="import-time-zones">
+                    {TIME_ZONES.map((tz) => (
+                      <option key={tz} value={tz} />
+                    ))}
+                  </datalist>
+                </label>
+                <label className="text-sm text-gray-700">
+                  <span className="mb-1 block font-medium">Decimal separator</span>
+                  <select
+                    value={settings.decimalSeparator}
+                    onChange={(e) => setSettings({ ...settings, decimalSeparator: e.target.value as '.' | ',' })}
+                    className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+                  >
+                    <option value=".">Point (1,234.56)</option>
+                    <option value=",">Comma (1.234,56)</option>
+                  </select>
+                </label>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={settings.hasHeader}
+                  onChange={(e) => setSettings(detect(text, settings.delimiter, e.target.checked))}
+                  className="h-4 w-4 rounded border-gray-300 text-blue-600"
+                />
+                First row has column names
+              </label>
+              <p className="text-xs text-gray-500">
+                Dates with Z or an offset (e.g. +02:00) keep it; others are read in the time zone above.
+              </p>
+
+              <div className="grid gap-x-6 gap-y-2 sm:grid-cols-2">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <label key={field} className="flex items-center justify-between gap-3 text-sm text-gray-700">
+                    <span>
+                      {label}
+                      {required && <span className="text-red-500"> *</span>}
+                    </span>
+                    <select
+                      value={settings.mapping[field] ?? ''}
+                      onChange={(e) => setMapping(field, e.target.value)}
+                      className="w-48 border border-gray-300 rounded px-2 py-1.5 text-sm"
+                    >
+                      <option value="">—</option>
+                      {columns.map((c, i) => (
+                        <option key={i} value={i}>
+                          {c}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setStep('upload');
+                    setError(null);
+                  }}
+                  className="rounded-lg bg-gray-100 px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-200"
+                >
+                  Back
+                </button>
+                <button
+                  type="button"
+                  onClick={handlePreview}
+                  className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700"
+                >
+                  Preview
+                </button>
+              </div>
+            </section>
+          )}
+
+          {step === 'preview' && (
+            <section className="space-y-4">
+              {fillRead && pairing && (
+                <div className="space-y-3">
+                  <p className="text-sm text-gray-700">
+                    {fileName}: {fillRead.fills.length} Binance fills paired into {preview.length} trade
+                    {preview.length === 1 ? '' : 's'}. Check the totals against Binance before importing.
+                  </p>
+                  <FillReconciliationTable symbols={pairing.symbols} />
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={allowShort}
+                      onChange={(e) => setAllowShort(e.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300 text-blue-600"
+                    />
+                    Sells without an earlier buy open short trades (margin or futures)
+                  </label>
+                  <p className="text-xs text-gray-500">
+                    Otherwise they are taken as coins bought before this export and show under Not matched. Fees paid
+                    in another coin (e.g. BNB) are not converted; they are noted on the trade.
+                  </p>
+                  {fillRead.skipped.length > 0 && (
+                    <details className="text-sm text-red-700">
+                      <summary>
+                        {fillRead.skipped.length} row{fillRead.skipped.length === 1 ? '' : 's'} could not be read
+                      </summary>
+                      <ul className="mt-1 space-y-0.5 text-xs">
+                        {fillRead.skipped.slice(0, PREVIEW_LIMIT).map((r) => (
+                          <li key={r.line}>
+                            Row {r.line}: {r.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+                </div>
+              )}
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm text-gray-700">
+                  {valid.length} of {preview.length} {source === 'binance' ? 'trades' : 'rows'} are valid
+                  {duplicates.length > 0 && `, ${duplicates.length} already in the journal or repeated in the file`}.
+                </p>
+                {journals.length > 1 && (
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    Into journal
+                    <select
+                      value={targetJournalId}
+                      onChange={(e) => setTargetJournalId(e.target.value)}
+                      className="border border-gray-300 rounded px-2 py-1.5 text-sm"
+                    >
+                      {journals.map((j) => (
+                        <option key={j.id} value={j.id}>
+                          {j.name}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+              </div>
+              {duplicates.length > 0 && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={skipDuplicates}
+                    onChange={(e) => setSkipDuplicates(e.target.checked)}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600"
+                  />
+                  Skip duplicates
+                </label>
+              )}
+
+              <div className="overflow-x-auto rounded-lg border border-gray-200">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-xs text-gray-500">
+                    <tr>
+                      <th className="px-3 py-2 font-medium">Row</th>
+                      <th className="px-3 py-2 font-medium">Symbol</th>
+                      <th className="px-3 py-2 font-medium">Side</th>
+                      <th className="px-3 py-2 font-medium">Opened</th>
+                      <th className="px-3 py-2 font-medium">Entry</th>
+                      <th className="px-3 py-2 font-medium">Qty</th>
+                      <th className="px-3 py-2 font-medium">Closed</th>
+                      <th className="px-3 py-2 font-medium">Exit</th>
+                      <th className="px-3 py-2 font-medium">Check</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {preview.slice(0, PREVIEW_LIMIT).map((row) => (
+                      <tr key={row.line} className={row.trade ? (row.duplicate ? 'bg-amber-50' : '') : 'bg-red-50'}>
+                        <td className="px-3 py-1.5 text-gray-500">{row.line}</td>
+                        {row.trade ? (
+                          <>
+                            <td className="px-3 py-1.5 font-medium">{row.trade.symbol}</td>
+                            <td className="px-3 py-1.5">{row.trade.position}</td>
+                            <td className="px-3 py-1.5 whitespace-nowrap">{formatTimestampGMT(row.trade.openTimestamp)}</td>
+                            <td className="px-3 py-1.5">{row.trade.openPrice}</td>
+                            <td className="px-3 py-1.5">{row.trade.quantity}</td>
+                            <td className="px-3 py-1.5 whitespace-nowrap">
+                              {row.trade.closeTimestamp ? formatTimestampGMT(row.trade.closeTimestamp) : 'Open'}
+                            </td>
+                            <td className="px-3 py-1.5">{row.trade.closePrice ?? '—'}</td>
+                            <td className="px-3 py-1.5 text-xs">
+                              {row.duplicate === IMPORT_DUPLICATE.EXISTING
+                                ? 'Already in the journal'
+                                : row.duplicate === IMPORT_DUPLICATE.IN_FILE
+                                  ? 'Repeats an earlier row'
+                                  : 'OK'}
+                            </td>
+                          </>
+                        ) : (
+                          <td colSpan={8} className="px-3 py-1.5 text-xs text-red-700">
+                            {row.errors.join('; ')}
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {preview.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-gray-500">Showing the first {PREVIEW_LIMIT} of {preview.length} rows.</p>
+              )}
+
+              <div className="flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => setStep(source === 'binance' ? 'upload' : 'map')}
+                  className="rounded-lg bg-gray-100 px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-200"
+                >
+                  Back
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onImport(toImport)}
+                  disabled={toImport.length === 0}
+                  className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Import {toImport.length} trade{toImport.length === 1 ? '' : 's'}
+                </button>
+              </div>
+            </section>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
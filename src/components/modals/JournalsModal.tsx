@@ -0,0 +1,159 @@
+/**
+ * JournalsModal Component
+ * Lists the journals (accounts) with their trade counts and edits the list:
+ * add, rename, remove. Only empty journals can be removed, and the default
+ * journal always stays.
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { Journal, Trade } from '../constants/types';
+import { DEFAULT_JOURNAL_ID, getTradeJournalId } from '../../utils/journals';
+import { createJournalDraft, parseJournalDrafts } from '../../utils/journalDrafts';
+
+interface JournalsModalProps {
+  journals: Journal[];
+  /** All trades, across journals */
+  trades: Trade[];
+  onSave: (journals: Journal[]) => void;
+  onClose: () => void;
+}
+
+export const JournalsModal: React.FC<JournalsModalProps> = ({ journals, trades, onSave, onClose }) => {
+  const [drafts, setDrafts] = useState<Journal[] | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const tradeCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    trades.forEach((t) => {
+      const id = getTradeJournalId(t);
+      counts[id] = (counts[id] ?? 0) + 1;
+    });
+    return counts;
+  }, [trades]);
+
+  const handleSave = () => {
+    if (!drafts) return;
+    const { journals: parsed, error } = parseJournalDrafts(drafts);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+    onSave(parsed);
+    setDrafts(null);
+    setFormError(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-xl flex-col overflow-hidden rounded-2xl bg-white shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex shrink-0 items-center justify-between border-b border-gray-200 px-8 py-5">
+          <h2 className="text-2xl font-bold text-gray-900">Journals</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+            aria-label="Close"
+          >
+            <span className="text-2xl leading-none">&times;</span>
+          </button>
+        </div>
+
+        <div className="create-trade-form-scroll flex-1 space-y-4 overflow-y-auto px-8 py-6">
+          <p className="text-sm text-gray-600">
+            Each journal keeps its own trades, filters and symbol list. Move trades between journals from the
+            selection bar or a trade&apos;s details.
+          </p>
+
+          {drafts ? (
+            <div className="space-y-2 rounded-lg border border-blue-200 bg-blue-50/40 p-4">
+              {drafts.map((draft, i) => {
+                const count = tradeCounts[draft.id] ?? 0;
+                const removable = draft.id !== DEFAULT_JOURNAL_ID && count === 0;
+                return (
+                  <div key={draft.id} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={draft.name}
+                      onChange={(e) =>
+                        setDrafts(drafts.map((d, j) => (j === i ? { ...d, name: e.target.value } : d)))
+                      }
+                      className="flex-1 border border-gray-300 rounded px-3 py-2"
+                      placeholder="e.g. Futures"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setDrafts(drafts.filter((_, j) => j !== i))}
+                      disabled={!removable}
+                      title={
+                        draft.id === DEFAULT_JOURNAL_ID
+                          ? 'The default journal can be renamed but not removed'
+                          : count > 0
+                            ? `Move or delete its ${count} trade(s) first`
+                            : undefined
+                      }
+                      className="rounded border border-red-300 px-3 text-xs font-medium text-red-700 hover:bg-red-50 disabled:cursor-not-allowed disabled:border-gray-200 disabled:text-gray-400 disabled:hover:bg-transparent"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                );
+              })}
+              <button
+                type="button"
+                onClick={() => setDrafts([...drafts, createJournalDraft()])}
+                className="text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                + Add journal
+              </button>
+              {formError && <p className="text-sm text-red-600">{formError}</p>}
+              <div className="flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setDrafts(null);
+                    setFormError(null);
+                  }}
+                  className="rounded-lg bg-gray-100 px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700"
+                >
+                  Save journals
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+                {journals.map((j) => (
+                  <li key={j.id} className="flex items-center justify-between px-4 py-2.5 text-sm">
+                    <span className="font-medium text-gray-900">{j.name}</span>
+                    <span className="text-gray-500">
+                      {tradeCounts[j.id] ?? 0} trade{tradeCounts[j.id] === 1 ? '' : 's'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex justify-end">
+                <button
+                  type="button"
+                  onClick={() => setDrafts(journals)}
+                  className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Edit
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
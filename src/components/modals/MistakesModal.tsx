@@ -0,0 +1,204 @@
+/**
+ * MistakesModal Component
+ * Edits the mistake category list and reports what each category has cost:
+ * net realized PNL and average R of the closed trades tagged with it, against
+ * the trades without mistakes.
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { MistakeCategory, Trade } from '../constants/types';
+import { calculateMistakeCosts, type MistakeCost } from '../../utils/mistakeStats';
+import { createMistakeDraft, parseMistakeDrafts } from '../../utils/mistakeDrafts';
+import { formatPrice } from '../../utils/symbolRules';
+
+interface MistakesModalProps {
+  categories: MistakeCategory[];
+  trades: Trade[];
+  homeCurrency: string;
+  homeRates: Record<string, number>;
+  onSave: (categories: MistakeCategory[]) => void;
+  onClose: () => void;
+}
+
+function pnlClass(n: number): string {
+  return n > 0 ? 'text-green-600' : n < 0 ? 'text-red-600' : 'text-gray-600';
+}
+
+export const MistakesModal: React.FC<MistakesModalProps> = ({
+  categories,
+  trades,
+  homeCurrency,
+  homeRates,
+  onSave,
+  onClose,
+}) => {
+  const [drafts, setDrafts] = useState<MistakeCategory[] | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const report = useMemo(
+    () => calculateMistakeCosts(trades, categories, homeCurrency, homeRates),
+    [trades, categories, homeCurrency, homeRates]
+  );
+
+  const handleSave = () => {
+    if (!drafts) return;
+    const { categories: parsed, error } = parseMistakeDrafts(drafts);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+    onSave(parsed);
+    setDrafts(null);
+    setFormError(null);
+  };
+
+  const renderRow = (row: MistakeCost) => (
+    <tr key={row.category?.id ?? 'clean'} className={row.category ? '' : 'bg-gray-50 italic'}>
+      <td className="py-2 pr-4 font-medium text-gray-900">{row.category?.label ?? 'No mistakes'}</td>
+      <td className="py-2 pr-4 text-right">{row.tradeCount}</td>
+      <td className={`py-2 pr-4 text-right font-semibold ${pnlClass(row.totals.homeTotal)}`}>
+        {row.tradeCount > 0 ? (
+          <>
+            {row.totals.homeTotal >= 0 ? '+' : '-'}
+            {formatPrice(Math.abs(row.totals.homeTotal))} {homeCurrency}
+            {row.totals.unconverted > 0 && (
+              <span
+                className="ml-1 font-normal text-amber-600"
+                title={`${row.totals.unconverted} trade(s) without a ${homeCurrency} rate are excluded`}
+              >
+                *
+              </span>
+            )}
+          </>
+        ) : (
+          '—'
+        )}
+      </td>
+      <td className={`py-2 text-right ${row.averageR != null ? pnlClass(row.averageR) : ''}`}>
+        {row.averageR != null ? `${row.averageR >= 0 ? '+' : ''}${row.averageR.toFixed(2)}R` : '—'}
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-3xl flex-col overflow-hidden rounded-2xl bg-white shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex shrink-0 items-center justify-between border-b border-gray-200 px-8 py-5">
+          <h2 className="text-2xl font-bold text-gray-900">Mistakes</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+            aria-label="Close"
+          >
+            <span className="text-2xl leading-none">&times;</span>
+          </button>
+        </div>
+
+        <div className="create-trade-form-scroll flex-1 space-y-6 overflow-y-auto px-8 py-6">
+          <section>
+            <h3 className="text-lg font-semibold mb-2">Cost per mistake</h3>
+            <p className="mb-3 text-xs text-gray-500">
+              Closed trades only. A trade with several mistakes counts toward each of them.
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-xs uppercase tracking-wider text-gray-500">
+                  <th className="py-2 pr-4">Category</th>
+                  <th className="py-2 pr-4 text-right">Trades</th>
+                  <th className="py-2 pr-4 text-right">Net PNL</th>
+                  <th className="py-2 text-right">Avg R</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {report.rows.map(renderRow)}
+                {renderRow(report.clean)}
+              </tbody>
+            </table>
+          </section>
+
+          <section>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-lg font-semibold">Categories</h3>
+              {!drafts && (
+                <button
+                  type="button"
+                  onClick={() => setDrafts(categories)}
+                  className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Edit
+                </button>
+              )}
+            </div>
+            {drafts ? (
+              <div className="space-y-2 rounded-lg border border-blue-200 bg-blue-50/40 p-4">
+                {drafts.map((draft, i) => (
+                  <div key={draft.id} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={draft.label}
+                      onChange={(e) =>
+                        setDrafts(drafts.map((d, j) => (j === i ? { ...d, label: e.target.value } : d)))
+                      }
+                      className="flex-1 border border-gray-300 rounded px-3 py-2"
+                      placeholder="e.g. Revenge trade"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setDrafts(drafts.filter((_, j) => j !== i))}
+                      className="rounded border border-red-300 px-3 text-xs font-medium text-red-700 hover:bg-red-50"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setDrafts([...drafts, createMistakeDraft()])}
+                  className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                >
+                  + Add category
+                </button>
+                <p className="text-xs text-gray-500">
+                  Removing a category hides it on trades already tagged with it; renaming keeps those tags.
+                </p>
+                {formError && <p className="text-sm text-red-600">{formError}</p>}
+                <div className="flex justify-end gap-3">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setDrafts(null);
+                      setFormError(null);
+                    }}
+                    className="rounded-lg bg-gray-100 px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-200"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleSave}
+                    className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700"
+                  >
+                    Save categories
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {categories.length === 0 && <p className="text-sm text-gray-500">No categories yet.</p>}
+                {categories.map((c) => (
+                  <span key={c.id} className="rounded-full bg-red-100 px-3 py-1 text-sm font-medium text-red-800">
+                    {c.label}
+                  </span>
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+/**
+ * PlaybooksModal Component
+ * Lists playbooks with their win rate and expectancy, and creates / edits /
+ * deletes them. Trades keep their playbook id when a playbook is deleted.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { CONFIRM_MODAL_VARIANT, type Playbook, type Trade } from '../constants/types';
+import { calculatePlaybookStats } from '../../utils/playbookStats';
+import { createPlaybookDraft, parsePlaybookDraft, type PlaybookDraft } from '../../utils/playbookDrafts';
+import { ConfirmModal } from './ConfirmModal';
+
+interface PlaybooksModalProps {
+  playbooks: Playbook[];
+  trades: Trade[];
+  onSave: (playbook: Playbook) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full border border-gray-300 rounded px-3 py-2';
+
+export const PlaybooksModal: React.FC<PlaybooksModalProps> = ({
+  playbooks,
+  trades,
+  onSave,
+  onDelete,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<PlaybookDraft | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<Playbook | null>(null);
+
+  const stats = useMemo(
+    () => Object.fromEntries(playbooks.map((p) => [p.id, calculatePlaybookStats(trades, p)])),
+    [playbooks, trades]
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const { playbook, error } = parsePlaybookDraft(draft, playbooks);
+    if (error || !playbook) {
+      setFormError(error);
+      return;
+    }
+    onSave(playbook);
+    setDraft(null);
+    setFormError(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-3xl flex-col overflow-hidden rounded-2xl bg-white shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex shrink-0 items-center justify-between border-b border-gray-200 px-8 py-5">
+          <h2 className="text-2xl font-bold text-gray-900">Playbooks</h2>
+          <div className="flex items-center gap-3">
+            {!draft && (
+              <button
+                type="button"
+                onClick={() => setDraft(createPlaybookDraft())}
+                className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+              >
+                New playbook
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-lg p-1.5 text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+              aria-label="Close"
+            >
+              <span className="text-2xl leading-none">&times;</span>
+            </button>
+          </div>
+        </div>
+
+        <div className="create-trade-form-scroll flex-1 space-y-4 overflow-y-auto px-8 py-6">
+          {draft && (
+            <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border border-blue-200 bg-blue-50/40 p-4">
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                <div className="sm:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+                  <input
+                    type="text"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    className={inputClass}
+                    placeholder="e.g. Breakout retest"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Default risk (quote)</label>
+                  <input
+                    type="number"
+                    step="any"
+                    min={0}
+                    value={draft.defaultRisk}
+                    onChange={(e) => setDraft({ ...draft, defaultRisk: e.target.value })}
+                    className={inputClass}
+                    placeholder="e.g. 100"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <textarea
+                  value={draft.description}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  rows={2}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Checklist rules * (one per line)</label>
+                <textarea
+                  value={draft.rules}
+                  onChange={(e) => setDraft({ ...draft, rules: e.target.value })}
+                  rows={4}
+                  className={inputClass}
+                  placeholder={'Higher-timeframe trend agrees\nRetest of broken level\nStop below retest low'}
+                />
+              </div>
+              {formError && <p className="text-sm text-red-600">{formError}</p>}
+              <div className="flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setDraft(null);
+                    setFormError(null);
+                  }}
+                  className="rounded-lg bg-gray-100 px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700"
+                >
+                  {draft.id ? 'Save playbook' : 'Create playbook'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {playbooks.length === 0 && !draft && (
+            <p className="rounded-lg bg-gray-50 p-6 text-center text-sm text-gray-500">
+              No playbooks yet. Create one to describe a setup and its entry checklist.
+            </p>
+          )}
+
+          {playbooks.map((playbook) => {
+            const s = stats[playbook.id];
+            return (
+              <div key={playbook.id} className="rounded-lg border border-gray-200 p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">{playbook.name}</h3>
+                    {playbook.description && <p className="mt-0.5 text-sm text-gray-600">{playbook.description}</p>}
+                  </div>
+                  <div className="flex shrink-0 gap-2">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setDraft(createPlaybookDraft(playbook));
+                        setFormError(null);
+                      }}
+                      className="rounded border border-gray-300 px-2 py-0.5 text-xs font-medium text-gray-700 hover:bg-gray-50"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setPendingDelete(playbook)}
+                      className="rounded border border-red-300 px-2 py-0.5 text-xs font-medium text-red-700 hover:bg-red-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+                <div className="mt-3 grid grid-cols-2 gap-3 sm:grid-cols-4">
+                  <div className="rounded bg-gray-50 px-3 py-2">
+                    <div className="text-xs text-gray-500">Trades (closed)</div>
+                    <div className="font-semibold">{s.tradeCount} ({s.closedCount})</div>
+                  </div>
+                  <div className="rounded bg-gray-50 px-3 py-2">
+                    <div className="text-xs text-gray-500">Win rate</div>
+                    <div className="font-semibold">{s.winRate != null ? `${(s.winRate * 100).toFixed(0)}%` : '—'}</div>
+                  </div>
+                  <div className="rounded bg-gray-50 px-3 py-2">
+                    <div className="text-xs text-gray-500">Expectancy</div>
+                    <div
+                      className={`font-semibold ${
+                        s.expectancyR == null ? '' : s.expectancyR >= 0 ? 'text-green-600' : 'text-red-600'
+                      }`}
+                    >
+                      {s.expectancyR != null ? `${s.expectancyR >= 0 ? '+' : ''}${s.expectancyR.toFixed(2)}R` : '—'}
+                    </div>
+                  </div>
+                  <div className="rounded bg-gray-50 px-3 py-2">
+                    <div className="text-xs text-gray-500">Full checklist</div>
+                    <div className="font-semibold">{s.fullChecklistCount} / {s.closedCount}</div>
+                  </div>
+                </div>
+                <ul className="mt-3 list-inside list-disc text-sm text-gray-600">
+                  {playbook.rules.map((rule) => (
+                    <li key={rule.id}>{rule.text}</li>
+                  ))}
+                </ul>
+                {playbook.defaultRisk != null && (
+                  <p className="mt-2 text-xs text-gray-500">Default risk {playbook.defaultRisk} per trade</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <ConfirmModal
+          isOpen={pendingDelete != null}
+          title="Delete playbook?"
+          message={`"${pendingDelete?.name}" will be removed. Trades taken under it keep their notes and results but lose the link.`}
+          variant={CONFIRM_MODAL_VARIANT.DANGER}
+          confirmLabel="Delete"
+          onConfirm={() => {
+            if (pendingDelete) onDelete(pendingDelete.id);
+            setPendingDelete(null);
+          }}
+          onCancel={() => setPendingDelete(null)}
+        />
+      </div>
+    </div>
+  );
+};
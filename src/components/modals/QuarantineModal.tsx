@@ -0,0 +1,138 @@
+/**
+ * QuarantineModal Component
+ * Stored trade records that failed validation on load. Each one can be fixed
+ * as JSON and restored as a trade, or discarded.
+ */
+
+import React, { useState } from 'react';
+import { CONFIRM_MODAL_VARIANT, type QuarantinedRecord } from '../constants/types';
+import { formatTimestampGMT } from '../../utils/calculations';
+import { ConfirmModal } from './ConfirmModal';
+
+interface QuarantineModalProps {
+  records: QuarantinedRecord[];
+  /** Returns the errors that still apply; empty when the record was restored */
+  onRestore: (id: string, record: unknown) => string[];
+  onDiscard: (id: string) => void;
+  onClose: () => void;
+}
+
+function toEditableText(record: unknown): string {
+  return typeof record === 'string' ? record : JSON.stringify(record, null, 2);
+}
+
+interface QuarantinedItemProps {
+  entry: QuarantinedRecord;
+  onRestore: (record: unknown) => string[];
+  onDiscard: () => void;
+}
+
+const QuarantinedItem: React.FC<QuarantinedItemProps> = ({ entry, onRestore, onDiscard }) => {
+  const [text, setText] = useState(() => toEditableText(entry.record));
+  const [errors, setErrors] = useState<string[]>(entry.errors);
+
+  const handleRestore = () => {
+    let record: unknown;
+    try {
+      record = JSON.parse(text);
+    } catch {
+      setErrors(['Not valid JSON']);
+      return;
+    }
+    setErrors(onRestore(record));
+  };
+
+  return (
+    <div className="rounded-lg border border-amber-200 p-4">
+      <div className="mb-2 flex items-start justify-between gap-4">
+        <div className="text-xs text-gray-500">
+          Set aside {formatTimestampGMT(entry.quarantinedAt)} · schema v{entry.schemaVersion}
+        </div>
+        <div className="flex shrink-0 gap-2">
+          <button
+            type="button"
+            onClick={handleRestore}
+            className="rounded border border-blue-300 px-2 py-0.5 text-xs font-medium text-blue-700 hover:bg-blue-50"
+          >
+            Validate &amp; restore
+          </button>
+          <button
+            type="button"
+            onClick={onDiscard}
+            className="rounded border border-red-300 px-2 py-0.5 text-xs font-medium text-red-700 hover:bg-red-50"
+          >
+            Discard
+          </button>
+        </div>
+      </div>
+      <ul className="mb-2 list-inside list-disc text-sm text-red-700">
+        {errors.map((error) => (
+          <li key={error}>{error}</li>
+        ))}
+      </ul>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={8}
+        spellCheck={false}
+        className="w-full rounded border border-gray-300 bg-gray-50 px-3 py-2 font-mono text-xs"
+      />
+    </div>
+  );
+};
+
+export const QuarantineModal: React.FC<QuarantineModalProps> = ({ records, onRestore, onDiscard, onClose }) => {
+  const [pendingDiscard, setPendingDiscard] = useState<string | null>(null);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-3xl flex-col overflow-hidden rounded-2xl bg-white shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex shrink-0 items-center justify-between border-b border-gray-200 px-8 py-5">
+          <h2 className="text-2xl font-bold text-gray-900">Quarantined records</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+            aria-label="Close"
+          >
+            <span className="text-2xl leading-none">&times;</span>
+          </button>
+        </div>
+
+        <div className="create-trade-form-scroll flex-1 space-y-4 overflow-y-auto px-8 py-6">
+          <p className="text-sm text-gray-600">
+            These stored records failed validation when the journal loaded, so they were set aside instead of
+            shown. Fix the JSON and restore a record, or discard it.
+          </p>
+          {records.length === 0 && (
+            <p className="rounded-lg bg-gray-50 p-6 text-center text-sm text-gray-500">Nothing in quarantine.</p>
+          )}
+          {records.map((entry) => (
+            <QuarantinedItem
+              key={entry.id}
+              entry={entry}
+              onRestore={(record) => onRestore(entry.id, record)}
+              onDiscard={() => setPendingDiscard(entry.id)}
+            />
+          ))}
+        </div>
+
+        <ConfirmModal
+          isOpen={pendingDiscard != null}
+          title="Discard record?"
+          message="The record will be deleted for good. This cannot be undone."
+          variant={CONFIRM_MODAL_VARIANT.DANGER}
+          confirmLabel="Discard"
+          onConfirm={() => {
+            if (pendingDiscard) onDiscard(pendingDiscard);
+            setPendingDiscard(null);
+          }}
+          onCancel={() => setPendingDiscard(null)}
+        />
+      </div>
+    </div>
+  );
+};
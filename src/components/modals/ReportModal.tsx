@@ -0,0 +1,127 @@
+/**
+ * ReportModal Component
+ * Performance report for a chosen account and date range, previewed as it
+ * will print. "Print / Save as PDF" uses the browser's print dialog: the
+ * modal is rendered into document.body and, while it is open, print CSS hides
+ * the app (#root) and the modal's own controls, so only the report is printed.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import type { Trade } from '../constants/types';
+import { filterTradesByJournal } from '../../utils/journals';
+import { buildPerformanceReport, getDefaultReportRange, type ReportRange } from '../../utils/performanceReport';
+import { PerformanceReportView } from '../PerformanceReportView';
+
+interface ReportModalProps {
+  /** All trades; the picked account's are reported */
+  trades: Trade[];
+  /** Account options, "All accounts" first */
+  accounts: { value: string; label: string }[];
+  /** Account picked when the modal opens */
+  journalId: string;
+  homeCurrency: string;
+  homeRates: Record<string, number>;
+  onClose: () => void;
+}
+
+/** Body class that switches the print CSS (index.css) to the report */
+const PRINT_CLASS = 'print-report-open';
+
+export const ReportModal: React.FC<ReportModalProps> = ({ trades, accounts, journalId, homeCurrency, homeRates, onClose }) => {
+  const [accountId, setAccountId] = useState(journalId);
+  const [range, setRange] = useState<ReportRange>(() => getDefaultReportRange());
+  const [generatedAt] = useState(() => Date.now());
+
+  const rangeError = !range.from || !range.to ? 'Pick both dates' : range.from > range.to ? 'The start date is after the end date' : null;
+  const report = useMemo(
+    () => (rangeError ? null : buildPerformanceReport(filterTradesByJournal(trades, accountId), range, homeCurrency, homeRates)),
+    [rangeError, trades, accountId, range, homeCurrency, homeRates]
+  );
+
+  useEffect(() => {
+    document.body.classList.add(PRINT_CLASS);
+    return () => document.body.classList.remove(PRINT_CLASS);
+  }, []);
+
+  return createPortal(
+    <div
+      className="print-report fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 print:static print:block print:bg-white print:p-0"
+      onClick={onClose}
+    >
+      <div
+        className="flex max-h-[90vh] w-full max-w-4xl flex-col overflow-hidden rounded-2xl bg-white shadow-2xl print:max-h-none print:max-w-none print:overflow-visible print:rounded-none print:shadow-none"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex shrink-0 items-center justify-between border-b border-gray-200 px-8 py-5 print:hidden">
+          <h2 className="text-2xl font-bold text-gray-900">Performance report</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+            aria-label="Close"
+          >
+            <span className="text-2xl leading-none">&times;</span>
+          </button>
+        </div>
+
+        <div className="flex shrink-0 flex-wrap items-end gap-4 border-b border-gray-200 px-8 py-4 print:hidden">
+          <label className="text-sm text-gray-700">
+            <span className="mb-1 block font-medium">Account</span>
+            <select
+              value={accountId}
+              onChange={(e) => setAccountId(e.target.value)}
+              className="w-48 border border-gray-300 rounded px-3 py-2 text-sm"
+            >
+              {accounts.map((a) => (
+                <option key={a.value} value={a.value}>
+                  {a.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-700">
+            <span className="mb-1 block font-medium">From (GMT)</span>
+            <input
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              className="border border-gray-300 rounded px-3 py-2 text-sm"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            <span className="mb-1 block font-medium">To (GMT)</span>
+            <input
+              type="date"
+              value={range.to}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              className="border border-gray-300 rounded px-3 py-2 text-sm"
+            />
+          </label>
+          <button
+            type="button"
+            onClick={() => window.print()}
+            disabled={!report}
+            className="ml-auto rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Print / Save as PDF
+          </button>
+        </div>
+
+        <div className="create-trade-form-scroll flex-1 overflow-y-auto px-8 py-6 print:overflow-visible print:p-0">
+          {report ? (
+            <PerformanceReportView
+              report={report}
+              journalName={accounts.find((a) => a.value === accountId)?.label ?? 'Unknown account'}
+              homeCurrency={homeCurrency}
+              generatedAt={generatedAt}
+            />
+          ) : (
+            <p className="text-sm text-red-600">{rangeError}</p>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,235 @@
+/**
+ * SecurityModal Component
+ * Turns passphrase encryption of the journal on or off, changes the
+ * passphrase (re-encrypting everything), sets the auto-lock delay and locks.
+ */
+
+import React, { useState } from 'react';
+import { encryptionService, MIN_PASSPHRASE_LENGTH } from '../../services/encryptionService';
+
+interface SecurityModalProps {
+  /** Rewrite all trades, history and attachment files with the currently active key */
+  onReseal: () => Promise<void>;
+  onLock: () => void;
+  onClose: () => void;
+}
+
+const AUTO_LOCK_OPTIONS = [
+  { value: 0, label: 'Never' },
+  { value: 5, label: '5 minutes' },
+  { value: 15, label: '15 minutes' },
+  { value: 30, label: '30 minutes' },
+  { value: 60, label: '1 hour' },
+];
+
+const inputClass = 'w-full border border-gray-300 rounded px-3 py-2';
+
+function validateNewPassphrase(next: string, confirm: string): string | null {
+  if (next.length < MIN_PASSPHRASE_LENGTH) return `Use at least ${MIN_PASSPHRASE_LENGTH} characters`;
+  if (next !== confirm) return 'The passphrases do not match';
+  return null;
+}
+
+export const SecurityModal: React.FC<SecurityModalProps> = ({ onReseal, onLock, onClose }) => {
+  const [enabled, setEnabled] = useState(encryptionService.isEnabled);
+  const [autoLockMinutes, setAutoLockMinutes] = useState(encryptionService.getAutoLockMinutes);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const resetFields = () => {
+    setCurrent('');
+    setNext('');
+    setConfirm('');
+  };
+
+  /** Run a key change; `action` resolves false for a wrong current passphrase */
+  const run = async (action: () => Promise<boolean>, success: string) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      if (await action()) {
+        resetFields();
+        setEnabled(encryptionService.isEnabled());
+        setMessage(success);
+      } else {
+        setError('Current passphrase is wrong');
+      }
+    } catch (err) {
+      setError(`Could not re-encrypt the journal: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    const invalid = validateNewPassphrase(next, confirm);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    run(async () => {
+      await encryptionService.enable(next, onReseal);
+      return true;
+    }, 'Journal encrypted');
+  };
+
+  const handleChange = (e: React.FormEvent) => {
+    e.preventDefault();
+    const invalid = validateNewPassphrase(next, confirm);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    run(() => encryptionService.changePassphrase(current, next, onReseal), 'Passphrase changed');
+  };
+
+  const handleDisable = () => {
+    if (!current) {
+      setError('Enter your current passphrase to turn encryption off');
+      return;
+    }
+    run(() => encryptionService.disable(current, onReseal), 'Encryption turned off');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-lg flex-col overflow-hidden rounded-2xl bg-white shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex shrink-0 items-center justify-between border-b border-gray-200 px-8 py-5">
+          <h2 className="text-2xl font-bold text-gray-900">Security</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+            aria-label="Close"
+          >
+            <span className="text-2xl leading-none">&times;</span>
+          </button>
+        </div>
+
+        <div className="create-trade-form-scroll flex-1 space-y-5 overflow-y-auto px-8 py-6">
+          {!enabled ? (
+            <form onSubmit={handleEnable} className="space-y-3">
+              <p className="text-sm text-gray-600">
+                Encrypt trades and their history with a passphrase (AES-GCM, key derived with PBKDF2). You'll need
+                it every time the journal opens; it can't be recovered if lost.
+              </p>
+              <input
+                type="password"
+                autoComplete="new-password"
+                value={next}
+                onChange={(e) => setNext(e.target.value)}
+                className={inputClass}
+                placeholder="New passphrase"
+              />
+              <input
+                type="password"
+                autoComplete="new-password"
+                value={confirm}
+                onChange={(e) => setConfirm(e.target.value)}
+                className={inputClass}
+                placeholder="Repeat passphrase"
+              />
+              <button
+                type="submit"
+                disabled={busy}
+                className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {busy ? 'Encrypting…' : 'Encrypt journal'}
+              </button>
+            </form>
+          ) : (
+            <>
+              <div className="flex items-center justify-between gap-4">
+                <label className="text-sm font-medium text-gray-700" htmlFor="auto-lock">
+                  Lock after inactivity
+                </label>
+                <select
+                  id="auto-lock"
+                  value={autoLockMinutes}
+                  onChange={(e) => {
+                    const minutes = Number(e.target.value);
+                    setAutoLockMinutes(minutes);
+                    encryptionService.setAutoLockMinutes(minutes);
+                  }}
+                  className="border border-gray-300 rounded px-3 py-2 text-sm"
+                >
+                  {AUTO_LOCK_OPTIONS.map((o) => (
+                    <option key={o.value} value={o.value}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                type="button"
+                onClick={onLock}
+                className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Lock now
+              </button>
+              <form onSubmit={handleChange} className="space-y-3 border-t border-gray-200 pt-5">
+                <h3 className="text-lg font-semibold">Change passphrase</h3>
+                <input
+                  type="password"
+                  autoComplete="current-password"
+                  value={current}
+                  onChange={(e) => setCurrent(e.target.value)}
+                  className={inputClass}
+                  placeholder="Current passphrase"
+                />
+                <input
+                  type="password"
+                  autoComplete="new-password"
+                  value={next}
+                  onChange={(e) => setNext(e.target.value)}
+                  className={inputClass}
+                  placeholder="New passphrase"
+                />
+                <input
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirm}
+                  onChange={(e) => setConfirm(e.target.value)}
+                  className={inputClass}
+                  placeholder="Repeat new passphrase"
+                />
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    type="submit"
+                    disabled={busy}
+                    className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {busy ? 'Re-encrypting…' : 'Change passphrase'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleDisable}
+                    disabled={busy}
+                    className="rounded-lg border border-red-300 px-4 py-2 text-sm font-medium text-red-700 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Turn off encryption
+                  </button>
+                </div>
+              </form>
+            </>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {message && <p className="text-sm text-green-700">{message}</p>}
+          <p className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+            Trades, history and attachment files are encrypted. Filters, settings, playbooks and mistake categories are
+            not: anyone with access to this browser profile can read them.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,247 @@
+/**
+ * SyncModal Component
+ * Sets up server sync (self-hosted REST server or the built-in test server),
+ * shows its status, and lists conflicts field by field so each can be
+ * resolved with this device's or the server's version.
+ */
+
+import React, { useState } from 'react';
+import {
+  SYNC_STATUS,
+  SYNC_TARGET,
+  type SyncConfig,
+  type SyncConflict,
+  type SyncStatus,
+  type Trade,
+} from '../constants/types';
+import { formatTimestampGMT } from '../../utils/calculations';
+import { diffTrades, formatRevisionValue } from '../../utils/tradeHistory';
+import { getSyncStatusLabel } from '../../utils/sync';
+import { encryptionService } from '../../services/encryptionService';
+import type { ConflictChoice } from '../../hooks/useSync';
+import { TruncateWithTooltip } from '../ui-components/TruncateWithTooltip';
+
+interface SyncModalProps {
+  config: SyncConfig;
+  status: SyncStatus;
+  error: string | null;
+  conflicts: SyncConflict[];
+  pendingCount: number;
+  lastSyncedAt: number | null;
+  onSaveConfig: (config: SyncConfig) => void;
+  onSyncNow: () => void;
+  onResolve: (id: string, choice: ConflictChoice) => void;
+  onClose: () => void;
+}
+
+function describeVersion(trade: Trade | null): string {
+  if (!trade) return 'Deleted';
+  return trade.updatedAt ? `Changed ${formatTimestampGMT(trade.updatedAt)}` : 'Change time unknown';
+}
+
+export const SyncModal: React.FC<SyncModalProps> = ({
+  config,
+  status,
+  error,
+  conflicts,
+  pendingCount,
+  lastSyncedAt,
+  onSaveConfig,
+  onSyncNow,
+  onResolve,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<SyncConfig>(config);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const url = draft.url.trim();
+    if (draft.enabled && draft.target === SYNC_TARGET.HTTP && !/^https?:\/\/\S+$/.test(url)) {
+      setFormError('Enter the server URL, starting with http:// or https://');
+      return;
+    }
+    setFormError(null);
+    onSaveConfig({ ...draft, url, token: draft.token.trim() });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-3xl flex-col overflow-hidden rounded-2xl bg-white shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex shrink-0 items-center justify-between border-b border-gray-200 px-8 py-5">
+          <h2 className="text-2xl font-bold text-gray-900">Sync</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+            aria-label="Close"
+          >
+            <span className="text-2xl leading-none">&times;</span>
+          </button>
+        </div>
+
+        <div className="create-trade-form-scroll flex-1 space-y-6 overflow-y-auto px-8 py-6">
+          <section className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Keeps trades in step with a server you host, so several devices share one journal. Trades are always
+              saved on this device first and sent when the server can be reached. Journals, playbooks and
+              attachment files are not synced.
+              {encryptionService.isEnabled() && ' The server receives trades unencrypted.'}
+            </p>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+                className="h-4 w-4 rounded border-gray-300 text-blue-600"
+              />
+              Sync trades with a server
+            </label>
+            <div className="space-y-2 pl-6">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name="sync-target"
+                  checked={draft.target === SYNC_TARGET.HTTP}
+                  onChange={() => setDraft({ ...draft, target: SYNC_TARGET.HTTP })}
+                />
+                Self-hosted server
+              </label>
+              {draft.target === SYNC_TARGET.HTTP && (
+                <div className="grid gap-2 pl-6 sm:grid-cols-2">
+                  <input
+                    type="url"
+                    value={draft.url}
+                    onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                    placeholder="https://journal.example.com/api"
+                    className="border border-gray-300 rounded px-3 py-2 text-sm"
+                  />
+                  <input
+                    type="password"
+                    value={draft.token}
+                    onChange={(e) => setDraft({ ...draft, token: e.target.value })}
+                    placeholder="Access token (optional)"
+                    autoComplete="off"
+                    className="border border-gray-300 rounded px-3 py-2 text-sm"
+                  />
+                </div>
+              )}
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name="sync-target"
+                  checked={draft.target === SYNC_TARGET.MEMORY}
+                  onChange={() => setDraft({ ...draft, target: SYNC_TARGET.MEMORY })}
+                />
+                Built-in test server (in memory, empty again after a reload)
+              </label>
+            </div>
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+            <button
+              type="button"
+              onClick={handleSave}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700"
+            >
+              Save
+            </button>
+          </section>
+
+          {config.enabled && (
+            <section className="space-y-3 border-t border-gray-200 pt-5">
+              <div className="flex items-center justify-between gap-4">
+                <div className="text-sm text-gray-700">
+                  <p>
+                    <span className="font-medium">{getSyncStatusLabel(status)}</span>
+                    {pendingCount > 0 && ` · ${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting`}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {lastSyncedAt ? `Last synced ${formatTimestampGMT(lastSyncedAt)}` : 'Not synced yet'}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={onSyncNow}
+                  disabled={status === SYNC_STATUS.SYNCING}
+                  className="rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Sync now
+                </button>
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </section>
+          )}
+
+          {conflicts.length > 0 && (
+            <section className="space-y-3 border-t border-gray-200 pt-5">
+              <h3 className="text-lg font-semibold">
+                {conflicts.length} conflict{conflicts.length === 1 ? '' : 's'}
+              </h3>
+              <p className="text-sm text-gray-600">
+                These trades were changed here and on the server since the last sync. Choose which version to keep.
+              </p>
+              <ul className="space-y-3">
+                {conflicts.map((conflict) => {
+                  const changes = diffTrades(conflict.local, conflict.remote.trade);
+                  const symbol = conflict.local?.symbol ?? conflict.remote.trade?.symbol ?? conflict.id;
+                  return (
+                    <li key={conflict.id} className="rounded-lg border border-amber-200 bg-white">
+                      <div className="flex items-center justify-between gap-3 border-b border-gray-100 px-4 py-2.5">
+                        <span className="font-medium text-gray-900">{symbol}</span>
+                        <div className="flex gap-2">
+                          <button
+                            type="button"
+                            onClick={() => onResolve(conflict.id, 'local')}
+                            className="rounded border border-gray-300 bg-white px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50"
+                          >
+                            Keep this device&apos;s
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => onResolve(conflict.id, 'remote')}
+                            className="rounded border border-gray-300 bg-white px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50"
+                          >
+                            Use server&apos;s
+                          </button>
+                        </div>
+                      </div>
+                      <table className="min-w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-xs text-gray-500">
+                            <th className="w-40 px-4 py-1.5 font-medium">Field</th>
+                            <th className="px-4 py-1.5 font-medium">
+                              This device
+                              <span className="block font-normal">{describeVersion(conflict.local)}</span>
+                            </th>
+                            <th className="px-4 py-1.5 font-medium">
+                              Server
+                              <span className="block font-normal">{describeVersion(conflict.remote.trade)}</span>
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {changes.map((change) => (
+                            <tr key={change.field}>
+                              <td className="px-4 py-1.5 font-medium text-gray-700">{change.field}</td>
+                              <td className="px-4 py-1.5 font-mono text-gray-900">
+                                <TruncateWithTooltip text={formatRevisionValue(change.before)} maxWidth="14rem" />
+                              </td>
+                              <td className="px-4 py-1.5 font-mono text-gray-900">
+                                <TruncateWithTooltip text={formatRevisionValue(change.after)} maxWidth="14rem" />
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
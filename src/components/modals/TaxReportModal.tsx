@@ -0,0 +1,346 @@
+/**
+ * TaxReportModal Component
+ * Realized gains per disposal for an account, matched FIFO, LIFO or HIFO,
+ * split into short- and long-term by the chosen jurisdiction, with yearly
+ * totals in the home currency and a per-disposal CSV export. Method and
+ * jurisdiction are kept in the app settings. Lots are converted at the rate of
+ * their entry time, fetched when the modal opens.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  HOLDING_TERM,
+  TAX_JURISDICTION,
+  TAX_LOT_METHOD,
+  type AppSettings,
+  type TaxJurisdiction,
+  type TaxLotMethod,
+  type Trade,
+} from '../constants/types';
+import { TAX_JURISDICTIONS, getTaxJurisdiction } from '../constants/taxJurisdictions';
+import { ALL_JOURNALS_ID, filterTradesByJournal } from '../../utils/journals';
+import { buildTaxReport, getEntryRateRequests } from '../../utils/taxLots';
+import { buildTaxExport, getTaxExportFileName } from '../../utils/taxExport';
+import { formatTimestampGMT } from '../../utils/calculations';
+import { formatPrice } from '../../utils/symbolRules';
+import { exportService } from '../../services/exportService';
+import { fetchConversionRate } from '../../services/conversionService';
+
+type TaxSettings = Pick<AppSettings, 'taxLotMethod' | 'taxJurisdiction' | 'taxLongTermDays'>;
+
+interface TaxReportModalProps {
+  /** All trades; the picked account's are reported */
+  trades: Trade[];
+  /** Account options, "All accounts" first */
+  accounts: { value: string; label: string }[];
+  /** Account picked when the modal opens */
+  journalId: string;
+  homeCurrency: string;
+  homeRates: Record<string, number>;
+  settings: TaxSettings;
+  onSettingsChange: (settings: Partial<TaxSettings>) => void;
+  onClose: () => void;
+}
+
+const METHOD_OPTIONS: { value: TaxLotMethod; label: string; hint: string }[] = [
+  { value: TAX_LOT_METHOD.FIFO, label: 'FIFO', hint: 'Oldest lot first' },
+  { value: TAX_LOT_METHOD.LIFO, label: 'LIFO', hint: 'Newest lot first' },
+  { value: TAX_LOT_METHOD.HIFO, label: 'HIFO', hint: 'Highest cost first (shorts: lowest sale price)' },
+];
+
+function formatSigned(n: number): string {
+  return `${n >= 0 ? '+' : '-'}${formatPrice(Math.abs(n))}`;
+}
+
+function gainClass(n: number | null): string {
+  if (n == null) return 'text-gray-500';
+  return n >= 0 ? 'text-green-700' : 'text-red-700';
+}
+
+export const TaxReportModal: React.FC<TaxReportModalProps> = ({
+  trades,
+  accounts,
+  journalId,
+  homeCurrency,
+  homeRates,
+  settings,
+  onSettingsChange,
+  onClose,
+}) => {
+  const [accountId, setAccountId] = useState(journalId);
+  const [year, setYear] = useState<number | null>(null);
+  const jurisdiction = getTaxJurisdiction(settings.taxJurisdiction);
+  const accountTrades = useMemo(() => filterTradesByJournal(trades, accountId), [trades, accountId]);
+
+  // Quote → home rates at each entry leg's time, fetched one after another; a failed one leaves its lots unconverted
+  const [entryRates, setEntryRates] = useState<Record<string, number>>({});
+  const [pendingRates, setPendingRates] = useState(0);
+  const requestedRatesRef = useRef(new Set<string>());
+  useEffect(() => {
+    const requests = getEntryRateRequests(accountTrades, homeCurrency).filter(
+      (r) => !requestedRatesRef.current.has(r.key)
+    );
+    if (requests.length === 0) return;
+    requests.forEach((r) => requestedRatesRef.current.add(r.key));
+    setPendingRates((n) => n + requests.length);
+    (async () => {
+      for (const request of requests) {
+        try {
+          const rate = await fetchConversionRate(request.quote, homeCurrency, request.timestamp);
+          setEntryRates((prev) => ({ ...prev, [request.key]: rate }));
+        } catch {
+          // counted as without a rate
+        } finally {
+          setPendingRates((n) => n - 1);
+        }
+      }
+    })();
+  }, [accountTrades, homeCurrency]);
+
+  const report = useMemo(
+    () =>
+      buildTaxReport(accountTrades, {
+        method: settings.taxLotMethod,
+        jurisdiction,
+        longTermDays: settings.taxLongTermDays,
+        homeCurrency,
+        liveRates: homeRates,
+        entryRates,
+      }),
+    [accountTrades, settings.taxLotMethod, jurisdiction, settings.taxLongTermDays, homeCurrency, homeRates, entryRates]
+  );
+
+  const years = year != null ? report.years.filter((y) => y.year === year) : report.years;
+  const disposals =
+    year != null ? report.disposals.filter((d) => new Date(d.disposedAt).getUTCFullYear() === year) : report.disposals;
+
+  const handleExport = () => {
+    const journalNames =
+      accountId === ALL_JOURNALS_ID && accounts.length > 2
+        ? Object.fromEntries(accounts.map((a) => [a.value, a.label]))
+        : undefined;
+    exportService.downloadCsv(
+      buildTaxExport(disposals, years, { method: settings.taxLotMethod, homeCurrency, journalNames }),
+      getTaxExportFileName(year, settings.taxLotMethod)
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-5xl flex-col overflow-hidden rounded-2xl bg-white shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex shrink-0 items-center justify-between border-b border-gray-200 px-8 py-5">
+          <h2 className="text-2xl font-bold text-gray-900">Tax report</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-gray-500 transition-colors hover:bg-gray-100 hover:text-gray-700"
+            aria-label="Close"
+          >
+            <span className="text-2xl leading-none">&times;</span>
+          </button>
+        </div>
+
+        <div className="shrink-0 space-y-2 border-b border-gray-200 px-8 py-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="text-sm text-gray-700">
+              <span className="mb-1 block font-medium">Account</span>
+              <select
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                className="w-48 border border-gray-300 rounded px-3 py-2 text-sm"
+              >
+                {accounts.map((a) => (
+                  <option key={a.value} value={a.value}>
+                    {a.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="text-sm text-gray-700">
+              <span className="mb-1 block font-medium">Lot matching</span>
+              <div className="inline-flex rounded-lg border border-gray-200 bg-white p-0.5">
+                {METHOD_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    title={option.hint}
+                    onClick={() => onSettingsChange({ taxLotMethod: option.value })}
+                    className={`rounded-md px-4 py-2 text-sm font-medium transition-colors ${
+                      settings.taxLotMethod === option.value ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <label className="text-sm text-gray-700">
+              <span className="mb-1 block font-medium">Jurisdiction</span>
+              <select
+                value={settings.taxJurisdiction}
+                onChange={(e) => onSettingsChange({ taxJurisdiction: e.target.value as TaxJurisdiction })}
+                className="w-52 border border-gray-300 rounded px-3 py-2 text-sm"
+              >
+                {TAX_JURISDICTIONS.map((j) => (
+                  <option key={j.id} value={j.id}>
+                    {j.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {jurisdiction.id === TAX_JURISDICTION.CUSTOM && (
+              <label className="text-sm text-gray-700">
+                <span className="mb-1 block font-medium">Long-term after (days)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={settings.taxLongTermDays}
+                  onChange={(e) => onSettingsChange({ taxLongTermDays: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                  className="w-28 border border-gray-300 rounded px-3 py-2 text-sm"
+                />
+              </label>
+            )}
+            <label className="text-sm text-gray-700">
+              <span className="mb-1 block font-medium">Tax year (GMT)</span>
+              <select
+                value={year ?? ''}
+                onChange={(e) => setYear(e.target.value ? Number(e.target.value) : null)}
+                className="w-32 border border-gray-300 rounded px-3 py-2 text-sm"
+              >
+                <option value="">All years</option>
+                {report.years.map((y) => (
+                  <option key={y.year} value={y.year}>
+                    {y.year}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={disposals.length === 0}
+              className="ml-auto rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              Export CSV
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            {jurisdiction.note} Fees and commission are split over a trade's fills by value; funding is left out. Not tax
+            advice: check the figures against your exchange statements.
+          </p>
+          {pendingRates > 0 && (
+            <p className="text-xs text-gray-500">
+              Fetching {pendingRates} acquisition-time {homeCurrency} rate{pendingRates === 1 ? '' : 's'}; lots without
+              one are left out of the totals until it arrives.
+            </p>
+          )}
+        </div>
+
+        <div className="create-trade-form-scroll flex-1 space-y-6 overflow-y-auto px-8 py-6">
+          {report.unmatched.length > 0 && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+              <p className="font-medium">
+                {report.unmatched.length} exit{report.unmatched.length === 1 ? '' : 's'} sold more than the open lots held
+                and {report.unmatched.length === 1 ? 'is' : 'are'} only partly reported:
+              </p>
+              <ul className="mt-1 list-disc pl-5 text-xs">
+                {report.unmatched.map((u) => (
+                  <li key={`${u.tradeId}-${u.disposedAt}`}>
+                    {u.symbol} {u.position}, {formatTimestampGMT(u.disposedAt)}: {u.quantity} without a lot
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <section>
+            <h3 className="mb-2 text-sm font-semibold text-gray-900">Yearly totals ({homeCurrency})</h3>
+            {years.length === 0 ? (
+              <p className="text-sm text-gray-500">No disposals.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="border-b border-gray-300 text-left text-xs text-gray-500">
+                  <tr>
+                    <th className="py-1 pr-3 font-medium">Year</th>
+                    <th className="py-1 pr-3 text-right font-medium">Disposals</th>
+                    <th className="py-1 pr-3 text-right font-medium">Proceeds</th>
+                    <th className="py-1 pr-3 text-right font-medium">Cost basis</th>
+                    <th className="py-1 pr-3 text-right font-medium">Short-term</th>
+                    <th className="py-1 pr-3 text-right font-medium">Long-term</th>
+                    <th className="py-1 text-right font-medium">Total gain</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {years.map((y) => (
+                    <tr key={y.year}>
+                      <td className="py-1.5 pr-3 font-medium">
+                        {y.year}
+                        {y.unconverted > 0 && (
+                          <span className="ml-2 text-xs font-normal text-amber-700">
+                            {y.unconverted} without a {homeCurrency} rate left out
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-1.5 pr-3 text-right">{y.disposals}</td>
+                      <td className="py-1.5 pr-3 text-right">{formatPrice(y.proceeds)}</td>
+                      <td className="py-1.5 pr-3 text-right">{formatPrice(y.costBasis)}</td>
+                      <td className={`py-1.5 pr-3 text-right ${gainClass(y.shortTermGain)}`}>{formatSigned(y.shortTermGain)}</td>
+                      <td className={`py-1.5 pr-3 text-right ${gainClass(y.longTermGain)}`}>{formatSigned(y.longTermGain)}</td>
+                      <td className={`py-1.5 text-right font-semibold ${gainClass(y.totalGain)}`}>{formatSigned(y.totalGain)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+
+          <section>
+            <h3 className="mb-2 text-sm font-semibold text-gray-900">Disposals ({disposals.length})</h3>
+            {disposals.length > 0 && (
+              <table className="w-full text-xs">
+                <thead className="border-b border-gray-300 text-left text-gray-500">
+                  <tr>
+                    <th className="py-1 pr-2 font-medium">Disposed</th>
+                    <th className="py-1 pr-2 font-medium">Acquired</th>
+                    <th className="py-1 pr-2 font-medium">Symbol</th>
+                    <th className="py-1 pr-2 font-medium">Side</th>
+                    <th className="py-1 pr-2 text-right font-medium">Qty</th>
+                    <th className="py-1 pr-2 text-right font-medium">Proceeds</th>
+                    <th className="py-1 pr-2 text-right font-medium">Cost basis</th>
+                    <th className="py-1 pr-2 text-right font-medium">Gain</th>
+                    <th className="py-1 pr-2 font-medium">Term</th>
+                    <th className="py-1 text-right font-medium">{homeCurrency}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {disposals.map((d) => (
+                    <tr key={d.id}>
+                      <td className="py-1 pr-2 whitespace-nowrap">{formatTimestampGMT(d.disposedAt).replace(' GMT', '')}</td>
+                      <td className="py-1 pr-2 whitespace-nowrap">{formatTimestampGMT(d.acquiredAt).replace(' GMT', '')}</td>
+                      <td className="py-1 pr-2 font-medium">{d.symbol}</td>
+                      <td className="py-1 pr-2">{d.position}</td>
+                      <td className="py-1 pr-2 text-right">{d.quantity}</td>
+                      <td className="py-1 pr-2 text-right">{formatPrice(d.proceeds)}</td>
+                      <td className="py-1 pr-2 text-right">{formatPrice(d.costBasis)}</td>
+                      <td className={`py-1 pr-2 text-right ${gainClass(d.gain)}`}>
+                        {formatSigned(d.gain)} {d.quoteAsset}
+                      </td>
+                      <td className="py-1 pr-2">{d.term === HOLDING_TERM.LONG ? 'Long' : 'Short'}</td>
+                      <td className={`py-1 text-right ${gainClass(d.gainHome)}`}>
+                        {d.gainHome != null ? formatSigned(d.gainHome) : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
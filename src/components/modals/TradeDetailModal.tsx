@@ -1,10 +1,10 @@
 /**
  * TradeDetailModal Component
- * Shows trade summary, entry/exit markers, and price chart on row click.
- * Editable notes and tags (bonus).
+ * Shows trade summary, execution legs, entry/exit markers, and price chart on row click.
+ * Editable notes, tags, status and legs (bonus). History tab lists revisions and restores them.
  */
 
-import React, { useMemo, useState, useEffect } from 'react';
+import React, { useMemo, useState, useEffect, useCallback, useRef } from 'react';
 import {
   LineChart,
   Line,
@@ -15,21 +15,97 @@ import {
   ReferenceLine,
   ResponsiveContainer,
 } from 'recharts';
-import type { Trade, Position, TradeStatus } from '../constants/types';
 import {
-  calculatePnL,
+  ADJUSTMENT_KIND,
+  LEG_SIDE,
+  MARGIN_MODE,
+  type Trade,
+  type Position,
+  type TradeStatus,
+  type SymbolRules,
+  type TradeRevision,
+  type AttachmentMeta,
+  type Playbook,
+  type MistakeCategory,
+  type Journal,
+} from '../constants/types';
+import {
   formatDuration,
   calculateRMultiple,
-  toDateTimeLocalGMT,
-  fromDateTimeLocalGMT,
+  formatTimestampGMT,
+  getTradeLegs,
+  summarizeLegs,
+  getTradeFieldsFromLegs,
+  calculateRealizedPnL,
+  calculateUnrealizedPnL,
+  calculateNetPnL,
+  getTradeCosts,
+  calculateOpenRMultiple,
+  getTargetWeights,
+  getTradeRFields,
+  calculateInitialMargin,
+  calculateLiquidationPrice,
+  calculateReturnOnMargin,
+  isStopBeyondLiquidation,
 } from '../../utils/calculations';
+import {
+  createLegDraft,
+  getDraftQuantities,
+  legsToDrafts,
+  parseLegDrafts,
+  toValidLegs,
+  type TradeLegDraft,
+} from '../../utils/tradeLegDrafts';
+import { createCostsDraft, parseCostsDraft, type TradeCostsDraft } from '../../utils/tradeCostDrafts';
+import { formatPrice, getPriceDecimals, getQuantityDecimals } from '../../utils/symbolRules';
+import { getTradeHomeRate, getTradeQuoteAsset } from '../../utils/currency';
+import { parseTakeProfitDrafts, takeProfitsToDrafts, type TakeProfitDraft } from '../../utils/takeProfitDrafts';
+import { TradeLegsEditor } from '../TradeLegsEditor';
+import { TradeCostsFields } from '../TradeCostsFields';
+import { createMarginDraft, parseMarginDraft, type MarginDraft } from '../../utils/marginDrafts';
+import { TakeProfitEditor } from '../TakeProfitEditor';
+import { MarginFields } from '../MarginFields';
+import { TradeHistoryPanel } from '../TradeHistoryPanel';
+import { AdjustmentsEditor } from '../AdjustmentsEditor';
+import { AttachmentsField } from '../AttachmentsField';
+import { PlaybookChecklist } from '../PlaybookChecklist';
+import { TradeReviewFields, type TradeReview } from '../TradeReviewFields';
+import {
+  getAdjustmentLog,
+  getCurrentStopLoss,
+  getCurrentTakeProfits,
+  getStopAt,
+  getStopTimeline,
+} from '../../utils/adjustments';
+import { adjustmentsToDrafts, parseAdjustmentDrafts, type AdjustmentDraft } from '../../utils/adjustmentDrafts';
+import { getTradeJournalId } from '../../utils/journals';
+import { SelectBox } from '../ui-components/SelectBox';
 
 interface TradeDetailModalProps {
   trade: Trade | null;
+  /** Live price for the trade's symbol, used for unrealized PNL */
+  currentPrice?: number;
+  /** Lot size / tick size of the trade's symbol, for leg validation and price precision */
+  symbolRules?: SymbolRules;
+  homeCurrency: string;
+  /** Live quote → home rates by quote asset */
+  homeRates: Record<string, number>;
   onClose: () => void;
   onUpdate?: (id: string, updates: Partial<Trade>) => void;
+  /** Revisions of this trade, newest first */
+  history?: TradeRevision[];
+  onRestoreRevision?: (revision: TradeRevision) => void;
+  playbooks?: Playbook[];
+  mistakeCategories?: MistakeCategory[];
+  /** With more than one, the trade's journal is shown and can be changed while editing */
+  journals?: Journal[];
+  /** Another tab saved this trade since the modal opened */
+  changedElsewhere?: boolean;
+  onDismissChangedElsewhere?: () => void;
 }
 
+type DetailTab = 'details' | 'history';
+
 function getOpenLegLabel(position: Position): string {
   return position === 'LONG' ? 'Buy' : 'Sell';
 }
@@ -37,67 +113,255 @@ function getCloseLegLabel(position: Position): string {
   return position === 'LONG' ? 'Sell' : 'Buy';
 }
 
+function formatAmount(n: number): string {
+  return n.toLocaleString(undefined, { minimumFractionDigits: 2 });
+}
+
+/** PNL card: green profit, red loss, gray zero/none */
+const PnlCard: React.FC<{ label: string; value: number | null }> = ({ label, value }) => (
+  <div
+    className={`rounded-lg p-4 ${
+      value != null ? (value > 0 ? 'bg-green-50' : value < 0 ? 'bg-red-50' : 'bg-gray-50') : 'bg-gray-50'
+    }`}
+  >
+    <div className="text-sm text-gray-500">{label}</div>
+    <div
+      className={`font-bold text-xl ${
+        value != null
+          ? value > 0 ? 'text-green-600' : value < 0 ? 'text-red-600' : 'text-gray-600'
+          : 'text-gray-500'
+      }`}
+    >
+      {value != null ? `${value >= 0 ? '+' : '-'}${formatAmount(Math.abs(value))}` : '—'}
+    </div>
+  </div>
+);
+
 /**
- * Generate mock price series for chart (entry to exit with open/close markers)
+ * Generate mock price series for chart (entry to exit with open/close markers),
+ * with the stop level in force at each point. Stop moves get their own points
+ * so the step lands at the logged time.
  */
 function buildChartData(trade: Trade) {
-  const points: { time: string; price: number; label?: string }[] = [];
+  const points: { time: string; price: number; stop?: number; label?: string }[] = [];
   const start = trade.openTimestamp;
   const end = trade.closeTimestamp ?? Date.now();
   const closePrice = trade.closePrice ?? trade.openPrice;
   const steps = 20;
+  const stopTimeline = getStopTimeline(trade);
 
-  for (let i = 0; i <= steps; i++) {
-    const t = start + (i / steps) * (end - start);
-    const progress = i / steps;
+  const times = Array.from({ length: steps + 1 }, (_, i) => start + (i / steps) * (end - start));
+  stopTimeline.slice(1).forEach((level) => {
+    if (level.timestamp > start && level.timestamp < end) times.push(level.timestamp);
+  });
+  times.sort((a, b) => a - b);
+
+  times.forEach((t, i) => {
+    const progress = end > start ? (t - start) / (end - start) : 1;
     const price = trade.openPrice + (closePrice - trade.openPrice) * progress;
     points.push({
       time: new Date(t).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone: 'UTC' }) + ' GMT',
       price,
-      label: i === 0 ? 'Entry' : i === steps ? 'Exit' : undefined,
+      stop: getStopAt(stopTimeline, t),
+      label: i === 0 ? 'Entry' : i === times.length - 1 ? 'Exit' : undefined,
     });
-  }
+  });
 
   return points;
 }
 
 export const TradeDetailModal: React.FC<TradeDetailModalProps> = ({
   trade,
+  currentPrice,
+  symbolRules,
+  homeCurrency,
+  homeRates,
   onClose,
   onUpdate,
+  history = [],
+  onRestoreRevision,
+  playbooks = [],
+  mistakeCategories = [],
+  journals = [],
+  changedElsewhere = false,
+  onDismissChangedElsewhere,
 }) => {
+  const [activeTab, setActiveTab] = useState<DetailTab>('details');
   const [editNotes, setEditNotes] = useState('');
   const [editTags, setEditTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState('');
   const [editStatus, setEditStatus] = useState<TradeStatus>('OPEN');
-  const [editClosePrice, setEditClosePrice] = useState('');
-  const [editCloseTimestamp, setEditCloseTimestamp] = useState<number>(Date.now());
+  const [editLegs, setEditLegs] = useState<TradeLegDraft[]>([]);
+  const [editCosts, setEditCosts] = useState<TradeCostsDraft>(() => createCostsDraft());
+  const [editMargin, setEditMargin] = useState<MarginDraft>(() => createMarginDraft());
+  const [editStopLoss, setEditStopLoss] = useState('');
+  const [editTakeProfits, setEditTakeProfits] = useState<TakeProfitDraft[]>([]);
+  const [editAdjustments, setEditAdjustments] = useState<AdjustmentDraft[]>([]);
+  const [editAttachments, setEditAttachments] = useState<AttachmentMeta[]>([]);
+  const [editJournalId, setEditJournalId] = useState('');
+  const [editPlaybookId, setEditPlaybookId] = useState('');
+  const [editCheckedRules, setEditCheckedRules] = useState<string[]>([]);
+  const [editReview, setEditReview] = useState<TradeReview>({ mistakes: [] });
+  const [editError, setEditError] = useState<string | null>(null);
   const [isEditing, setIsEditing] = useState(false);
+  // Read by the reset effect: a trade saved elsewhere mid-edit must not wipe the form
+  const isEditingRef = useRef(isEditing);
+  isEditingRef.current = isEditing;
 
-  useEffect(() => {
+  const resetEditState = useCallback(() => {
     if (!trade) return;
     setEditNotes(trade.notes ?? '');
     setEditTags(trade.tags ?? []);
     setEditStatus(trade.status);
-    setEditClosePrice(trade.closePrice != null ? String(trade.closePrice) : '');
-    setEditCloseTimestamp(trade.closeTimestamp ?? Date.now());
+    setEditLegs(legsToDrafts(getTradeLegs(trade)));
+    setEditCosts(createCostsDraft(trade));
+    setEditMargin(createMarginDraft(trade));
+    setEditStopLoss(trade.stopLoss != null ? String(trade.stopLoss) : '');
+    setEditTakeProfits(takeProfitsToDrafts(trade.takeProfits));
+    setEditAdjustments(adjustmentsToDrafts(trade.adjustments));
+    setEditAttachments(trade.attachments ?? []);
+    setEditJournalId(getTradeJournalId(trade));
+    setEditPlaybookId(trade.playbookId ?? '');
+    setEditCheckedRules(trade.checkedRules ?? []);
+    setEditReview({
+      mistakes: trade.mistakes ?? [],
+      emotionRating: trade.emotionRating,
+      executionGrade: trade.executionGrade,
+    });
+    setEditError(null);
     setIsEditing(false);
   }, [trade]);
 
+  useEffect(() => {
+    if (!isEditingRef.current) resetEditState();
+  }, [resetEditState]);
+
   const chartData = useMemo(() => (trade ? buildChartData(trade) : []), [trade]);
 
   if (!trade) return null;
 
+  const priceDecimals = getPriceDecimals(symbolRules);
+  const legs = getTradeLegs(trade);
+  const legSummary = summarizeLegs(legs);
   const isClosed = trade.status === 'CLOSED' && trade.closePrice != null;
-  const pnl = isClosed
-    ? calculatePnL(trade.position, trade.openPrice, trade.closePrice!, trade.quantity)
+  const pnl = calculateRealizedPnL(trade.position, legs);
+  const costs = getTradeCosts(trade);
+  const netPnl = pnl != null ? calculateNetPnL(pnl, trade) : null;
+  const quoteAsset = getTradeQuoteAsset(trade);
+  const homeRate = getTradeHomeRate(trade, homeCurrency, homeRates);
+  const netPnlHome = netPnl != null && homeRate != null ? netPnl * homeRate : null;
+  const unrealizedPnl = currentPrice != null
+    ? calculateUnrealizedPnL(trade.position, legs, currentPrice)
     : null;
   const duration = isClosed && trade.closeTimestamp != null
     ? formatDuration(trade.openTimestamp, trade.closeTimestamp)
     : null;
-  const rMultiple = pnl != null
-    ? calculateRMultiple(pnl, trade.openPrice, trade.stopLoss, trade.quantity)
+  const rMultiple = netPnl != null && trade.status === 'CLOSED'
+    ? calculateRMultiple(netPnl, trade.openPrice, trade.stopLoss, trade.quantity) ?? trade.rValue ?? null
+    : trade.status === 'OPEN' && currentPrice != null
+      ? calculateOpenRMultiple(trade, currentPrice)
+      : null;
+  const rDrift = rMultiple != null && trade.plannedR != null ? rMultiple - trade.plannedR : null;
+  const targetWeights = getTargetWeights(trade.takeProfits ?? []);
+  const currentStopLoss = getCurrentStopLoss(trade);
+  const currentTakeProfits = getCurrentTakeProfits(trade);
+  const adjustmentLog = getAdjustmentLog(trade);
+  const playbook = playbooks.find((p) => p.id === trade.playbookId);
+  const initialMargin = calculateInitialMargin(trade.openPrice, legSummary.entryQuantity, trade.leverage);
+  const liquidationPrice = trade.status === 'OPEN'
+    ? calculateLiquidationPrice(trade, trade.openPrice, legSummary.entryQuantity)
     : null;
+  const marginPnl = netPnl != null || unrealizedPnl != null ? (netPnl ?? 0) + (unrealizedPnl ?? 0) : null;
+  const returnOnMargin = marginPnl != null ? calculateReturnOnMargin(marginPnl, initialMargin) : null;
+  const editLegSummary = summarizeLegs(toValidLegs(editLegs));
+  const editStopLossValue = editStopLoss.trim() && !isNaN(parseFloat(editStopLoss))
+    ? parseFloat(editStopLoss)
+    : undefined;
+  const lastEditStopMove = [...editAdjustments]
+    .filter((a) => a.target === ADJUSTMENT_KIND.STOP && parseFloat(a.price) > 0)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .pop();
+  const editCurrentStopLoss = lastEditStopMove ? parseFloat(lastEditStopMove.price) : editStopLossValue;
+
+  const handleEditStatusChange = (next: TradeStatus) => {
+    setEditStatus(next);
+    if (next !== 'CLOSED') return;
+    const { entry, exit } = getDraftQuantities(editLegs);
+    const remaining = Number((entry - exit).toFixed(8));
+    if (remaining > 0) {
+      setEditLegs((prev) => [...prev, createLegDraft(LEG_SIDE.EXIT, Date.now(), '', String(remaining))]);
+    }
+  };
+
+  const handleSave = (): boolean => {
+    const { legs: parsedLegs, error } = parseLegDrafts(editLegs, symbolRules);
+    if (error) {
+      setEditError(error);
+      return false;
+    }
+    const { openQuantity } = summarizeLegs(parsedLegs);
+    if (editStatus === 'CLOSED' && openQuantity > 0) {
+      setEditError(`Closed trades need exit legs for the full quantity (${openQuantity} still open)`);
+      return false;
+    }
+    if (editStatus === 'OPEN' && openQuantity <= 0) {
+      setEditError('All quantity is exited; mark the trade as Closed');
+      return false;
+    }
+    const { costs: parsedCosts, error: costsError } = parseCostsDraft(editCosts, parsedLegs);
+    if (costsError) {
+      setEditError(costsError);
+      return false;
+    }
+    const legFields = getTradeFieldsFromLegs(parsedLegs);
+    const { targets, error: targetsError } = parseTakeProfitDrafts(
+      editTakeProfits,
+      trade.position,
+      legFields.openPrice,
+      editStopLossValue
+    );
+    if (targetsError) {
+      setEditError(targetsError);
+      return false;
+    }
+    const { adjustments, error: adjustmentsError } = parseAdjustmentDrafts(
+      editAdjustments,
+      { openTimestamp: legFields.openTimestamp, closeTimestamp: editStatus === 'CLOSED' ? legFields.closeTimestamp : undefined },
+      editStopLossValue,
+      targets
+    );
+    if (adjustmentsError) {
+      setEditError(adjustmentsError);
+      return false;
+    }
+    const { margin: parsedMargin, error: marginError } = parseMarginDraft(editMargin);
+    if (marginError) {
+      setEditError(marginError);
+      return false;
+    }
+    setEditError(null);
+    const updates: Partial<Trade> = {
+      ...parsedCosts,
+      ...parsedMargin,
+      notes: editNotes,
+      tags: editTags.length ? editTags : undefined,
+      status: editStatus,
+      ...legFields,
+      legs: parsedLegs,
+      stopLoss: editStopLossValue,
+      takeProfits: targets.length ? targets : undefined,
+      adjustments: adjustments.length ? adjustments : undefined,
+      attachments: editAttachments.length ? editAttachments : undefined,
+      journalId: editJournalId !== getTradeJournalId(trade) ? editJournalId : trade.journalId,
+      playbookId: editPlaybookId || undefined,
+      checkedRules: editPlaybookId && editCheckedRules.length ? editCheckedRules : undefined,
+      mistakes: editReview.mistakes.length ? editReview.mistakes : undefined,
+      emotionRating: editReview.emotionRating,
+      executionGrade: editReview.executionGrade,
+    };
+    onUpdate?.(trade.id, { ...updates, ...getTradeRFields({ ...trade, ...updates }) });
+    return true;
+  };
 
   return (
     <div
@@ -140,285 +404,517 @@ export const TradeDetailModal: React.FC<TradeDetailModalProps> = ({
           </button>
         </div>
 
+        <div className="flex-shrink-0 flex gap-1 border-b border-gray-200 px-6">
+          {(['details', 'history'] as const).map((tab) => (
+            <button
+              key={tab}
+              type="button"
+              onClick={() => setActiveTab(tab)}
+              className={`-mb-px border-b-2 px-4 py-2.5 text-sm font-medium transition-colors ${
+                activeTab === tab
+                  ? 'border-blue-600 text-blue-700'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab === 'details' ? 'Details' : `History (${history.length})`}
+            </button>
+          ))}
+        </div>
+
         <div className="create-trade-form-scroll flex-1 min-h-0 overflow-y-auto overflow-x-hidden p-6 space-y-6">
-          {/* Trade summary */}
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-            <div className="bg-gray-50 rounded-lg p-4">
-              <div className="text-sm text-gray-500">Open ({getOpenLegLabel(trade.position)}) ($)</div>
-              <div className="font-semibold">{trade.openPrice.toLocaleString(undefined, { minimumFractionDigits: 2 })}</div>
-            </div>
-            <div className="bg-gray-50 rounded-lg p-4">
-              <div className="text-sm text-gray-500">Close ({getCloseLegLabel(trade.position)}) ($)</div>
-              <div className="font-semibold">
-                {trade.closePrice != null ? trade.closePrice.toLocaleString(undefined, { minimumFractionDigits: 2 }) : '—'}
+          {activeTab === 'history' ? (
+            <TradeHistoryPanel trade={trade} revisions={history} onRestore={onRestoreRevision} />
+          ) : (
+          <>
+            {changedElsewhere && (
+              <div className="flex items-center justify-between gap-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                <span>
+                  This trade was changed in another tab{isEditing
+                    ? '. Saving will overwrite those changes with your edits.'
+                    : ' and now shows the latest version.'}
+                </span>
+                <div className="flex shrink-0 gap-2">
+                  {isEditing && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        resetEditState();
+                        onDismissChangedElsewhere?.();
+                      }}
+                      className="rounded border border-amber-300 bg-white px-2 py-0.5 text-xs font-medium hover:bg-amber-100"
+                    >
+                      Discard my edits
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={onDismissChangedElsewhere}
+                    className="rounded border border-amber-300 bg-white px-2 py-0.5 text-xs font-medium hover:bg-amber-100"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            )}
+            {/* Trade summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="text-sm text-gray-500">Avg Open ({getOpenLegLabel(trade.position)}) ({quoteAsset})</div>
+                <div className="font-semibold">{formatPrice(trade.openPrice, priceDecimals)}</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="text-sm text-gray-500">Avg Close ({getCloseLegLabel(trade.position)}) ({quoteAsset})</div>
+                <div className="font-semibold">
+                  {trade.closePrice != null ? formatPrice(trade.closePrice, priceDecimals) : '—'}
+                </div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="text-sm text-gray-500">Quantity (open / total)</div>
+                <div className="font-semibold">{legSummary.openQuantity} / {legSummary.entryQuantity}</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4">
+                <div className="text-sm text-gray-500">Duration</div>
+                <div className="font-semibold">{duration ?? '—'}</div>
               </div>
             </div>
-            <div className="bg-gray-50 rounded-lg p-4">
-              <div className="text-sm text-gray-500">Quantity</div>
-              <div className="font-semibold">{trade.quantity}</div>
-            </div>
-            <div className="bg-gray-50 rounded-lg p-4">
-              <div className="text-sm text-gray-500">Duration</div>
-              <div className="font-semibold">{duration ?? '—'}</div>
-            </div>
-          </div>
 
-          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-            <div
-              className={`rounded-lg p-4 ${
-                pnl != null
-                  ? pnl > 0
-                    ? 'bg-green-50'
-                    : pnl < 0
-                      ? 'bg-red-50'
-                      : 'bg-gray-50'
-                  : 'bg-gray-50'
-              }`}
-            >
-              <div className="text-sm text-gray-500">PNL ($)</div>
-              <div
-                className={`font-bold text-xl ${
-                  pnl != null
-                    ? pnl > 0
-                      ? 'text-green-600'
-                      : pnl < 0
-                        ? 'text-red-600'
-                        : 'text-gray-600'
-                    : 'text-gray-500'
-                }`}
-              >
-                {pnl != null
-                  ? `${pnl >= 0 ? '+' : '-'}${Math.abs(pnl).toLocaleString(undefined, { minimumFractionDigits: 2 })}`
-                  : '—'}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <PnlCard label={`Gross PNL (${quoteAsset})`} value={pnl} />
+              <PnlCard label={`Net PNL (${quoteAsset})`} value={netPnl} />
+              {quoteAsset !== homeCurrency && (
+                <PnlCard label={`Net PNL (${homeCurrency})`} value={netPnlHome} />
+              )}
+              {unrealizedPnl != null && <PnlCard label={`Unrealized PNL (${quoteAsset})`} value={unrealizedPnl} />}
+              <div className="rounded-lg p-4 bg-gray-50">
+                <div className="text-sm text-gray-500">Costs ({quoteAsset})</div>
+                <div className="font-semibold">{formatAmount(costs)}</div>
+                <div className="mt-1 text-xs text-gray-500">
+                  Fees {formatAmount(trade.fees ?? 0)} · Comm. {formatAmount(trade.commission ?? 0)} · Funding {formatAmount(trade.funding ?? 0)}
+                </div>
               </div>
+              {(rMultiple != null || trade.plannedR != null) && (
+                <div className="rounded-lg p-4 bg-blue-50">
+                  <div className="text-sm text-gray-500">
+                    R: planned → {trade.status === 'OPEN' ? 'current' : 'realized'}
+                  </div>
+                  <div className="font-bold text-xl text-blue-700">
+                    {trade.plannedR != null ? `${trade.plannedR.toFixed(2)}R` : '—'}
+                    {' → '}
+                    {rMultiple != null ? `${rMultiple.toFixed(2)}R` : '—'}
+                  </div>
+                  {rDrift != null && (
+                    <div className={`mt-1 text-xs font-medium ${rDrift >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+                      {rDrift >= 0 ? '+' : ''}{rDrift.toFixed(2)}R vs plan
+                    </div>
+                  )}
+                </div>
+              )}
+              {trade.stopLoss != null && (
+                <div className="rounded-lg p-4 bg-gray-50">
+                  <div className="text-sm text-gray-500">Stop Loss ({quoteAsset})</div>
+                  <div className="font-semibold">{formatPrice(currentStopLoss ?? trade.stopLoss, priceDecimals)}</div>
+                  {currentStopLoss !== trade.stopLoss && (
+                    <div className="mt-1 text-xs text-gray-500">
+                      Initial {formatPrice(trade.stopLoss, priceDecimals)} (R basis)
+                    </div>
+                  )}
+                </div>
+              )}
+              {trade.leverage != null && (
+                <div className="rounded-lg p-4 bg-gray-50">
+                  <div className="text-sm text-gray-500">
+                    Margin ({trade.leverage}x {trade.marginMode === MARGIN_MODE.CROSS ? 'Cross' : 'Isolated'})
+                  </div>
+                  <div className="font-semibold">
+                    {initialMargin != null ? `${formatAmount(initialMargin)} ${quoteAsset}` : '—'}
+                  </div>
+                  {returnOnMargin != null && (
+                    <div className={`mt-1 text-xs font-medium ${returnOnMargin >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+                      {returnOnMargin >= 0 ? '+' : ''}{(returnOnMargin * 100).toFixed(2)}% on margin
+                    </div>
+                  )}
+                </div>
+              )}
+              {liquidationPrice != null && (
+                <div className="rounded-lg p-4 bg-amber-50">
+                  <div className="text-sm text-gray-500">Est. Liquidation ({quoteAsset})</div>
+                  <div className="font-semibold text-amber-800">{formatPrice(liquidationPrice, priceDecimals)}</div>
+                  {isStopBeyondLiquidation(trade.position, currentStopLoss, liquidationPrice) && (
+                    <div className="mt-1 text-xs font-medium text-red-700">Stop loss is beyond liquidation</div>
+                  )}
+                </div>
+              )}
+              {(trade.takeProfits?.length ?? 0) > 0 && (
+                <div className="rounded-lg p-4 bg-gray-50">
+                  <div className="text-sm text-gray-500">Take-profits ({quoteAsset})</div>
+                  {currentTakeProfits.map((t, i) => (
+                    <div key={t.id} className="font-semibold">
+                      TP{i + 1} {formatPrice(t.price, priceDecimals)}
+                      <span className="ml-1 text-xs font-normal text-gray-500">
+                        ({Math.round(targetWeights[i] * 100)}%)
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
-            {rMultiple != null && (
-              <div className="rounded-lg p-4 bg-blue-50">
-                <div className="text-sm text-gray-500">R-Multiple</div>
-                <div className="font-bold text-xl text-blue-700">
-                  {rMultiple.toFixed(2)}R
+
+            {/* Execution legs */}
+            {!isEditing && (
+              <div>
+                <h3 className="text-lg font-semibold mb-2">Executions</h3>
+                <div className="overflow-hidden rounded-lg border border-gray-200">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-semibold uppercase text-gray-500">Leg</th>
+                        <th className="px-4 py-2 text-left text-xs font-semibold uppercase text-gray-500">Time</th>
+                        <th className="px-4 py-2 text-left text-xs font-semibold uppercase text-gray-500">Price ({quoteAsset})</th>
+                        <th className="px-4 py-2 text-left text-xs font-semibold uppercase text-gray-500">Quantity</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 bg-white">
+                      {legs.map((leg) => (
+                        <tr key={leg.id}>
+                          <td className={`px-4 py-2 font-medium ${leg.side === LEG_SIDE.ENTRY ? 'text-green-700' : 'text-red-700'}`}>
+                            {leg.side === LEG_SIDE.ENTRY
+                              ? `Entry (${getOpenLegLabel(trade.position)})`
+                              : `Exit (${getCloseLegLabel(trade.position)})`}
+                          </td>
+                          <td className="px-4 py-2 text-gray-600">{formatTimestampGMT(leg.timestamp)}</td>
+                          <td className="px-4 py-2 font-mono">{formatPrice(leg.price, priceDecimals)}</td>
+                          <td className="px-4 py-2 font-mono">{formatPrice(leg.quantity, getQuantityDecimals(symbolRules))}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
                 </div>
               </div>
             )}
-            {trade.stopLoss != null && (
-              <div className="rounded-lg p-4 bg-gray-50">
-                <div className="text-sm text-gray-500">Stop Loss ($)</div>
-                <div className="font-semibold">{trade.stopLoss.toLocaleString(undefined, { minimumFractionDigits: 2 })}</div>
+
+            {/* Stop / target moves */}
+            {!isEditing && adjustmentLog.length > 0 && (
+              <div>
+                <h3 className="text-lg font-semibold mb-2">Stop / Target Moves</h3>
+                <div className="overflow-hidden rounded-lg border border-gray-200">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-semibold uppercase text-gray-500">Level</th>
+                        <th className="px-4 py-2 text-left text-xs font-semibold uppercase text-gray-500">Time</th>
+                        <th className="px-4 py-2 text-left text-xs font-semibold uppercase text-gray-500">From → To ({quoteAsset})</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 bg-white">
+                      {adjustmentLog.map(({ adjustment, label, from }) => (
+                        <tr key={adjustment.id}>
+                          <td className={`px-4 py-2 font-medium ${adjustment.kind === ADJUSTMENT_KIND.STOP ? 'text-red-700' : 'text-green-700'}`}>
+                            {label}
+                          </td>
+                          <td className="px-4 py-2 text-gray-600">{formatTimestampGMT(adjustment.timestamp)}</td>
+                          <td className="px-4 py-2 font-mono">
+                            {from != null ? formatPrice(from, priceDecimals) : '—'} → {formatPrice(adjustment.price, priceDecimals)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
               </div>
             )}
-          </div>
 
-          {/* Price chart with entry/exit markers */}
-          <div className="min-w-0">
-            <h3 className="text-lg font-semibold mb-2">Price Movement</h3>
-            <div className="h-64 w-full min-w-0">
-              <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={chartData} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
-                  <XAxis dataKey="time" tick={{ fontSize: 12 }} />
-                  <YAxis
-                    domain={['auto', 'auto']}
-                    tick={{ fontSize: 12 }}
-                    tickFormatter={(v) => v.toLocaleString()}
-                  />
-                  <Tooltip
-                    formatter={(v: number) => Number(v).toLocaleString()}
-                    labelFormatter={(label) => `Time (GMT): ${label}`}
-                  />
-                  <ReferenceLine
-                    y={trade.openPrice}
-                    stroke="#22c55e"
-                    strokeDasharray="4 4"
-                    label={{ value: 'Entry', position: 'right' }}
-                  />
-                  {trade.closePrice != null && (
+            {/* Price chart with entry/exit markers */}
+            <div className="min-w-0">
+              <h3 className="text-lg font-semibold mb-2">Price Movement</h3>
+              <div className="h-64 w-full min-w-0">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 5, right: 5, left: 5, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                    <XAxis dataKey="time" tick={{ fontSize: 12 }} />
+                    <YAxis
+                      domain={['auto', 'auto']}
+                      tick={{ fontSize: 12 }}
+                      tickFormatter={(v) => v.toLocaleString()}
+                    />
+                    <Tooltip
+                      formatter={(v: number) => Number(v).toLocaleString()}
+                      labelFormatter={(label) => `Time (GMT): ${label}`}
+                    />
                     <ReferenceLine
-                      y={trade.closePrice}
-                      stroke="#ef4444"
+                      y={trade.openPrice}
+                      stroke="#22c55e"
                       strokeDasharray="4 4"
-                      label={{ value: 'Exit', position: 'right' }}
+                      label={{ value: 'Entry', position: 'right' }}
                     />
-                  )}
-                  <Line
-                    type="monotone"
-                    dataKey="price"
-                    stroke="#3b82f6"
-                    strokeWidth={2}
-                    dot={false}
-                  />
-                </LineChart>
-              </ResponsiveContainer>
+                    {liquidationPrice != null && (
+                      <ReferenceLine
+                        y={liquidationPrice}
+                        stroke="#f59e0b"
+                        strokeDasharray="2 2"
+                        label={{ value: 'Liq.', position: 'right' }}
+                      />
+                    )}
+                    {trade.closePrice != null && (
+                      <ReferenceLine
+                        y={trade.closePrice}
+                        stroke="#ef4444"
+                        strokeDasharray="4 4"
+                        label={{ value: 'Exit', position: 'right' }}
+                      />
+                    )}
+                    <Line
+                      type="monotone"
+                      dataKey="price"
+                      stroke="#3b82f6"
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                    {trade.stopLoss != null && (
+                      <Line
+                        type="stepAfter"
+                        dataKey="stop"
+                        name="Stop"
+                        stroke="#dc2626"
+                        strokeWidth={1.5}
+                        strokeDasharray="6 3"
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                    )}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
             </div>
-          </div>
 
-          {/* Notes & details - same section pattern as Price Movement */}
-          <div>
-            <div className="flex justify-between items-center mb-2">
-              <h3 className="text-lg font-semibold text-gray-900">Notes & details</h3>
-              {onUpdate && (
-                <button
-                  type="button"
-                  onClick={() => {
-                    if (isEditing) {
-                      const updates: Partial<Trade> = {
-                        notes: editNotes,
-                        tags: editTags.length ? editTags : undefined,
-                        status: editStatus,
-                      };
-                      if (editStatus === 'CLOSED') {
-                        const closePriceNum = parseFloat(editClosePrice);
-                        if (!Number.isNaN(closePriceNum)) updates.closePrice = closePriceNum;
-                        updates.closeTimestamp = editCloseTimestamp;
-                      } else {
-                        updates.closePrice = undefined;
-                        updates.closeTimestamp = undefined;
-                      }
-                      onUpdate(trade.id, updates);
+            {/* Notes & details - same section pattern as Price Movement */}
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-lg font-semibold text-gray-900">Notes & details</h3>
+                {onUpdate && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (isEditing && !handleSave()) return;
+                      setIsEditing(!isEditing);
+                    }}
+                    className={
+                      isEditing
+                        ? 'rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700'
+                        : 'rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50'
                     }
-                    setIsEditing(!isEditing);
-                  }}
-                  className={
-                    isEditing
-                      ? 'rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700'
-                      : 'rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50'
-                  }
-                >
-                  {isEditing ? 'Save' : 'Edit'}
-                </button>
-              )}
-            </div>
-            <div className="bg-gray-50 rounded-lg p-4 space-y-4">
-              {isEditing ? (
-                <>
-                  <div>
-                    <div className="text-sm text-gray-500 mb-1.5">Status</div>
-                    <div className="inline-flex rounded-lg border border-gray-200 bg-white p-0.5">
-                      <button
-                        type="button"
-                        onClick={() => setEditStatus('OPEN')}
-                        className={`rounded-md px-4 py-2 text-sm font-medium transition-colors ${
-                          editStatus === 'OPEN'
-                            ? 'bg-blue-600 text-white'
-                            : 'text-gray-600 hover:bg-gray-100'
-                        }`}
-                      >
-                        Open
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() => {
-                          setEditStatus('CLOSED');
-                          if (editStatus === 'OPEN') setEditCloseTimestamp(Date.now());
-                        }}
-                        className={`rounded-md px-4 py-2 text-sm font-medium transition-colors ${
-                          editStatus === 'CLOSED'
-                            ? 'bg-blue-600 text-white'
-                            : 'text-gray-600 hover:bg-gray-100'
-                        }`}
-                      >
-                        Closed
-                      </button>
-                    </div>
-                  </div>
-                  {editStatus === 'CLOSED' && (
-                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                      <div>
-                        <label className="block text-sm text-gray-500 mb-1.5">Close price ($)</label>
-                        <input
-                          type="number"
-                          step="any"
-                          min={0}
-                          value={editClosePrice}
-                          onKeyDown={(e) => { if (e.key === '-' || e.key === 'e' || e.key === 'E') e.preventDefault(); }}
-                          onChange={(e) => {
-                            const v = e.target.value;
-                            if (v !== '' && parseFloat(v) < 0) return;
-                            setEditClosePrice(v);
+                  >
+                    {isEditing ? 'Save' : 'Edit'}
+                  </button>
+                )}
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+                {isEditing ? (
+                  <>
+                    <div>
+                      <div className="text-sm text-gray-500 mb-1.5">Status</div>
+                      <div className="inline-flex rounded-lg border border-gray-200 bg-white p-0.5">
+                        <button
+                          type="button"
+                          onClick={() => handleEditStatusChange('OPEN')}
+                          className={`rounded-md px-4 py-2 text-sm font-medium transition-colors ${
+                            editStatus === 'OPEN'
+                              ? 'bg-blue-600 text-white'
+                              : 'text-gray-600 hover:bg-gray-100'
+                          }`}
+                        >
+                          Open
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            if (editStatus === 'OPEN') handleEditStatusChange('CLOSED');
                           }}
-                          className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-                          placeholder="0.00"
-                        />
-                      </div>
-                      <div>
-                        <label className="block text-sm text-gray-500 mb-1.5">Close time (GMT)</label>
-                        <input
-                          type="datetime-local"
-                          value={toDateTimeLocalGMT(editCloseTimestamp)}
-                          onChange={(e) => setEditCloseTimestamp(fromDateTimeLocalGMT(e.target.value))}
-                          className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-                        />
+                          className={`rounded-md px-4 py-2 text-sm font-medium transition-colors ${
+                            editStatus === 'CLOSED'
+                              ? 'bg-blue-600 text-white'
+                              : 'text-gray-600 hover:bg-gray-100'
+                          }`}
+                        >
+                          Closed
+                        </button>
                       </div>
                     </div>
-                  )}
-                  <div>
-                    <label className="block text-sm text-gray-500 mb-1.5">Notes</label>
-                    <textarea
-                      value={editNotes}
-                      onChange={(e) => setEditNotes(e.target.value)}
-                      rows={3}
-                      className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 resize-none"
-                      placeholder="Add notes…"
+                    {journals.length > 1 && (
+                      <SelectBox
+                        mode="single"
+                        label="Journal"
+                        options={journals.map((j) => ({ value: j.id, label: j.name }))}
+                        value={editJournalId || null}
+                        onChange={(v) => v && setEditJournalId(v)}
+                        minWidth="160px"
+                      />
+                    )}
+                    <PlaybookChecklist
+                      playbooks={playbooks}
+                      playbookId={editPlaybookId}
+                      checkedRules={editCheckedRules}
+                      onChange={(id, rules) => {
+                        setEditPlaybookId(id);
+                        setEditCheckedRules(rules);
+                      }}
+                      quoteAsset={quoteAsset}
                     />
-                  </div>
-                  <div>
-                    <label className="block text-sm text-gray-500 mb-1.5">Tags</label>
-                    <input
-                      type="text"
-                      value={tagInput}
-                      onChange={(e) => setTagInput(e.target.value)}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter' && tagInput.trim()) {
-                          setEditTags((t) => [...t, tagInput.trim()]);
-                          setTagInput('');
-                        }
+                    <TradeLegsEditor
+                      position={trade.position}
+                      legs={editLegs}
+                      onChange={setEditLegs}
+                      rules={symbolRules}
+                      quoteAsset={quoteAsset}
+                    />
+                    <TradeCostsFields costs={editCosts} legs={editLegs} onChange={setEditCosts} quoteAsset={quoteAsset} />
+                    <div>
+                      <label className="block text-sm text-gray-500 mb-1.5">Initial stop loss ({quoteAsset})</label>
+                      <input
+                        type="number"
+                        step="any"
+                        value={editStopLoss}
+                        onChange={(e) => setEditStopLoss(e.target.value)}
+                        className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                      />
+                    </div>
+                    <TakeProfitEditor
+                      position={trade.position}
+                      entryPrice={editLegSummary.avgEntryPrice}
+                      stopLoss={editStopLossValue}
+                      targets={editTakeProfits}
+                      onChange={setEditTakeProfits}
+                      quoteAsset={quoteAsset}
+                    />
+                    <AdjustmentsEditor
+                      adjustments={editAdjustments}
+                      onChange={setEditAdjustments}
+                      targets={editTakeProfits}
+                      defaultTimestamp={trade.openTimestamp}
+                      rules={symbolRules}
+                      quoteAsset={quoteAsset}
+                    />
+                    <MarginFields
+                      margin={editMargin}
+                      onChange={setEditMargin}
+                      position={trade.position}
+                      entryPrice={editLegSummary.avgEntryPrice}
+                      quantity={editLegSummary.entryQuantity}
+                      stopLoss={editCurrentStopLoss}
+                      priceDecimals={priceDecimals}
+                      quoteAsset={quoteAsset}
+                    />
+                    {editError && <p className="text-sm text-red-600">{editError}</p>}
+                    <TradeReviewFields review={editReview} categories={mistakeCategories} onChange={setEditReview} />
+                    <div>
+                      <label className="block text-sm text-gray-500 mb-1.5">Notes</label>
+                      <textarea
+                        value={editNotes}
+                        onChange={(e) => setEditNotes(e.target.value)}
+                        rows={3}
+                        className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 resize-none"
+                        placeholder="Add notes…"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm text-gray-500 mb-1.5">Tags</label>
+                      <input
+                        type="text"
+                        value={tagInput}
+                        onChange={(e) => setTagInput(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && tagInput.trim()) {
+                            setEditTags((t) => [...t, tagInput.trim()]);
+                            setTagInput('');
+                          }
+                        }}
+                        placeholder="Type a tag and press Enter"
+                        className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 mb-2"
+                      />
+                      {editTags.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {editTags.map((tag) => (
+                            <span
+                              key={tag}
+                              className="inline-flex items-center gap-1.5 rounded-full bg-blue-100 px-3 py-1 text-sm font-medium text-blue-800"
+                            >
+                              {tag}
+                              <button
+                                type="button"
+                                onClick={() => setEditTags((t) => t.filter((x) => x !== tag))}
+                                className="rounded-full p-0.5 text-blue-600 hover:bg-blue-200 hover:text-blue-900"
+                                aria-label={`Remove ${tag}`}
+                              >
+                                <span className="sr-only">Remove</span>
+                                <span aria-hidden>&times;</span>
+                              </button>
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div>
+                      <label className="block text-sm text-gray-500 mb-1.5">Attachments</label>
+                      <AttachmentsField attachments={editAttachments} onChange={setEditAttachments} />
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    {journals.length > 1 && (
+                      <div className="text-sm">
+                        <span className="text-gray-500">Journal </span>
+                        <span className="font-semibold text-gray-800">
+                          {journals.find((j) => j.id === getTradeJournalId(trade))?.name ?? 'Unknown journal'}
+                        </span>
+                      </div>
+                    )}
+                    {trade.playbookId && (
+                      <div className="text-sm">
+                        <span className="text-gray-500">Playbook </span>
+                        <span className="font-semibold text-gray-800">{playbook?.name ?? 'Deleted playbook'}</span>
+                        {playbook && (
+                          <ul className="mt-1 space-y-0.5">
+                            {playbook.rules.map((rule) => {
+                              const met = trade.checkedRules?.includes(rule.id);
+                              return (
+                                <li key={rule.id} className={met ? 'text-green-700' : 'text-amber-700'}>
+                                  {met ? '✓' : '✗'} {rule.text}
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+                    <TradeReviewFields
+                      review={{
+                        mistakes: trade.mistakes ?? [],
+                        emotionRating: trade.emotionRating,
+                        executionGrade: trade.executionGrade,
                       }}
-                      placeholder="Type a tag and press Enter"
-                      className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 mb-2"
+                      categories={mistakeCategories}
                     />
-                    {editTags.length > 0 && (
-                      <div className="flex flex-wrap gap-2">
-                        {editTags.map((tag) => (
+                    <p className="text-gray-700 text-sm leading-relaxed">
+                      {trade.notes || 'No notes.'}
+                    </p>
+                    {(trade.tags?.length ?? 0) > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {trade.tags!.map((tag) => (
                           <span
                             key={tag}
-                            className="inline-flex items-center gap-1.5 rounded-full bg-blue-100 px-3 py-1 text-sm font-medium text-blue-800"
+                            className="rounded-full bg-blue-100 px-3 py-1 text-sm font-medium text-blue-800"
                           >
                             {tag}
-                            <button
-                              type="button"
-                              onClick={() => setEditTags((t) => t.filter((x) => x !== tag))}
-                              className="rounded-full p-0.5 text-blue-600 hover:bg-blue-200 hover:text-blue-900"
-                              aria-label={`Remove ${tag}`}
-                            >
-                              <span className="sr-only">Remove</span>
-                              <span aria-hidden>&times;</span>
-                            </button>
                           </span>
                         ))}
                       </div>
                     )}
-                  </div>
-                </>
-              ) : (
-                <>
-                  <p className="text-gray-700 text-sm leading-relaxed">
-                    {trade.notes || 'No notes.'}
-                  </p>
-                  {(trade.tags?.length ?? 0) > 0 && (
-                    <div className="flex flex-wrap gap-2 mt-3">
-                      {trade.tags!.map((tag) => (
-                        <span
-                          key={tag}
-                          className="rounded-full bg-blue-100 px-3 py-1 text-sm font-medium text-blue-800"
-                        >
-                          {tag}
-                        </span>
-                      ))}
-                    </div>
-                  )}
-                </>
-              )}
+                    <AttachmentsField attachments={trade.attachments ?? []} />
+                  </>
+                )}
+              </div>
             </div>
-          </div>
+          </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,58 @@
+/**
+ * Toast
+ * Bottom-center notification with an optional action button (e.g. Undo).
+ * Dismisses itself after `duration` ms; re-keying restarts the timer.
+ */
+
+import React, { useEffect } from 'react';
+
+export interface ToastProps {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+  /** Auto-dismiss delay in ms */
+  duration?: number;
+}
+
+export const Toast: React.FC<ToastProps> = ({
+  message,
+  actionLabel,
+  onAction,
+  onDismiss,
+  duration = 6000,
+}) => {
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, duration);
+    return () => window.clearTimeout(timer);
+  }, [onDismiss, duration]);
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 z-[60] flex -translate-x-1/2 items-center gap-4 rounded-lg bg-gray-900 px-5 py-3 text-sm text-white shadow-xl"
+    >
+      <span>{message}</span>
+      {actionLabel && onAction && (
+        <button
+          type="button"
+          onClick={() => {
+            onAction();
+            onDismiss();
+          }}
+          className="font-semibold text-blue-300 hover:text-blue-200"
+        >
+          {actionLabel}
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={onDismiss}
+        className="text-gray-400 hover:text-white"
+        aria-label="Dismiss"
+      >
+        <span aria-hidden>&times;</span>
+      </button>
+    </div>
+  );
+};
@@ -15,10 +15,23 @@ export const mockTrades: Trade[] = [
     openPrice: 62000,
     closePrice: 63500,
     quantity: 1,
+    exchange: 'binance-spot',
+    fees: 125.5,
     stopLoss: 60000,
-    rValue: 2.5,
+    takeProfits: [
+      { id: '1-tp1', price: 63500, percent: 50 },
+      { id: '1-tp2', price: 65000, percent: 50 },
+    ],
+    adjustments: [
+      { id: '1-adj1', timestamp: Date.now() - 1.5 * 24 * 60 * 60 * 1000, kind: 'STOP', price: 62000 },
+      { id: '1-adj2', timestamp: Date.now() - 1.2 * 24 * 60 * 60 * 1000, kind: 'STOP', price: 63000 },
+    ],
+    plannedR: 1.125,
+    rValue: 0.6873,
     notes: 'Strong breakout above resistance. Took profits at target.',
     tags: ['breakout', 'swing'],
+    emotionRating: 4,
+    executionGrade: 4,
   },
   {
     id: '2',
@@ -30,10 +43,18 @@ export const mockTrades: Trade[] = [
     openPrice: 3500,
     closePrice: 3450,
     quantity: 2,
+    exchange: 'binance-usdm',
+    fees: 4.88,
+    funding: -1.2,
     stopLoss: 3650,
-    rValue: 1.3,
+    takeProfits: [{ id: '2-tp1', price: 3400 }],
+    plannedR: 0.6667,
+    rValue: 0.3211,
     notes: 'Short at resistance, closed on support.',
     tags: ['scalp'],
+    mistakes: ['early-exit'],
+    emotionRating: 3,
+    executionGrade: 3,
   },
   {
     id: '3',
@@ -46,6 +67,8 @@ export const mockTrades: Trade[] = [
     closePrice: 0.061,
     quantity: 2,
     stopLoss: 0.056,
+    takeProfits: [{ id: '3-tp1', price: 0.062 }],
+    plannedR: 2,
     rValue: 1.5,
     notes: 'DCA entry on dip.',
     tags: ['swing', 'DCA'],
@@ -59,6 +82,8 @@ export const mockTrades: Trade[] = [
     openPrice: 0.0014,
     quantity: 100,
     stopLoss: 0.0013,
+    takeProfits: [{ id: '4-tp1', price: 0.0016 }],
+    plannedR: 2,
     notes: 'Currently holding, targeting 0.0016.',
     tags: ['swing'],
   },
@@ -74,4 +99,29 @@ export const mockTrades: Trade[] = [
     notes: 'Short at resistance level.',
     tags: ['scalp'],
   },
+  {
+    id: '6',
+    symbol: 'SOLUSDT',
+    position: 'LONG',
+    status: 'OPEN',
+    openTimestamp: Date.now() - 3 * 24 * 60 * 60 * 1000,
+    openPrice: 144,
+    closePrice: 156,
+    quantity: 30,
+    stopLoss: 132,
+    takeProfits: [
+      { id: '6-tp1', price: 156 },
+      { id: '6-tp2', price: 168 },
+      { id: '6-tp3', price: 180 },
+    ],
+    plannedR: 2,
+    legs: [
+      { id: '6-1', side: 'ENTRY', timestamp: Date.now() - 3 * 24 * 60 * 60 * 1000, price: 140, quantity: 10 },
+      { id: '6-2', side: 'ENTRY', timestamp: Date.now() - 2 * 24 * 60 * 60 * 1000, price: 144, quantity: 10 },
+      { id: '6-3', side: 'ENTRY', timestamp: Date.now() - 36 * 60 * 60 * 1000, price: 148, quantity: 10 },
+      { id: '6-4', side: 'EXIT', timestamp: Date.now() - 20 * 60 * 60 * 1000, price: 156, quantity: 10 },
+    ],
+    notes: 'Scaled in three times, took a third off at the first target.',
+    tags: ['swing', 'scale-in'],
+  },
 ];
@@ -0,0 +1,48 @@
+/**
+ * useAttachmentUrls hook
+ * Object URLs for attachment files loaded from IndexedDB, by attachment id.
+ * Ids whose file is missing are left out; URLs are revoked on change/unmount.
+ */
+
+import { useEffect, useState } from 'react';
+import type { AttachmentMeta } from '../components/constants/types';
+import { attachmentService } from '../services/attachmentService';
+
+export function useAttachmentUrls(attachments: AttachmentMeta[]): Record<string, string> {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const idsKey = attachments.map((a) => a.id).join(',');
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',') : [];
+    let cancelled = false;
+    const created: string[] = [];
+
+    Promise.all(
+      ids.map((id) =>
+        attachmentService
+          .get(id)
+          .then((blob) => (blob ? [id, URL.createObjectURL(blob)] as const : null))
+          .catch(() => null)
+      )
+    ).then((entries) => {
+      const next: Record<string, string> = {};
+      entries.forEach((entry) => {
+        if (!entry) return;
+        created.push(entry[1]);
+        next[entry[0]] = entry[1];
+      });
+      if (cancelled) {
+        created.forEach((url) => URL.revokeObjectURL(url));
+        return;
+      }
+      setUrls(next);
+    });
+
+    return () => {
+      cancelled = true;
+      created.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [idsKey]);
+
+  return urls;
+}
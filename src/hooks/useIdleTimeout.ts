@@ -0,0 +1,35 @@
+/**
+ * useIdleTimeout hook
+ * Calls onIdle once no pointer, key, wheel or touch activity has happened
+ * for `minutes`. Checked periodically and when the tab becomes visible, so a
+ * backgrounded tab still locks on return. Disabled when minutes <= 0.
+ */
+
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+const CHECK_INTERVAL_MS = 15_000;
+
+export function useIdleTimeout(enabled: boolean, minutes: number, onIdle: () => void) {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!enabled || minutes <= 0) return;
+    let lastActivity = Date.now();
+    const markActive = () => {
+      lastActivity = Date.now();
+    };
+    const check = () => {
+      if (Date.now() - lastActivity >= minutes * 60_000) onIdleRef.current();
+    };
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, markActive, { passive: true }));
+    document.addEventListener('visibilitychange', check);
+    const timer = window.setInterval(check, CHECK_INTERVAL_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActive));
+      document.removeEventListener('visibilitychange', check);
+      window.clearInterval(timer);
+    };
+  }, [enabled, minutes]);
+}
@@ -0,0 +1,19 @@
+/**
+ * useJournals hook
+ * Manages the journal (account) list synced with localStorage
+ */
+
+import { useState, useCallback } from 'react';
+import type { Journal } from '../components/constants/types';
+import { journalStorageService } from '../services/journalStorageService';
+
+export function useJournals() {
+  const [journals, setJournals] = useState<Journal[]>(() => journalStorageService.getAll());
+
+  const saveJournals = useCallback((next: Journal[]) => {
+    journalStorageService.save(next);
+    setJournals(next);
+  }, []);
+
+  return { journals, saveJournals };
+}
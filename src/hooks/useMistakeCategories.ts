@@ -0,0 +1,19 @@
+/**
+ * useMistakeCategories hook
+ * Manages the mistake category list synced with localStorage
+ */
+
+import { useState, useCallback } from 'react';
+import type { MistakeCategory } from '../components/constants/types';
+import { mistakeStorageService } from '../services/mistakeStorageService';
+
+export function useMistakeCategories() {
+  const [categories, setCategories] = useState<MistakeCategory[]>(() => mistakeStorageService.getAll());
+
+  const saveCategories = useCallback((next: MistakeCategory[]) => {
+    mistakeStorageService.save(next);
+    setCategories(next);
+  }, []);
+
+  return { categories, saveCategories };
+}
@@ -0,0 +1,38 @@
+/**
+ * usePlaybooks hook
+ * Manages playbook state synced with localStorage
+ */
+
+import { useState, useCallback } from 'react';
+import type { Playbook } from '../components/constants/types';
+import { playbookStorageService } from '../services/playbookStorageService';
+
+export function usePlaybooks() {
+  const [playbooks, setPlaybooks] = useState<Playbook[]>(() => playbookStorageService.getAll());
+
+  const savePlaybook = useCallback((playbook: Playbook) => {
+    setPlaybooks((prev) => {
+      const next = prev.some((p) => p.id === playbook.id)
+        ? prev.map((p) => (p.id === playbook.id ? playbook : p))
+        : [...prev, playbook];
+      playbookStorageService.save(next);
+      return next;
+    });
+  }, []);
+
+  const deletePlaybook = useCallback((id: string) => {
+    setPlaybooks((prev) => {
+      const next = prev.filter((p) => p.id !== id);
+      playbookStorageService.save(next);
+      return next;
+    });
+  }, []);
+
+  /** Replace the whole list (e.g. from a backup) */
+  const replacePlaybooks = useCallback((next: Playbook[]) => {
+    playbookStorageService.save(next);
+    setPlaybooks(next);
+  }, []);
+
+  return { playbooks, savePlaybook, deletePlaybook, replacePlaybooks };
+}
@@ -0,0 +1,28 @@
+/**
+ * useStorageUsage hook
+ * Estimated storage use, measured again shortly after trades or history change.
+ * null until the first estimate (and while trades are loading).
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { StorageUsage, Trade, TradeRevision } from '../components/constants/types';
+import { storageUsageService } from '../services/storageUsageService';
+
+const DEBOUNCE_MS = 1_000;
+
+export function useStorageUsage(trades: Trade[], history: TradeRevision[], isLoading: boolean) {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+
+  const refresh = useCallback(
+    () => storageUsageService.estimate(trades, history).then(setUsage),
+    [trades, history]
+  );
+
+  useEffect(() => {
+    if (isLoading) return;
+    const timer = window.setTimeout(refresh, DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [isLoading, refresh]);
+
+  return { usage, refresh };
+}
@@ -0,0 +1,20 @@
+/**
+ * useSymbolRules hook
+ * Lot size / tick size rules per symbol, from the shared exchangeInfo download
+ */
+
+import { useMemo } from 'react';
+import type { SymbolRules } from '../components/constants/types';
+import { useCoins } from './useCoins';
+
+export function useSymbolRules(): Record<string, SymbolRules> {
+  const { coins } = useCoins();
+
+  return useMemo(() => {
+    const map: Record<string, SymbolRules> = {};
+    coins.forEach((c) => {
+      if (c.rules) map[c.symbol.toUpperCase()] = c.rules;
+    });
+    return map;
+  }, [coins]);
+}
@@ -0,0 +1,122 @@
+/**
+ * useSync hook
+ * Runs server sync (syncService) while it is on: shortly after trades change,
+ * every 30 seconds, and when the browser comes back online. Exposes the
+ * status, queue size and conflicts, and resolves conflicts either way.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  SYNC_STATUS,
+  type RemoteTradeChange,
+  type SyncConfig,
+  type SyncConflict,
+  type SyncStatus,
+  type Trade,
+} from '../components/constants/types';
+import { syncService } from '../services/syncService';
+
+const DEBOUNCE_MS = 2_000;
+const INTERVAL_MS = 30_000;
+
+export type ConflictChoice = 'local' | 'remote';
+
+export function useSync(trades: Trade[], applyServerChanges: (changes: RemoteTradeChange[]) => void) {
+  const [config, setConfig] = useState<SyncConfig>(() => syncService.getConfig());
+  const [status, setStatus] = useState<SyncStatus>(config.enabled ? SYNC_STATUS.IDLE : SYNC_STATUS.OFF);
+  const [error, setError] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>(() => syncService.getConflicts());
+  const [pendingCount, setPendingCount] = useState(() => syncService.getPendingCount());
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(() => syncService.getLastSyncedAt());
+  const tradesRef = useRef(trades);
+  tradesRef.current = trades;
+  const applyRef = useRef(applyServerChanges);
+  applyRef.current = applyServerChanges;
+  const runningRef = useRef(false);
+
+  useEffect(
+    () =>
+      syncService.subscribe(() => {
+        setConflicts(syncService.getConflicts());
+        setPendingCount(syncService.getPendingCount());
+        setLastSyncedAt(syncService.getLastSyncedAt());
+      }),
+    []
+  );
+
+  const syncNow = useCallback(async () => {
+    if (!syncService.getConfig().enabled || runningRef.current) return;
+    if (!navigator.onLine) {
+      setStatus(SYNC_STATUS.OFFLINE);
+      return;
+    }
+    runningRef.current = true;
+    setStatus(SYNC_STATUS.SYNCING);
+    try {
+      await syncService.sync(
+        (id) => tradesRef.current.find((t) => t.id === id) ?? null,
+        (changes) => applyRef.current(changes)
+      );
+      setStatus(SYNC_STATUS.IDLE);
+      setError(null);
+    } catch (err) {
+      // fetch rejects with a TypeError when the server can't be reached
+      if (err instanceof TypeError) {
+        setStatus(SYNC_STATUS.OFFLINE);
+      } else {
+        console.error('Failed to sync trades:', err);
+        setStatus(SYNC_STATUS.ERROR);
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      runningRef.current = false;
+    }
+  }, []);
+
+  const saveConfig = useCallback((next: SyncConfig) => {
+    syncService.setConfig(next, tradesRef.current.map((t) => t.id));
+    setConfig(next);
+    setError(null);
+    setStatus(next.enabled ? SYNC_STATUS.IDLE : SYNC_STATUS.OFF);
+    if (next.enabled) syncNow();
+  }, [syncNow]);
+
+  const resolveConflict = useCallback((id: string, choice: ConflictChoice) => {
+    if (choice === 'local') {
+      syncService.keepLocal(id);
+    } else {
+      const change = syncService.useRemote(id);
+      if (change) applyRef.current([change]);
+    }
+    syncNow();
+  }, [syncNow]);
+
+  // Push local edits shortly after they happen
+  useEffect(() => {
+    if (!config.enabled) return;
+    const timer = window.setTimeout(syncNow, DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [config.enabled, trades, syncNow]);
+
+  useEffect(() => {
+    if (!config.enabled) return;
+    const timer = window.setInterval(syncNow, INTERVAL_MS);
+    window.addEventListener('online', syncNow);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('online', syncNow);
+    };
+  }, [config.enabled, syncNow]);
+
+  return {
+    config,
+    saveConfig,
+    status,
+    error,
+    conflicts,
+    pendingCount,
+    lastSyncedAt,
+    syncNow,
+    resolveConflict,
+  };
+}
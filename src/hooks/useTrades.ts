@@ -1,49 +1,406 @@
 /**
  * useTrades hook
- * Manages trade state synced with localStorage
+ * Manages trade state synced with trade storage (IndexedDB by default), loaded
+ * asynchronously: `isLoading` is true until the first load finishes. A load
+ * that can't read storage sets `loadError` and leaves the trades empty; it is
+ * not an empty journal.
+ * Every create, update and delete is also recorded as a revision in the trade history,
+ * and user actions go on an in-memory undo/redo stack.
+ * Stored records that fail validation on load are exposed as `quarantine`.
+ * Saves are announced to other open tabs (tabSyncService), and their saves
+ * are merged in here trade by trade. Local changes are stamped with
+ * `updatedAt` and queued for server sync (syncService) when it is on.
+ * Background updates (stored conversion rates) are only saved and announced
+ * to other tabs: no revision, no `updatedAt`, no sync and no undo.
+ * State changes right away; a failed write is kept as `saveError` until
+ * `retrySave` writes everything again.
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { Trade } from '../components/constants/types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  REVISION_ACTION,
+  type QuarantinedRecord,
+  type RemoteTradeChange,
+  type TabSyncMessage,
+  type RevisionAction,
+  type SaveFailure,
+  type Trade,
+  type TradeChange,
+  type TradeRevision,
+  type UndoEntry,
+} from '../components/constants/types';
 import { tradeStorageService } from '../services/tradeStorageService';
+import { tradeHistoryService } from '../services/tradeHistoryService';
+import { quarantineService } from '../services/quarantineService';
+import { tabSyncService } from '../services/tabSyncService';
+import { syncService } from '../services/syncService';
+import { createRevision, diffTrades } from '../utils/tradeHistory';
+import { describeSaveError, isQuotaExceededError } from '../utils/storageUsage';
+
+const MAX_UNDO_ENTRIES = 50;
+
+/**
+ * Where a change comes from: USER = the user's edit; SERVER = pulled from the
+ * sync server (keeps its `updatedAt`, not pushed back); BACKGROUND = filled in
+ * by the app (e.g. stored conversion rates), not an edit
+ */
+const CHANGE_SOURCE = {
+  USER: 'USER',
+  SERVER: 'SERVER',
+  BACKGROUND: 'BACKGROUND',
+} as const;
+
+type ChangeSource = (typeof CHANGE_SOURCE)[keyof typeof CHANGE_SOURCE];
+
+interface UpdateOptions {
+  /** true for background updates (e.g. stored conversion rates): no revision, sync or undo */
+  background?: boolean;
+}
 
 export function useTrades() {
-  const [trades, setTrades] = useState<Trade[]>(() => tradeStorageService.getAll());
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [history, setHistory] = useState<TradeRevision[]>([]);
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>([]);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoEntry[]>([]);
+  const [lastRemoteChange, setLastRemoteChange] = useState<TabSyncMessage | null>(null);
+  const [saveError, setSaveError] = useState<SaveFailure | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Latest state outside the render cycle, so back-to-back calls each see
+  // the previous call's result
+  const tradesRef = useRef(trades);
+  const historyRef = useRef(history);
+  const undoRef = useRef(undoStack);
+  const redoRef = useRef(redoStack);
+  const quarantineRef = useRef(quarantine);
+  // Whether storage was read; until then the in-memory lists must not replace it
+  const loadedRef = useRef(false);
 
-  const loadTrades = useCallback(() => {
-    setTrades(tradeStorageService.getAll());
+  const reportSaveError = useCallback((what: string, error: unknown) => {
+    console.error(`Failed to save ${what}:`, error);
+    setSaveError({ message: describeSaveError(error), quotaExceeded: isQuotaExceededError(error), failedAt: Date.now() });
   }, []);
 
-  const addTrade = useCallback((trade: Trade) => {
-    setTrades((prev) => {
-      const next = [...prev, trade];
-      tradeStorageService.save(next);
-      return next;
-    });
+  const setStacks = useCallback((undo: UndoEntry[], redo: UndoEntry[]) => {
+    undoRef.current = undo.slice(-MAX_UNDO_ENTRIES);
+    redoRef.current = redo;
+    setUndoStack(undoRef.current);
+    setRedoStack(redoRef.current);
   }, []);
 
-  const updateTrade = useCallback((id: string, updates: Partial<Trade>) => {
-    setTrades((prev) => {
-      const next = prev.map((t) =>
-        t.id === id ? { ...t, ...updates } : t
-      );
-      tradeStorageService.save(next);
-      return next;
+  /**
+   * Set each trade to its target state (null = remove), persist, and record
+   * revisions. `action` overrides CREATE/UPDATE for trades that remain.
+   * Only the user's changes are stamped with `updatedAt` and queued to be
+   * pushed; background changes record no revision.
+   * @throws until storage has been read, so a change made before (or after a
+   * failed load) never overwrites the stored trades
+   */
+  const applyTargets = useCallback((
+    targets: { id: string; target: Trade | null }[],
+    action?: RevisionAction,
+    source: ChangeSource = CHANGE_SOURCE.USER
+  ) => {
+    if (!loadedRef.current) {
+      throw new Error('The journal has not loaded; changes can be made once it has.');
+    }
+    let next = tradesRef.current;
+    const changes: TradeChange[] = [];
+    const revisions: TradeRevision[] = [];
+    const updatedAt = Date.now();
+    targets.forEach(({ id, target: requested }) => {
+      const current = next.find((t) => t.id === id) ?? null;
+      if (!current && !requested) return;
+      const edited = source === CHANGE_SOURCE.USER && requested && (!current || diffTrades(current, requested).length > 0);
+      const target = edited ? { ...requested, updatedAt } : requested;
+      if (!target) {
+        next = next.filter((t) => t.id !== id);
+      } else if (!current) {
+        next = [...next, target];
+      } else {
+        next = next.map((t) => (t.id === id ? target : t));
+      }
+      const revisionAction = !target
+        ? REVISION_ACTION.DELETE
+        : action ?? (current ? REVISION_ACTION.UPDATE : REVISION_ACTION.CREATE);
+      if (source === CHANGE_SOURCE.BACKGROUND) {
+        changes.push({ before: current, after: target });
+        return;
+      }
+      const revision = createRevision(revisionAction, current, target);
+      if (revisionAction === REVISION_ACTION.UPDATE && revision.changes.length === 0) return;
+      changes.push({ before: current, after: target });
+      revisions.push(revision);
     });
-  }, []);
 
-  const deleteTrade = useCallback((id: string) => {
-    setTrades((prev) => {
-      const next = prev.filter((t) => t.id !== id);
-      tradeStorageService.save(next);
-      return next;
+    tradesRef.current = next;
+    setTrades(next);
+    tradeStorageService
+      .save(next, targets.map((t) => t.id))
+      .catch((error) => reportSaveError('trades', error));
+    if (revisions.length > 0) {
+      historyRef.current = [...historyRef.current, ...revisions];
+      setHistory(historyRef.current);
+      tradeHistoryService
+        .save(historyRef.current, revisions.map((r) => r.id))
+        .catch((error) => reportSaveError('trade history', error));
+    }
+    if (changes.length > 0) {
+      tabSyncService.publish({
+        changes: changes.map((c) => ({ id: (c.after ?? c.before)!.id, trade: c.after })),
+        revisions,
+      });
+      if (source === CHANGE_SOURCE.USER) syncService.markPending(changes.map((c) => (c.after ?? c.before)!.id));
+    }
+    return changes;
+  }, [reportSaveError]);
+
+  /**
+   * Merge a save made in another tab: only the trades it names are replaced,
+   * and undo/redo entries touching them are dropped so undo can't silently
+   * overwrite the other tab's version. Storage was already written there.
+   */
+  const applyRemote = useCallback((message: TabSyncMessage) => {
+    const changed = new Set(message.changes.map((c) => c.id));
+    let next = tradesRef.current;
+    message.changes.forEach(({ id, trade }) => {
+      if (!trade) next = next.filter((t) => t.id !== id);
+      else if (next.some((t) => t.id === id)) next = next.map((t) => (t.id === id ? trade : t));
+      else next = [...next, trade];
     });
+    tradesRef.current = next;
+    setTrades(next);
+
+    const known = new Set(historyRef.current.map((r) => r.id));
+    const added = message.revisions.filter((r) => !known.has(r.id));
+    if (added.length > 0) {
+      historyRef.current = [...historyRef.current, ...added];
+      setHistory(historyRef.current);
+    }
+
+    const untouched = (entry: UndoEntry) =>
+      entry.changes.every((c) => !changed.has((c.before ?? c.after)!.id));
+    setStacks(undoRef.current.filter(untouched), redoRef.current.filter(untouched));
+    setLastRemoteChange(message);
+  }, [setStacks]);
+
+  /**
+   * Apply trades pulled from the sync server. Not undoable: undo/redo entries
+   * touching them are dropped, as for changes from another tab.
+   */
+  const applyServerChanges = useCallback((serverChanges: RemoteTradeChange[]) => {
+    const changed = new Set(serverChanges.map((c) => c.id));
+    applyTargets(serverChanges.map((c) => ({ id: c.id, target: c.trade })), undefined, CHANGE_SOURCE.SERVER);
+    const untouched = (entry: UndoEntry) =>
+      entry.changes.every((c) => !changed.has((c.before ?? c.after)!.id));
+    setStacks(undoRef.current.filter(untouched), redoRef.current.filter(untouched));
+  }, [applyTargets, setStacks]);
+
+  const record = useCallback((label: string, changes: TradeChange[]) => {
+    if (changes.length === 0) return;
+    setStacks([...undoRef.current, { label, changes }], []);
+  }, [setStacks]);
+
+  /** Resolves the loaded trades, or null when storage could not be read (see `loadError`) */
+  const loadTrades = useCallback(async (): Promise<Trade[] | null> => {
+    try {
+      const [{ trades: loaded, writeError }, revisions] = await Promise.all([
+        tradeStorageService.load(),
+        tradeHistoryService.load(),
+      ]);
+      tradesRef.current = loaded;
+      setTrades(loaded);
+      historyRef.current = revisions;
+      setHistory(revisions);
+      setLoadError(null);
+      loadedRef.current = true;
+      // The trades are in memory; Retry writes them in the current format
+      if (writeError) reportSaveError('trades', writeError);
+      // Loading moves invalid records into the quarantine
+      try {
+        quarantineRef.current = await quarantineService.getAll();
+        setQuarantine(quarantineRef.current);
+      } catch (error) {
+        console.error('Failed to load quarantined records:', error);
+      }
+      return loaded;
+    } catch (error) {
+      console.error('Failed to load trades:', error);
+      setLoadError(describeSaveError(error));
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [reportSaveError]);
+
+  const addTrades = useCallback((added: Trade[], label?: string) => {
+    const changes = applyTargets(added.map((t) => ({ id: t.id, target: t })));
+    record(label ?? (added.length === 1 ? 'Add trade' : `Add ${added.length} trades`), changes);
+  }, [applyTargets, record]);
+
+  const addTrade = useCallback((trade: Trade) => addTrades([trade]), [addTrades]);
+
+  const updateTrade = useCallback((id: string, updates: Partial<Trade>, options: UpdateOptions = {}) => {
+    const current = tradesRef.current.find((t) => t.id === id);
+    if (!current) return;
+    const target = { ...current, ...updates };
+    if (options.background) {
+      applyTargets([{ id, target }], undefined, CHANGE_SOURCE.BACKGROUND);
+      return;
+    }
+    const changes = applyTargets([{ id, target }]);
+    record(`Edit ${current.symbol}`, changes);
+  }, [applyTargets, record]);
+
+  const deleteTrades = useCallback((ids: string[]) => {
+    const changes = applyTargets(ids.map((id) => ({ id, target: null })));
+    record(ids.length === 1 ? 'Delete trade' : `Delete ${ids.length} trades`, changes);
+  }, [applyTargets, record]);
+
+  const deleteTrade = useCallback((id: string) => deleteTrades([id]), [deleteTrades]);
+
+  /** Move trades into another journal (one undo step) */
+  const moveTrades = useCallback((ids: string[], journalId: string) => {
+    const targets = tradesRef.current
+      .filter((t) => ids.includes(t.id))
+      .map((t) => ({ id: t.id, target: { ...t, journalId } }));
+    const changes = applyTargets(targets);
+    record(changes.length === 1 ? 'Move trade' : `Move ${changes.length} trades`, changes);
+  }, [applyTargets, record]);
+
+  /** Put a trade back to the state stored in a revision (re-adding it if deleted) */
+  const restoreRevision = useCallback((revision: TradeRevision) => {
+    const changes = applyTargets([{ id: revision.tradeId, target: revision.snapshot }], REVISION_ACTION.RESTORE);
+    record(`Restore ${revision.snapshot.symbol}`, changes);
+  }, [applyTargets, record]);
+
+  /**
+   * Apply the trades of a backup restore (one undo step) and add the backup's
+   * revisions to the history
+   */
+  const restoreBackup = useCallback((put: Trade[], remove: string[], revisions: TradeRevision[]) => {
+    if (revisions.length > 0) {
+      historyRef.current = [...historyRef.current, ...revisions].sort((a, b) => a.timestamp - b.timestamp);
+      setHistory(historyRef.current);
+      tradeHistoryService
+        .save(historyRef.current, revisions.map((r) => r.id))
+        .catch((error) => reportSaveError('trade history', error));
+    }
+    const changes = applyTargets([
+      ...remove.map((id) => ({ id, target: null })),
+      ...put.map((t) => ({ id: t.id, target: t })),
+    ]);
+    record('Restore backup', changes);
+  }, [applyTargets, record, reportSaveError]);
+
+  /**
+   * Rewrite all trades, history and quarantine, e.g. with a new encryption key
+   * @throws (rejects) when storage was never read, so a failed load can't wipe it
+   */
+  const resealAll = useCallback(async () => {
+    if (!loadedRef.current) throw new Error('The journal has not loaded; reload the page before saving everything again.');
+    await Promise.all([
+      tradeStorageService.save(tradesRef.current),
+      tradeHistoryService.save(historyRef.current),
+      quarantineService.save(quarantineRef.current),
+    ]);
   }, []);
 
+  /**
+   * Write all trades and history again after a failed save (a failed partial
+   * write may have left storage anywhere in between). Resolves false if it
+   * failed again.
+   */
+  const retrySave = useCallback(async (): Promise<boolean> => {
+    try {
+      await resealAll();
+      setSaveError(null);
+      return true;
+    } catch (error) {
+      reportSaveError('trades', error);
+      return false;
+    }
+  }, [resealAll, reportSaveError]);
+
+  const discardQuarantined = useCallback((id: string) => {
+    quarantineRef.current = quarantineRef.current.filter((q) => q.id !== id);
+    setQuarantine(quarantineRef.current);
+    quarantineService.save(quarantineRef.current).catch((error) => reportSaveError('quarantine', error));
+  }, [reportSaveError]);
+
+  /**
+   * Validate a quarantined record again, possibly edited, and add it back as a
+   * trade. Returns the errors that still apply (empty on success).
+   */
+  const restoreQuarantined = useCallback((id: string, record: unknown): string[] => {
+    const entry = quarantineRef.current.find((q) => q.id === id);
+    if (!entry) return ['This record is no longer in quarantine'];
+    const { trade, errors } = tradeStorageService.revalidate(entry, record);
+    if (!trade) return errors;
+    if (tradesRef.current.some((t) => t.id === trade.id)) return [`A trade with id ${trade.id} already exists`];
+    addTrades([trade], `Restore ${trade.symbol}`);
+    discardQuarantined(id);
+    return [];
+  }, [addTrades, discardQuarantined]);
+
+  const undo = useCallback(() => {
+    const entry = undoRef.current[undoRef.current.length - 1];
+    if (!entry) return;
+    applyTargets(
+      [...entry.changes].reverse().map((c) => ({ id: (c.before ?? c.after)!.id, target: c.before })),
+      REVISION_ACTION.RESTORE
+    );
+    setStacks(undoRef.current.slice(0, -1), [...redoRef.current, entry]);
+  }, [applyTargets, setStacks]);
+
+  const redo = useCallback(() => {
+    const entry = redoRef.current[redoRef.current.length - 1];
+    if (!entry) return;
+    applyTargets(
+      entry.changes.map((c) => ({ id: (c.after ?? c.before)!.id, target: c.after })),
+      REVISION_ACTION.RESTORE
+    );
+    setStacks([...undoRef.current, entry], redoRef.current.slice(0, -1));
+  }, [applyTargets, setStacks]);
+
   useEffect(() => {
-    tradeStorageService.syncSymbolsFromTrades(tradeStorageService.getAll());
-    loadTrades();
+    loadTrades()
+      .then((loaded) => {
+        if (loaded) tradeStorageService.syncSymbolsFromTrades(loaded);
+      })
+      .catch((error) => console.error('Failed to load trades:', error));
   }, [loadTrades]);
 
-  return { trades, addTrade, updateTrade, deleteTrade, loadTrades };
+  useEffect(() => tabSyncService.subscribe(applyRemote), [applyRemote]);
+
+  return {
+    trades,
+    isLoading,
+    history,
+    addTrade,
+    addTrades,
+    updateTrade,
+    deleteTrade,
+    deleteTrades,
+    moveTrades,
+    restoreRevision,
+    loadTrades,
+    quarantine,
+    discardQuarantined,
+    restoreQuarantined,
+    resealAll,
+    saveError,
+    retrySave,
+    loadError,
+    restoreBackup,
+    applyServerChanges,
+    undo,
+    redo,
+    /** Latest save merged in from another tab; null until one arrives */
+    lastRemoteChange,
+    /** Label of the action Undo would revert; null when nothing to undo */
+    undoLabel: undoStack[undoStack.length - 1]?.label ?? null,
+    redoLabel: redoStack[redoStack.length - 1]?.label ?? null,
+  };
 }
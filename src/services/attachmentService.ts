@@ -0,0 +1,142 @@
+/**
+ * Attachment Service
+ * Stores attachment files (screenshots, PDFs…) in IndexedDB, database
+ * trade_journal_files, store `files` keyed by attachment id. Trades keep only
+ * the metadata (AttachmentMeta) in localStorage.
+ *
+ * Files are not deleted with their trade straight away, so undo can bring a
+ * deleted trade back with its files; prune() removes files nothing refers to
+ * (trades, revision snapshots, quarantined records) and runs when the app loads.
+ *
+ * With encryption on, each file is stored as { iv, data, type } sealed with the
+ * session key (encryptionService), like trades are written as { id, sealed }.
+ */
+
+import type { AttachmentMeta } from '../components/constants/types';
+import type { SealedBytes } from '../utils/crypto';
+import { encryptionService } from './encryptionService';
+
+const DB_NAME = 'trade_journal_files';
+const DB_VERSION = 1;
+const STORE = 'files';
+
+/** Largest file accepted, in bytes */
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+/** Run one request in a transaction and resolve with its result */
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+interface SealedFile extends SealedBytes {
+  /** MIME type of the file, restored on the Blob when it is opened */
+  type: string;
+}
+
+function isSealedFile(value: unknown): value is SealedFile {
+  return typeof value === 'object' && value !== null && !(value instanceof Blob) && 'iv' in value && 'data' in value;
+}
+
+/** What to store for a file: sealed when encryption is on, else the Blob itself */
+async function toStored(blob: Blob): Promise<Blob | SealedFile> {
+  const sealed = await encryptionService.sealBytes(await blob.arrayBuffer());
+  return sealed ? { ...sealed, type: blob.type } : blob;
+}
+
+async function fromStored(value: Blob | SealedFile): Promise<Blob> {
+  if (!isSealedFile(value)) return value;
+  return new Blob([await encryptionService.openBytes(value)], { type: value.type });
+}
+
+function createAttachmentId(): string {
+  return `att-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export const attachmentService = {
+  /**
+   * Store a file and return its metadata for the trade.
+   * @throws when the file is too large, the journal is locked or IndexedDB is unavailable
+   */
+  async add(file: File): Promise<AttachmentMeta> {
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      throw new Error(`${file.name} is larger than ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB`);
+    }
+    const meta: AttachmentMeta = {
+      id: createAttachmentId(),
+      name: file.name || 'pasted-image.png',
+      type: file.type || 'application/octet-stream',
+      size: file.size,
+      addedAt: Date.now(),
+    };
+    const stored = await toStored(file);
+    await run('readwrite', (store) => store.put(stored, meta.id));
+    return meta;
+  },
+
+  /**
+   * File content; null when it was removed or never stored
+   * @throws when the file is sealed and the journal is locked
+   */
+  async get(id: string): Promise<Blob | null> {
+    const value = await run<Blob | SealedFile | undefined>('readonly', (store) => store.get(id));
+    return value ? fromStored(value) : null;
+  },
+
+  /** Store file content under a known id (e.g. from a backup), replacing any file there */
+  async put(id: string, blob: Blob): Promise<void> {
+    const stored = await toStored(blob);
+    await run('readwrite', (store) => store.put(stored, id));
+  },
+
+  /**
+   * Write every file again with the current key (sealed, or plain when
+   * encryption is off), one at a time so only one file is in memory
+   * @throws (rejects) when a file can't be opened or written
+   */
+  async reseal(): Promise<void> {
+    const keys = await run('readonly', (store) => store.getAllKeys());
+    for (const key of keys) {
+      const value = await run<Blob | SealedFile | undefined>('readonly', (store) => store.get(key));
+      if (!value) continue;
+      const stored = await toStored(await fromStored(value));
+      await run('readwrite', (store) => store.put(stored, key));
+    }
+  },
+
+  /** Delete every stored file whose id is not in `keepIds` */
+  async prune(keepIds: Set<string>): Promise<void> {
+    const keys = await run('readonly', (store) => store.getAllKeys());
+    const orphans = keys.filter((key) => !keepIds.has(String(key)));
+    for (const key of orphans) {
+      await run('readwrite', (store) => store.delete(key));
+    }
+  },
+};
+
+export function isImageAttachment(meta: AttachmentMeta): boolean {
+  return meta.type.startsWith('image/');
+}
@@ -0,0 +1,85 @@
+/**
+ * Backup Service
+ * Collects everything the journal stores into one JournalBackup file (see
+ * utils/backup.ts for the layout and restore planning) and writes attachment
+ * files back on restore. Trades and history come from useTrades, so an
+ * encrypted journal is exported decrypted.
+ */
+
+import type { JournalBackup, Trade, TradeFilters, TradeRevision } from '../components/constants/types';
+import { BACKUP_FORMAT, BACKUP_VERSION, getBackupFileName } from '../utils/backup';
+import { downloadBlob } from '../utils/download';
+import { CURRENT_SCHEMA_VERSION } from '../utils/tradeSchema';
+import { ALL_JOURNALS_ID } from '../utils/journals';
+import { loadFilters } from '../utils/filterStorage';
+import { loadDemoLoaded, loadSettings } from '../utils/settingsStorage';
+import { attachmentService } from './attachmentService';
+import { journalStorageService } from './journalStorageService';
+import { playbookStorageService } from './playbookStorageService';
+import { mistakeStorageService } from './mistakeStorageService';
+import { tradeStorageService } from './tradeStorageService';
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export const backupService = {
+  /**
+   * Snapshot of the whole journal. With `includeFiles`, attachment contents
+   * are embedded (the file can get large).
+   */
+  async create(trades: Trade[], history: TradeRevision[], includeFiles: boolean): Promise<JournalBackup> {
+    const journals = journalStorageService.getAll();
+    const filters: Record<string, TradeFilters> = {};
+    [ALL_JOURNALS_ID, ...journals.map((j) => j.id)].forEach((id) => {
+      const saved = loadFilters(id);
+      if (saved) filters[id] = saved;
+    });
+
+    const files: Record<string, string> = {};
+    if (includeFiles) {
+      for (const meta of trades.flatMap((t) => t.attachments ?? [])) {
+        const blob = await attachmentService.get(meta.id);
+        if (blob) files[meta.id] = await blobToDataUrl(blob);
+      }
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      backupVersion: BACKUP_VERSION,
+      exportedAt: Date.now(),
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      trades,
+      history,
+      journals,
+      filters,
+      settings: loadSettings(),
+      demoLoaded: loadDemoLoaded(),
+      symbols: tradeStorageService.getSymbols(),
+      playbooks: playbookStorageService.getAll(),
+      mistakeCategories: mistakeStorageService.getAll(),
+      files,
+    };
+  },
+
+  /** Save the backup through the browser's download */
+  download(backup: JournalBackup): void {
+    downloadBlob(new Blob([JSON.stringify(backup)], { type: 'application/json' }), getBackupFileName(backup.exportedAt));
+  },
+
+  /**
+   * Store the attachment files of a backup.
+   * @throws (rejects) when a file can't be decoded or IndexedDB is unavailable
+   */
+  async restoreFiles(files: Record<string, string>): Promise<void> {
+    for (const [id, dataUrl] of Object.entries(files)) {
+      const blob = await (await fetch(dataUrl)).blob();
+      await attachmentService.put(id, blob);
+    }
+  },
+};
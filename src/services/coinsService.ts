@@ -1,11 +1,24 @@
 /**
  * Trading symbols service
- * Fetches symbol list and ticker price from Binance API
+ * Fetches symbol list (with lot size / tick size rules) and ticker price from Binance API
  */
 
+import type { SymbolRules } from '../components/constants/types';
+
 export interface TradingSymbol {
   id: string;
   symbol: string;
+  baseAsset?: string;
+  quoteAsset?: string;
+  rules?: SymbolRules;
+}
+
+/** exchangeInfo symbol entry (fields used here) */
+interface ExchangeInfoSymbol {
+  symbol: string;
+  baseAsset?: string;
+  quoteAsset?: string;
+  filters?: { filterType: string; [key: string]: string }[];
 }
 
 /** Binance ticker/price response */
@@ -16,11 +29,44 @@ export interface TickerPrice {
 
 const BINANCE_API = 'https://api.binance.com/api/v3';
 
-export async function fetchCoinsList(): Promise<TradingSymbol[]> {
-  const res = await fetch(`${BINANCE_API}/exchangeInfo`);
-  const data = await res.json();
-  const symbols = (data.symbols ?? []).map((s: { symbol: string }) => s.symbol);
-  return symbols.map((sym: string) => ({ id: sym, symbol: sym }));
+/** LOT_SIZE and PRICE_FILTER → SymbolRules; undefined if either filter is missing */
+function toSymbolRules(filters: ExchangeInfoSymbol['filters']): SymbolRules | undefined {
+  const lot = filters?.find((f) => f.filterType === 'LOT_SIZE');
+  const price = filters?.find((f) => f.filterType === 'PRICE_FILTER');
+  if (!lot || !price) return undefined;
+  return {
+    stepSize: parseFloat(lot.stepSize),
+    minQty: parseFloat(lot.minQty),
+    maxQty: parseFloat(lot.maxQty),
+    tickSize: parseFloat(price.tickSize),
+    minPrice: parseFloat(price.minPrice),
+  };
+}
+
+let coinsListPromise: Promise<TradingSymbol[]> | null = null;
+
+/**
+ * Fetches all symbols from exchangeInfo. The (large) response is requested once
+ * per session and shared between callers; a failed request is retried next call.
+ */
+export function fetchCoinsList(): Promise<TradingSymbol[]> {
+  if (!coinsListPromise) {
+    coinsListPromise = (async () => {
+      const res = await fetch(`${BINANCE_API}/exchangeInfo`);
+      const data = await res.json();
+      return ((data.symbols ?? []) as ExchangeInfoSymbol[]).map((s) => ({
+        id: s.symbol,
+        symbol: s.symbol,
+        baseAsset: s.baseAsset,
+        quoteAsset: s.quoteAsset,
+        rules: toSymbolRules(s.filters),
+      }));
+    })();
+    coinsListPromise.catch(() => {
+      coinsListPromise = null;
+    });
+  }
+  return coinsListPromise;
 }
 
 /**
@@ -35,4 +81,21 @@ export async function fetchTickerPrice(symbol: string): Promise<TickerPrice> {
   }
   const data = await res.json();
   return { symbol: data.symbol, price: data.price };
-}
\ No newline at end of file
+}
+/**
+ * Close price of the 1-minute candle containing timestamp, from Binance klines.
+ * @param symbol e.g. "BTCUSDT"
+ * @throws when the request fails or there is no candle at that time
+ */
+export async function fetchHistoricalPrice(symbol: string, timestamp: number): Promise<number> {
+  const params = `symbol=${encodeURIComponent(symbol.toUpperCase())}&interval=1m&startTime=${timestamp - 60000}&limit=1`;
+  const res = await fetch(`${BINANCE_API}/klines?${params}`);
+  if (!res.ok) {
+    throw new Error(`Binance klines failed: ${res.status}`);
+  }
+  const data = (await res.json()) as string[][];
+  if (!data.length) {
+    throw new Error(`No ${symbol} price at ${new Date(timestamp).toISOString()}`);
+  }
+  return parseFloat(data[0][4]);
+}
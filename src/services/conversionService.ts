@@ -0,0 +1,29 @@
+/**
+ * Conversion Service
+ * Quote → home currency rates from Binance, live or at a past time
+ * (used to store the rate on closed trades).
+ */
+
+import { fetchCoinsList, fetchHistoricalPrice, fetchTickerPrice } from './coinsService';
+import { getConversionSteps } from '../utils/currency';
+
+/**
+ * Rate converting 1 unit of `from` into `to`.
+ * With timestamp, uses the 1-minute close at that time; otherwise the current price.
+ * @throws when no conversion path exists or a price request fails
+ */
+export async function fetchConversionRate(from: string, to: string, timestamp?: number): Promise<number> {
+  const coins = await fetchCoinsList().catch(() => []);
+  const steps = getConversionSteps(from, to, new Set(coins.map((c) => c.symbol)));
+  if (!steps) {
+    throw new Error(`No conversion path from ${from} to ${to}`);
+  }
+  let rate = 1;
+  for (const step of steps) {
+    const price = timestamp != null
+      ? await fetchHistoricalPrice(step.symbol, timestamp)
+      : parseFloat((await fetchTickerPrice(step.symbol)).price);
+    rate *= step.inverse ? 1 / price : price;
+  }
+  return rate;
+}
@@ -0,0 +1,208 @@
+/**
+ * Encryption Service
+ * Optional at-rest encryption of trades, trade history, the quarantine and
+ * attachment files with a passphrase.
+ * The settings (salt, iterations, a check value, auto-lock) live in
+ * localStorage under trade_journal_encryption; the derived key only in
+ * memory while the journal is unlocked.
+ *
+ * Turning encryption on or off and changing the passphrase take a `reseal`
+ * callback that rewrites all data with the new key; the settings are only
+ * committed once it succeeds, and the old key is put back if it fails. While
+ * it runs, files can still be opened with the key they were sealed with.
+ */
+
+import type { EncryptionConfig } from '../components/constants/types';
+import {
+  createSalt,
+  deriveKey,
+  openBytes,
+  openText,
+  PBKDF2_ITERATIONS,
+  sealBytes,
+  sealText,
+  type SealedBytes,
+} from '../utils/crypto';
+
+const CONFIG_KEY = 'trade_journal_encryption';
+const CHECK_TEXT = 'trade-journal';
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/** `remote` = the settings were changed in another tab */
+type EncryptionListener = (source: 'local' | 'remote') => void;
+
+let sessionKey: CryptoKey | null = null;
+/** The key being replaced while a reseal runs; files not rewritten yet are still sealed with it */
+let resealingFrom: CryptoKey | null = null;
+const listeners = new Set<EncryptionListener>();
+
+function readConfig(): EncryptionConfig | null {
+  try {
+    const serialized = localStorage.getItem(CONFIG_KEY);
+    return serialized === null ? null : (JSON.parse(serialized) as EncryptionConfig);
+  } catch (error) {
+    console.error('Failed to load encryption settings from localStorage:', error);
+    return null;
+  }
+}
+
+function writeConfig(config: EncryptionConfig | null): void {
+  if (config) localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+  else localStorage.removeItem(CONFIG_KEY);
+  listeners.forEach((listener) => listener('local'));
+}
+
+/** Key for `passphrase` when it opens the stored check value, else null */
+async function verify(passphrase: string): Promise<CryptoKey | null> {
+  const config = readConfig();
+  if (!config) return null;
+  const key = await deriveKey(passphrase, config.salt, config.iterations);
+  try {
+    return (await openText(key, config.check)) === CHECK_TEXT ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+async function createConfig(passphrase: string, autoLockMinutes: number): Promise<{ key: CryptoKey; config: EncryptionConfig }> {
+  const salt = createSalt();
+  const key = await deriveKey(passphrase, salt);
+  const check = await sealText(key, CHECK_TEXT);
+  return { key, config: { salt, iterations: PBKDF2_ITERATIONS, check, autoLockMinutes } };
+}
+
+/** Run `reseal` with `key` active; on failure restore `previous` and rewrite with it */
+async function resealWith(key: CryptoKey | null, previous: CryptoKey | null, reseal: () => Promise<void>): Promise<void> {
+  sessionKey = key;
+  resealingFrom = previous;
+  try {
+    await reseal();
+  } catch (error) {
+    sessionKey = previous;
+    resealingFrom = key;
+    await reseal().catch(() => undefined);
+    throw error;
+  } finally {
+    resealingFrom = null;
+  }
+}
+
+export const encryptionService = {
+  isEnabled(): boolean {
+    return readConfig() != null;
+  },
+
+  isUnlocked(): boolean {
+    return sessionKey != null;
+  },
+
+  getAutoLockMinutes(): number {
+    return readConfig()?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+  },
+
+  setAutoLockMinutes(minutes: number): void {
+    const config = readConfig();
+    if (config) writeConfig({ ...config, autoLockMinutes: minutes });
+  },
+
+  /** Returns false for a wrong passphrase */
+  async unlock(passphrase: string): Promise<boolean> {
+    const key = await verify(passphrase);
+    if (key) sessionKey = key;
+    return key != null;
+  },
+
+  lock(): void {
+    sessionKey = null;
+  },
+
+  /**
+   * Encrypt with the session key; null when encryption is off (store plain).
+   * @throws when encryption is on but the journal is locked, so nothing is written in the clear
+   */
+  async seal(plaintext: string): Promise<string | null> {
+    if (sessionKey) return sealText(sessionKey, plaintext);
+    if (readConfig()) throw new Error('Journal is locked');
+    return null;
+  },
+
+  /** @throws when locked, or when the value was sealed with another key */
+  async open(sealed: string): Promise<string> {
+    if (!sessionKey) throw new Error('Journal is locked');
+    return openText(sessionKey, sealed);
+  },
+
+  /**
+   * Encrypt file content with the session key; null when encryption is off (store plain).
+   * @throws when encryption is on but the journal is locked
+   */
+  async sealBytes(bytes: ArrayBuffer): Promise<SealedBytes | null> {
+    if (sessionKey) return sealBytes(sessionKey, bytes);
+    if (readConfig()) throw new Error('Journal is locked');
+    return null;
+  },
+
+  /**
+   * During a reseal, also tries the key being replaced.
+   * @throws when locked, or when the file was sealed with another key
+   */
+  async openBytes(sealed: SealedBytes): Promise<ArrayBuffer> {
+    const keys = [sessionKey, resealingFrom].filter((k): k is CryptoKey => k != null);
+    if (keys.length === 0) throw new Error('Journal is locked');
+    for (const key of keys.slice(0, -1)) {
+      try {
+        return await openBytes(key, sealed);
+      } catch {
+        // sealed with the other key
+      }
+    }
+    return openBytes(keys[keys.length - 1], sealed);
+  },
+
+  async enable(passphrase: string, reseal: () => Promise<void>): Promise<void> {
+    const { key, config } = await createConfig(passphrase, DEFAULT_AUTO_LOCK_MINUTES);
+    await resealWith(key, null, reseal);
+    writeConfig(config);
+  },
+
+  /** Returns false when `current` is wrong */
+  async changePassphrase(current: string, next: string, reseal: () => Promise<void>): Promise<boolean> {
+    if (!(await verify(current))) return false;
+    const { key, config } = await createConfig(next, encryptionService.getAutoLockMinutes());
+    await resealWith(key, sessionKey, reseal);
+    writeConfig(config);
+    return true;
+  },
+
+  /** Decrypt everything and forget the passphrase; returns false when `current` is wrong */
+  async disable(current: string, reseal: () => Promise<void>): Promise<boolean> {
+    if (!(await verify(current))) return false;
+    const config = readConfig();
+    const previous = sessionKey;
+    // Plain writes are refused while the settings exist
+    localStorage.removeItem(CONFIG_KEY);
+    try {
+      await resealWith(null, previous, reseal);
+    } catch (error) {
+      localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+      throw error;
+    }
+    writeConfig(null);
+    return true;
+  },
+
+  /** Called when the settings change in this tab or another; returns unsubscribe */
+  subscribe(listener: EncryptionListener): () => void {
+    listeners.add(listener);
+    const handler = (e: StorageEvent) => {
+      if (e.key === CONFIG_KEY) listener('remote');
+    };
+    window.addEventListener('storage', handler);
+    return () => {
+      listeners.delete(listener);
+      window.removeEventListener('storage', handler);
+    };
+  },
+};
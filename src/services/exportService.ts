@@ -0,0 +1,28 @@
+/**
+ * Export Service
+ * Writes an exported trade table (utils/tradeExport.ts) as a CSV or XLSX file,
+ * or the tax report rows (utils/taxExport.ts) as a CSV, and saves it through
+ * the browser's download.
+ */
+
+import { EXPORT_FORMAT, type ExportCell, type ExportFormat, type ExportTable } from '../components/constants/types';
+import { formatCsv } from '../utils/csv';
+import { downloadBlob } from '../utils/download';
+import { getExportFileName } from '../utils/tradeExport';
+import { createXlsx } from '../utils/xlsx';
+
+function createCsv(rows: ExportCell[][]): Blob {
+  // BOM so Excel reads the CSV as UTF-8
+  return new Blob(['\uFEFF' + formatCsv(rows)], { type: 'text/csv;charset=utf-8' });
+}
+
+export const exportService = {
+  download(table: ExportTable, format: ExportFormat, exportedAt = Date.now()): void {
+    const blob = format === EXPORT_FORMAT.XLSX ? createXlsx(table, 'Trades') : createCsv([table.headers, ...table.rows]);
+    downloadBlob(blob, getExportFileName(format, exportedAt));
+  },
+
+  downloadCsv(rows: ExportCell[][], fileName: string): void {
+    downloadBlob(createCsv(rows), fileName);
+  },
+};
@@ -0,0 +1,33 @@
+/**
+ * Journal Storage Service
+ * Handles localStorage persistence for the journal (account) list under key: trade_journal_journals
+ */
+
+import type { Journal } from '../components/constants/types';
+import { DEFAULT_JOURNAL_ID } from '../utils/journals';
+
+const STORAGE_KEY = 'trade_journal_journals';
+
+/** Used until the user edits the list */
+const DEFAULT_JOURNALS: Journal[] = [{ id: DEFAULT_JOURNAL_ID, name: 'Main' }];
+
+export const journalStorageService = {
+  getAll(): Journal[] {
+    try {
+      const serialized = localStorage.getItem(STORAGE_KEY);
+      if (serialized === null) return DEFAULT_JOURNALS;
+      return JSON.parse(serialized) as Journal[];
+    } catch (error) {
+      console.error('Failed to load journals from localStorage:', error);
+      return DEFAULT_JOURNALS;
+    }
+  },
+
+  save(journals: Journal[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(journals));
+    } catch (error) {
+      console.error('Failed to save journals to localStorage:', error);
+    }
+  },
+};
@@ -0,0 +1,37 @@
+/**
+ * Mistake Category Storage Service
+ * Handles localStorage persistence for mistake categories under key: trade_journal_mistakes
+ */
+
+import type { MistakeCategory } from '../components/constants/types';
+
+const STORAGE_KEY = 'trade_journal_mistakes';
+
+/** Used until the user edits the list */
+const DEFAULT_MISTAKE_CATEGORIES: MistakeCategory[] = [
+  { id: 'fomo-entry', label: 'FOMO entry' },
+  { id: 'moved-stop', label: 'Moved stop' },
+  { id: 'oversized', label: 'Oversized' },
+  { id: 'early-exit', label: 'Early exit' },
+];
+
+export const mistakeStorageService = {
+  getAll(): MistakeCategory[] {
+    try {
+      const serialized = localStorage.getItem(STORAGE_KEY);
+      if (serialized === null) return DEFAULT_MISTAKE_CATEGORIES;
+      return JSON.parse(serialized) as MistakeCategory[];
+    } catch (error) {
+      console.error('Failed to load mistake categories from localStorage:', error);
+      return DEFAULT_MISTAKE_CATEGORIES;
+    }
+  },
+
+  save(categories: MistakeCategory[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(categories));
+    } catch (error) {
+      console.error('Failed to save mistake categories to localStorage:', error);
+    }
+  },
+};
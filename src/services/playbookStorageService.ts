@@ -0,0 +1,29 @@
+/**
+ * Playbook Storage Service
+ * Handles localStorage persistence for playbooks under key: trade_journal_playbooks
+ */
+
+import type { Playbook } from '../components/constants/types';
+
+const STORAGE_KEY = 'trade_journal_playbooks';
+
+export const playbookStorageService = {
+  getAll(): Playbook[] {
+    try {
+      const serialized = localStorage.getItem(STORAGE_KEY);
+      if (serialized === null) return [];
+      return JSON.parse(serialized) as Playbook[];
+    } catch (error) {
+      console.error('Failed to load playbooks from localStorage:', error);
+      return [];
+    }
+  },
+
+  save(playbooks: Playbook[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(playbooks));
+    } catch (error) {
+      console.error('Failed to save playbooks to localStorage:', error);
+    }
+  },
+};
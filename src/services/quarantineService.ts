@@ -0,0 +1,96 @@
+/**
+ * Quarantine Service
+ * Handles localStorage persistence for stored trade records that failed
+ * validation, under key: trade_journal_quarantine.
+ * With encryption on, each entry is written as { id, sealed } (encryptionService),
+ * so decrypted records that failed validation are not stored in the clear.
+ */
+
+import type { QuarantinedRecord } from '../components/constants/types';
+import { encryptionService } from './encryptionService';
+
+const STORAGE_KEY = 'trade_journal_quarantine';
+
+// Reads and writes run one after another, so an add never overwrites a newer list
+let queue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(operation: () => Promise<T>): Promise<T> {
+  const result = queue.then(operation);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+interface SealedEntry {
+  id: string;
+  sealed: string;
+}
+
+function isSealedEntry(entry: unknown): entry is SealedEntry {
+  return typeof entry === 'object' && entry !== null && typeof (entry as SealedEntry).sealed === 'string';
+}
+
+/**
+ * Stored entries, opened. One the current key can't open is kept as it is
+ * (still encrypted) so writing the list back doesn't lose it.
+ */
+async function read(): Promise<QuarantinedRecord[]> {
+  try {
+    const serialized = localStorage.getItem(STORAGE_KEY);
+    if (serialized === null) return [];
+    const stored = JSON.parse(serialized) as unknown[];
+    return Promise.all(
+      stored.map(async (entry) => {
+        if (!isSealedEntry(entry)) return entry as QuarantinedRecord;
+        try {
+          return JSON.parse(await encryptionService.open(entry.sealed)) as QuarantinedRecord;
+        } catch {
+          return {
+            id: entry.id,
+            record: entry,
+            errors: ['Could not decrypt this record with the current passphrase'],
+            schemaVersion: 0,
+            quarantinedAt: 0,
+          };
+        }
+      })
+    );
+  } catch (error) {
+    console.error('Failed to load quarantined records from localStorage:', error);
+    return [];
+  }
+}
+
+/** @throws when the write fails, or encryption is on and the journal is locked */
+async function write(records: QuarantinedRecord[]): Promise<void> {
+  const stored = await Promise.all(
+    records.map(async (entry) => {
+      const sealed = await encryptionService.seal(JSON.stringify(entry));
+      return sealed ? { id: entry.id, sealed } : entry;
+    })
+  );
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
+
+export const quarantineService = {
+  getAll(): Promise<QuarantinedRecord[]> {
+    return enqueue(read);
+  },
+
+  /** @throws (rejects) when the write fails */
+  save(records: QuarantinedRecord[]): Promise<void> {
+    return enqueue(() => write(records));
+  },
+
+  /**
+   * Records already in quarantine (same content) are not added again, e.g. after a load whose rewrite failed
+   * @throws (rejects) when the write fails
+   */
+  add(records: QuarantinedRecord[]): Promise<void> {
+    return enqueue(async () => {
+      const current = await read();
+      const known = new Set(current.map((q) => JSON.stringify(q.record)));
+      const added = records.filter((q) => !known.has(JSON.stringify(q.record)));
+      if (added.length > 0) await write([...current, ...added]);
+    });
+  },
+};
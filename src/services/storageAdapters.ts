@@ -0,0 +1,175 @@
+/**
+ * Storage adapters for trades
+ * One async interface over localStorage, IndexedDB and memory, so
+ * tradeStorageService doesn't depend on where trades live. IndexedDB stores
+ * one record per trade, so a save only writes the trades that changed.
+ */
+
+import { STORAGE_BACKEND, type StorageBackend } from '../components/constants/types';
+import { readEnvelope, type StoredTrades } from '../utils/tradeSchema';
+
+/** A trade as written: the Trade itself, or its encrypted form { id, sealed } */
+export interface StoredRecord {
+  id: string;
+}
+
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  /** Stored records and their schema version; null when nothing is stored */
+  read(): Promise<StoredTrades | null>;
+  /** Replace everything with these records */
+  replace(stored: StoredTrades): Promise<void>;
+  /** Upsert `put` and delete `remove` (ids), leaving other records untouched */
+  patch(put: StoredRecord[], remove: string[], version: number): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// ---- localStorage ----
+
+const LOCAL_STORAGE_KEY = 'trade_journal_trades';
+
+/** Whole list in one key; unreadable JSON comes back as one raw-text record so it can be quarantined */
+export function createLocalStorageAdapter(key = LOCAL_STORAGE_KEY): StorageAdapter {
+  const readSync = (): StoredTrades | null => {
+    const serialized = localStorage.getItem(key);
+    if (serialized === null) return null;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(serialized);
+    } catch {
+      parsed = undefined;
+    }
+    return readEnvelope(parsed) ?? { version: 0, trades: [serialized] };
+  };
+
+  const write = (stored: StoredTrades) => localStorage.setItem(key, JSON.stringify(stored));
+
+  return {
+    backend: STORAGE_BACKEND.LOCAL_STORAGE,
+    async read() {
+      return readSync();
+    },
+    async replace(stored) {
+      write(stored);
+    },
+    async patch(put, remove, version) {
+      const removed = new Set([...remove, ...put.map((t) => t.id)]);
+      const kept = (readSync()?.trades ?? []).filter((t) => !removed.has((t as StoredRecord).id));
+      write({ version, trades: [...kept, ...put] });
+    },
+    async clear() {
+      localStorage.removeItem(key);
+    },
+  };
+}
+
+// ---- IndexedDB ----
+
+const DB_NAME = 'trade_journal_store';
+const DB_VERSION = 1;
+const TRADES_STORE = 'trades';
+const META_STORE = 'meta';
+const VERSION_KEY = 'schemaVersion';
+
+/** One record per trade (keyed by id) plus the schema version in a meta store */
+export function createIndexedDbAdapter(dbName = DB_NAME): StorageAdapter {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(dbName, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(TRADES_STORE, { keyPath: 'id' });
+          request.result.createObjectStore(META_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).catch((error) => {
+        dbPromise = null;
+        throw error;
+      });
+    }
+    return dbPromise;
+  };
+
+  /** Run `action` in one transaction over both stores; resolves when it commits */
+  const transact = async <T>(
+    mode: IDBTransactionMode,
+    action: (trades: IDBObjectStore, meta: IDBObjectStore) => IDBRequest<T> | void
+  ): Promise<T | undefined> => {
+    const db = await openDb();
+    return new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction([TRADES_STORE, META_STORE], mode);
+      const request = action(tx.objectStore(TRADES_STORE), tx.objectStore(META_STORE));
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  };
+
+  return {
+    backend: STORAGE_BACKEND.INDEXED_DB,
+    async read() {
+      let version: number | undefined;
+      const trades = await transact<unknown[]>('readonly', (store, meta) => {
+        const versionRequest = meta.get(VERSION_KEY);
+        versionRequest.onsuccess = () => {
+          version = versionRequest.result as number | undefined;
+        };
+        return store.getAll();
+      });
+      if (version === undefined) return null;
+      return { version, trades: trades ?? [] };
+    },
+    async replace(stored) {
+      await transact('readwrite', (store, meta) => {
+        store.clear();
+        (stored.trades as StoredRecord[]).forEach((t) => store.put(t));
+        meta.put(stored.version, VERSION_KEY);
+      });
+    },
+    async patch(put, remove, version) {
+      await transact('readwrite', (store, meta) => {
+        remove.forEach((id) => store.delete(id));
+        put.forEach((t) => store.put(t));
+        meta.put(version, VERSION_KEY);
+      });
+    },
+    async clear() {
+      await transact('readwrite', (store, meta) => {
+        store.clear();
+        meta.clear();
+      });
+    },
+  };
+}
+
+// ---- Memory ----
+
+/** Nothing persisted; for tests and for browsers where no other storage works */
+export function createMemoryAdapter(initial: StoredTrades | null = null): StorageAdapter {
+  let stored = initial;
+  return {
+    backend: STORAGE_BACKEND.MEMORY,
+    async read() {
+      return stored && { version: stored.version, trades: [...stored.trades] };
+    },
+    async replace(next) {
+      stored = { version: next.version, trades: [...next.trades] };
+    },
+    async patch(put, remove, version) {
+      const removed = new Set([...remove, ...put.map((t) => t.id)]);
+      const kept = (stored?.trades ?? []).filter((t) => !removed.has((t as StoredRecord).id));
+      stored = { version, trades: [...kept, ...put] };
+    },
+    async clear() {
+      stored = null;
+    },
+  };
+}
+
+/** IndexedDB where the browser has it, else localStorage */
+export function createDefaultAdapter(): StorageAdapter {
+  return typeof indexedDB !== 'undefined' ? createIndexedDbAdapter() : createLocalStorageAdapter();
+}
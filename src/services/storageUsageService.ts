@@ -0,0 +1,58 @@
+/**
+ * Storage Usage Service
+ * Estimates how much space the journal takes. localStorage has its own small
+ * limit (about 5 MB); IndexedDB and attachment files share the origin quota
+ * the browser reports through navigator.storage.estimate(). The tighter of
+ * the two decides the usage level.
+ */
+
+import type { StorageUsage, Trade, TradeRevision } from '../components/constants/types';
+import { LOCAL_STORAGE_QUOTA, getJsonSize, getStorageUsageLevel } from '../utils/storageUsage';
+import { tradeStorageService } from './tradeStorageService';
+
+/** Characters in localStorage, keys included */
+function getLocalStorageSize(): number {
+  let size = 0;
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key !== null) size += key.length + (localStorage.getItem(key)?.length ?? 0);
+    }
+  } catch (error) {
+    console.error('Failed to measure localStorage:', error);
+  }
+  return size;
+}
+
+export const storageUsageService = {
+  async estimate(trades: Trade[], history: TradeRevision[]): Promise<StorageUsage> {
+    let originUsage: number | null = null;
+    let originQuota: number | null = null;
+    try {
+      if (navigator.storage?.estimate) {
+        const estimate = await navigator.storage.estimate();
+        originUsage = estimate.usage ?? null;
+        originQuota = estimate.quota ?? null;
+      }
+    } catch (error) {
+      console.error('Failed to estimate storage quota:', error);
+    }
+
+    const localStorageBytes = getLocalStorageSize();
+    const ratio = Math.max(
+      localStorageBytes / LOCAL_STORAGE_QUOTA,
+      originUsage !== null && originQuota ? originUsage / originQuota : 0
+    );
+    return {
+      backend: tradeStorageService.getBackend(),
+      tradesBytes: getJsonSize(trades),
+      historyBytes: getJsonSize(history),
+      localStorageBytes,
+      localStorageQuota: LOCAL_STORAGE_QUOTA,
+      originUsage,
+      originQuota,
+      ratio,
+      level: getStorageUsageLevel(ratio),
+    };
+  },
+};
@@ -0,0 +1,86 @@
+/**
+ * Sync Reference Server
+ * In-memory implementation of the sync REST API (SYNC_API.md), used as the
+ * "built-in test server" so sync can be developed and tried offline. It works
+ * on plain request/response objects, so it can also be mounted in any Node
+ * HTTP server to self-host; data then lives only as long as the process.
+ */
+
+import type { SyncRecord, Trade } from '../components/constants/types';
+
+export interface SyncRequest {
+  method: string;
+  /** Path with query, relative to the API base, e.g. /trades?since=12 */
+  path: string;
+  body?: unknown;
+  /** Bearer token sent by the client, if any */
+  token?: string;
+}
+
+export interface SyncResponse {
+  status: number;
+  body: unknown;
+}
+
+export interface SyncServerOptions {
+  /** When set, requests must carry this Bearer token */
+  token?: string;
+}
+
+function json(status: number, body: unknown): SyncResponse {
+  return { status, body };
+}
+
+export function createSyncServer(options: SyncServerOptions = {}) {
+  const records = new Map<string, SyncRecord>();
+  let revision = 0;
+
+  /** GET /trades?since=N: every record written after revision N, oldest first */
+  function pull(since: number): SyncResponse {
+    const changed = Array.from(records.values())
+      .filter((r) => r.revision > since)
+      .sort((a, b) => a.revision - b.revision);
+    return json(200, { cursor: revision, records: changed });
+  }
+
+  /** PUT /trades/:id: write if the client saw the current revision, else 409 with the server's record */
+  function push(id: string, body: unknown): SyncResponse {
+    const { baseRevision, trade } = (body ?? {}) as { baseRevision?: number | null; trade?: Trade | null };
+    if (trade !== null && (typeof trade !== 'object' || trade.id !== id)) {
+      return json(400, { error: 'trade must be a trade with this id, or null to delete' });
+    }
+    const current = records.get(id);
+    if (current && current.revision !== baseRevision) return json(409, { record: current });
+    revision += 1;
+    const record: SyncRecord = { id, revision, trade };
+    records.set(id, record);
+    return json(200, { record });
+  }
+
+  return {
+    handle(request: SyncRequest): SyncResponse {
+      if (options.token && request.token !== options.token) return json(401, { error: 'Unauthorized' });
+      const url = new URL(request.path, 'http://sync.local');
+      const match = url.pathname.match(/^\/trades(?:\/([^/]+))?$/);
+      if (!match) return json(404, { error: 'Not found' });
+      const id = match[1] ? decodeURIComponent(match[1]) : null;
+      if (request.method === 'GET' && !id) {
+        const since = Number(url.searchParams.get('since') ?? 0);
+        return pull(Number.isFinite(since) ? since : 0);
+      }
+      if (request.method === 'PUT' && id) return push(id, request.body);
+      return json(405, { error: 'Method not allowed' });
+    },
+
+    /** Drop all data (tests) */
+    reset(): void {
+      records.clear();
+      revision = 0;
+    },
+  };
+}
+
+export type SyncServer = ReturnType<typeof createSyncServer>;
+
+/** Shared instance behind the built-in test server option; empty again after a reload */
+export const memorySyncServer = createSyncServer();
@@ -0,0 +1,271 @@
+/**
+ * Sync Service
+ * Optional sync of trades with a self-hosted REST server (SYNC_API.md), or
+ * with the in-memory reference server in syncServer.ts. Offline-first: trades
+ * are always saved locally, and changed ids are queued until a sync pushes
+ * them. Each trade remembers the server revision it was last in step with
+ * (its base); a push or pull that finds a newer revision on the other side
+ * becomes a conflict the user resolves.
+ *
+ * Config and queue live in localStorage (trade_journal_sync_config,
+ * trade_journal_sync_state). Conflicts are kept in memory only, so no trade
+ * copies land in localStorage; after a reload they are found again on the
+ * next push. Every state change is a load-modify-save, so trades edited
+ * while a sync is running stay queued.
+ */
+
+import {
+  SYNC_TARGET,
+  type RemoteTradeChange,
+  type SyncConfig,
+  type SyncConflict,
+  type SyncRecord,
+  type Trade,
+} from '../components/constants/types';
+import { diffTrades } from '../utils/tradeHistory';
+import { validateTradeRecord } from '../utils/tradeSchema';
+import { memorySyncServer, type SyncResponse } from './syncServer';
+
+const CONFIG_KEY = 'trade_journal_sync_config';
+const STATE_KEY = 'trade_journal_sync_state';
+
+interface SyncState {
+  /** Server revision pulled up to */
+  cursor: number;
+  /** Trade id → server revision this device last had */
+  base: Record<string, number>;
+  /** Ids changed here and not pushed yet */
+  pending: string[];
+  lastSyncedAt: number | null;
+}
+
+const DEFAULT_CONFIG: SyncConfig = { enabled: false, target: SYNC_TARGET.HTTP, url: '', token: '' };
+
+const EMPTY_STATE: SyncState = { cursor: 0, base: {}, pending: [], lastSyncedAt: null };
+
+let conflicts: SyncConflict[] = [];
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+function loadState(): SyncState {
+  try {
+    const serialized = localStorage.getItem(STATE_KEY);
+    if (serialized === null) return EMPTY_STATE;
+    return { ...EMPTY_STATE, ...(JSON.parse(serialized) as Partial<SyncState>) };
+  } catch (error) {
+    console.error('Failed to load sync state from localStorage:', error);
+    return EMPTY_STATE;
+  }
+}
+
+function updateState(update: (state: SyncState) => SyncState): SyncState {
+  const next = update(loadState());
+  try {
+    localStorage.setItem(STATE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Failed to save sync state to localStorage:', error);
+  }
+  notify();
+  return next;
+}
+
+function setConflict(conflict: SyncConflict): void {
+  conflicts = [...conflicts.filter((c) => c.id !== conflict.id), conflict];
+}
+
+function removeConflict(id: string): void {
+  conflicts = conflicts.filter((c) => c.id !== id);
+}
+
+/** Non-ok answer from the server other than a conflict */
+function httpError(status: number): Error {
+  return new Error(status === 401 ? 'The server rejected the access token' : `Sync server answered ${status}`);
+}
+
+async function request(config: SyncConfig, method: string, path: string, body?: unknown): Promise<SyncResponse> {
+  if (config.target === SYNC_TARGET.MEMORY) {
+    // JSON round trip, so nothing is shared by reference with the "server"
+    const response = memorySyncServer.handle({
+      method,
+      path,
+      body: body === undefined ? undefined : JSON.parse(JSON.stringify(body)),
+      token: config.token || undefined,
+    });
+    return JSON.parse(JSON.stringify(response)) as SyncResponse;
+  }
+  const response = await fetch(`${config.url.replace(/\/+$/, '')}${path}`, {
+    method,
+    headers: {
+      ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+      ...(config.token ? { Authorization: `Bearer ${config.token}` } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json().catch(() => null) };
+}
+
+/** A server change to apply here, or null when the record isn't a valid trade */
+function toChange(record: SyncRecord): RemoteTradeChange | null {
+  if (record.trade !== null) {
+    const errors = validateTradeRecord(record.trade);
+    if (errors.length > 0 || record.trade.id !== record.id) {
+      console.error(`Skipped invalid trade ${record.id} from the sync server:`, errors);
+      return null;
+    }
+  }
+  return { id: record.id, trade: record.trade };
+}
+
+export const syncService = {
+  getConfig(): SyncConfig {
+    try {
+      const serialized = localStorage.getItem(CONFIG_KEY);
+      if (serialized === null) return DEFAULT_CONFIG;
+      return { ...DEFAULT_CONFIG, ...(JSON.parse(serialized) as Partial<SyncConfig>) };
+    } catch (error) {
+      console.error('Failed to load sync config from localStorage:', error);
+      return DEFAULT_CONFIG;
+    }
+  },
+
+  /**
+   * Save the config. Turning sync on or pointing it at another server starts
+   * over: every local trade is queued and nothing is known of the server yet.
+   */
+  setConfig(config: SyncConfig, tradeIds: string[]): void {
+    const previous = syncService.getConfig();
+    try {
+      localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+    } catch (error) {
+      console.error('Failed to save sync config to localStorage:', error);
+    }
+    const moved = previous.target !== config.target || previous.url !== config.url;
+    if (config.enabled && (!previous.enabled || moved)) {
+      conflicts = [];
+      updateState(() => ({ ...EMPTY_STATE, pending: tradeIds }));
+    } else {
+      notify();
+    }
+  },
+
+  /** Queue trades changed here; nothing happens while sync is off */
+  markPending(ids: string[]): void {
+    if (ids.length === 0 || !syncService.getConfig().enabled) return;
+    updateState((state) => ({ ...state, pending: Array.from(new Set([...state.pending, ...ids])) }));
+  },
+
+  getPendingCount(): number {
+    return loadState().pending.length;
+  },
+
+  getLastSyncedAt(): number | null {
+    return loadState().lastSyncedAt;
+  },
+
+  getConflicts(): SyncConflict[] {
+    return conflicts;
+  },
+
+  /** Call `listener` when the queue, conflicts or config change; returns unsubscribe */
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Push queued trades, then pull what changed on the server and hand it to
+   * `apply`. `getTrade` reads the current local version of a trade.
+   * @throws (rejects) on network errors and non-ok answers; the queue is kept
+   */
+  async sync(getTrade: (id: string) => Trade | null, apply: (changes: RemoteTradeChange[]) => void): Promise<void> {
+    const config = syncService.getConfig();
+    if (!config.enabled) return;
+
+    const conflicted = new Set(conflicts.map((c) => c.id));
+    for (const id of loadState().pending.filter((p) => !conflicted.has(p))) {
+      const trade = getTrade(id);
+      const baseRevision = loadState().base[id] ?? null;
+      const response = await request(config, 'PUT', `/trades/${encodeURIComponent(id)}`, { baseRevision, trade });
+      if (response.status === 409) {
+        const remote = (response.body as { record: SyncRecord }).record;
+        if (diffTrades(getTrade(id), remote.trade).length === 0) {
+          updateState((state) => ({
+            ...state,
+            base: { ...state.base, [id]: remote.revision },
+            pending: state.pending.filter((p) => p !== id),
+          }));
+        } else {
+          setConflict({ id, local: getTrade(id), remote, detectedAt: Date.now() });
+          notify();
+        }
+        continue;
+      }
+      if (response.status !== 200) throw httpError(response.status);
+      const { record } = response.body as { record: SyncRecord };
+      updateState((state) => ({
+        ...state,
+        base: { ...state.base, [id]: record.revision },
+        // Edited again while the push was on its way: keep it queued
+        pending: diffTrades(getTrade(id), trade).length === 0 ? state.pending.filter((p) => p !== id) : state.pending,
+      }));
+    }
+
+    const response = await request(config, 'GET', `/trades?since=${loadState().cursor}`);
+    if (response.status !== 200) throw httpError(response.status);
+    const { cursor, records } = response.body as { cursor: number; records: SyncRecord[] };
+    const changes: RemoteTradeChange[] = [];
+    records.forEach((record) => {
+      const state = loadState();
+      if (state.base[record.id] === record.revision) return;
+      const local = getTrade(record.id);
+      if (state.pending.includes(record.id) || conflicts.some((c) => c.id === record.id)) {
+        if (diffTrades(local, record.trade).length === 0) {
+          removeConflict(record.id);
+          updateState((s) => ({
+            ...s,
+            base: { ...s.base, [record.id]: record.revision },
+            pending: s.pending.filter((p) => p !== record.id),
+          }));
+        } else {
+          setConflict({ id: record.id, local, remote: record, detectedAt: Date.now() });
+        }
+        return;
+      }
+      const change = toChange(record);
+      if (change && diffTrades(local, change.trade).length > 0) changes.push(change);
+      updateState((s) => ({ ...s, base: { ...s.base, [record.id]: record.revision } }));
+    });
+    if (changes.length > 0) apply(changes);
+    updateState((state) => ({ ...state, cursor, lastSyncedAt: Date.now() }));
+  },
+
+  /** Keep this device's version: it is pushed over the server's on the next sync */
+  keepLocal(id: string): void {
+    const conflict = conflicts.find((c) => c.id === id);
+    if (!conflict) return;
+    removeConflict(id);
+    updateState((state) => ({
+      ...state,
+      base: { ...state.base, [id]: conflict.remote.revision },
+      pending: Array.from(new Set([...state.pending, id])),
+    }));
+  },
+
+  /** Take the server's version; returns the change to apply locally */
+  useRemote(id: string): RemoteTradeChange | null {
+    const conflict = conflicts.find((c) => c.id === id);
+    if (!conflict) return null;
+    removeConflict(id);
+    updateState((state) => ({
+      ...state,
+      base: { ...state.base, [id]: conflict.remote.revision },
+      pending: state.pending.filter((p) => p !== id),
+    }));
+    return toChange(conflict.remote);
+  },
+};
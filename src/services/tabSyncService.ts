@@ -0,0 +1,62 @@
+/**
+ * Tab Sync Service
+ * Tells other open tabs of the journal which trades this tab saved, over a
+ * BroadcastChannel (trade_journal_sync). Browsers without BroadcastChannel
+ * get the same messages through `storage` events on a localStorage key;
+ * while encryption is on that fallback is not used, since it would write
+ * trades to localStorage in the clear (other tabs then show the change after
+ * a reload). A tab never receives its own messages.
+ */
+
+import type { TabSyncMessage } from '../components/constants/types';
+import { encryptionService } from './encryptionService';
+import { createId } from '../utils/ids';
+
+const CHANNEL_NAME = 'trade_journal_sync';
+const FALLBACK_KEY = 'trade_journal_sync_message';
+
+/** Identifies this tab in messages */
+export const TAB_ID = createId('tab');
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+export const tabSyncService = {
+  publish(message: Omit<TabSyncMessage, 'sourceId'>): void {
+    const full: TabSyncMessage = { ...message, sourceId: TAB_ID };
+    try {
+      if (channel) {
+        channel.postMessage(full);
+      } else if (encryptionService.isEnabled()) {
+        // Drop a plain message left from before encryption was turned on
+        localStorage.removeItem(FALLBACK_KEY);
+      } else {
+        // The value must change for a storage event to fire, hence the timestamp
+        localStorage.setItem(FALLBACK_KEY, JSON.stringify({ ...full, sentAt: Date.now() }));
+      }
+    } catch (error) {
+      console.error('Failed to notify other tabs:', error);
+    }
+  },
+
+  /** Call `callback` for each message from another tab; returns unsubscribe */
+  subscribe(callback: (message: TabSyncMessage) => void): () => void {
+    const deliver = (message: TabSyncMessage) => {
+      if (message.sourceId !== TAB_ID) callback(message);
+    };
+    if (channel) {
+      const handler = (e: MessageEvent<TabSyncMessage>) => deliver(e.data);
+      channel.addEventListener('message', handler);
+      return () => channel.removeEventListener('message', handler);
+    }
+    const handler = (e: StorageEvent) => {
+      if (e.key !== FALLBACK_KEY || !e.newValue) return;
+      try {
+        deliver(JSON.parse(e.newValue) as TabSyncMessage);
+      } catch {
+        // ignore malformed messages
+      }
+    };
+    window.addEventListener('storage', handler);
+    return () => window.removeEventListener('storage', handler);
+  },
+};
@@ -0,0 +1,134 @@
+/**
+ * Trade History Service
+ * Append-only audit trail of trade revisions, persisted through a
+ * StorageAdapter like the trades: IndexedDB (`trade_journal_history_store`,
+ * one record per revision, so a save only writes the new revisions) with
+ * localStorage (`trade_journal_history_records`) as the fallback. The list
+ * older versions kept under `trade_journal_history` is moved over on the
+ * first load. Revisions outlive deleted trades so they can be restored.
+ * With encryption on, each revision is written as { id, sealed } (encryptionService).
+ */
+
+import { STORAGE_BACKEND, type TradeRevision } from '../components/constants/types';
+import { encryptionService } from './encryptionService';
+import {
+  createIndexedDbAdapter,
+  createLocalStorageAdapter,
+  type StorageAdapter,
+  type StoredRecord,
+} from './storageAdapters';
+
+const DB_NAME = 'trade_journal_history_store';
+const FALLBACK_KEY = 'trade_journal_history_records';
+/** Whole list in one key, as written by older versions */
+const LEGACY_KEY = 'trade_journal_history';
+/** Revisions have no migrations; the adapter envelope still carries a version */
+const HISTORY_VERSION = 1;
+
+let adapter: StorageAdapter =
+  typeof indexedDB !== 'undefined' ? createIndexedDbAdapter(DB_NAME) : createLocalStorageAdapter(FALLBACK_KEY);
+// Loads and saves run one after another, so a load never reads ahead of a sealed write
+let queue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(operation: () => Promise<T>): Promise<T> {
+  const result = queue.then(operation);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+interface SealedRevision extends StoredRecord {
+  sealed: string;
+}
+
+function isSealedRevision(record: unknown): record is SealedRevision {
+  return typeof record === 'object' && record !== null && typeof (record as SealedRevision).sealed === 'string';
+}
+
+async function sealRevisions(revisions: TradeRevision[]): Promise<StoredRecord[]> {
+  return Promise.all(
+    revisions.map(async (revision) => {
+      const sealed = await encryptionService.seal(JSON.stringify(revision));
+      return sealed ? { id: revision.id, sealed } : revision;
+    })
+  );
+}
+
+/** Decrypt sealed revisions; ones the current key can't open are skipped */
+async function openRevisions(records: unknown[]): Promise<TradeRevision[]> {
+  const opened = await Promise.all(
+    records.map(async (record) => {
+      if (!isSealedRevision(record)) return record as TradeRevision;
+      try {
+        return JSON.parse(await encryptionService.open(record.sealed)) as TradeRevision;
+      } catch (error) {
+        console.error('Could not decrypt a trade revision:', error);
+        return null;
+      }
+    })
+  );
+  return opened.filter((r): r is TradeRevision => r !== null).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** The list older versions stored in one localStorage key (plain or { sealed }); null when there is none */
+async function readLegacy(): Promise<TradeRevision[] | null> {
+  const serialized = localStorage.getItem(LEGACY_KEY);
+  if (serialized === null) return null;
+  const parsed = JSON.parse(serialized) as TradeRevision[] | { sealed: string };
+  if (Array.isArray(parsed)) return parsed;
+  return JSON.parse(await encryptionService.open(parsed.sealed)) as TradeRevision[];
+}
+
+export const tradeHistoryService = {
+  /**
+   * All revisions, oldest first. Falls back to localStorage when IndexedDB
+   * can't be opened.
+   * @throws (rejects) when the history can't be read
+   */
+  load(): Promise<TradeRevision[]> {
+    return enqueue(async () => {
+      let stored;
+      try {
+        stored = await adapter.read();
+      } catch (error) {
+        if (adapter.backend !== STORAGE_BACKEND.INDEXED_DB) throw error;
+        console.warn('IndexedDB unavailable, storing trade history in localStorage:', error);
+        adapter = createLocalStorageAdapter(FALLBACK_KEY);
+        stored = await adapter.read();
+      }
+      if (stored) return openRevisions(stored.trades);
+
+      const legacy = await readLegacy();
+      if (!legacy) return [];
+      try {
+        await adapter.replace({ version: HISTORY_VERSION, trades: await sealRevisions(legacy) });
+        // Only drop the old key once the adapter has the revisions
+        localStorage.removeItem(LEGACY_KEY);
+      } catch (error) {
+        console.error('Failed to move trade history out of localStorage:', error);
+      }
+      return legacy;
+    });
+  },
+
+  /**
+   * Persist revisions. With `addedIds`, only those revisions are written;
+   * without, the stored history is replaced by `revisions` (e.g. to reseal it).
+   * @throws (rejects) when the write fails
+   */
+  save(revisions: TradeRevision[], addedIds?: string[]): Promise<void> {
+    return enqueue(async () => {
+      if (!addedIds) {
+        return adapter.replace({ version: HISTORY_VERSION, trades: await sealRevisions(revisions) });
+      }
+      const added = new Set(addedIds);
+      return adapter.patch(await sealRevisions(revisions.filter((r) => added.has(r.id))), [], HISTORY_VERSION);
+    });
+  },
+
+  /** Revisions of one trade, newest first */
+  getForTrade(revisions: TradeRevision[], tradeId: string): TradeRevision[] {
+    return revisions
+      .filter((r) => r.tradeId === tradeId)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  },
+};
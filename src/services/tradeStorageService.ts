@@ -1,46 +1,256 @@
 /**
  * Trade Storage Service
- * Handles localStorage persistence for trades under key: trade_journal_trades
+ * Persists trades through a StorageAdapter (IndexedDB by default, see
+ * storageAdapters.ts); trades saved by older versions in localStorage
+ * (trade_journal_trades) are moved into IndexedDB once.
  * Keeps persistence logic separate from UI
- * Syncs trade_journal_symbols to only contain symbols present in trades
+ * Syncs trade_journal_symbols to only contain symbols present in trades,
+ * listed per journal ({ [journalId]: symbols })
+ * Trades are stored with a schema version; on load older records are
+ * migrated and invalid ones moved to the quarantine (utils/tradeSchema.ts).
+ * With encryption on, each trade is written as { id, sealed } (encryptionService).
  */
 
-import { Trade } from '../components/constants/types';
+import { STORAGE_BACKEND, type QuarantinedRecord, type StorageBackend, type Trade } from '../components/constants/types';
+import { CURRENT_SCHEMA_VERSION, migrateRecord, validateTradeRecord, type StoredTrades } from '../utils/tradeSchema';
+import { createId } from '../utils/ids';
+import { DEFAULT_JOURNAL_ID, getTradeJournalId } from '../utils/journals';
+import { quarantineService } from './quarantineService';
+import { encryptionService } from './encryptionService';
+import {
+  createDefaultAdapter,
+  createLocalStorageAdapter,
+  type StorageAdapter,
+  type StoredRecord,
+} from './storageAdapters';
 
-const STORAGE_KEY = 'trade_journal_trades';
 const SYMBOLS_KEY = 'trade_journal_symbols';
 
+export interface TradeLoadResult {
+  trades: Trade[];
+  /**
+   * Rewriting the stored records (legacy move, migration or quarantine) failed,
+   * e.g. storage is full; the trades were read and storage is left as it was
+   */
+  writeError: unknown;
+}
+
+let adapter: StorageAdapter = createDefaultAdapter();
+/**
+ * Set when the rewrite after a load failed: until one succeeds, saves write
+ * the full list (a patch would leave the rest behind in localStorage or in
+ * the old format) and quarantine what the load set aside
+ */
+let pendingRewrite: { quarantined: QuarantinedRecord[]; fromLegacy: boolean } | null = null;
+// Adapter calls run one after another, so a load never overtakes an earlier save
+let queue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(operation: () => Promise<T>): Promise<T> {
+  const result = queue.then(operation);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
 function syncSymbolsFromTrades(trades: Trade[]): void {
-  const symbols = new Set(trades.map((t) => t.symbol.toUpperCase()));
+  const symbols: Record<string, string[]> = {};
+  trades.forEach((t) => {
+    const journalId = getTradeJournalId(t);
+    const symbol = t.symbol.toUpperCase();
+    if (!symbols[journalId]) symbols[journalId] = [];
+    if (!symbols[journalId].includes(symbol)) symbols[journalId].push(symbol);
+  });
   try {
-    localStorage.setItem(SYMBOLS_KEY, JSON.stringify(Array.from(symbols)));
+    localStorage.setItem(SYMBOLS_KEY, JSON.stringify(symbols));
   } catch {
     // ignore
   }
 }
 
-export const tradeStorageService = {
-  getAll(): Trade[] {
-    try {
-      const serialized = localStorage.getItem(STORAGE_KEY);
-      if (serialized === null) return [];
-      const trades = JSON.parse(serialized) as Trade[];
-      return trades.map((t) => ({
-        ...t,
-        status: t.status ?? 'CLOSED',
-      }));
-    } catch (error) {
-      console.error('Failed to load trades from localStorage:', error);
-      return [];
+function quarantine(record: unknown, errors: string[], schemaVersion: number): QuarantinedRecord {
+  return { id: createId('quarantine'), record, errors, schemaVersion, quarantinedAt: Date.now() };
+}
+
+interface SealedRecord extends StoredRecord {
+  sealed: string;
+}
+
+function isSealedRecord(record: unknown): record is SealedRecord {
+  return typeof record === 'object' && record !== null && typeof (record as SealedRecord).sealed === 'string';
+}
+
+/** Encrypt trades for writing when encryption is on */
+async function sealTrades(trades: Trade[]): Promise<StoredRecord[]> {
+  return Promise.all(
+    trades.map(async (trade) => {
+      const sealed = await encryptionService.seal(JSON.stringify(trade));
+      return sealed ? { id: trade.id, sealed } : trade;
+    })
+  );
+}
+
+/**
+ * Decrypt sealed records. Ones the current key can't open are quarantined as
+ * they are (still encrypted).
+ * @throws when there are sealed records and the journal is locked, so a
+ * locked load never quarantines everything
+ */
+async function openRecords(stored: StoredTrades): Promise<{ stored: StoredTrades; failed: QuarantinedRecord[] }> {
+  if (stored.trades.some(isSealedRecord) && !encryptionService.isUnlocked()) {
+    throw new Error('Journal is locked');
+  }
+  const failed: QuarantinedRecord[] = [];
+  const opened = await Promise.all(
+    stored.trades.map(async (record) => {
+      if (!isSealedRecord(record)) return record;
+      try {
+        return JSON.parse(await encryptionService.open(record.sealed)) as unknown;
+      } catch {
+        failed.push(quarantine(record, ['Could not decrypt this record with the current passphrase'], stored.version));
+        return null;
+      }
+    })
+  );
+  return { stored: { version: stored.version, trades: opened.filter((r) => r !== null) }, failed };
+}
+
+/**
+ * Migrate and validate stored records. Invalid records and later duplicates
+ * of an id are returned as quarantined instead of trades.
+ */
+function loadRecords(stored: StoredTrades): { trades: Trade[]; quarantined: QuarantinedRecord[] } {
+  const trades: Trade[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  const ids = new Set<string>();
+  stored.trades.forEach((raw) => {
+    const record = migrateRecord(raw, stored.version);
+    const errors = validateTradeRecord(record);
+    const trade = record as Trade;
+    if (errors.length === 0 && ids.has(trade.id)) errors.push(`Duplicate id ${trade.id}`);
+    if (errors.length > 0) {
+      // Raw text (unreadable storage) keeps version 0 so a fixed record is migrated from scratch
+      quarantined.push(quarantine(record, errors, typeof record === 'string' ? 0 : CURRENT_SCHEMA_VERSION));
+      return;
     }
+    ids.add(trade.id);
+    trades.push(trade);
+  });
+  return { trades, quarantined };
+}
+
+/**
+ * Quarantine what a load set aside, then write every trade in the current
+ * format. Quarantined first, as the rewrite drops them; the next load skips
+ * ones already there. The localStorage copy is only dropped once IndexedDB
+ * has the trades.
+ */
+async function rewrite(trades: Trade[], quarantined: QuarantinedRecord[], fromLegacy: boolean): Promise<void> {
+  await quarantineService.add(quarantined);
+  await adapter.replace({ version: CURRENT_SCHEMA_VERSION, trades: await sealTrades(trades) });
+  if (fromLegacy) await createLocalStorageAdapter().clear();
+}
+
+/**
+ * Read from the adapter. On the first IndexedDB load, trades still in
+ * localStorage are returned instead, flagged so load() moves them over.
+ */
+async function readStored(): Promise<{ stored: StoredTrades | null; fromLegacy: boolean }> {
+  const stored = await adapter.read();
+  if (stored || adapter.backend !== STORAGE_BACKEND.INDEXED_DB) return { stored, fromLegacy: false };
+  const legacy = await createLocalStorageAdapter().read();
+  return { stored: legacy, fromLegacy: legacy != null };
+}
+
+export const tradeStorageService = {
+  /** Where trades are currently persisted */
+  getBackend(): StorageBackend {
+    return adapter.backend;
+  },
+
+  /** Swap the storage backend (e.g. an in-memory adapter); later calls use it */
+  setAdapter(next: StorageAdapter): void {
+    adapter = next;
+  },
+
+  /**
+   * Load, migrate and validate all trades. Falls back to localStorage when
+   * IndexedDB can't be opened (e.g. some private browsing modes).
+   * @throws (rejects) when the stored trades can't be read, so a failed load
+   * is never mistaken for an empty journal
+   */
+  load(): Promise<TradeLoadResult> {
+    return enqueue(async () => {
+      let read: { stored: StoredTrades | null; fromLegacy: boolean };
+      try {
+        read = await readStored();
+      } catch (error) {
+        if (adapter.backend !== STORAGE_BACKEND.INDEXED_DB) throw error;
+        console.warn('IndexedDB unavailable, storing trades in localStorage:', error);
+        adapter = createLocalStorageAdapter();
+        read = { stored: await adapter.read(), fromLegacy: false };
+      }
+      if (!read.stored) return { trades: [], writeError: null };
+      const { stored, failed } = await openRecords(read.stored);
+      const { trades, quarantined: invalid } = loadRecords(stored);
+      const quarantined = [...failed, ...invalid];
+      const { fromLegacy } = read;
+      let writeError: unknown = null;
+      pendingRewrite = null;
+      if (quarantined.length > 0 || fromLegacy || stored.version !== CURRENT_SCHEMA_VERSION) {
+        try {
+          await rewrite(trades, quarantined, fromLegacy);
+        } catch (error) {
+          console.error('Failed to rewrite stored trades:', error);
+          writeError = error;
+          pendingRewrite = { quarantined, fromLegacy };
+        }
+      }
+      return { trades, writeError };
+    });
+  },
+
+  /**
+   * Persist the full list. With `changedIds`, only those trades are written
+   * (or deleted when no longer in `trades`), unless the rewrite after the
+   * last load failed: then the full list is written, finishing it.
+   * @throws (rejects) when the write fails, e.g. while the journal is locked
+   */
+  save(trades: Trade[], changedIds?: string[]): Promise<void> {
+    syncSymbolsFromTrades(trades);
+    return enqueue(async () => {
+      if (pendingRewrite) {
+        await rewrite(trades, pendingRewrite.quarantined, pendingRewrite.fromLegacy);
+        pendingRewrite = null;
+        return;
+      }
+      if (!changedIds) {
+        return adapter.replace({ version: CURRENT_SCHEMA_VERSION, trades: await sealTrades(trades) });
+      }
+      const byId = new Map(trades.map((t) => [t.id, t]));
+      const put = changedIds.map((id) => byId.get(id)).filter((t): t is Trade => t != null);
+      const remove = changedIds.filter((id) => !byId.has(id));
+      return adapter.patch(await sealTrades(put), remove, CURRENT_SCHEMA_VERSION);
+    });
+  },
+
+  /**
+   * Check a quarantined record again (e.g. after fixing it by hand). Returns
+   * the trade, or the errors that still apply.
+   */
+  revalidate(entry: QuarantinedRecord, record: unknown): { trade: Trade | null; errors: string[] } {
+    const migrated = migrateRecord(record, entry.schemaVersion);
+    const errors = validateTradeRecord(migrated);
+    return errors.length > 0 ? { trade: null, errors } : { trade: migrated as Trade, errors: [] };
   },
 
-  save(trades: Trade[]): void {
+  /** Symbols per journal, as last synced from the trades */
+  getSymbols(): Record<string, string[]> {
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(trades));
-      syncSymbolsFromTrades(trades);
-    } catch (error) {
-      console.error('Failed to save trades to localStorage:', error);
+      const serialized = localStorage.getItem(SYMBOLS_KEY);
+      const parsed: unknown = serialized ? JSON.parse(serialized) : {};
+      // Lists written before journals existed were a plain array
+      return Array.isArray(parsed) ? { [DEFAULT_JOURNAL_ID]: parsed as string[] } : (parsed as Record<string, string[]>);
+    } catch {
+      return {};
     }
   },
 
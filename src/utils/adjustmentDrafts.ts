@@ -0,0 +1,80 @@
+/**
+ * Stop / target adjustment form drafts
+ * String-valued adjustment rows edited in TradeDetailModal, parsed against the
+ * trade's time range, initial stop and take-profit targets on save.
+ */
+
+import {
+  ADJUSTMENT_KIND,
+  type TakeProfitTarget,
+  type TradeAdjustment,
+} from '../components/constants/types';
+import { formatTimestampGMT } from './calculations';
+import { createId } from './ids';
+
+/** Adjustment row; `target` is ADJUSTMENT_KIND.STOP or a take-profit id */
+export interface AdjustmentDraft {
+  id: string;
+  target: string;
+  timestamp: number;
+  price: string;
+}
+
+export function createAdjustmentDraft(target: string, timestamp: number, price = ''): AdjustmentDraft {
+  return { id: createId('adj'), target, timestamp, price };
+}
+
+export function adjustmentsToDrafts(adjustments: TradeAdjustment[] | undefined): AdjustmentDraft[] {
+  return [...(adjustments ?? [])]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((a) => ({
+      id: a.id,
+      target: a.kind === ADJUSTMENT_KIND.STOP ? ADJUSTMENT_KIND.STOP : a.targetId ?? '',
+      timestamp: a.timestamp,
+      price: String(a.price),
+    }));
+}
+
+/**
+ * Parse drafts into adjustments in time order. Moves must fall within the
+ * trade (open → close), stop moves need an initial stop, and target moves
+ * must point at an existing take-profit.
+ */
+export function parseAdjustmentDrafts(
+  drafts: AdjustmentDraft[],
+  range: { openTimestamp: number; closeTimestamp?: number },
+  stopLoss: number | undefined,
+  targets: TakeProfitTarget[]
+): { adjustments: TradeAdjustment[]; error: string | null } {
+  const adjustments: TradeAdjustment[] = [];
+  for (const d of drafts) {
+    const price = parseFloat(d.price);
+    if (isNaN(price) || price <= 0) {
+      return { adjustments: [], error: 'Please enter a valid price for each stop / target move' };
+    }
+    if (d.timestamp < range.openTimestamp) {
+      return {
+        adjustments: [],
+        error: `Move at ${formatTimestampGMT(d.timestamp)} is before the first entry`,
+      };
+    }
+    if (range.closeTimestamp != null && d.timestamp > range.closeTimestamp) {
+      return {
+        adjustments: [],
+        error: `Move at ${formatTimestampGMT(d.timestamp)} is after the trade was closed`,
+      };
+    }
+    if (d.target === ADJUSTMENT_KIND.STOP) {
+      if (stopLoss == null) {
+        return { adjustments: [], error: 'Set the initial stop loss before logging stop moves' };
+      }
+      adjustments.push({ id: d.id, timestamp: d.timestamp, kind: ADJUSTMENT_KIND.STOP, price });
+      continue;
+    }
+    if (!targets.some((t) => t.id === d.target)) {
+      return { adjustments: [], error: 'A target move refers to a take-profit that no longer exists' };
+    }
+    adjustments.push({ id: d.id, timestamp: d.timestamp, kind: ADJUSTMENT_KIND.TARGET, price, targetId: d.target });
+  }
+  return { adjustments: adjustments.sort((a, b) => a.timestamp - b.timestamp), error: null };
+}
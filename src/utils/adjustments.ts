@@ -0,0 +1,83 @@
+/**
+ * Stop / target adjustments
+ * `stopLoss` and `takeProfits` hold the plan at entry; adjustments log later
+ * moves. Current levels and the stop timeline are derived from both.
+ */
+
+import {
+  ADJUSTMENT_KIND,
+  type TakeProfitTarget,
+  type Trade,
+  type TradeAdjustment,
+} from '../components/constants/types';
+
+export interface StopLevel {
+  timestamp: number;
+  price: number;
+}
+
+export interface AdjustmentLogRow {
+  adjustment: TradeAdjustment;
+  /** "Stop" or "TP1", "TP2"… */
+  label: string;
+  /** Level before this move; undefined if none was set */
+  from?: number;
+}
+
+function sortAdjustments(adjustments: TradeAdjustment[] | undefined): TradeAdjustment[] {
+  return [...(adjustments ?? [])].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** Stop loss in force now: the last stop move, else the initial stop */
+export function getCurrentStopLoss(trade: Trade): number | undefined {
+  const moves = sortAdjustments(trade.adjustments).filter((a) => a.kind === ADJUSTMENT_KIND.STOP);
+  return moves.length > 0 ? moves[moves.length - 1].price : trade.stopLoss;
+}
+
+/** Take-profit targets at their latest logged prices */
+export function getCurrentTakeProfits(trade: Trade): TakeProfitTarget[] {
+  const latest = new Map<string, number>();
+  sortAdjustments(trade.adjustments).forEach((a) => {
+    if (a.kind === ADJUSTMENT_KIND.TARGET && a.targetId) latest.set(a.targetId, a.price);
+  });
+  return (trade.takeProfits ?? []).map((t) => (latest.has(t.id) ? { ...t, price: latest.get(t.id)! } : t));
+}
+
+/** Stop level from entry through each move (empty without an initial stop) */
+export function getStopTimeline(trade: Trade): StopLevel[] {
+  if (trade.stopLoss == null) return [];
+  return [
+    { timestamp: trade.openTimestamp, price: trade.stopLoss },
+    ...sortAdjustments(trade.adjustments)
+      .filter((a) => a.kind === ADJUSTMENT_KIND.STOP)
+      .map((a) => ({ timestamp: a.timestamp, price: a.price })),
+  ];
+}
+
+/** Stop level in force at a point in time */
+export function getStopAt(timeline: StopLevel[], timestamp: number): number | undefined {
+  let price: number | undefined;
+  timeline.forEach((level) => {
+    if (level.timestamp <= timestamp) price = level.price;
+  });
+  return price;
+}
+
+/** Adjustments in time order with what each one moved from */
+export function getAdjustmentLog(trade: Trade): AdjustmentLogRow[] {
+  const targets = trade.takeProfits ?? [];
+  let stop = trade.stopLoss;
+  const targetPrices = new Map(targets.map((t) => [t.id, t.price]));
+
+  return sortAdjustments(trade.adjustments).map((adjustment) => {
+    if (adjustment.kind === ADJUSTMENT_KIND.STOP) {
+      const from = stop;
+      stop = adjustment.price;
+      return { adjustment, label: 'Stop', from };
+    }
+    const index = targets.findIndex((t) => t.id === adjustment.targetId);
+    const from = adjustment.targetId ? targetPrices.get(adjustment.targetId) : undefined;
+    if (adjustment.targetId) targetPrices.set(adjustment.targetId, adjustment.price);
+    return { adjustment, label: index >= 0 ? `TP${index + 1}` : 'Target', from };
+  });
+}
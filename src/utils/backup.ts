@@ -0,0 +1,292 @@
+/**
+ * Journal backups: file layout, parsing and restore planning.
+ * A backup is one versioned JSON file (JournalBackup). Its trades are migrated
+ * and validated like stored ones, so a backup from an older version restores.
+ * planRestore works out what a merge or replace would change without changing
+ * anything, so the preview and the restore use the same result.
+ */
+
+import {
+  RESTORE_CONFLICT,
+  RESTORE_MODE,
+  type AppSettings,
+  type Journal,
+  type JournalBackup,
+  type MistakeCategory,
+  type Playbook,
+  type RestoreConflict,
+  type RestoreMode,
+  type RestorePlan,
+  type Trade,
+  type TradeFilters,
+  type TradeRevision,
+} from '../components/constants/types';
+import { CURRENT_SCHEMA_VERSION, migrateRecord, validateTradeRecord } from './tradeSchema';
+import { defaultSettings } from './settingsStorage';
+import { DEFAULT_JOURNAL_ID, getTradeJournalId } from './journals';
+import { createId } from './ids';
+import { diffTrades } from './tradeHistory';
+
+export const BACKUP_FORMAT = 'trade-journal-backup';
+
+/** Bump when the file layout changes; parseBackup must keep reading older versions */
+export const BACKUP_VERSION = 1;
+
+/** Journal state a restore is planned against */
+export interface RestoreSource {
+  trades: Trade[];
+  history: TradeRevision[];
+  journals: Journal[];
+  playbooks: Playbook[];
+  mistakeCategories: MistakeCategory[];
+  demoLoaded: boolean;
+}
+
+export interface ParsedBackup {
+  backup: JournalBackup;
+  /** Trades in the file that failed validation; they are left out of the restore */
+  invalid: { record: unknown; errors: string[] }[];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray<T>(value: unknown): T[] {
+  return Array.isArray(value) ? (value as T[]) : [];
+}
+
+function asRecord<T>(value: unknown): Record<string, T> {
+  return isObject(value) ? (value as Record<string, T>) : {};
+}
+
+/** Suggested file name, e.g. trade-journal-backup-2024-05-01.json */
+export function getBackupFileName(exportedAt: number): string {
+  return `${BACKUP_FORMAT}-${new Date(exportedAt).toISOString().slice(0, 10)}.json`;
+}
+
+/** Read a backup file; trades are brought to the current schema version */
+export function parseBackup(text: string): { parsed: ParsedBackup | null; error: string | null } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { parsed: null, error: 'The file is not valid JSON' };
+  }
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT) {
+    return { parsed: null, error: 'The file is not a trade journal backup' };
+  }
+  if (typeof raw.backupVersion !== 'number' || raw.backupVersion > BACKUP_VERSION) {
+    return { parsed: null, error: 'The backup was made by a newer version of the app' };
+  }
+  if (!Array.isArray(raw.trades)) {
+    return { parsed: null, error: 'The backup has no trade list' };
+  }
+
+  const schemaVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  const trades: Trade[] = [];
+  const invalid: ParsedBackup['invalid'] = [];
+  const ids = new Set<string>();
+  raw.trades.forEach((item) => {
+    const record = migrateRecord(item, schemaVersion);
+    const errors = validateTradeRecord(record);
+    const trade = record as Trade;
+    if (errors.length === 0 && ids.has(trade.id)) errors.push(`Duplicate id ${trade.id}`);
+    if (errors.length > 0) {
+      invalid.push({ record, errors });
+      return;
+    }
+    ids.add(trade.id);
+    trades.push(trade);
+  });
+
+  const backup: JournalBackup = {
+    format: BACKUP_FORMAT,
+    backupVersion: raw.backupVersion,
+    exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : 0,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    trades,
+    history: asArray<TradeRevision>(raw.history).filter(
+      (r) => isObject(r) && typeof r.id === 'string' && typeof r.tradeId === 'string' && isObject(r.snapshot)
+    ),
+    journals: asArray<Journal>(raw.journals).filter((j) => isObject(j) && typeof j.id === 'string' && typeof j.name === 'string'),
+    filters: asRecord<TradeFilters>(raw.filters),
+    settings: { ...defaultSettings, ...asRecord<AppSettings[keyof AppSettings]>(raw.settings) },
+    demoLoaded: raw.demoLoaded === true,
+    symbols: asRecord<string[]>(raw.symbols),
+    playbooks: asArray<Playbook>(raw.playbooks).filter((p) => isObject(p) && typeof p.id === 'string'),
+    mistakeCategories: asArray<MistakeCategory>(raw.mistakeCategories).filter(
+      (c) => isObject(c) && typeof c.id === 'string'
+    ),
+    files: asRecord<string>(raw.files),
+  };
+  return { parsed: { backup, invalid }, error: null };
+}
+
+/**
+ * Items of `incoming` whose id is not in `current`, appended to it. An added
+ * item whose name is already taken gets " (imported)" after it.
+ */
+function mergeById<T extends { id: string }>(current: T[], incoming: T[], nameKey: keyof T): { list: T[]; added: number } {
+  const list = [...current];
+  let added = 0;
+  incoming.forEach((item) => {
+    if (list.some((c) => c.id === item.id)) return;
+    const name = String(item[nameKey]);
+    const taken = list.some((c) => String(c[nameKey]).toLowerCase() === name.toLowerCase());
+    list.push(taken ? { ...item, [nameKey]: `${name} (imported)` } : item);
+    added += 1;
+  });
+  return { list, added };
+}
+
+function countNew<T extends { id: string }>(current: T[], incoming: T[]): number {
+  return incoming.filter((item) => !current.some((c) => c.id === item.id)).length;
+}
+
+/** Point a trade at another id and journal */
+function remapTrade(trade: Trade, id: string, journalIds: Map<string, string>): Trade {
+  const journalId = journalIds.get(getTradeJournalId(trade));
+  return { ...trade, id, ...(journalId && journalId !== getTradeJournalId(trade) ? { journalId } : {}) };
+}
+
+/**
+ * What restoring `backup` into `current` would change.
+ * REPLACE makes the journal match the backup (trades missing from it are
+ * deleted). MERGE adds what's new: journals with the same name are treated as
+ * one, and a trade id present on both sides with different data is a conflict
+ * resolved by `conflict`. History is always merged, since it is an audit trail.
+ */
+export function planRestore(
+  current: RestoreSource,
+  backup: JournalBackup,
+  mode: RestoreMode,
+  conflict: RestoreConflict
+): RestorePlan {
+  const currentById = new Map(current.trades.map((t) => [t.id, t]));
+  const knownRevisions = new Set(current.history.map((r) => r.id));
+  const put: Trade[] = [];
+  let added = 0;
+  let updated = 0;
+  let unchanged = 0;
+  let conflicts = 0;
+  let renamed = 0;
+
+  if (mode === RESTORE_MODE.REPLACE) {
+    const journals = backup.journals.some((j) => j.id === DEFAULT_JOURNAL_ID)
+      ? backup.journals
+      : [{ id: DEFAULT_JOURNAL_ID, name: 'Main' }, ...backup.journals];
+    backup.trades.forEach((trade) => {
+      const existing = currentById.get(trade.id);
+      if (!existing) {
+        put.push(trade);
+        added += 1;
+      } else if (diffTrades(existing, trade).length > 0) {
+        put.push(trade);
+        updated += 1;
+      } else {
+        unchanged += 1;
+      }
+    });
+    const backupIds = new Set(backup.trades.map((t) => t.id));
+    return {
+      put,
+      remove: current.trades.filter((t) => !backupIds.has(t.id)).map((t) => t.id),
+      added,
+      updated,
+      unchanged,
+      conflicts,
+      renamed,
+      revisions: backup.history.filter((r) => !knownRevisions.has(r.id)),
+      journals,
+      journalsAdded: countNew(current.journals, journals),
+      playbooks: backup.playbooks,
+      playbooksAdded: countNew(current.playbooks, backup.playbooks),
+      mistakeCategories: backup.mistakeCategories,
+      mistakeCategoriesAdded: countNew(current.mistakeCategories, backup.mistakeCategories),
+      filters: backup.filters,
+      settings: backup.settings,
+      demoLoaded: backup.demoLoaded,
+      files: backup.files,
+    };
+  }
+
+  // Backup journal id → journal id here (same id, else same name, else added as is)
+  const journalIds = new Map<string, string>();
+  const journals = [...current.journals];
+  let journalsAdded = 0;
+  backup.journals.forEach((j) => {
+    const match =
+      journals.find((c) => c.id === j.id) ?? journals.find((c) => c.name.toLowerCase() === j.name.toLowerCase());
+    if (match) {
+      journalIds.set(j.id, match.id);
+      return;
+    }
+    journals.push(j);
+    journalIds.set(j.id, j.id);
+    journalsAdded += 1;
+  });
+
+  // Backup trade id → trade id here, for trades added under a new id
+  const tradeIds = new Map<string, string>();
+  // Conflicts where the journal's version is kept; the backup's history of them is left out
+  const kept = new Set<string>();
+  backup.trades.forEach((trade) => {
+    const existing = currentById.get(trade.id);
+    const incoming = remapTrade(trade, trade.id, journalIds);
+    if (!existing) {
+      put.push(incoming);
+      added += 1;
+      return;
+    }
+    if (diffTrades(existing, incoming).length === 0) {
+      unchanged += 1;
+      return;
+    }
+    conflicts += 1;
+    if (conflict === RESTORE_CONFLICT.USE_BACKUP) {
+      put.push(incoming);
+      updated += 1;
+    } else if (conflict === RESTORE_CONFLICT.KEEP_BOTH) {
+      const id = createId('trade');
+      put.push({ ...incoming, id });
+      tradeIds.set(trade.id, id);
+      added += 1;
+      renamed += 1;
+    } else {
+      kept.add(trade.id);
+    }
+  });
+
+  const revisions = backup.history
+    .filter((r) => !knownRevisions.has(r.id) && !kept.has(r.tradeId))
+    .map((r) => {
+      const tradeId = tradeIds.get(r.tradeId) ?? r.tradeId;
+      return { ...r, tradeId, snapshot: remapTrade(r.snapshot, tradeId, journalIds) };
+    });
+
+  const playbooks = mergeById(current.playbooks, backup.playbooks, 'name');
+  const mistakeCategories = mergeById(current.mistakeCategories, backup.mistakeCategories, 'label');
+  const addedJournalIds = new Set(journals.slice(current.journals.length).map((j) => j.id));
+
+  return {
+    put,
+    remove: [],
+    added,
+    updated,
+    unchanged,
+    conflicts,
+    renamed,
+    revisions,
+    journals,
+    journalsAdded,
+    playbooks: playbooks.list,
+    playbooksAdded: playbooks.added,
+    mistakeCategories: mistakeCategories.list,
+    mistakeCategoriesAdded: mistakeCategories.added,
+    filters: Object.fromEntries(Object.entries(backup.filters).filter(([id]) => addedJournalIds.has(id))),
+    settings: null,
+    demoLoaded: current.demoLoaded || backup.demoLoaded,
+    files: backup.files,
+  };
+}
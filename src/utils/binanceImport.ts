@@ -0,0 +1,373 @@
+/**
+ * Binance trade-history import. The export lists fills, not round trips:
+ * fills of one order (same symbol, side and second) are merged, then each
+ * symbol's orders are paired FIFO. A buy with nothing to close opens a LONG
+ * lot, a sell a SHORT lot (or is left out when shorts are off); an opposite
+ * order closes the oldest lots first, split across lots as needed, and any
+ * excess opens a new lot the other way. Each lot becomes one trade with its
+ * entry and exit legs and a pro-rata share of the fees. Lots still open at
+ * the end are OPEN trades.
+ */
+
+import {
+  FILL_SIDE,
+  IMPORT_DUPLICATE,
+  LEG_SIDE,
+  POSITION,
+  TRADE_STATUS,
+  type FillReconciliation,
+  type FillSide,
+  type ImportFill,
+  type ImportRow,
+  type Position,
+  type Trade,
+  type TradeLeg,
+} from '../components/constants/types';
+import { calculatePnL, getTradeFieldsFromLegs, getTradeRFields, roundQuantity } from './calculations';
+import { inferQuoteAsset } from './currency';
+import { detectDateFormat, getDuplicateKey, parseImportDate, parseImportNumber } from './tradeImport';
+import { createId } from './ids';
+import { validateTradeRecord } from './tradeSchema';
+
+type BinanceColumn = 'date' | 'symbol' | 'side' | 'price' | 'quantity' | 'total' | 'fee' | 'feeAsset';
+
+/** Normalized header names per column; spot (Pair/Executed/Amount), legacy spot (Market/Type/Amount/Total) and futures exports */
+const COLUMN_ALIASES: Record<BinanceColumn, string[]> = {
+  date: ['dateutc', 'date', 'datetime', 'time'],
+  symbol: ['pair', 'market', 'symbol'],
+  side: ['side', 'type'],
+  price: ['price', 'avgprice'],
+  quantity: ['executed', 'quantity', 'qty', 'filled'],
+  total: ['amount', 'total', 'quoteqty'],
+  fee: ['fee', 'commission', 'tradingfee'],
+  feeAsset: ['feecoin', 'feeasset', 'commissionasset'],
+};
+
+const REQUIRED_COLUMNS: BinanceColumn[] = ['date', 'symbol', 'side', 'price', 'quantity'];
+
+type BinanceColumns = Partial<Record<BinanceColumn, number>>;
+
+export interface FillReadResult {
+  fills: ImportFill[];
+  /** Rows that could not be read as a fill */
+  skipped: { line: number; message: string }[];
+}
+
+export interface FillPairingOptions {
+  /** Sells with nothing to close open SHORT trades (margin/futures); otherwise they are left out */
+  allowShort: boolean;
+  journalId: string;
+  /** Trades already in the journal, to flag duplicates */
+  existing: Trade[];
+}
+
+export interface FillPairing {
+  /** One row per paired trade, in open order; `line` is the opening fill's row */
+  rows: ImportRow[];
+  symbols: FillReconciliation[];
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+function getColumns(headers: string[]): BinanceColumns {
+  const normalized = headers.map(normalizeHeader);
+  const find = (aliases: string[]) => {
+    for (const alias of aliases) {
+      const index = normalized.indexOf(alias);
+      if (index >= 0) return index;
+    }
+    return undefined;
+  };
+  const columns: BinanceColumns = {};
+  (Object.keys(COLUMN_ALIASES) as BinanceColumn[]).forEach((column) => {
+    columns[column] = find(COLUMN_ALIASES[column]);
+  });
+  // Legacy spot export: Amount is the base quantity and Total the quote amount
+  if (columns.quantity === undefined && normalized.includes('amount') && normalized.includes('total')) {
+    columns.quantity = normalized.indexOf('amount');
+    columns.total = normalized.indexOf('total');
+  }
+  return columns;
+}
+
+/** Whether a header row looks like a Binance trade-history (fills) export */
+export function isBinanceTradeHistory(headers: string[]): boolean {
+  const columns = getColumns(headers);
+  return REQUIRED_COLUMNS.every((c) => columns[c] !== undefined) && columns.fee !== undefined;
+}
+
+/** Offset of the date column from UTC in ms, from headers like "Date(UTC+8)"; 0 for plain UTC */
+function getHeaderOffset(header: string): number {
+  const m = header.match(/UTC\s*([+-])\s*(\d{1,2})(?::?(\d{2}))?/i);
+  if (!m) return 0;
+  return (m[1] === '-' ? -1 : 1) * (Number(m[2]) * 60 + Number(m[3] ?? 0)) * 60_000;
+}
+
+/** "0.0015BTC" → 0.0015 and BTC; plain numbers have no asset */
+function splitAmount(value: string): { amount: number | null; asset: string } {
+  const m = value.trim().match(/^([-+]?[\d.,]+)\s*([A-Za-z][A-Za-z0-9]*)?$/);
+  if (!m) return { amount: null, asset: '' };
+  return { amount: parseImportNumber(m[1], '.'), asset: (m[2] ?? '').toUpperCase() };
+}
+
+function parseSide(value: string): FillSide | null {
+  const v = value.trim().toUpperCase();
+  if (v === 'BUY') return FILL_SIDE.BUY;
+  if (v === 'SELL') return FILL_SIDE.SELL;
+  return null;
+}
+
+/** Fills of a parsed export (first row = headers); rows that don't read are listed with the reason */
+export function readBinanceFills(rows: string[][]): FillReadResult {
+  const headers = rows[0] ?? [];
+  const columns = getColumns(headers);
+  const missing = REQUIRED_COLUMNS.filter((c) => columns[c] === undefined);
+  if (missing.length > 0) {
+    return { fills: [], skipped: [{ line: 1, message: `No ${missing.join(', ')} column in the header row` }] };
+  }
+  const cell = (row: string[], column: BinanceColumn) => {
+    const index = columns[column];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+  const offset = getHeaderOffset(headers[columns.date!] ?? '');
+
+  const fills: ImportFill[] = [];
+  const skipped: FillReadResult['skipped'] = [];
+  rows.slice(1).forEach((row, i) => {
+    const line = i + 2;
+    const errors: string[] = [];
+    // Each cell on its own: Binance writes ISO dates or Unix times, never day/month ambiguity
+    const wall = parseImportDate(cell(row, 'date'), detectDateFormat([cell(row, 'date')]), 'UTC');
+    if (wall === null) errors.push(`Date "${cell(row, 'date')}" is not a date`);
+    const symbol = cell(row, 'symbol').toUpperCase().replace(/[\s/_-]/g, '');
+    if (!symbol) errors.push('Pair is missing');
+    const side = parseSide(cell(row, 'side'));
+    if (!side) errors.push(`Side "${cell(row, 'side')}" is not BUY or SELL`);
+    const price = splitAmount(cell(row, 'price')).amount;
+    if (price === null || price <= 0) errors.push(`Price "${cell(row, 'price')}" is not a positive number`);
+    const executed = splitAmount(cell(row, 'quantity'));
+    if (executed.amount === null || executed.amount <= 0) {
+      errors.push(`Quantity "${cell(row, 'quantity')}" is not a positive number`);
+    }
+    const fee = cell(row, 'fee') === '' ? { amount: 0, asset: '' } : splitAmount(cell(row, 'fee'));
+    if (fee.amount === null || fee.amount < 0) errors.push(`Fee "${cell(row, 'fee')}" is not a number`);
+    if (errors.length > 0 || wall === null || !side || price === null || executed.amount === null || fee.amount === null) {
+      skipped.push({ line, message: errors.join('; ') });
+      return;
+    }
+
+    const totalAsset = splitAmount(cell(row, 'total')).asset;
+    const quoteAsset =
+      totalAsset ||
+      (executed.asset && symbol.startsWith(executed.asset) && symbol.length > executed.asset.length
+        ? symbol.slice(executed.asset.length)
+        : inferQuoteAsset(symbol));
+    const baseAsset =
+      executed.asset || (symbol.endsWith(quoteAsset) && symbol.length > quoteAsset.length ? symbol.slice(0, -quoteAsset.length) : symbol);
+    fills.push({
+      line,
+      timestamp: wall - offset,
+      symbol,
+      baseAsset,
+      quoteAsset,
+      side,
+      price,
+      quantity: executed.amount,
+      fee: fee.amount,
+      feeAsset: (cell(row, 'feeAsset') || fee.asset || quoteAsset).toUpperCase(),
+    });
+  });
+  return { fills, skipped };
+}
+
+// ---- Pairing ----
+
+/** Fills of one order merged: average price, total quantity, fees in quote plus any other assets */
+interface FillOrder {
+  line: number;
+  timestamp: number;
+  side: FillSide;
+  price: number;
+  quantity: number;
+  fees: number;
+  otherFees: Record<string, number>;
+}
+
+/** Trade being built from one opening order */
+interface OpenLot {
+  line: number;
+  position: Position;
+  legs: TradeLeg[];
+  remaining: number;
+  fees: number;
+  otherFees: Record<string, number>;
+}
+
+function addFees(target: Record<string, number>, fees: Record<string, number>, share: number) {
+  Object.entries(fees).forEach(([asset, amount]) => {
+    target[asset] = (target[asset] ?? 0) + amount * share;
+  });
+}
+
+/** Quantity a fill adds to or takes from the position: a buy whose fee is paid in the base asset receives that much less */
+function getFillQuantity(fill: ImportFill): number {
+  return fill.side === FILL_SIDE.BUY && fill.feeAsset === fill.baseAsset ? fill.quantity - fill.fee : fill.quantity;
+}
+
+/** Quantity bought or sold over the file's rows, base-asset buy fees taken off */
+function sumFills(fills: ImportFill[], side: FillSide): number {
+  return roundQuantity(fills.filter((f) => f.side === side).reduce((sum, f) => sum + getFillQuantity(f), 0));
+}
+
+/** Entry quantity of a lot's legs not yet exited */
+function getLegsOpenQuantity(legs: TradeLeg[]): number {
+  return legs.reduce((sum, leg) => sum + (leg.side === LEG_SIDE.ENTRY ? leg.quantity : -leg.quantity), 0);
+}
+
+/** Fills (one symbol, time order) merged into orders; fees converted to quote where possible */
+function toOrders(fills: ImportFill[]): FillOrder[] {
+  const orders: FillOrder[] = [];
+  fills.forEach((fill) => {
+    let fees = 0;
+    const otherFees: Record<string, number> = {};
+    if (fill.feeAsset === fill.quoteAsset) fees = fill.fee;
+    else if (fill.feeAsset === fill.baseAsset) fees = fill.fee * fill.price;
+    else if (fill.fee > 0) otherFees[fill.feeAsset] = fill.fee;
+    const fillQuantity = getFillQuantity(fill);
+
+    const last = orders[orders.length - 1];
+    if (last && last.side === fill.side && Math.floor(last.timestamp / 1000) === Math.floor(fill.timestamp / 1000)) {
+      const quantity = last.quantity + fillQuantity;
+      last.price = (last.price * last.quantity + fill.price * fillQuantity) / quantity;
+      last.quantity = quantity;
+      last.fees += fees;
+      addFees(last.otherFees, otherFees, 1);
+      return;
+    }
+    orders.push({ line: fill.line, timestamp: fill.timestamp, side: fill.side, price: fill.price, quantity: fillQuantity, fees, otherFees });
+  });
+  return orders;
+}
+
+function lotToTrade(lot: OpenLot, symbol: string, quoteAsset: string, journalId: string): { trade: Trade | null; errors: string[] } {
+  const other = Object.entries(lot.otherFees)
+    .filter(([, amount]) => roundQuantity(amount) > 0)
+    .map(([asset, amount]) => `${roundQuantity(amount)} ${asset}`);
+  const fees = roundQuantity(lot.fees);
+  const trade: Trade = {
+    id: createId('trade'),
+    symbol,
+    position: lot.position,
+    status: roundQuantity(lot.remaining) > 0 ? TRADE_STATUS.OPEN : TRADE_STATUS.CLOSED,
+    ...getTradeFieldsFromLegs(lot.legs),
+    legs: lot.legs,
+    quoteAsset,
+    fees: fees > 0 ? fees : undefined,
+    notes: other.length > 0 ? `Imported from Binance. Fees also paid in ${other.join(', ')} (not in fees).` : 'Imported from Binance.',
+    journalId,
+  };
+  const withR = { ...trade, ...getTradeRFields(trade) };
+  const invalid = validateTradeRecord(withR);
+  return invalid.length > 0 ? { trade: null, errors: invalid } : { trade: withR, errors: [] };
+}
+
+/** FIFO-paired trades of the fills, with per-symbol totals for reconciliation */
+export function pairFills(fills: ImportFill[], options: FillPairingOptions): FillPairing {
+  const bySymbol = new Map<string, ImportFill[]>();
+  [...fills]
+    .sort((a, b) => a.timestamp - b.timestamp || a.line - b.line)
+    .forEach((fill) => bySymbol.set(fill.symbol, [...(bySymbol.get(fill.symbol) ?? []), fill]));
+
+  const rows: ImportRow[] = [];
+  const symbols: FillReconciliation[] = [];
+  bySymbol.forEach((symbolFills, symbol) => {
+    const quoteAsset = symbolFills[0].quoteAsset;
+    const orders = toOrders(symbolFills);
+    const summary: FillReconciliation = {
+      symbol,
+      quoteAsset,
+      fills: symbolFills.length,
+      orders: orders.length,
+      // Straight from the file's rows, so the check below compares them with what the pairing made
+      bought: sumFills(symbolFills, FILL_SIDE.BUY),
+      sold: sumFills(symbolFills, FILL_SIDE.SELL),
+      openQuantity: 0,
+      unmatchedQuantity: 0,
+      closedTrades: 0,
+      openTrades: 0,
+      realizedPnl: 0,
+      fees: 0,
+      otherFees: {},
+    };
+    const lots: OpenLot[] = [];
+    const done: OpenLot[] = [];
+
+    orders.forEach((order) => {
+      const closes = order.side === FILL_SIDE.BUY ? POSITION.SHORT : POSITION.LONG;
+      let left = order.quantity;
+
+      // Close the oldest lots first
+      while (lots.length > 0 && lots[0].position === closes && roundQuantity(left) > 0) {
+        const lot = lots[0];
+        const take = Math.min(left, lot.remaining);
+        const share = take / order.quantity;
+        lot.legs.push({ id: createId('leg'), side: LEG_SIDE.EXIT, timestamp: order.timestamp, price: order.price, quantity: roundQuantity(take) });
+        lot.fees += order.fees * share;
+        addFees(lot.otherFees, order.otherFees, share);
+        summary.realizedPnl += calculatePnL(lot.position, lot.legs[0].price, order.price, take);
+        lot.remaining -= take;
+        left -= take;
+        if (roundQuantity(lot.remaining) <= 0) done.push(lots.shift()!);
+      }
+      if (roundQuantity(left) <= 0) return;
+
+      const share = left / order.quantity;
+      if (order.side === FILL_SIDE.SELL && !options.allowShort) {
+        summary.unmatchedQuantity += left;
+        return;
+      }
+      const lot: OpenLot = {
+        line: order.line,
+        position: order.side === FILL_SIDE.BUY ? POSITION.LONG : POSITION.SHORT,
+        legs: [{ id: createId('leg'), side: LEG_SIDE.ENTRY, timestamp: order.timestamp, price: order.price, quantity: roundQuantity(left) }],
+        remaining: left,
+        fees: order.fees * share,
+        otherFees: {},
+      };
+      addFees(lot.otherFees, order.otherFees, share);
+      lots.push(lot);
+    });
+
+    [...done, ...lots].forEach((lot) => {
+      summary.fees += lot.fees;
+      addFees(summary.otherFees, lot.otherFees, 1);
+      const { trade, errors } = lotToTrade(lot, symbol, quoteAsset, options.journalId);
+      rows.push({ line: lot.line, trade, errors, duplicate: null });
+    });
+    summary.closedTrades = done.length;
+    summary.openTrades = lots.length;
+    // From the legs the trades are written with, not the running lot balance
+    summary.openQuantity = roundQuantity(
+      lots.reduce((sum, l) => sum + (l.position === POSITION.LONG ? 1 : -1) * getLegsOpenQuantity(l.legs), 0)
+    );
+    summary.unmatchedQuantity = roundQuantity(summary.unmatchedQuantity);
+    symbols.push(summary);
+  });
+
+  const existingKeys = new Set(options.existing.map(getDuplicateKey));
+  rows.sort((a, b) => (a.trade?.openTimestamp ?? 0) - (b.trade?.openTimestamp ?? 0) || a.line - b.line);
+  rows.forEach((row) => {
+    if (row.trade && existingKeys.has(getDuplicateKey(row.trade))) row.duplicate = IMPORT_DUPLICATE.EXISTING;
+  });
+  return { rows, symbols: symbols.sort((a, b) => a.symbol.localeCompare(b.symbol)) };
+}
+
+/**
+ * Whether a symbol's totals add up: bought − matched sells (from the file's
+ * rows) = what the paired trades leave open
+ */
+export function isReconciled(summary: FillReconciliation): boolean {
+  return roundQuantity(summary.bought - (summary.sold - summary.unmatchedQuantity) - summary.openQuantity) === 0;
+}
@@ -1,9 +1,19 @@
 /**
  * Trade calculation utilities
- * Pure functions for PNL, duration, R-multiple
+ * Pure functions for PNL, fees, duration, R-multiple, planned R:R, execution legs, margin
  */
 
-import type { Position } from '../components/constants/types';
+import {
+  LEG_SIDE,
+  LIQUIDITY,
+  MARGIN_MODE,
+  type FeeSchedule,
+  type Liquidity,
+  type Position,
+  type TakeProfitTarget,
+  type Trade,
+  type TradeLeg,
+} from '../components/constants/types';
 
 /**
  * PNL calculation:
@@ -22,6 +32,160 @@ export function calculatePnL(
   return (openPrice - closePrice) * quantity;
 }
 
+/** Round away float noise from summing fractional quantities */
+export function roundQuantity(n: number): number {
+  return Math.round(n * 1e8) / 1e8;
+}
+
+/**
+ * Execution legs of a trade.
+ * Trades without legs get one entry leg, plus one exit leg when they have a close price.
+ */
+export function getTradeLegs(trade: Trade): TradeLeg[] {
+  if (trade.legs && trade.legs.length > 0) return trade.legs;
+  const legs: TradeLeg[] = [
+    {
+      id: `${trade.id}-entry`,
+      side: LEG_SIDE.ENTRY,
+      timestamp: trade.openTimestamp,
+      price: trade.openPrice,
+      quantity: trade.quantity,
+    },
+  ];
+  if (trade.closePrice != null) {
+    legs.push({
+      id: `${trade.id}-exit`,
+      side: LEG_SIDE.EXIT,
+      timestamp: trade.closeTimestamp ?? trade.openTimestamp,
+      price: trade.closePrice,
+      quantity: trade.quantity,
+    });
+  }
+  return legs;
+}
+
+export interface LegSummary {
+  entryQuantity: number;
+  exitQuantity: number;
+  /** Entered minus exited quantity */
+  openQuantity: number;
+  /** Weighted-average entry price; null without entries */
+  avgEntryPrice: number | null;
+  /** Weighted-average exit price; null without exits */
+  avgExitPrice: number | null;
+}
+
+/**
+ * Weighted averages and quantities over a trade's legs:
+ * avg price = Σ(price × quantity) ÷ Σ quantity, per side
+ */
+export function summarizeLegs(legs: TradeLeg[]): LegSummary {
+  let entryQuantity = 0;
+  let entryNotional = 0;
+  let exitQuantity = 0;
+  let exitNotional = 0;
+  for (const leg of legs) {
+    if (leg.side === LEG_SIDE.ENTRY) {
+      entryQuantity += leg.quantity;
+      entryNotional += leg.price * leg.quantity;
+    } else {
+      exitQuantity += leg.quantity;
+      exitNotional += leg.price * leg.quantity;
+    }
+  }
+  return {
+    entryQuantity: roundQuantity(entryQuantity),
+    exitQuantity: roundQuantity(exitQuantity),
+    openQuantity: roundQuantity(entryQuantity - exitQuantity),
+    avgEntryPrice: entryQuantity > 0 ? entryNotional / entryQuantity : null,
+    avgExitPrice: exitQuantity > 0 ? exitNotional / exitQuantity : null,
+  };
+}
+
+/**
+ * Summary fields stored on the trade, derived from its legs:
+ * openPrice/closePrice = weighted averages, quantity = total entered,
+ * closeTimestamp = last exit once nothing is left open.
+ */
+export function getTradeFieldsFromLegs(
+  legs: TradeLeg[]
+): Pick<Trade, 'openTimestamp' | 'closeTimestamp' | 'openPrice' | 'closePrice' | 'quantity'> {
+  const summary = summarizeLegs(legs);
+  const entries = legs.filter((l) => l.side === LEG_SIDE.ENTRY);
+  const exits = legs.filter((l) => l.side === LEG_SIDE.EXIT);
+  return {
+    openTimestamp: Math.min(...entries.map((l) => l.timestamp)),
+    closeTimestamp:
+      summary.openQuantity <= 0 && exits.length > 0
+        ? Math.max(...exits.map((l) => l.timestamp))
+        : undefined,
+    openPrice: summary.avgEntryPrice ?? 0,
+    closePrice: summary.avgExitPrice ?? undefined,
+    quantity: summary.entryQuantity,
+  };
+}
+
+/**
+ * Realized PNL: exited quantity at avg exit vs avg entry.
+ * null when nothing has been exited yet.
+ */
+export function calculateRealizedPnL(position: Position, legs: TradeLeg[]): number | null {
+  const { avgEntryPrice, avgExitPrice, exitQuantity } = summarizeLegs(legs);
+  if (avgEntryPrice == null || avgExitPrice == null) return null;
+  return calculatePnL(position, avgEntryPrice, avgExitPrice, exitQuantity);
+}
+
+/**
+ * Unrealized PNL: remaining open quantity marked at currentPrice vs avg entry.
+ * null when nothing is open.
+ */
+export function calculateUnrealizedPnL(
+  position: Position,
+  legs: TradeLeg[],
+  currentPrice: number
+): number | null {
+  const { avgEntryPrice, openQuantity } = summarizeLegs(legs);
+  if (avgEntryPrice == null || openQuantity <= 0) return null;
+  return calculatePnL(position, avgEntryPrice, currentPrice, openQuantity);
+}
+
+/**
+ * Exchange fees for a trade's legs: Σ(price × quantity × rate),
+ * entries and exits each at their maker or taker rate
+ */
+export function estimateFees(
+  legs: TradeLeg[],
+  schedule: FeeSchedule,
+  entryLiquidity: Liquidity,
+  exitLiquidity: Liquidity
+): number {
+  const rateFor = (liquidity: Liquidity) =>
+    liquidity === LIQUIDITY.MAKER ? schedule.makerRate : schedule.takerRate;
+  return legs.reduce((sum, leg) => {
+    const rate = rateFor(leg.side === LEG_SIDE.ENTRY ? entryLiquidity : exitLiquidity);
+    return sum + leg.price * leg.quantity * rate;
+  }, 0);
+}
+
+/** Fees + commission + funding (funding received reduces costs) */
+export function getTradeCosts(trade: Pick<Trade, 'fees' | 'commission' | 'funding'>): number {
+  return (trade.fees ?? 0) + (trade.commission ?? 0) + (trade.funding ?? 0);
+}
+
+/** Net PNL = gross PNL − fees − commission − funding */
+export function calculateNetPnL(
+  grossPnl: number,
+  trade: Pick<Trade, 'fees' | 'commission' | 'funding'>
+): number {
+  return grossPnl - getTradeCosts(trade);
+}
+
+/** Net realized PNL of a trade (in its quote asset); null when nothing has been exited */
+export function getTradeNetPnL(trade: Trade): number | null {
+  const gross = calculateRealizedPnL(trade.position, getTradeLegs(trade));
+  return gross != null ? calculateNetPnL(gross, trade) : null;
+}
+
 /**
  * Total duration in milliseconds
  */
@@ -52,6 +216,7 @@ export function formatDuration(openTimestamp: number, closeTimestamp: number): s
 /**
  * R-Multiple: PNL ÷ (risk per trade)
  * Risk = |openPrice - stopLoss| × quantity (if stopLoss present)
+ * Pass net PNL so costs count against the result.
  */
 export function calculateRMultiple(
   pnl: number,
@@ -65,6 +230,145 @@ export function calculateRMultiple(
   return pnl / risk;
 }
 
+/**
+ * Share of the position exited at each target (sums to 1).
+ * Targets without a percent split whatever the others leave evenly.
+ */
+export function getTargetWeights(targets: TakeProfitTarget[]): number[] {
+  const fixed = targets.reduce((sum, t) => sum + (t.percent ?? 0), 0);
+  const unset = targets.filter((t) => t.percent == null).length;
+  const each = unset > 0 ? Math.max(0, 100 - fixed) / unset : 0;
+  const raw = targets.map((t) => t.percent ?? each);
+  const total = raw.reduce((a, b) => a + b, 0);
+  return total > 0 ? raw.map((p) => p / total) : raw.map(() => 0);
+}
+
+/**
+ * Planned reward:risk at entry
+ * Reward = Σ weight × |target − entry| (signed by position), risk = |entry − stopLoss|
+ */
+export function calculatePlannedRR(
+  position: Position,
+  entryPrice: number,
+  stopLoss: number | undefined,
+  targets: TakeProfitTarget[] | undefined
+): number | null {
+  if (stopLoss === undefined || stopLoss === 0 || !targets?.length) return null;
+  const risk = Math.abs(entryPrice - stopLoss);
+  if (risk === 0) return null;
+  const weights = getTargetWeights(targets);
+  const reward = targets.reduce((sum, t, i) => {
+    const move = position === 'LONG' ? t.price - entryPrice : entryPrice - t.price;
+    return sum + weights[i] * move;
+  }, 0);
+  return reward / risk;
+}
+
+/**
+ * Realized R of a trade from net PNL; falls back to the stored rValue
+ * when it can't be computed (e.g. no stop loss)
+ */
+export function getTradeRealizedR(trade: Trade): number | null {
+  const net = getTradeNetPnL(trade);
+  const computed = net != null
+    ? calculateRMultiple(net, trade.openPrice, trade.stopLoss, trade.quantity)
+    : null;
+  return computed ?? trade.rValue ?? null;
+}
+
+/**
+ * R so far on a trade that is still open: (net realized + unrealized at
+ * currentPrice) ÷ initial risk
+ */
+export function calculateOpenRMultiple(trade: Trade, currentPrice: number): number | null {
+  const legs = getTradeLegs(trade);
+  const realized = getTradeNetPnL(trade) ?? -getTradeCosts(trade);
+  const unrealized = calculateUnrealizedPnL(trade.position, legs, currentPrice) ?? 0;
+  return calculateRMultiple(realized + unrealized, trade.openPrice, trade.stopLoss, trade.quantity);
+}
+
+/**
+ * Derived R fields stored on the trade when it is saved:
+ * plannedR from stop + targets, rValue from net PNL once closed
+ */
+export function getTradeRFields(trade: Trade): Pick<Trade, 'plannedR' | 'rValue'> {
+  const plannedR = calculatePlannedRR(trade.position, trade.openPrice, trade.stopLoss, trade.takeProfits);
+  const net = trade.status === 'CLOSED' ? getTradeNetPnL(trade) : null;
+  const rValue = net != null
+    ? calculateRMultiple(net, trade.openPrice, trade.stopLoss, trade.quantity)
+    : null;
+  return {
+    plannedR: plannedR != null ? Number(plannedR.toFixed(4)) : undefined,
+    rValue: rValue != null ? Number(rValue.toFixed(4)) : undefined,
+  };
+}
+
+/** Quantity that loses `risk` if the stop is hit: risk ÷ |entry − stop| */
+export function calculatePositionSize(
+  risk: number,
+  entryPrice: number,
+  stopLoss: number | undefined
+): number | null {
+  if (stopLoss == null || risk <= 0 || entryPrice === stopLoss) return null;
+  return risk / Math.abs(entryPrice - stopLoss);
+}
+
+/** Binance USDⓈ-M tier-1 maintenance margin rate (0.4%) */
+export const DEFAULT_MAINTENANCE_MARGIN_RATE = 0.004;
+
+/** Initial margin = entry notional ÷ leverage; null for unleveraged trades */
+export function calculateInitialMargin(
+  entryPrice: number,
+  quantity: number,
+  leverage: number | undefined
+): number | null {
+  if (!leverage || leverage <= 0) return null;
+  return (entryPrice * quantity) / leverage;
+}
+
+/**
+ * Estimated liquidation price of a linear (USDⓈ-M) position, where
+ * collateral + PNL = maintenance margin (mmr × price × quantity):
+ * ISOLATED collateral = initial margin; CROSS collateral = crossMarginBalance
+ * (falls back to initial margin when no balance is given).
+ * LONG  → (entry × qty − collateral) ÷ (qty × (1 − mmr))
+ * SHORT → (entry × qty + collateral) ÷ (qty × (1 + mmr))
+ * null without leverage, or when the position can't be liquidated.
+ */
+export function calculateLiquidationPrice(
+  trade: Pick<Trade, 'position' | 'leverage' | 'marginMode' | 'crossMarginBalance' | 'maintenanceMarginRate'>,
+  entryPrice: number,
+  quantity: number
+): number | null {
+  const initialMargin = calculateInitialMargin(entryPrice, quantity, trade.leverage);
+  if (initialMargin == null || quantity <= 0) return null;
+  const mmr = trade.maintenanceMarginRate ?? DEFAULT_MAINTENANCE_MARGIN_RATE;
+  const collateral = trade.marginMode === MARGIN_MODE.CROSS && trade.crossMarginBalance != null
+    ? trade.crossMarginBalance
+    : initialMargin;
+  const notional = entryPrice * quantity;
+  const liq = trade.position === 'LONG'
+    ? (notional - collateral) / (quantity * (1 - mmr))
+    : (notional + collateral) / (quantity * (1 + mmr));
+  return liq > 0 ? liq : null;
+}
+
+/** Whether the stop loss would only trigger after liquidation */
+export function isStopBeyondLiquidation(
+  position: Position,
+  stopLoss: number | undefined,
+  liquidationPrice: number | null
+): boolean {
+  if (stopLoss == null || liquidationPrice == null) return false;
+  return position === 'LONG' ? stopLoss <= liquidationPrice : stopLoss >= liquidationPrice;
+}
+
+/** Return on margin = PNL ÷ initial margin (as a fraction) */
+export function calculateReturnOnMargin(pnl: number, initialMargin: number | null): number | null {
+  if (initialMargin == null || initialMargin === 0) return null;
+  return pnl / initialMargin;
+}
+
 /** Format timestamp as date/time string in GMT (UTC) */
 export function formatTimestampGMT(ts: number): string {
   return new Date(ts).toLocaleString(undefined, { timeZone: 'UTC' }) + ' GMT';
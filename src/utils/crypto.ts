@@ -0,0 +1,74 @@
+/**
+ * Passphrase encryption helpers (WebCrypto)
+ * PBKDF2-SHA-256 turns the passphrase into a non-extractable AES-GCM-256 key;
+ * each sealed value carries its own random IV as "<iv>.<ciphertext>" in base64
+ * (text), or next to the ciphertext bytes (files).
+ */
+
+/** OWASP's current recommendation for PBKDF2-HMAC-SHA-256 */
+export const PBKDF2_ITERATIONS = 600_000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/** Encrypted file content; kept as bytes, as base64 would grow a file by a third */
+export interface SealedBytes {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary);
+}
+
+export function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function createSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+}
+
+export async function deriveKey(passphrase: string, salt: string, iterations = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function sealText(key: CryptoKey, plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return `${toBase64(iv)}.${toBase64(new Uint8Array(data))}`;
+}
+
+/** @throws when the key is wrong or the value was tampered with (GCM authentication fails) */
+export async function openText(key: CryptoKey, sealed: string): Promise<string> {
+  const [iv, data] = sealed.split('.');
+  if (!iv || !data) throw new Error('Not an encrypted value');
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(data));
+  return new TextDecoder().decode(plain);
+}
+
+export async function sealBytes(key: CryptoKey, bytes: ArrayBuffer): Promise<SealedBytes> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes) };
+}
+
+/** @throws when the key is wrong or the value was tampered with (GCM authentication fails) */
+export async function openBytes(key: CryptoKey, sealed: SealedBytes): Promise<ArrayBuffer> {
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.data);
+}
@@ -0,0 +1,96 @@
+/**
+ * CSV reading: delimiter detection and parsing (quoted fields, doubled
+ * quotes, line breaks inside quotes, CRLF), and writing.
+ */
+
+import type { ExportCell } from '../components/constants/types';
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+
+/** Field count of one line, ignoring delimiters inside quotes */
+function countFields(line: string, delimiter: string): number {
+  let count = 1;
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === delimiter && !quoted) count += 1;
+  }
+  return count;
+}
+
+/**
+ * Delimiter that splits the first lines into the same number (> 1) of
+ * fields; the most fields wins. Comma when nothing fits.
+ */
+export function detectDelimiter(text: string): string {
+  const lines = text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter((l) => l.trim() !== '')
+    .slice(0, 10);
+  let best: { delimiter: string; fields: number } = { delimiter: ',', fields: 1 };
+  CSV_DELIMITERS.forEach((delimiter) => {
+    const counts = lines.map((l) => countFields(l, delimiter));
+    const consistent = counts.every((c) => c === counts[0]);
+    if (consistent && counts[0] > best.fields) best = { delimiter, fields: counts[0] };
+  });
+  return best.delimiter;
+}
+
+/** Rows of fields; blank lines are skipped */
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i += 1;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Field quoted when it holds the delimiter, a quote or a line break. Text
+ * starting with = + - @ gets a leading ' so spreadsheets don't run it as a formula.
+ */
+function formatField(cell: ExportCell, delimiter: string): string {
+  if (cell === null) return '';
+  const text = typeof cell === 'string' && /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : String(cell);
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** CSV text of rows, CRLF line ends (what spreadsheet apps expect) */
+export function formatCsv(rows: ExportCell[][], delimiter = ','): string {
+  return rows.map((row) => row.map((cell) => formatField(cell, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,126 @@
+/**
+ * Quote asset and home currency helpers
+ * Work out which asset a trade's prices/PNL are in, and convert PNL into the home currency.
+ */
+
+import type { MarketDataMap, Trade } from '../components/constants/types';
+import { getTradeNetPnL } from './calculations';
+
+/** Common Binance quote assets, longest first so FDUSD wins over USD-like suffixes */
+const KNOWN_QUOTE_ASSETS = [
+  'FDUSD', 'USDT', 'USDC', 'TUSD', 'BUSD', 'DAI',
+  'BTC', 'ETH', 'BNB', 'EUR', 'GBP', 'TRY', 'BRL', 'AUD', 'JPY', 'TRX', 'XRP', 'DOGE',
+].sort((a, b) => b.length - a.length);
+
+/** Asset used to bridge conversions without a direct pair */
+const BRIDGE_ASSET = 'USDT';
+
+/** Quote asset from the symbol suffix (ETHBTC → BTC); falls back to USDT */
+export function inferQuoteAsset(symbol: string): string {
+  const upper = symbol.toUpperCase();
+  return KNOWN_QUOTE_ASSETS.find((q) => upper.length > q.length && upper.endsWith(q)) ?? BRIDGE_ASSET;
+}
+
+export function getTradeQuoteAsset(trade: Trade): string {
+  return (trade.quoteAsset ?? inferQuoteAsset(trade.symbol)).toUpperCase();
+}
+
+/** One market hop of a conversion: rate = price, or 1 / price when inverse */
+export interface ConversionStep {
+  symbol: string;
+  inverse: boolean;
+}
+
+/**
+ * Market pairs converting `from` into `to`: direct, inverse, or bridged via USDT.
+ * Without a symbol list (not loaded yet) the direct pair is assumed to exist.
+ * Returns [] when from === to and null when no path exists.
+ */
+export function getConversionSteps(
+  from: string,
+  to: string,
+  available: Set<string>
+): ConversionStep[] | null {
+  if (from === to) return [];
+  if (available.size === 0 || available.has(from + to)) return [{ symbol: from + to, inverse: false }];
+  if (available.has(to + from)) return [{ symbol: to + from, inverse: true }];
+  if (from !== BRIDGE_ASSET && to !== BRIDGE_ASSET) {
+    const first = getConversionSteps(from, BRIDGE_ASSET, available);
+    const second = getConversionSteps(BRIDGE_ASSET, to, available);
+    if (first && second) return [...first, ...second];
+  }
+  return null;
+}
+
+/** Multiply out step prices; null if any price is missing */
+export function getRateFromSteps(
+  steps: ConversionStep[],
+  priceOf: (symbol: string) => number | undefined
+): number | null {
+  let rate = 1;
+  for (const step of steps) {
+    const price = priceOf(step.symbol);
+    if (price == null || !(price > 0)) return null;
+    rate *= step.inverse ? 1 / price : price;
+  }
+  return rate;
+}
+
+/** Live quote → home rates from market data, keyed by quote asset */
+export function getLiveHomeRates(
+  conversionSteps: Record<string, ConversionStep[] | null>,
+  marketData: MarketDataMap
+): Record<string, number> {
+  const rates: Record<string, number> = {};
+  Object.entries(conversionSteps).forEach(([quote, steps]) => {
+    if (!steps) return;
+    const rate = getRateFromSteps(steps, (s) => (marketData[s] ? parseFloat(marketData[s].last) : undefined));
+    if (rate != null) rates[quote] = rate;
+  });
+  return rates;
+}
+
+/**
+ * Quote → home rate for a trade: 1 for same currency, the stored close rate for
+ * closed trades converted into this home currency, else the live rate.
+ */
+export function getTradeHomeRate(
+  trade: Trade,
+  homeCurrency: string,
+  liveRates: Record<string, number>
+): number | null {
+  const quote = getTradeQuoteAsset(trade);
+  if (quote === homeCurrency) return 1;
+  if (trade.status === 'CLOSED' && trade.homeConversion?.currency === homeCurrency) {
+    return trade.homeConversion.rate;
+  }
+  return liveRates[quote] ?? null;
+}
+
+export interface PnlTotals {
+  /** Net realized PNL summed per quote asset */
+  byQuote: Record<string, number>;
+  /** Sum of converted PNL in the home currency */
+  homeTotal: number;
+  /** Trades with PNL that could not be converted (no rate yet) */
+  unconverted: number;
+}
+
+/** Net realized PNL totals: per quote asset, and converted into the home currency */
+export function summarizePnlTotals(
+  trades: Trade[],
+  homeCurrency: string,
+  liveRates: Record<string, number>
+): PnlTotals {
+  const totals: PnlTotals = { byQuote: {}, homeTotal: 0, unconverted: 0 };
+  trades.forEach((trade) => {
+    const pnl = getTradeNetPnL(trade);
+    if (pnl == null) return;
+    const quote = getTradeQuoteAsset(trade);
+    totals.byQuote[quote] = (totals.byQuote[quote] ?? 0) + pnl;
+    const rate = getTradeHomeRate(trade, homeCurrency, liveRates);
+    if (rate == null) totals.unconverted += 1;
+    else totals.homeTotal += pnl * rate;
+  });
+  return totals;
+}
@@ -0,0 +1,13 @@
+/**
+ * Save a file through the browser's download (export and backup).
+ */
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoked after the click has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
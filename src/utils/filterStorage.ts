@@ -1,14 +1,22 @@
 /**
- * Persist filters to localStorage
+ * Persist filters to localStorage, one set per journal (and one for the
+ * combined view). Other tabs pick up changes through `storage` events
+ * (subscribeFilters).
  */
 
 import type { TradeFilters } from '../components/constants/types';
+import { DEFAULT_JOURNAL_ID } from './journals';
 
 const KEY = 'trade_journal_filters';
 
-export function loadFilters(): TradeFilters | null {
+/** The default journal keeps the original key, so filters saved before journals existed still apply */
+function keyFor(journalId: string): string {
+  return journalId === DEFAULT_JOURNAL_ID ? KEY : `${KEY}_${journalId}`;
+}
+
+export function loadFilters(journalId: string): TradeFilters | null {
   try {
-    const s = localStorage.getItem(KEY);
+    const s = localStorage.getItem(keyFor(journalId));
     if (!s) return null;
     return JSON.parse(s) as TradeFilters;
   } catch {
@@ -16,10 +24,34 @@ export function loadFilters(): TradeFilters | null {
   }
 }
 
-export function saveFilters(filters: TradeFilters): void {
+export function saveFilters(journalId: string, filters: TradeFilters): void {
   try {
-    localStorage.setItem(KEY, JSON.stringify(filters));
+    localStorage.setItem(keyFor(journalId), JSON.stringify(filters));
   } catch (e) {
     console.error('Failed to save filters', e);
   }
 }
+
+/** Drop the saved filters of a deleted journal */
+export function removeFilters(journalId: string): void {
+  try {
+    localStorage.removeItem(keyFor(journalId));
+  } catch {
+    // ignore
+  }
+}
+
+/** Call `callback` when another tab saves filters of `journalId`; returns unsubscribe */
+export function subscribeFilters(journalId: string, callback: (filters: TradeFilters) => void): () => void {
+  const key = keyFor(journalId);
+  const handler = (e: StorageEvent) => {
+    if (e.key !== key || !e.newValue) return;
+    try {
+      callback(JSON.parse(e.newValue) as TradeFilters);
+    } catch {
+      // ignore malformed values
+    }
+  };
+  window.addEventListener('storage', handler);
+  return () => window.removeEventListener('storage', handler);
+}
@@ -0,0 +1,11 @@
+/**
+ * Ids for records made in the browser: trades, legs, list entries, tabs.
+ */
+
+let idCounter = 0;
+
+/** Unique id with a prefix (e.g. prefix "leg" → leg-1718000000000-3) */
+export function createId(prefix: string): string {
+  idCounter += 1;
+  return `${prefix}-${Date.now()}-${idCounter}`;
+}
@@ -0,0 +1,20 @@
+/**
+ * Journal form drafts
+ * The journal list as edited in JournalsModal. Ids survive renames, so
+ * trades stay in their journal when its name changes.
+ */
+
+import type { Journal } from '../components/constants/types';
+import { createId } from './ids';
+import { parseNameList } from './nameLists';
+
+export function createJournalDraft(): Journal {
+  return { id: createId('journal'), name: '' };
+}
+
+/** Names must be non-empty and unique ignoring case */
+export function parseJournalDrafts(drafts: Journal[]): { journals: Journal[]; error: string | null } {
+  const { names, error } = parseNameList(drafts, (d) => d.name, 'Journals need a name');
+  if (error) return { journals: [], error };
+  return { journals: drafts.map((d, i) => ({ id: d.id, name: names[i] })), error: null };
+}
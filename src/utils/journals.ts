@@ -0,0 +1,23 @@
+/**
+ * Journals (accounts)
+ * Every trade belongs to one journal; trades saved before journals existed
+ * have no journalId and belong to the default journal.
+ */
+
+import type { Trade } from '../components/constants/types';
+
+/** Journal that always exists and holds trades without a journalId */
+export const DEFAULT_JOURNAL_ID = 'default';
+
+/** View id of the combined view over all journals */
+export const ALL_JOURNALS_ID = 'all';
+
+export function getTradeJournalId(trade: Trade): string {
+  return trade.journalId ?? DEFAULT_JOURNAL_ID;
+}
+
+/** Trades of one journal; all trades for ALL_JOURNALS_ID */
+export function filterTradesByJournal(trades: Trade[], journalId: string): Trade[] {
+  if (journalId === ALL_JOURNALS_ID) return trades;
+  return trades.filter((t) => getTradeJournalId(t) === journalId);
+}
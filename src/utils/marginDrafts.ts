@@ -0,0 +1,80 @@
+/**
+ * Futures margin form drafts
+ * Leverage, margin mode, cross balance and maintenance margin rate as edited in
+ * CreateTradeModal / TradeDetailModal. Empty leverage = spot trade.
+ */
+
+import { MARGIN_MODE, type MarginMode, type Trade } from '../components/constants/types';
+
+export interface MarginDraft {
+  leverage: string;
+  marginMode: MarginMode;
+  /** Cross only: account balance backing the position */
+  crossBalance: string;
+  /** Maintenance margin rate in percent (0.4 = 0.4%); empty = default */
+  maintenanceMarginPct: string;
+}
+
+export type TradeMargin = Pick<
+  Trade,
+  'leverage' | 'marginMode' | 'crossMarginBalance' | 'maintenanceMarginRate'
+>;
+
+/** Binance USDⓈ-M max leverage */
+export const MAX_LEVERAGE = 125;
+
+export function createMarginDraft(trade?: Trade): MarginDraft {
+  return {
+    leverage: trade?.leverage != null ? String(trade.leverage) : '',
+    marginMode: trade?.marginMode ?? MARGIN_MODE.ISOLATED,
+    crossBalance: trade?.crossMarginBalance != null ? String(trade.crossMarginBalance) : '',
+    maintenanceMarginPct:
+      trade?.maintenanceMarginRate != null ? String(Number((trade.maintenanceMarginRate * 100).toFixed(6))) : '',
+  };
+}
+
+/**
+ * Parse the draft into trade margin fields. All fields are cleared when
+ * leverage is empty, so a trade can be switched back to spot.
+ */
+export function parseMarginDraft(draft: MarginDraft): { margin: TradeMargin; error: string | null } {
+  const cleared: TradeMargin = {
+    leverage: undefined,
+    marginMode: undefined,
+    crossMarginBalance: undefined,
+    maintenanceMarginRate: undefined,
+  };
+  if (!draft.leverage.trim()) return { margin: cleared, error: null };
+
+  const leverage = parseFloat(draft.leverage);
+  if (isNaN(leverage) || leverage < 1 || leverage > MAX_LEVERAGE) {
+    return { margin: cleared, error: `Leverage must be between 1 and ${MAX_LEVERAGE}` };
+  }
+
+  let crossMarginBalance: number | undefined;
+  if (draft.marginMode === MARGIN_MODE.CROSS && draft.crossBalance.trim()) {
+    crossMarginBalance = parseFloat(draft.crossBalance);
+    if (isNaN(crossMarginBalance) || crossMarginBalance <= 0) {
+      return { margin: cleared, error: 'Cross margin balance must be a positive number' };
+    }
+  }
+
+  let maintenanceMarginRate: number | undefined;
+  if (draft.maintenanceMarginPct.trim()) {
+    const pct = parseFloat(draft.maintenanceMarginPct);
+    if (isNaN(pct) || pct < 0 || pct >= 100 / leverage) {
+      return { margin: cleared, error: 'Maintenance margin must be below the initial margin rate' };
+    }
+    maintenanceMarginRate = pct / 100;
+  }
+
+  return {
+    margin: { leverage, marginMode: draft.marginMode, crossMarginBalance, maintenanceMarginRate },
+    error: null,
+  };
+}
+
+/** Parsed margin fields for live previews; spot when the draft doesn't parse */
+export function toValidMargin(draft: MarginDraft): TradeMargin {
+  return parseMarginDraft(draft).margin;
+}
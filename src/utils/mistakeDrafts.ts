@@ -0,0 +1,22 @@
+/**
+ * Mistake category form drafts
+ * The category list as edited in MistakesModal. Ids survive renames, so
+ * trades keep their mistakes when a label changes.
+ */
+
+import type { MistakeCategory } from '../components/constants/types';
+import { createId } from './ids';
+import { parseNameList } from './nameLists';
+
+export function createMistakeDraft(): MistakeCategory {
+  return { id: createId('mistake'), label: '' };
+}
+
+/** Labels must be non-empty and unique ignoring case */
+export function parseMistakeDrafts(
+  drafts: MistakeCategory[]
+): { categories: MistakeCategory[]; error: string | null } {
+  const { names, error } = parseNameList(drafts, (d) => d.label, 'Mistake categories need a name');
+  if (error) return { categories: [], error };
+  return { categories: drafts.map((d, i) => ({ id: d.id, label: names[i] })), error: null };
+}
@@ -0,0 +1,60 @@
+/**
+ * Mistake cost report over closed trades.
+ * A trade with several mistakes counts toward each of them, so category
+ * totals can add up to more than the journal total.
+ */
+
+import type { MistakeCategory, Trade } from '../components/constants/types';
+import { getTradeRealizedR } from './calculations';
+import { summarizePnlTotals, type PnlTotals } from './currency';
+
+export interface MistakeCost {
+  /** null for the baseline row of closed trades without mistakes */
+  category: MistakeCategory | null;
+  tradeCount: number;
+  /** Net realized PNL of those trades (negative = what the mistake cost) */
+  totals: PnlTotals;
+  /** Average realized R; null without R data */
+  averageR: number | null;
+}
+
+function summarize(
+  category: MistakeCategory | null,
+  trades: Trade[],
+  homeCurrency: string,
+  liveRates: Record<string, number>
+): MistakeCost {
+  const rs = trades.map(getTradeRealizedR).filter((r): r is number => r != null);
+  return {
+    category,
+    tradeCount: trades.length,
+    totals: summarizePnlTotals(trades, homeCurrency, liveRates),
+    averageR: rs.length ? rs.reduce((sum, r) => sum + r, 0) / rs.length : null,
+  };
+}
+
+/**
+ * One row per category, most costly (lowest home-currency PNL) first, then
+ * the clean-trade baseline.
+ */
+export function calculateMistakeCosts(
+  trades: Trade[],
+  categories: MistakeCategory[],
+  homeCurrency: string,
+  liveRates: Record<string, number>
+): { rows: MistakeCost[]; clean: MistakeCost } {
+  const closed = trades.filter((t) => t.status === 'CLOSED');
+  const known = new Set(categories.map((c) => c.id));
+  const rows = categories
+    .map((category) =>
+      summarize(category, closed.filter((t) => t.mistakes?.includes(category.id)), homeCurrency, liveRates)
+    )
+    .sort((a, b) => a.totals.homeTotal - b.totals.homeTotal);
+  const clean = summarize(
+    null,
+    closed.filter((t) => !(t.mistakes ?? []).some((id) => known.has(id))),
+    homeCurrency,
+    liveRates
+  );
+  return { rows, clean };
+}
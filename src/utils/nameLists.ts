@@ -0,0 +1,27 @@
+/**
+ * Named lists edited as rows (journals, mistake categories). Each row keeps
+ * its id across renames; names are tidied (trimmed, inner spaces collapsed)
+ * and must be non-empty and unique ignoring case.
+ */
+
+/**
+ * Tidied name of each row, in order, or the first problem found.
+ * `emptyError` is shown when a row has no name.
+ */
+export function parseNameList<T>(
+  rows: T[],
+  getName: (row: T) => string,
+  emptyError: string
+): { names: string[]; error: string | null } {
+  const seen = new Set<string>();
+  const names: string[] = [];
+  for (const row of rows) {
+    const name = getName(row).trim().replace(/\s+/g, ' ');
+    if (!name) return { names: [], error: emptyError };
+    const key = name.toLowerCase();
+    if (seen.has(key)) return { names: [], error: `"${name}" is listed twice` };
+    seen.add(key);
+    names.push(name);
+  }
+  return { names, error: null };
+}
@@ -0,0 +1,194 @@
+/**
+ * Performance report for a date range (GMT days) and journal.
+ * Stats, the equity curve, breakdowns and best / worst trades use the trades
+ * closed in the range, with net PNL converted into the home currency so
+ * different quote assets add up; trades without a rate are counted but left
+ * out of the sums. The trade list also has trades opened in the range that
+ * are still open.
+ */
+
+import type { Trade } from '../components/constants/types';
+import { getDurationMs, getTradeCosts, getTradeNetPnL, getTradeRealizedR } from './calculations';
+import { getTradeHomeRate } from './currency';
+
+export interface ReportRange {
+  /** First and last day, YYYY-MM-DD, both included (GMT) */
+  from: string;
+  to: string;
+}
+
+export interface ReportTrade {
+  trade: Trade;
+  /** Net PNL in the quote asset; null while nothing is exited */
+  netPnl: number | null;
+  /** Net PNL in the home currency; null without PNL or rate */
+  netPnlHome: number | null;
+  r: number | null;
+}
+
+export interface ReportSummary {
+  closedCount: number;
+  openCount: number;
+  wins: number;
+  losses: number;
+  /** Share of closed trades with net PNL > 0; null without closed trades */
+  winRate: number | null;
+  netPnl: number;
+  grossProfit: number;
+  grossLoss: number;
+  /** Gross profit / gross loss; null without losses */
+  profitFactor: number | null;
+  averageWin: number | null;
+  averageLoss: number | null;
+  /** Average realized R; null without R data */
+  expectancyR: number | null;
+  /** Fees, commission and funding, in the home currency */
+  costs: number;
+  /** Largest fall of the equity curve from a previous high */
+  maxDrawdown: number;
+  averageHoldMs: number | null;
+  /** Closed trades whose PNL could not be converted */
+  unconverted: number;
+}
+
+export interface EquityPoint {
+  time: number;
+  /** Cumulative net PNL in the home currency */
+  equity: number;
+}
+
+export interface ReportBreakdownRow {
+  key: string;
+  trades: number;
+  wins: number;
+  winRate: number | null;
+  netPnl: number;
+  averageR: number | null;
+}
+
+export interface PerformanceReport {
+  from: number;
+  to: number;
+  summary: ReportSummary;
+  equity: EquityPoint[];
+  bySymbol: ReportBreakdownRow[];
+  byTag: ReportBreakdownRow[];
+  best: ReportTrade[];
+  worst: ReportTrade[];
+  /** Every trade in the report, by open time */
+  trades: ReportTrade[];
+}
+
+/** Best / worst trades listed */
+const HIGHLIGHT_COUNT = 5;
+
+export const UNTAGGED_LABEL = '(no tag)';
+
+/** YYYY-MM-DD of a timestamp, GMT */
+export function toDateInputGMT(ts: number): string {
+  return new Date(ts).toISOString().slice(0, 10);
+}
+
+/** This month so far */
+export function getDefaultReportRange(now = Date.now()): ReportRange {
+  const today = toDateInputGMT(now);
+  return { from: `${today.slice(0, 8)}01`, to: today };
+}
+
+/** Range as timestamps: start of the first day to the end of the last (GMT) */
+export function getReportBounds(range: ReportRange): { from: number; to: number } {
+  return { from: Date.parse(`${range.from}T00:00:00.000Z`), to: Date.parse(`${range.to}T23:59:59.999Z`) };
+}
+
+function average(values: number[]): number | null {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function breakdown(rows: ReportTrade[], keysOf: (trade: Trade) => string[]): ReportBreakdownRow[] {
+  const groups = new Map<string, ReportTrade[]>();
+  rows.forEach((row) => keysOf(row.trade).forEach((key) => groups.set(key, [...(groups.get(key) ?? []), row])));
+  return Array.from(groups, ([key, group]) => {
+    const wins = group.filter((r) => (r.netPnl ?? 0) > 0).length;
+    return {
+      key,
+      trades: group.length,
+      wins,
+      winRate: group.length ? wins / group.length : null,
+      netPnl: group.reduce((sum, r) => sum + (r.netPnlHome ?? 0), 0),
+      averageR: average(group.map((r) => r.r).filter((r): r is number => r != null)),
+    };
+  }).sort((a, b) => b.netPnl - a.netPnl);
+}
+
+export function buildPerformanceReport(
+  trades: Trade[],
+  range: ReportRange,
+  homeCurrency: string,
+  liveRates: Record<string, number>
+): PerformanceReport {
+  const { from, to } = getReportBounds(range);
+  const toRow = (trade: Trade): ReportTrade => {
+    const netPnl = getTradeNetPnL(trade);
+    const rate = getTradeHomeRate(trade, homeCurrency, liveRates);
+    return { trade, netPnl, netPnlHome: netPnl != null && rate != null ? netPnl * rate : null, r: getTradeRealizedR(trade) };
+  };
+
+  const closed = trades
+    .filter((t) => t.status === 'CLOSED' && t.closeTimestamp != null && t.closeTimestamp >= from && t.closeTimestamp <= to)
+    .sort((a, b) => a.closeTimestamp! - b.closeTimestamp!)
+    .map(toRow);
+  const open = trades.filter((t) => t.status === 'OPEN' && t.openTimestamp >= from && t.openTimestamp <= to).map(toRow);
+
+  const converted = closed.filter((r) => r.netPnlHome != null);
+  const pnls = converted.map((r) => r.netPnlHome!);
+  const winPnls = pnls.filter((p) => p > 0);
+  const lossPnls = pnls.filter((p) => p < 0);
+  const grossProfit = winPnls.reduce((sum, p) => sum + p, 0);
+  const grossLoss = -lossPnls.reduce((sum, p) => sum + p, 0);
+
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  const curve: EquityPoint[] = converted.map((r) => {
+    equity += r.netPnlHome!;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    return { time: r.trade.closeTimestamp!, equity };
+  });
+
+  const costs = closed.reduce((sum, r) => {
+    const rate = getTradeHomeRate(r.trade, homeCurrency, liveRates);
+    return rate != null ? sum + getTradeCosts(r.trade) * rate : sum;
+  }, 0);
+  const wins = closed.filter((r) => (r.netPnl ?? 0) > 0).length;
+  const ranked = [...converted].sort((a, b) => b.netPnlHome! - a.netPnlHome!);
+
+  return {
+    from,
+    to,
+    summary: {
+      closedCount: closed.length,
+      openCount: open.length,
+      wins,
+      losses: closed.filter((r) => (r.netPnl ?? 0) < 0).length,
+      winRate: closed.length ? wins / closed.length : null,
+      netPnl: grossProfit - grossLoss,
+      grossProfit,
+      grossLoss,
+      profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+      averageWin: average(winPnls),
+      averageLoss: average(lossPnls),
+      expectancyR: average(closed.map((r) => r.r).filter((r): r is number => r != null)),
+      costs,
+      maxDrawdown,
+      averageHoldMs: average(closed.map((r) => getDurationMs(r.trade.openTimestamp, r.trade.closeTimestamp!))),
+      unconverted: closed.length - converted.length,
+    },
+    equity: curve.length ? [{ time: from, equity: 0 }, ...curve] : [],
+    bySymbol: breakdown(closed, (t) => [t.symbol.toUpperCase()]),
+    byTag: breakdown(closed, (t) => (t.tags?.length ? Array.from(new Set(t.tags)) : [UNTAGGED_LABEL])),
+    best: ranked.filter((r) => r.netPnlHome! > 0).slice(0, HIGHLIGHT_COUNT),
+    worst: ranked.filter((r) => r.netPnlHome! < 0).reverse().slice(0, HIGHLIGHT_COUNT),
+    trades: [...closed, ...open].sort((a, b) => a.trade.openTimestamp - b.trade.openTimestamp),
+  };
+}
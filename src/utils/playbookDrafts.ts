@@ -0,0 +1,76 @@
+/**
+ * Playbook form drafts
+ * Playbook as edited in PlaybooksModal: rules are one per line of a textarea.
+ * Rules keep their id while their text is unchanged, so ticks on existing
+ * trades survive edits to other rules.
+ */
+
+import type { Playbook } from '../components/constants/types';
+import { createId } from './ids';
+
+export interface PlaybookDraft {
+  /** null for a new playbook */
+  id: string | null;
+  name: string;
+  description: string;
+  rules: string;
+  defaultRisk: string;
+}
+
+export function createPlaybookDraft(playbook?: Playbook): PlaybookDraft {
+  return {
+    id: playbook?.id ?? null,
+    name: playbook?.name ?? '',
+    description: playbook?.description ?? '',
+    rules: playbook?.rules.map((r) => r.text).join('\n') ?? '',
+    defaultRisk: playbook?.defaultRisk != null ? String(playbook.defaultRisk) : '',
+  };
+}
+
+/** Case- and whitespace-insensitive name key ("Breakout " = "breakout") */
+export function normalizePlaybookName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Parse the draft. Names must be unique ignoring case and spacing, and the
+ * checklist needs at least one rule.
+ */
+export function parsePlaybookDraft(
+  draft: PlaybookDraft,
+  playbooks: Playbook[]
+): { playbook: Playbook | null; error: string | null } {
+  const name = draft.name.trim().replace(/\s+/g, ' ');
+  if (!name) return { playbook: null, error: 'Please enter a playbook name' };
+  const duplicate = playbooks.find(
+    (p) => p.id !== draft.id && normalizePlaybookName(p.name) === normalizePlaybookName(name)
+  );
+  if (duplicate) return { playbook: null, error: `A playbook named "${duplicate.name}" already exists` };
+
+  const original = playbooks.find((p) => p.id === draft.id);
+  const texts = draft.rules.split('\n').map((line) => line.trim()).filter(Boolean);
+  if (texts.length === 0) return { playbook: null, error: 'Add at least one checklist rule (one per line)' };
+  const rules = texts.map((text) => ({
+    id: original?.rules.find((r) => r.text === text)?.id ?? createId('rule'),
+    text,
+  }));
+
+  let defaultRisk: number | undefined;
+  if (draft.defaultRisk.trim()) {
+    defaultRisk = parseFloat(draft.defaultRisk);
+    if (isNaN(defaultRisk) || defaultRisk <= 0) {
+      return { playbook: null, error: 'Default risk must be a positive amount' };
+    }
+  }
+
+  return {
+    playbook: {
+      id: draft.id ?? createId('playbook'),
+      name,
+      description: draft.description.trim() || undefined,
+      rules,
+      defaultRisk,
+    },
+    error: null,
+  };
+}
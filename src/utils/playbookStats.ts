@@ -0,0 +1,35 @@
+/**
+ * Per-playbook performance over closed trades.
+ * Win rate uses net PNL; expectancy is in R (average realized R), so trades in
+ * different quote assets compare on the same scale.
+ */
+
+import type { Playbook, Trade } from '../components/constants/types';
+import { getTradeNetPnL, getTradeRealizedR } from './calculations';
+
+export interface PlaybookStats {
+  tradeCount: number;
+  closedCount: number;
+  /** Share of closed trades with net PNL > 0; null without closed trades */
+  winRate: number | null;
+  /** Average realized R = winRate × avg win R − lossRate × avg loss R; null without R data */
+  expectancyR: number | null;
+  /** Closed trades with every checklist rule ticked */
+  fullChecklistCount: number;
+}
+
+export function calculatePlaybookStats(trades: Trade[], playbook: Playbook): PlaybookStats {
+  const linked = trades.filter((t) => t.playbookId === playbook.id);
+  const closed = linked.filter((t) => t.status === 'CLOSED');
+  const pnls = closed.map(getTradeNetPnL).filter((p): p is number => p != null);
+  const rs = closed.map(getTradeRealizedR).filter((r): r is number => r != null);
+  const ruleIds = playbook.rules.map((r) => r.id);
+
+  return {
+    tradeCount: linked.length,
+    closedCount: closed.length,
+    winRate: pnls.length ? pnls.filter((p) => p > 0).length / pnls.length : null,
+    expectancyR: rs.length ? rs.reduce((sum, r) => sum + r, 0) / rs.length : null,
+    fullChecklistCount: closed.filter((t) => ruleIds.every((id) => t.checkedRules?.includes(id))).length,
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Persist app settings (home currency, shown journal, tax report options) and
+ * the sample-list flag to localStorage
+ */
+
+import { TAX_JURISDICTION, TAX_LOT_METHOD, type AppSettings } from '../components/constants/types';
+import { DEFAULT_JOURNAL_ID } from './journals';
+
+const KEY = 'trade_journal_settings';
+const DEMO_LOADED_KEY = 'trade_journal_demo_loaded';
+
+export const defaultSettings: AppSettings = {
+  homeCurrency: 'USDT',
+  journalId: DEFAULT_JOURNAL_ID,
+  taxLotMethod: TAX_LOT_METHOD.FIFO,
+  taxJurisdiction: TAX_JURISDICTION.US,
+  taxLongTermDays: 365,
+};
+
+export function loadSettings(): AppSettings {
+  try {
+    const s = localStorage.getItem(KEY);
+    if (!s) return defaultSettings;
+    return { ...defaultSettings, ...(JSON.parse(s) as Partial<AppSettings>) };
+  } catch {
+    return defaultSettings;
+  }
+}
+
+export function saveSettings(settings: AppSettings): void {
+  try {
+    localStorage.setItem(KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Failed to save settings', e);
+  }
+}
+
+/** True once trades were added, so "Try sample list" is no longer offered */
+export function loadDemoLoaded(): boolean {
+  return localStorage.getItem(DEMO_LOADED_KEY) === 'true';
+}
+
+export function saveDemoLoaded(loaded: boolean): void {
+  try {
+    localStorage.setItem(DEMO_LOADED_KEY, String(loaded));
+  } catch (e) {
+    console.error('Failed to save settings', e);
+  }
+}
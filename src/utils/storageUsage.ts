@@ -0,0 +1,43 @@
+/**
+ * Storage usage helpers: size estimates, usage levels and readable save errors.
+ */
+
+import { STORAGE_USAGE_LEVEL, type StorageUsageLevel } from '../components/constants/types';
+
+/** Smallest localStorage limit of common browsers (counted in characters) */
+export const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+
+export const STORAGE_WARNING_RATIO = 0.8;
+export const STORAGE_CRITICAL_RATIO = 0.95;
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+}
+
+/** UTF-8 size of a value as JSON */
+export function getJsonSize(value: unknown): number {
+  return new TextEncoder().encode(JSON.stringify(value) ?? '').length;
+}
+
+export function getStorageUsageLevel(ratio: number): StorageUsageLevel {
+  if (ratio >= STORAGE_CRITICAL_RATIO) return STORAGE_USAGE_LEVEL.CRITICAL;
+  if (ratio >= STORAGE_WARNING_RATIO) return STORAGE_USAGE_LEVEL.WARNING;
+  return STORAGE_USAGE_LEVEL.OK;
+}
+
+/** Whether a write failed because storage is full (names differ between browsers) */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (!(error instanceof DOMException)) return false;
+  return error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED' || error.code === 22;
+}
+
+/** Message shown when saving trades or history failed */
+export function describeSaveError(error: unknown): string {
+  if (isQuotaExceededError(error)) {
+    return 'Browser storage is full. Download a backup, then delete old trades or attachments to free space.';
+  }
+  return error instanceof Error ? error.message : String(error);
+}
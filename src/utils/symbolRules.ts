@@ -0,0 +1,63 @@
+/**
+ * Symbol lot size / tick size helpers
+ * Validate quantities and prices against exchangeInfo filters and derive display precision.
+ */
+
+import type { SymbolRules } from '../components/constants/types';
+
+/** Decimal places implied by a step (0.001 → 3, 0.05 → 2, 1 → 0) */
+export function getStepDecimals(step: number): number {
+  if (!(step > 0)) return 0;
+  return Math.max(0, Math.ceil(-Math.log10(step) - 1e-9));
+}
+
+/** Whether value is a whole multiple of step (within float tolerance) */
+export function isMultipleOfStep(value: number, step: number): boolean {
+  if (!(step > 0)) return true;
+  const scaled = value / step;
+  return Math.abs(scaled - Math.round(scaled)) < 1e-6;
+}
+
+/** Error message for a quantity that breaks the symbol's LOT_SIZE filter, else null */
+export function validateQuantity(quantity: number, rules: SymbolRules): string | null {
+  if (rules.minQty > 0 && quantity < rules.minQty) {
+    return `Quantity must be at least ${rules.minQty}`;
+  }
+  if (rules.maxQty > 0 && quantity > rules.maxQty) {
+    return `Quantity must be at most ${rules.maxQty}`;
+  }
+  if (!isMultipleOfStep(quantity, rules.stepSize)) {
+    return `Quantity must be in steps of ${rules.stepSize}`;
+  }
+  return null;
+}
+
+/** Error message for a price that breaks the symbol's PRICE_FILTER, else null */
+export function validatePrice(price: number, rules: SymbolRules): string | null {
+  if (rules.minPrice > 0 && price < rules.minPrice) {
+    return `Price must be at least ${rules.minPrice}`;
+  }
+  if (!isMultipleOfStep(price, rules.tickSize)) {
+    return `Price must be in ticks of ${rules.tickSize}`;
+  }
+  return null;
+}
+
+export function getPriceDecimals(rules: SymbolRules | undefined): number | undefined {
+  return rules ? getStepDecimals(rules.tickSize) : undefined;
+}
+
+export function getQuantityDecimals(rules: SymbolRules | undefined): number | undefined {
+  return rules ? getStepDecimals(rules.stepSize) : undefined;
+}
+
+/**
+ * Format a price or quantity. With decimals (from tick/step size) the value is
+ * shown at exactly that precision; otherwise ≥ 1 gets 2+ decimals and < 1 gets 6.
+ */
+export function formatPrice(n: number, decimals?: number): string {
+  if (decimals != null) {
+    return n.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+  }
+  return n >= 1 ? n.toLocaleString(undefined, { minimumFractionDigits: 2 }) : n.toFixed(6);
+}
@@ -0,0 +1,20 @@
+/**
+ * Server sync display helpers
+ */
+
+import { SYNC_STATUS, type SyncStatus } from '../components/constants/types';
+
+export function getSyncStatusLabel(status: SyncStatus): string {
+  switch (status) {
+    case SYNC_STATUS.OFF:
+      return 'Off';
+    case SYNC_STATUS.IDLE:
+      return 'Synced';
+    case SYNC_STATUS.SYNCING:
+      return 'Syncing…';
+    case SYNC_STATUS.OFFLINE:
+      return 'Offline';
+    case SYNC_STATUS.ERROR:
+      return 'Sync error';
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Take-profit target form drafts
+ * String-valued target rows edited in CreateTradeModal / TradeDetailModal,
+ * parsed and validated against entry and stop on submit.
+ */
+
+import type { Position, TakeProfitTarget } from '../components/constants/types';
+import { createId } from './ids';
+
+export interface TakeProfitDraft {
+  id: string;
+  price: string;
+  percent: string;
+}
+
+export function createTakeProfitDraft(price = '', percent = ''): TakeProfitDraft {
+  return { id: createId('tp'), price, percent };
+}
+
+export function takeProfitsToDrafts(targets: TakeProfitTarget[] | undefined): TakeProfitDraft[] {
+  return (targets ?? []).map((t) => ({
+    id: t.id,
+    price: String(t.price),
+    percent: t.percent != null ? String(t.percent) : '',
+  }));
+}
+
+/** Targets from drafts, skipping rows that don't parse yet (for live planned R:R) */
+export function toValidTakeProfits(drafts: TakeProfitDraft[]): TakeProfitTarget[] {
+  return drafts
+    .map((d) => ({ id: d.id, price: parseFloat(d.price), percent: d.percent.trim() ? parseFloat(d.percent) : undefined }))
+    .filter((t) => t.price > 0 && (t.percent == null || t.percent > 0));
+}
+
+/**
+ * Parse drafts into targets ordered from nearest to furthest.
+ * Targets must sit on the profit side of entry (and stop, when set),
+ * and explicit percents can't add up to more than 100.
+ */
+export function parseTakeProfitDrafts(
+  drafts: TakeProfitDraft[],
+  position: Position,
+  entryPrice: number,
+  stopLoss: number | undefined
+): { targets: TakeProfitTarget[]; error: string | null } {
+  const targets: TakeProfitTarget[] = [];
+  for (const d of drafts) {
+    if (!d.price.trim() && !d.percent.trim()) continue;
+    const price = parseFloat(d.price);
+    const percent = d.percent.trim() ? parseFloat(d.percent) : undefined;
+    if (isNaN(price) || price <= 0) {
+      return { targets: [], error: 'Please enter a valid price for each take-profit target' };
+    }
+    if (percent != null && (isNaN(percent) || percent <= 0 || percent > 100)) {
+      return { targets: [], error: 'Target percent must be between 0 and 100' };
+    }
+    const inProfit = position === 'LONG' ? price > entryPrice : price < entryPrice;
+    if (!inProfit) {
+      return {
+        targets: [],
+        error: `Take-profit ${price} must be ${position === 'LONG' ? 'above' : 'below'} the entry price`,
+      };
+    }
+    targets.push({ id: d.id, price, percent });
+  }
+
+  const totalPercent = targets.reduce((sum, t) => sum + (t.percent ?? 0), 0);
+  if (totalPercent > 100 + 1e-9) {
+    return { targets: [], error: 'Take-profit percents add up to more than 100%' };
+  }
+  if (stopLoss != null && targets.length > 0) {
+    const stopOnLossSide = position === 'LONG' ? stopLoss < entryPrice : stopLoss > entryPrice;
+    if (!stopOnLossSide) {
+      return {
+        targets: [],
+        error: `Stop loss must be ${position === 'LONG' ? 'below' : 'above'} the entry price to plan R:R`,
+      };
+    }
+  }
+
+  const sorted = [...targets].sort((a, b) => (position === 'LONG' ? a.price - b.price : b.price - a.price));
+  return { targets: sorted, error: null };
+}
@@ -0,0 +1,92 @@
+/**
+ * Tax report CSV: one row per disposal (a lot, or the part of one, closed by
+ * an exit), then the yearly totals in the home currency. Times are GMT like
+ * the trade export; amounts are numbers with float noise removed.
+ */
+
+import { HOLDING_TERM, type ExportCell, type TaxLotMethod } from '../components/constants/types';
+import { formatTimestampGMT, roundQuantity } from './calculations';
+import type { TaxDisposal, TaxYearTotal } from './taxLots';
+
+export interface TaxExportOptions {
+  method: TaxLotMethod;
+  homeCurrency: string;
+  /** Journal name by id; when given (all accounts) a Journal column follows Symbol */
+  journalNames?: Record<string, string>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round(n: number | null): number | null {
+  return n != null ? roundQuantity(n) : null;
+}
+
+/** Rows of the CSV: the disposals in time order, a blank row, then the totals of their years */
+export function buildTaxExport(disposals: TaxDisposal[], years: TaxYearTotal[], options: TaxExportOptions): ExportCell[][] {
+  const { method, homeCurrency, journalNames } = options;
+  const headers = [
+    'Disposed (GMT)',
+    'Acquired (GMT)',
+    'Symbol',
+    ...(journalNames ? ['Journal'] : []),
+    'Side',
+    'Quantity',
+    'Quote Asset',
+    'Proceeds',
+    'Cost Basis',
+    'Gain',
+    'Holding Days',
+    'Term',
+    'Method',
+    `Proceeds (${homeCurrency})`,
+    `Cost Basis (${homeCurrency})`,
+    `Gain (${homeCurrency})`,
+  ];
+  const rows: ExportCell[][] = disposals.map((d) => [
+    formatTimestampGMT(d.disposedAt),
+    formatTimestampGMT(d.acquiredAt),
+    d.symbol,
+    ...(journalNames ? [journalNames[d.journalId] ?? 'Unknown journal'] : []),
+    d.position,
+    d.quantity,
+    d.quoteAsset,
+    round(d.proceeds),
+    round(d.costBasis),
+    round(d.gain),
+    Math.floor((d.disposedAt - d.acquiredAt) / DAY_MS),
+    d.term === HOLDING_TERM.LONG ? 'Long-term' : 'Short-term',
+    method,
+    round(d.proceedsHome),
+    round(d.costBasisHome),
+    round(d.gainHome),
+  ]);
+
+  const totals: ExportCell[][] = [
+    [
+      'Year',
+      'Disposals',
+      `Proceeds (${homeCurrency})`,
+      `Cost Basis (${homeCurrency})`,
+      `Short-term Gain (${homeCurrency})`,
+      `Long-term Gain (${homeCurrency})`,
+      `Total Gain (${homeCurrency})`,
+      'Without Rate',
+    ],
+    ...years.map((y) => [
+      y.year,
+      y.disposals,
+      round(y.proceeds),
+      round(y.costBasis),
+      round(y.shortTermGain),
+      round(y.longTermGain),
+      round(y.totalGain),
+      y.unconverted,
+    ]),
+  ];
+  return [headers, ...rows, [], ...totals];
+}
+
+/** tax-gains-2024-FIFO.csv, or tax-gains-all-years-FIFO.csv */
+export function getTaxExportFileName(year: number | null, method: TaxLotMethod): string {
+  return `tax-gains-${year ?? 'all-years'}-${method}.csv`;
+}
@@ -0,0 +1,315 @@
+/**
+ * Realized gains per disposal from trade executions (legs).
+ * Entry legs open tax lots and exit legs dispose of them. Lots are pooled per
+ * symbol and side across trades, so a sale can close a lot bought in another
+ * trade, as tax rules treat them. Disposals are matched FIFO, LIFO or HIFO
+ * (highest cost first). A trade's fees and commission are split over its legs
+ * by notional: the entry share adds to the cost basis and the exit share
+ * comes off the proceeds. Funding is income or expense, not a lot cost, and is
+ * left out.
+ *
+ * Short positions form their own pool: the sale to open is the lot (its
+ * proceeds) and the buy to cover is the disposal (its cost). HIFO then takes
+ * the lowest sale price first, the match giving the smallest gain, as it does
+ * for long lots.
+ *
+ * Amounts are in the quote asset. In the home currency, a lot is converted at
+ * the quote → home rate of its entry leg's time (entryRates, fetched by the
+ * caller; see getEntryRateRequests) and the exit at the disposing trade's
+ * rate (stored at close, live while the trade is open), so the cost basis
+ * keeps its acquisition rate.
+ */
+
+import {
+  HOLDING_TERM,
+  LEG_SIDE,
+  POSITION,
+  TAX_JURISDICTION,
+  TAX_LOT_METHOD,
+  type HoldingTerm,
+  type LegSide,
+  type Position,
+  type TaxJurisdictionRule,
+  type TaxLotMethod,
+  type Trade,
+} from '../components/constants/types';
+import { getTradeLegs, roundQuantity } from './calculations';
+import { getTradeHomeRate, getTradeQuoteAsset } from './currency';
+import { getTradeJournalId } from './journals';
+
+export interface TaxReportOptions {
+  method: TaxLotMethod;
+  jurisdiction: TaxJurisdictionRule;
+  /** Long-term threshold in days when the jurisdiction sets none in months (custom) */
+  longTermDays: number;
+  homeCurrency: string;
+  liveRates: Record<string, number>;
+  /** Quote → home rate at each entry leg's time, by getEntryRateKey; lots without one are not converted */
+  entryRates: Record<string, number>;
+}
+
+/** A quote → home rate the report needs at an entry leg's time */
+export interface EntryRateRequest {
+  key: string;
+  quote: string;
+  timestamp: number;
+}
+
+export interface TaxDisposal {
+  id: string;
+  symbol: string;
+  position: Position;
+  quoteAsset: string;
+  /** Trade whose entry leg opened the lot */
+  lotTradeId: string;
+  /** Trade whose exit leg disposed of it */
+  tradeId: string;
+  journalId: string;
+  acquiredAt: number;
+  disposedAt: number;
+  quantity: number;
+  /** Sale value less its share of fees (the lot's sale for shorts) */
+  proceeds: number;
+  /** Purchase value plus its share of fees (the cover for shorts) */
+  costBasis: number;
+  gain: number;
+  term: HoldingTerm;
+  /** Home currency amounts; null when the entry or the exit has no rate */
+  proceedsHome: number | null;
+  costBasisHome: number | null;
+  gainHome: number | null;
+}
+
+/** Exit quantity no open lot was left for (legs out of order or a missing entry) */
+export interface TaxUnmatched {
+  tradeId: string;
+  symbol: string;
+  position: Position;
+  disposedAt: number;
+  quantity: number;
+}
+
+export interface TaxYearTotal {
+  year: number;
+  disposals: number;
+  /** Home currency; disposals without a rate are left out */
+  proceeds: number;
+  costBasis: number;
+  shortTermGain: number;
+  longTermGain: number;
+  totalGain: number;
+  /** Disposals that could not be converted */
+  unconverted: number;
+}
+
+export interface TaxReport {
+  /** By disposal time */
+  disposals: TaxDisposal[];
+  unmatched: TaxUnmatched[];
+  /** Newest year first */
+  years: TaxYearTotal[];
+}
+
+interface TaxLot {
+  tradeId: string;
+  acquiredAt: number;
+  remaining: number;
+  /** Cost (long) or proceeds (short) per unit, fees included */
+  unitValue: number;
+  /** Quote → home rate at the entry leg's time; null when there is none (yet) */
+  homeRate: number | null;
+}
+
+interface LegEvent {
+  trade: Trade;
+  side: LegSide;
+  timestamp: number;
+  quantity: number;
+  /** Per unit, after the leg's share of fees: cost of a buy or proceeds of a sale */
+  unitValue: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+/** Start of the GMT day of a timestamp */
+function gmtDay(ts: number): number {
+  return Math.floor(ts / DAY_MS) * DAY_MS;
+}
+
+/** Holding period of a lot under the jurisdiction's rule, compared on GMT days */
+export function getHoldingTerm(
+  acquiredAt: number,
+  disposedAt: number,
+  jurisdiction: TaxJurisdictionRule,
+  longTermDays: number
+): HoldingTerm {
+  if (jurisdiction.longTermMonths != null) {
+    const anniversary = new Date(gmtDay(acquiredAt));
+    anniversary.setUTCMonth(anniversary.getUTCMonth() + jurisdiction.longTermMonths);
+    return gmtDay(disposedAt) > anniversary.getTime() ? HOLDING_TERM.LONG : HOLDING_TERM.SHORT;
+  }
+  if (jurisdiction.id === TAX_JURISDICTION.CUSTOM) {
+    return (gmtDay(disposedAt) - gmtDay(acquiredAt)) / DAY_MS > longTermDays ? HOLDING_TERM.LONG : HOLDING_TERM.SHORT;
+  }
+  return HOLDING_TERM.SHORT;
+}
+
+/** Leg events of a trade with fees and commission split by notional */
+function getLegEvents(trade: Trade): LegEvent[] {
+  const legs = getTradeLegs(trade).filter((leg) => leg.quantity > 0);
+  const notional = legs.reduce((sum, leg) => sum + leg.price * leg.quantity, 0);
+  const fees = (trade.fees ?? 0) + (trade.commission ?? 0);
+  // A buy costs its fee on top; a sale yields less by its fee
+  const isBuy = (side: LegSide) => (side === LEG_SIDE.ENTRY) === (trade.position === POSITION.LONG);
+  return legs.map((leg) => {
+    const fee = notional > 0 ? (fees * leg.price * leg.quantity) / notional : 0;
+    return {
+      trade,
+      side: leg.side,
+      timestamp: leg.timestamp,
+      quantity: leg.quantity,
+      unitValue: leg.price + (isBuy(leg.side) ? fee : -fee) / leg.quantity,
+    };
+  });
+}
+
+/** Key of an entry rate; rates are per minute, like the 1-minute candles they come from */
+export function getEntryRateKey(quote: string, homeCurrency: string, timestamp: number): string {
+  return `${quote}|${homeCurrency}|${Math.floor(timestamp / MINUTE_MS)}`;
+}
+
+/** Entry-time rates the report of these trades needs, one per quote asset and minute */
+export function getEntryRateRequests(trades: Trade[], homeCurrency: string): EntryRateRequest[] {
+  const requests = new Map<string, EntryRateRequest>();
+  trades.forEach((trade) => {
+    const quote = getTradeQuoteAsset(trade);
+    if (quote === homeCurrency) return;
+    getTradeLegs(trade)
+      .filter((leg) => leg.side === LEG_SIDE.ENTRY && leg.quantity > 0)
+      .forEach((leg) => {
+        const key = getEntryRateKey(quote, homeCurrency, leg.timestamp);
+        if (!requests.has(key)) requests.set(key, { key, quote, timestamp: leg.timestamp });
+      });
+  });
+  return Array.from(requests.values());
+}
+
+/** Open lots of a pool in the order the method disposes of them */
+function orderLots(lots: TaxLot[], method: TaxLotMethod, position: Position): TaxLot[] {
+  const open = lots.filter((lot) => lot.remaining > 0);
+  if (method === TAX_LOT_METHOD.LIFO) return open.sort((a, b) => b.acquiredAt - a.acquiredAt);
+  if (method === TAX_LOT_METHOD.HIFO) {
+    // Smallest gain first: highest cost of a long lot, lowest sale of a short one
+    const sign = position === POSITION.LONG ? -1 : 1;
+    return open.sort((a, b) => sign * (a.unitValue - b.unitValue) || a.acquiredAt - b.acquiredAt);
+  }
+  return open.sort((a, b) => a.acquiredAt - b.acquiredAt);
+}
+
+export function buildTaxReport(trades: Trade[], options: TaxReportOptions): TaxReport {
+  // Entries before exits at the same time, so a scale-in is there to be sold
+  const events = trades
+    .flatMap(getLegEvents)
+    .sort((a, b) => a.timestamp - b.timestamp || (a.side === b.side ? 0 : a.side === LEG_SIDE.ENTRY ? -1 : 1));
+
+  const pools = new Map<string, TaxLot[]>();
+  const disposals: TaxDisposal[] = [];
+  const unmatched: TaxUnmatched[] = [];
+
+  events.forEach((event) => {
+    const { trade } = event;
+    const symbol = trade.symbol.toUpperCase();
+    const key = `${symbol}|${trade.position}`;
+    const pool = pools.get(key) ?? [];
+    pools.set(key, pool);
+
+    const quote = getTradeQuoteAsset(trade);
+    if (event.side === LEG_SIDE.ENTRY) {
+      pool.push({
+        tradeId: trade.id,
+        acquiredAt: event.timestamp,
+        remaining: event.quantity,
+        unitValue: event.unitValue,
+        homeRate:
+          quote === options.homeCurrency
+            ? 1
+            : options.entryRates[getEntryRateKey(quote, options.homeCurrency, event.timestamp)] ?? null,
+      });
+      return;
+    }
+
+    const rate = getTradeHomeRate(trade, options.homeCurrency, options.liveRates);
+    let left = event.quantity;
+    for (const lot of orderLots(pool, options.method, trade.position)) {
+      if (left <= 0) break;
+      const quantity = Math.min(left, lot.remaining);
+      lot.remaining = roundQuantity(lot.remaining - quantity);
+      left = roundQuantity(left - quantity);
+
+      const lotValue = lot.unitValue * quantity;
+      const exitValue = event.unitValue * quantity;
+      const isLong = trade.position === POSITION.LONG;
+      const proceeds = isLong ? exitValue : lotValue;
+      const costBasis = isLong ? lotValue : exitValue;
+      // Converted only when both legs have a rate, so a disposal is never half in the home currency
+      const lotHome = lot.homeRate != null && rate != null ? lotValue * lot.homeRate : null;
+      const exitHome = lot.homeRate != null && rate != null ? exitValue * rate : null;
+      const proceedsHome = isLong ? exitHome : lotHome;
+      const costBasisHome = isLong ? lotHome : exitHome;
+      disposals.push({
+        id: `${trade.id}-${disposals.length}`,
+        symbol,
+        position: trade.position,
+        quoteAsset: quote,
+        lotTradeId: lot.tradeId,
+        tradeId: trade.id,
+        journalId: getTradeJournalId(trade),
+        acquiredAt: lot.acquiredAt,
+        disposedAt: event.timestamp,
+        quantity,
+        proceeds,
+        costBasis,
+        gain: proceeds - costBasis,
+        term: getHoldingTerm(lot.acquiredAt, event.timestamp, options.jurisdiction, options.longTermDays),
+        proceedsHome,
+        costBasisHome,
+        gainHome: proceedsHome != null && costBasisHome != null ? proceedsHome - costBasisHome : null,
+      });
+    }
+    if (left > 0) {
+      unmatched.push({ tradeId: trade.id, symbol, position: trade.position, disposedAt: event.timestamp, quantity: left });
+    }
+  });
+
+  return { disposals, unmatched, years: getYearTotals(disposals) };
+}
+
+function getYearTotals(disposals: TaxDisposal[]): TaxYearTotal[] {
+  const years = new Map<number, TaxYearTotal>();
+  disposals.forEach((d) => {
+    const year = new Date(d.disposedAt).getUTCFullYear();
+    const total = years.get(year) ?? {
+      year,
+      disposals: 0,
+      proceeds: 0,
+      costBasis: 0,
+      shortTermGain: 0,
+      longTermGain: 0,
+      totalGain: 0,
+      unconverted: 0,
+    };
+    years.set(year, total);
+    total.disposals += 1;
+    if (d.proceedsHome == null || d.costBasisHome == null || d.gainHome == null) {
+      total.unconverted += 1;
+      return;
+    }
+    total.proceeds += d.proceedsHome;
+    total.costBasis += d.costBasisHome;
+    if (d.term === HOLDING_TERM.LONG) total.longTermGain += d.gainHome;
+    else total.shortTermGain += d.gainHome;
+    total.totalGain += d.gainHome;
+  });
+  return Array.from(years.values()).sort((a, b) => b.year - a.year);
+}
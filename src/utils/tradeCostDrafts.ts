@@ -0,0 +1,85 @@
+/**
+ * Trade cost form drafts
+ * Fees, commission and funding as edited in CreateTradeModal / TradeDetailModal.
+ * Fees follow the selected exchange's schedule until typed over.
+ */
+
+import { LIQUIDITY, type Liquidity, type Trade, type TradeLeg } from '../components/constants/types';
+import { getFeeSchedule } from '../components/constants/feeSchedules';
+import { estimateFees } from './calculations';
+import { toValidLegs, type TradeLegDraft } from './tradeLegDrafts';
+
+export interface TradeCostsDraft {
+  exchange: string;
+  entryLiquidity: Liquidity;
+  exitLiquidity: Liquidity;
+  /** null = estimated from the exchange schedule */
+  fees: string | null;
+  commission: string;
+  funding: string;
+}
+
+export type TradeCosts = Pick<Trade, 'exchange' | 'fees' | 'commission' | 'funding'>;
+
+export function createCostsDraft(trade?: Trade): TradeCostsDraft {
+  return {
+    exchange: trade?.exchange ?? '',
+    entryLiquidity: LIQUIDITY.TAKER,
+    exitLiquidity: LIQUIDITY.TAKER,
+    fees: trade?.fees != null ? String(trade.fees) : null,
+    commission: trade?.commission != null ? String(trade.commission) : '',
+    funding: trade?.funding != null ? String(trade.funding) : '',
+  };
+}
+
+/** Schedule-based fee estimate; null without an exchange */
+export function getEstimatedFees(draft: TradeCostsDraft, legs: TradeLeg[]): number | null {
+  const schedule = getFeeSchedule(draft.exchange);
+  if (!schedule) return null;
+  return estimateFees(legs, schedule, draft.entryLiquidity, draft.exitLiquidity);
+}
+
+/** Value shown in the fees input: the typed value, or the schedule estimate */
+export function getFeesDisplayValue(draft: TradeCostsDraft, legs: TradeLegDraft[]): string {
+  if (draft.fees !== null) return draft.fees;
+  const estimated = getEstimatedFees(draft, toValidLegs(legs));
+  return estimated != null ? String(Number(estimated.toFixed(8))) : '';
+}
+
+function parseOptionalAmount(value: string): number | undefined | 'invalid' {
+  if (!value.trim()) return undefined;
+  const n = parseFloat(value);
+  return isNaN(n) ? 'invalid' : n;
+}
+
+/**
+ * Parse drafts into trade cost fields for the given (parsed) legs.
+ * Fees and commission must be ≥ 0; funding may be negative (received).
+ */
+export function parseCostsDraft(
+  draft: TradeCostsDraft,
+  legs: TradeLeg[]
+): { costs: TradeCosts; error: string | null } {
+  const fees = draft.fees === null
+    ? getEstimatedFees(draft, legs) ?? undefined
+    : parseOptionalAmount(draft.fees);
+  const commission = parseOptionalAmount(draft.commission);
+  const funding = parseOptionalAmount(draft.funding);
+
+  if (fees === 'invalid' || commission === 'invalid' || funding === 'invalid') {
+    return { costs: {}, error: 'Please enter valid numbers for fees, commission and funding' };
+  }
+  if ((fees ?? 0) < 0 || (commission ?? 0) < 0) {
+    return { costs: {}, error: 'Fees and commission cannot be negative' };
+  }
+
+  return {
+    costs: {
+      exchange: draft.exchange || undefined,
+      fees: fees != null ? Number(fees.toFixed(8)) : undefined,
+      commission,
+      funding,
+    },
+    error: null,
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Trade table export: the TradeTable columns, in order, with the values the
+ * table shows (getTradeRowValues). Prices, quantities, PNL and R are numbers,
+ * rounded as the table rounds them where the symbol's tick / step size is
+ * known; times are GMT like the table. The quote asset and the open quantity
+ * of a partly closed trade, shown inline in the table, get their own columns.
+ */
+
+import {
+  EXPORT_FORMAT,
+  type ExportCell,
+  type ExportFormat,
+  type ExportTable,
+  type Trade,
+} from '../components/constants/types';
+import { formatTimestampGMT, roundQuantity } from './calculations';
+import { getTradeJournalId } from './journals';
+import { getTradeRowValues, type TradeRowContext, type TradeRowValues } from './tradeRow';
+
+export interface TradeExportOptions extends TradeRowContext {
+  /** Journal name by id; when given (combined view) a Journal column follows Symbol */
+  journalNames?: Record<string, string>;
+}
+
+interface ExportColumn {
+  header: string;
+  value: (trade: Trade, row: TradeRowValues) => ExportCell;
+}
+
+/** Rounded to `decimals` when known, else float noise removed */
+function round(n: number | null | undefined, decimals?: number): number | null {
+  if (n == null) return null;
+  return decimals != null ? Number(n.toFixed(decimals)) : roundQuantity(n);
+}
+
+function getColumns(options: TradeExportOptions): ExportColumn[] {
+  const { journalNames, homeCurrency } = options;
+  return [
+    { header: 'Symbol', value: (t) => t.symbol },
+    ...(journalNames
+      ? [{ header: 'Journal', value: (t: Trade) => journalNames[getTradeJournalId(t)] ?? 'Unknown journal' }]
+      : []),
+    { header: 'Status', value: (t) => t.status },
+    { header: 'Position', value: (t) => t.position },
+    { header: 'Open Time', value: (t) => formatTimestampGMT(t.openTimestamp) },
+    { header: 'Open (Buy/Sell)', value: (t) => (t.position === 'LONG' ? 'Buy' : 'Sell') },
+    { header: 'Close Time', value: (t) => (t.closeTimestamp != null ? formatTimestampGMT(t.closeTimestamp) : null) },
+    { header: 'Close (Sell/Buy)', value: (t) => (t.status === 'CLOSED' ? (t.position === 'LONG' ? 'Sell' : 'Buy') : null) },
+    { header: 'Duration', value: (_, r) => (r.duration === '—' ? null : r.duration) },
+    { header: 'Avg Open', value: (t, r) => round(t.openPrice, r.priceDecimals) },
+    { header: 'Avg Close', value: (t, r) => round(t.closePrice, r.priceDecimals) },
+    { header: 'Quantity', value: (_, r) => round(r.entryQuantity, r.qtyDecimals) },
+    {
+      header: 'Open Quantity',
+      value: (t, r) => (t.status === 'OPEN' ? round(r.openQuantity, r.qtyDecimals) : null),
+    },
+    { header: 'Quote Asset', value: (_, r) => r.quoteAsset },
+    { header: 'Gross PNL', value: (_, r) => round(r.pnl) },
+    { header: 'Net PNL', value: (_, r) => round(r.netPnl) },
+    { header: `Net PNL (${homeCurrency})`, value: (_, r) => round(r.netPnlHome) },
+    { header: 'Unrealized', value: (_, r) => round(r.unrealizedPnl) },
+    { header: 'Planned R', value: (t) => round(t.plannedR, 2) },
+    { header: 'R-Value', value: (_, r) => round(r.rMultiple, 2) },
+    { header: 'Stop Loss', value: (t, r) => round(r.currentStopLoss ?? t.stopLoss, r.priceDecimals) },
+    { header: 'Tags', value: (t) => (t.tags?.length ? t.tags.join(', ') : null) },
+    { header: 'Notes', value: (t) => t.notes || null },
+    { header: 'Current Price', value: (_, r) => round(r.currentPrice, r.priceDecimals) },
+    { header: 'Daily %', value: (_, r) => round(r.dailyChangePercent, 2) },
+  ];
+}
+
+/** Table of `trades` in the given order, as the trade table shows them */
+export function buildTradeExport(trades: Trade[], options: TradeExportOptions): ExportTable {
+  const columns = getColumns(options);
+  return {
+    headers: columns.map((c) => c.header),
+    rows: trades.map((trade) => {
+      const row = getTradeRowValues(trade, options);
+      return columns.map((c) => c.value(trade, row));
+    }),
+  };
+}
+
+/** trades-2024-05-01.csv / .xlsx (UTC date of the export) */
+export function getExportFileName(format: ExportFormat, exportedAt: number): string {
+  const extension = format === EXPORT_FORMAT.XLSX ? 'xlsx' : 'csv';
+  return `trades-${new Date(exportedAt).toISOString().slice(0, 10)}.${extension}`;
+}
@@ -26,6 +26,18 @@ export function filterTrades(trades: Trade[], filters: TradeFilters): Trade[] {
       );
       if (!hasAll) return false;
     }
+    if (filters.playbookId && trade.playbookId !== filters.playbookId) {
+      return false;
+    }
+    if (filters.mistakes.length > 0 && !filters.mistakes.some((id) => trade.mistakes?.includes(id))) {
+      return false;
+    }
+    if (filters.emotionRatings.length > 0 && !filters.emotionRatings.includes(String(trade.emotionRating))) {
+      return false;
+    }
+    if (filters.executionGrades.length > 0 && !filters.executionGrades.includes(String(trade.executionGrade))) {
+      return false;
+    }
     if (filters.searchNotes.trim()) {
       const query = filters.searchNotes.toLowerCase();
       const notes = (trade.notes || '').toLowerCase();
@@ -0,0 +1,78 @@
+/**
+ * Trade revisions: field-level diffs and display formatting for the audit trail.
+ */
+
+import {
+  REVISION_ACTION,
+  type FieldChange,
+  type RevisionAction,
+  type Trade,
+  type TradeRevision,
+} from '../components/constants/types';
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Bookkeeping fields, not part of what the user changed. The stored home
+ * conversion rate depends on each device's home currency and is filled in by
+ * the app, so it is not an edit either.
+ */
+const IGNORED_FIELDS: (keyof Trade)[] = ['id', 'updatedAt', 'homeConversion'];
+
+/** Fields whose value differs between two versions of a trade (id, updatedAt and homeConversion excluded) */
+export function diffTrades(before: Trade | null, after: Trade | null): FieldChange[] {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]) as Set<keyof Trade>;
+  const changes: FieldChange[] = [];
+  fields.forEach((field) => {
+    if (IGNORED_FIELDS.includes(field)) return;
+    const prev = before?.[field];
+    const next = after?.[field];
+    if (!isSameValue(prev, next)) changes.push({ field, before: prev, after: next });
+  });
+  return changes;
+}
+
+export function createRevision(
+  action: RevisionAction,
+  before: Trade | null,
+  after: Trade | null
+): TradeRevision {
+  const snapshot = (after ?? before)!;
+  return {
+    id: `rev-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    tradeId: snapshot.id,
+    action,
+    timestamp: Date.now(),
+    changes: action === REVISION_ACTION.CREATE ? [] : diffTrades(before, after),
+    snapshot,
+  };
+}
+
+/** Compact display of a diffed value */
+export function formatRevisionValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value) && value.every((v) => typeof v !== 'object')) return value.join(', ');
+  return JSON.stringify(value);
+}
+
+export function getRevisionActionLabel(action: RevisionAction): string {
+  switch (action) {
+    case REVISION_ACTION.CREATE:
+      return 'Created';
+    case REVISION_ACTION.UPDATE:
+      return 'Edited';
+    case REVISION_ACTION.DELETE:
+      return 'Deleted';
+    case REVISION_ACTION.RESTORE:
+      return 'Restored';
+  }
+}
+
+/** Whether restoring the revision would leave the trade unchanged */
+export function isRevisionCurrent(revision: TradeRevision, trade: Trade): boolean {
+  return diffTrades(revision.snapshot, trade).length === 0;
+}
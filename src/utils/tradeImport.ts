@@ -0,0 +1,384 @@
+/**
+ * CSV trade import: column mapping, date / number parsing and row → Trade
+ * conversion. One CSV row is one trade with a single entry and (when closed)
+ * a single exit. Rows are checked with validateTradeRecord like stored trades,
+ * and compared against existing trades to flag duplicates before anything is
+ * saved.
+ */
+
+import {
+  IMPORT_DATE_FORMAT,
+  IMPORT_DUPLICATE,
+  LEG_SIDE,
+  POSITION,
+  TRADE_STATUS,
+  type CsvImportSettings,
+  type ImportDateFormat,
+  type ImportField,
+  type ImportRow,
+  type Position,
+  type Trade,
+  type TradeLeg,
+  type TradeStatus,
+} from '../components/constants/types';
+import { getTradeFieldsFromLegs, getTradeRFields } from './calculations';
+import { createId } from './ids';
+import { validateTradeRecord } from './tradeSchema';
+
+export interface ImportFieldInfo {
+  field: ImportField;
+  label: string;
+  required: boolean;
+  /** Normalized header names recognised for the field */
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldInfo[] = [
+  { field: 'symbol', label: 'Symbol', required: true, aliases: ['symbol', 'pair', 'market', 'ticker', 'instrument', 'contract', 'coin'] },
+  { field: 'position', label: 'Side (long / short)', required: true, aliases: ['side', 'position', 'direction', 'type', 'longshort'] },
+  { field: 'status', label: 'Status (open / closed)', required: false, aliases: ['status', 'state'] },
+  {
+    field: 'openTimestamp',
+    label: 'Open date',
+    required: true,
+    aliases: ['opentime', 'opendate', 'entrytime', 'entrydate', 'opened', 'openedat', 'date', 'datetime', 'time'],
+  },
+  {
+    field: 'closeTimestamp',
+    label: 'Close date',
+    required: false,
+    aliases: ['closetime', 'closedate', 'exittime', 'exitdate', 'closed', 'closedat'],
+  },
+  { field: 'openPrice', label: 'Entry price', required: true, aliases: ['openprice', 'entryprice', 'entry', 'open', 'buyprice', 'avgentry', 'price'] },
+  { field: 'closePrice', label: 'Exit price', required: false, aliases: ['closeprice', 'exitprice', 'exit', 'close', 'sellprice', 'avgexit'] },
+  { field: 'quantity', label: 'Quantity', required: true, aliases: ['quantity', 'qty', 'size', 'amount', 'volume', 'positionsize'] },
+  { field: 'fees', label: 'Fees', required: false, aliases: ['fees', 'fee', 'tradingfee', 'tradingfees'] },
+  { field: 'commission', label: 'Commission', required: false, aliases: ['commission', 'commissions'] },
+  { field: 'funding', label: 'Funding', required: false, aliases: ['funding', 'fundingfee', 'fundingfees'] },
+  { field: 'leverage', label: 'Leverage', required: false, aliases: ['leverage', 'lev'] },
+  { field: 'stopLoss', label: 'Stop loss', required: false, aliases: ['stoploss', 'stop', 'sl'] },
+  { field: 'quoteAsset', label: 'Quote asset', required: false, aliases: ['quoteasset', 'quote', 'currency', 'quotecurrency'] },
+  { field: 'notes', label: 'Notes', required: false, aliases: ['notes', 'note', 'comment', 'comments', 'description'] },
+  { field: 'tags', label: 'Tags', required: false, aliases: ['tags', 'tag', 'labels', 'setup'] },
+];
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/** Field → column for headers that match a known name; each column is used once */
+export function guessColumnMapping(headers: string[]): CsvImportSettings['mapping'] {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: CsvImportSettings['mapping'] = {};
+  const used = new Set<number>();
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    // Earlier aliases are the better match
+    for (const alias of aliases) {
+      const index = normalized.findIndex((h, i) => h === alias && !used.has(i));
+      if (index >= 0) {
+        mapping[field] = index;
+        used.add(index);
+        return;
+      }
+    }
+  });
+  return mapping;
+}
+
+// ---- Dates ----
+
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+const SLASH_DATE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})(?:[ T,]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?)?$/i;
+
+/** Guess the date format from sample values; day-first when nothing tells */
+export function detectDateFormat(samples: string[]): ImportDateFormat {
+  const values = samples.map((s) => s.trim()).filter((s) => s !== '');
+  if (values.length === 0) return IMPORT_DATE_FORMAT.ISO;
+  if (values.every((v) => /^\d{13}$/.test(v))) return IMPORT_DATE_FORMAT.UNIX_MS;
+  if (values.every((v) => /^\d{9,10}(\.\d+)?$/.test(v))) return IMPORT_DATE_FORMAT.UNIX_SECONDS;
+  if (values.every((v) => ISO_DATE.test(v))) return IMPORT_DATE_FORMAT.ISO;
+  const parts = values.map((v) => v.match(SLASH_DATE)).filter((m): m is RegExpMatchArray => m !== null);
+  if (parts.some((m) => Number(m[2]) > 12)) return IMPORT_DATE_FORMAT.MDY;
+  return IMPORT_DATE_FORMAT.DMY;
+}
+
+/** Offset of `timeZone` from UTC at the instant `utcMs`, in ms */
+function getTimeZoneOffset(timeZone: string, utcMs: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(utcMs));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  const wall = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wall - Math.floor(utcMs / 1000) * 1000;
+}
+
+/** UTC time of a wall-clock time (given as if it were UTC) in `timeZone` */
+function zonedToUtc(wallMs: number, timeZone: string): number {
+  if (timeZone === 'UTC') return wallMs;
+  const guess = wallMs - getTimeZoneOffset(timeZone, wallMs);
+  // Second pass puts times near a DST change on the right side of it
+  return wallMs - getTimeZoneOffset(timeZone, guess);
+}
+
+/** Whether the browser knows the IANA time zone */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function wallTime(y: number, mo: number, d: number, h = 0, mi = 0, s = 0, ms = 0): number | null {
+  if (mo < 1 || mo > 12 || d < 1 || h > 23 || mi > 59 || s > 59) return null;
+  const t = Date.UTC(y, mo - 1, d, h, mi, s, ms);
+  // Rejects 31/02 and the like, which Date.UTC would roll over
+  return new Date(t).getUTCDate() === d ? t : null;
+}
+
+/** Timestamp (ms) of a date cell, or null when it doesn't read in `format` */
+export function parseImportDate(value: string, format: ImportDateFormat, timeZone: string): number | null {
+  const v = value.trim();
+  if (v === '') return null;
+  if (format === IMPORT_DATE_FORMAT.UNIX_MS || format === IMPORT_DATE_FORMAT.UNIX_SECONDS) {
+    const n = Number(v);
+    if (!Number.isFinite(n) || n <= 0) return null;
+    return Math.round(format === IMPORT_DATE_FORMAT.UNIX_SECONDS ? n * 1000 : n);
+  }
+  if (format === IMPORT_DATE_FORMAT.ISO) {
+    const m = v.match(ISO_DATE);
+    if (!m) return null;
+    const wall = wallTime(+m[1], +m[2], +m[3], +(m[4] ?? 0), +(m[5] ?? 0), +(m[6] ?? 0), +(m[7] ?? '0').padEnd(3, '0'));
+    if (wall === null) return null;
+    if (!m[8]) return zonedToUtc(wall, timeZone);
+    if (m[8].toUpperCase() === 'Z') return wall;
+    const sign = m[8].startsWith('-') ? -1 : 1;
+    const digits = m[8].slice(1).replace(':', '');
+    return wall - sign * (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2))) * 60_000;
+  }
+  const m = v.match(SLASH_DATE);
+  if (!m) return null;
+  const [day, month] = format === IMPORT_DATE_FORMAT.DMY ? [+m[1], +m[2]] : [+m[2], +m[1]];
+  const year = m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3]);
+  let hour = +(m[4] ?? 0);
+  if (m[7]) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (m[7].toUpperCase() === 'PM' ? 12 : 0);
+  }
+  const wall = wallTime(year, month, day, hour, +(m[5] ?? 0), +(m[6] ?? 0));
+  return wall === null ? null : zonedToUtc(wall, timeZone);
+}
+
+// ---- Numbers ----
+
+/** Only read with a decimal comma: 1,5 / 0,0015 / 0,035 (a thousands group never starts with 0) / 1.234,56 */
+const DECIMAL_COMMA = /^[-+]?(0,\d+|\d+,(\d{1,2}|\d{4,})|\d{1,3}(\.\d{3})+,\d+)$/;
+/** Only read with a decimal point: 1.5 / 0.0015 / 1,234.56 */
+const DECIMAL_POINT = /^[-+]?(\d+\.(\d{1,2}|\d{4,})|\d{1,3}(,\d{3})+\.\d+)$/;
+/** Thousands commas with a decimal point: 1,234 / 1,234,567.5 */
+const COMMA_GROUPS = /^[-+]?[1-9]\d{0,2}(,\d{3})+(\.\d+)?$/;
+/** Thousands points with a decimal comma: 1.234 / 1.234.567,5 */
+const POINT_GROUPS = /^[-+]?[1-9]\d{0,2}(\.\d{3})+(,\d+)?$/;
+
+/**
+ * Comma when most sample values that hold a separator read as decimal commas.
+ * Values like 1,500 or 100,000 (US thousands or a decimal comma) decide
+ * nothing and count against the comma, so they fall back to the point.
+ */
+export function detectDecimalSeparator(samples: string[]): '.' | ',' {
+  const withSeparator = samples.map((s) => s.trim().replace(/[\s$€£¥%()]/g, '')).filter((s) => /[.,]/.test(s));
+  const commas = withSeparator.filter((s) => DECIMAL_COMMA.test(s)).length;
+  const points = withSeparator.filter((s) => DECIMAL_POINT.test(s)).length;
+  return commas > points && commas > withSeparator.length / 2 ? ',' : '.';
+}
+
+/**
+ * Number in a cell; currency signs, spaces and thousands separators are ignored, (12) reads as -12.
+ * The other separator is only dropped where it groups thousands: with a decimal point, 0,035 or 1,5
+ * is not a number (null, so the row is reported) rather than 35 or 15.
+ */
+export function parseImportNumber(value: string, decimalSeparator: '.' | ','): number | null {
+  let v = value.trim().replace(/[\s$€£¥%]/g, '');
+  if (v === '') return null;
+  let sign = 1;
+  if (/^\(.*\)$/.test(v)) {
+    sign = -1;
+    v = v.slice(1, -1);
+  }
+  if (decimalSeparator === ',') {
+    if (v.includes('.') && !POINT_GROUPS.test(v)) return null;
+    v = v.replace(/\./g, '').replace(',', '.');
+  } else {
+    if (v.includes(',') && !COMMA_GROUPS.test(v)) return null;
+    v = v.replace(/,/g, '');
+  }
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(v)) return null;
+  const n = Number(v) * sign;
+  return Number.isFinite(n) ? n : null;
+}
+
+function parsePosition(value: string): Position | null {
+  const v = value.trim().toLowerCase();
+  if (/^(long|buy|b|l|bull|bullish)$/.test(v)) return POSITION.LONG;
+  if (/^(short|sell|s|bear|bearish)$/.test(v)) return POSITION.SHORT;
+  return null;
+}
+
+function parseStatus(value: string): TradeStatus | null {
+  const v = value.trim().toLowerCase();
+  if (/^(open|opened|active|running)$/.test(v)) return TRADE_STATUS.OPEN;
+  if (/^(closed|close|done|exited|finished)$/.test(v)) return TRADE_STATUS.CLOSED;
+  return null;
+}
+
+// ---- Rows ----
+
+/** Two trades with this key are taken to be the same trade */
+export function getDuplicateKey(trade: Trade): string {
+  return [trade.symbol.toUpperCase(), trade.position, trade.openTimestamp, trade.openPrice, trade.quantity].join('|');
+}
+
+const DATE_FORMAT_LABELS: Record<ImportDateFormat, string> = {
+  [IMPORT_DATE_FORMAT.ISO]: 'YYYY-MM-DD HH:mm',
+  [IMPORT_DATE_FORMAT.DMY]: 'DD/MM/YYYY HH:mm',
+  [IMPORT_DATE_FORMAT.MDY]: 'MM/DD/YYYY HH:mm',
+  [IMPORT_DATE_FORMAT.UNIX_SECONDS]: 'Unix seconds',
+  [IMPORT_DATE_FORMAT.UNIX_MS]: 'Unix milliseconds',
+};
+
+export function getImportDateFormatLabel(format: ImportDateFormat): string {
+  return DATE_FORMAT_LABELS[format];
+}
+
+/** Trade from one CSV row, or the reasons it can't be imported */
+function rowToTrade(row: string[], settings: CsvImportSettings, journalId: string): { trade: Trade | null; errors: string[] } {
+  const errors: string[] = [];
+  const cell = (field: ImportField) => {
+    const index = settings.mapping[field];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+  const info = (field: ImportField) => IMPORT_FIELDS.find((f) => f.field === field)!.label;
+  const number = (field: ImportField, positive = false): number | undefined => {
+    const raw = cell(field);
+    if (raw === '') return undefined;
+    const n = parseImportNumber(raw, settings.decimalSeparator);
+    if (n === null || (positive && n <= 0)) {
+      errors.push(`${info(field)} "${raw}" is not a ${positive ? 'positive ' : ''}number`);
+      return undefined;
+    }
+    return n;
+  };
+  const date = (field: ImportField): number | undefined => {
+    const raw = cell(field);
+    if (raw === '') return undefined;
+    const t = parseImportDate(raw, settings.dateFormat, settings.timeZone);
+    if (t === null) errors.push(`${info(field)} "${raw}" is not a date in ${getImportDateFormatLabel(settings.dateFormat)}`);
+    return t ?? undefined;
+  };
+
+  const symbol = cell('symbol').toUpperCase().replace(/[\s/_-]/g, '');
+  if (!symbol) errors.push('Symbol is missing');
+  const position = parsePosition(cell('position'));
+  if (cell('position') === '') errors.push('Side is missing');
+  else if (!position) errors.push(`Side "${cell('position')}" is not long/short or buy/sell`);
+  const openTimestamp = date('openTimestamp');
+  const closeTimestamp = date('closeTimestamp');
+  const openPrice = number('openPrice', true);
+  const closePrice = number('closePrice', true);
+  const quantity = number('quantity', true);
+  IMPORT_FIELDS.filter((f) => f.required && cell(f.field) === '' && f.field !== 'symbol' && f.field !== 'position').forEach(
+    (f) => errors.push(`${f.label} is missing`)
+  );
+
+  let status: TradeStatus | null = closePrice !== undefined || closeTimestamp !== undefined ? TRADE_STATUS.CLOSED : TRADE_STATUS.OPEN;
+  if (cell('status') !== '') {
+    status = parseStatus(cell('status'));
+    if (!status) errors.push(`Status "${cell('status')}" is not open or closed`);
+  }
+  if (status === TRADE_STATUS.CLOSED && (closePrice === undefined || closeTimestamp === undefined)) {
+    errors.push('A closed trade needs an exit price and a close date');
+  }
+  if (openTimestamp !== undefined && closeTimestamp !== undefined && closeTimestamp < openTimestamp) {
+    errors.push('Close date is before the open date');
+  }
+  const fees = number('fees');
+  const commission = number('commission');
+  const funding = number('funding');
+  const leverage = number('leverage', true);
+  const stopLoss = number('stopLoss', true);
+  if (errors.length > 0 || !position || !status || openTimestamp === undefined || openPrice === undefined || quantity === undefined) {
+    return { trade: null, errors };
+  }
+
+  const legs: TradeLeg[] = [
+    { id: createId('leg'), side: LEG_SIDE.ENTRY, timestamp: openTimestamp, price: openPrice, quantity },
+  ];
+  if (status === TRADE_STATUS.CLOSED && closePrice !== undefined && closeTimestamp !== undefined) {
+    legs.push({ id: createId('leg'), side: LEG_SIDE.EXIT, timestamp: closeTimestamp, price: closePrice, quantity });
+  }
+  const tags = cell('tags')
+    .split(/[,;|]/)
+    .map((t) => t.trim())
+    .filter((t) => t !== '');
+  const trade: Trade = {
+    id: createId('trade'),
+    symbol,
+    position,
+    status,
+    ...getTradeFieldsFromLegs(legs),
+    legs,
+    quoteAsset: cell('quoteAsset').toUpperCase() || undefined,
+    fees,
+    commission,
+    funding,
+    leverage,
+    stopLoss,
+    notes: cell('notes') || undefined,
+    tags: tags.length ? tags : undefined,
+    journalId,
+  };
+  const withR = { ...trade, ...getTradeRFields(trade) };
+  const invalid = validateTradeRecord(withR);
+  return invalid.length > 0 ? { trade: null, errors: invalid } : { trade: withR, errors: [] };
+}
+
+/**
+ * Preview rows of a parsed CSV (header row excluded when `hasHeader`).
+ * Valid rows that match an existing trade or an earlier row are flagged as
+ * duplicates.
+ */
+export function buildImportRows(
+  rows: string[][],
+  settings: CsvImportSettings,
+  existing: Trade[],
+  journalId: string
+): ImportRow[] {
+  const existingKeys = new Set(existing.map(getDuplicateKey));
+  const fileKeys = new Set<string>();
+  const offset = settings.hasHeader ? 1 : 0;
+  return rows.slice(offset).map((row, i) => {
+    const { trade, errors } = rowToTrade(row, settings, journalId);
+    let duplicate: ImportRow['duplicate'] = null;
+    if (trade) {
+      const key = getDuplicateKey(trade);
+      if (existingKeys.has(key)) duplicate = IMPORT_DUPLICATE.EXISTING;
+      else if (fileKeys.has(key)) duplicate = IMPORT_DUPLICATE.IN_FILE;
+      fileKeys.add(key);
+    }
+    return { line: i + offset + 1, trade, errors, duplicate };
+  });
+}
+
+/** Mapping error to show before the preview, or null when every required field has a column */
+export function checkImportMapping(mapping: CsvImportSettings['mapping']): string | null {
+  const missing = IMPORT_FIELDS.filter((f) => f.required && mapping[f.field] === undefined).map((f) => f.label);
+  return missing.length > 0 ? `Pick a column for: ${missing.join(', ')}` : null;
+}
@@ -0,0 +1,102 @@
+/**
+ * Trade leg form drafts
+ * String-valued leg rows edited in CreateTradeModal / TradeDetailModal,
+ * parsed and validated into TradeLeg[] on submit.
+ */
+
+import { LEG_SIDE, type LegSide, type SymbolRules, type TradeLeg } from '../components/constants/types';
+import { formatTimestampGMT } from './calculations';
+import { createId } from './ids';
+import { validatePrice, validateQuantity } from './symbolRules';
+
+export interface TradeLegDraft {
+  id: string;
+  side: LegSide;
+  timestamp: number;
+  price: string;
+  quantity: string;
+}
+
+export function createLegDraft(
+  side: LegSide,
+  timestamp: number,
+  price = '',
+  quantity = ''
+): TradeLegDraft {
+  return { id: createId('leg'), side, timestamp, price, quantity };
+}
+
+export function legsToDrafts(legs: TradeLeg[]): TradeLegDraft[] {
+  return legs.map((l) => ({
+    id: l.id,
+    side: l.side,
+    timestamp: l.timestamp,
+    price: String(l.price),
+    quantity: String(l.quantity),
+  }));
+}
+
+/** Legs from drafts, skipping rows that don't parse yet (for live form hints) */
+export function toValidLegs(drafts: TradeLegDraft[]): TradeLeg[] {
+  return drafts
+    .map((d) => ({ id: d.id, side: d.side, timestamp: d.timestamp, price: parseFloat(d.price), quantity: parseFloat(d.quantity) }))
+    .filter((l) => l.price > 0 && l.quantity > 0);
+}
+
+/** Sum of parseable quantities per side, for live form hints */
+export function getDraftQuantities(drafts: TradeLegDraft[]): { entry: number; exit: number } {
+  let entry = 0;
+  let exit = 0;
+  for (const d of drafts) {
+    const qty = parseFloat(d.quantity);
+    if (isNaN(qty) || qty <= 0) continue;
+    if (d.side === LEG_SIDE.ENTRY) entry += qty;
+    else exit += qty;
+  }
+  return { entry: Number(entry.toFixed(8)), exit: Number(exit.toFixed(8)) };
+}
+
+/**
+ * Parse drafts into legs sorted by time.
+ * Returns an error message when a row is invalid or breaks the symbol's
+ * lot/tick size rules, there is no entry, or an exit would close more
+ * than is open at that point in time.
+ */
+export function parseLegDrafts(
+  drafts: TradeLegDraft[],
+  rules?: SymbolRules
+): { legs: TradeLeg[]; error: string | null } {
+  const legs: TradeLeg[] = [];
+  for (const d of drafts) {
+    const price = parseFloat(d.price);
+    const quantity = parseFloat(d.quantity);
+    const label = d.side === LEG_SIDE.ENTRY ? 'entry' : 'exit';
+    if (isNaN(price) || price <= 0 || isNaN(quantity) || quantity <= 0) {
+      return { legs: [], error: `Please enter a valid price and quantity for each ${label} leg` };
+    }
+    if (rules) {
+      const ruleError = validatePrice(price, rules) ?? validateQuantity(quantity, rules);
+      if (ruleError) return { legs: [], error: `${ruleError} (${label} leg)` };
+    }
+    legs.push({ id: d.id, side: d.side, timestamp: d.timestamp, price, quantity });
+  }
+
+  if (!legs.some((l) => l.side === LEG_SIDE.ENTRY)) {
+    return { legs: [], error: 'Add at least one entry leg' };
+  }
+
+  const sideOrder = (l: TradeLeg) => (l.side === LEG_SIDE.ENTRY ? 0 : 1);
+  const sorted = [...legs].sort((a, b) => a.timestamp - b.timestamp || sideOrder(a) - sideOrder(b));
+  let open = 0;
+  for (const leg of sorted) {
+    open += leg.side === LEG_SIDE.ENTRY ? leg.quantity : -leg.quantity;
+    if (open < -1e-9) {
+      return {
+        legs: [],
+        error: `Exit at ${formatTimestampGMT(leg.timestamp)} closes more than is open at that time`,
+      };
+    }
+  }
+
+  return { legs: sorted, error: null };
+}
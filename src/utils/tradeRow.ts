@@ -0,0 +1,90 @@
+/**
+ * Values of one TradeTable row (PNL, duration, R, current price, home
+ * currency), computed once so the table and the export show the same numbers.
+ */
+
+import type { MarketDataMap, SymbolRules, Trade, TradeLeg } from '../components/constants/types';
+import {
+  calculateNetPnL,
+  calculateOpenRMultiple,
+  calculateRealizedPnL,
+  calculateUnrealizedPnL,
+  formatDuration,
+  getTradeLegs,
+  getTradeRealizedR,
+  summarizeLegs,
+} from './calculations';
+import { getCurrentStopLoss } from './adjustments';
+import { getTradeHomeRate, getTradeQuoteAsset } from './currency';
+import { getPriceDecimals, getQuantityDecimals } from './symbolRules';
+
+export interface TradeRowContext {
+  marketData: MarketDataMap;
+  /** Lot size / tick size per symbol */
+  symbolRules: Record<string, SymbolRules>;
+  homeCurrency: string;
+  /** Live quote → home rates by quote asset */
+  homeRates: Record<string, number>;
+}
+
+export interface TradeRowValues {
+  legs: TradeLeg[];
+  openQuantity: number;
+  entryQuantity: number;
+  /** Gross realized PNL; null until something is exited */
+  pnl: number | null;
+  netPnl: number | null;
+  netPnlHome: number | null;
+  homeRate: number | null;
+  unrealizedPnl: number | null;
+  /** Closed trades only; '—' otherwise */
+  duration: string;
+  /** Realized R when closed, R at the current price when open */
+  rMultiple: number | null;
+  currentStopLoss: number | undefined;
+  stopMoved: boolean;
+  quoteAsset: string;
+  currentPrice: number | null;
+  dailyChangePercent: number | null;
+  priceDecimals: number | undefined;
+  qtyDecimals: number | undefined;
+}
+
+export function getTradeRowValues(trade: Trade, context: TradeRowContext): TradeRowValues {
+  const legs = getTradeLegs(trade);
+  const { openQuantity, entryQuantity } = summarizeLegs(legs);
+  const pnl = calculateRealizedPnL(trade.position, legs);
+  const netPnl = pnl != null ? calculateNetPnL(pnl, trade) : null;
+  const md = context.marketData[trade.symbol.toUpperCase()];
+  const currentPrice = md ? parseFloat(md.last) : null;
+  const rules = context.symbolRules[trade.symbol.toUpperCase()];
+  const currentStopLoss = getCurrentStopLoss(trade);
+  const homeRate = getTradeHomeRate(trade, context.homeCurrency, context.homeRates);
+  return {
+    legs,
+    openQuantity,
+    entryQuantity,
+    pnl,
+    netPnl,
+    netPnlHome: netPnl != null && homeRate != null ? netPnl * homeRate : null,
+    homeRate,
+    unrealizedPnl: currentPrice != null ? calculateUnrealizedPnL(trade.position, legs, currentPrice) : null,
+    duration:
+      trade.status === 'CLOSED' && trade.closeTimestamp != null
+        ? formatDuration(trade.openTimestamp, trade.closeTimestamp)
+        : '—',
+    rMultiple:
+      trade.status === 'CLOSED'
+        ? getTradeRealizedR(trade)
+        : currentPrice != null
+          ? calculateOpenRMultiple(trade, currentPrice)
+          : null,
+    currentStopLoss,
+    stopMoved: currentStopLoss !== trade.stopLoss,
+    quoteAsset: getTradeQuoteAsset(trade),
+    currentPrice,
+    dailyChangePercent: md ? parseFloat(md.daily_change_percentage) : null,
+    priceDecimals: getPriceDecimals(rules),
+    qtyDecimals: getQuantityDecimals(rules),
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Stored trade schema: version, migrations and runtime validation.
+ * Trades are stored as { version, trades }; a bare array is version 0 (before
+ * the envelope). Migrations run in order on load, then each record is
+ * validated so one malformed trade can't break the table.
+ */
+
+import {
+  ADJUSTMENT_KIND,
+  LEG_SIDE,
+  MARGIN_MODE,
+  POSITION,
+  TRADE_STATUS,
+  type Trade,
+} from '../components/constants/types';
+
+export interface TradeMigration {
+  /** Schema version this step produces */
+  version: number;
+  description: string;
+  migrate: (record: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/** Ordered by version; add a step here whenever the stored Trade shape changes */
+export const TRADE_MIGRATIONS: TradeMigration[] = [
+  {
+    version: 1,
+    description: 'Trades saved before status existed are closed',
+    migrate: (record) => ({ ...record, status: record.status ?? TRADE_STATUS.CLOSED }),
+  },
+  {
+    version: 2,
+    description: 'Symbols are stored upper-case',
+    migrate: (record) =>
+      typeof record.symbol === 'string' ? { ...record, symbol: record.symbol.toUpperCase() } : record,
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = TRADE_MIGRATIONS[TRADE_MIGRATIONS.length - 1].version;
+
+export interface StoredTrades {
+  version: number;
+  trades: unknown[];
+}
+
+/** Read the stored value as an envelope; null when it is neither an envelope nor a bare array */
+export function readEnvelope(parsed: unknown): StoredTrades | null {
+  if (Array.isArray(parsed)) return { version: 0, trades: parsed };
+  if (isObject(parsed) && typeof parsed.version === 'number' && Array.isArray(parsed.trades)) {
+    return { version: parsed.version, trades: parsed.trades };
+  }
+  return null;
+}
+
+/** Run every migration newer than `fromVersion` on one record (non-objects are returned as is) */
+export function migrateRecord(record: unknown, fromVersion: number): unknown {
+  if (!isObject(record)) return record;
+  return TRADE_MIGRATIONS.filter((m) => m.version > fromVersion).reduce((r, m) => m.migrate(r), record);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function oneOf(values: Record<string, string>, value: unknown): boolean {
+  return Object.values(values).includes(value as string);
+}
+
+/** Errors for each item of an optional array field that fails `check` */
+function checkArray(
+  record: Record<string, unknown>,
+  field: string,
+  check: (item: unknown) => string | null
+): string[] {
+  const value = record[field];
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return [`${field} must be a list`];
+  return value.flatMap((item, i) => {
+    const error = check(item);
+    return error ? [`${field}[${i}]: ${error}`] : [];
+  });
+}
+
+const OPTIONAL_NUMBERS = [
+  'closeTimestamp',
+  'closePrice',
+  'fees',
+  'commission',
+  'funding',
+  'leverage',
+  'crossMarginBalance',
+  'maintenanceMarginRate',
+  'stopLoss',
+  'plannedR',
+  'rValue',
+  'emotionRating',
+  'executionGrade',
+  'updatedAt',
+] as const;
+
+const OPTIONAL_STRINGS = ['quoteAsset', 'exchange', 'notes', 'playbookId', 'journalId'] as const;
+
+/** Everything wrong with a (migrated) stored record; empty when it is a valid Trade */
+export function validateTradeRecord(record: unknown): string[] {
+  if (typeof record === 'string') return ['Stored data could not be read as a trade list'];
+  if (!isObject(record)) return ['Not a trade object'];
+  const errors: string[] = [];
+
+  if (!isNonEmptyString(record.id)) errors.push('id is missing');
+  if (!isNonEmptyString(record.symbol)) errors.push('symbol is missing');
+  if (!oneOf(POSITION, record.position)) errors.push(`position must be LONG or SHORT (got ${JSON.stringify(record.position)})`);
+  if (!oneOf(TRADE_STATUS, record.status)) errors.push(`status must be OPEN or CLOSED (got ${JSON.stringify(record.status)})`);
+  if (!isFiniteNumber(record.openTimestamp)) errors.push('openTimestamp must be a number');
+  if (!isFiniteNumber(record.openPrice) || record.openPrice <= 0) errors.push('openPrice must be a positive number');
+  if (!isFiniteNumber(record.quantity) || record.quantity <= 0) errors.push('quantity must be a positive number');
+
+  OPTIONAL_NUMBERS.forEach((field) => {
+    if (record[field] !== undefined && !isFiniteNumber(record[field])) errors.push(`${field} must be a number`);
+  });
+  OPTIONAL_STRINGS.forEach((field) => {
+    if (record[field] !== undefined && typeof record[field] !== 'string') errors.push(`${field} must be text`);
+  });
+  if (record.status === TRADE_STATUS.CLOSED && (record.closePrice === undefined || record.closeTimestamp === undefined)) {
+    errors.push('a closed trade needs closePrice and closeTimestamp');
+  }
+  if (record.marginMode !== undefined && !oneOf(MARGIN_MODE, record.marginMode)) {
+    errors.push('marginMode must be ISOLATED or CROSS');
+  }
+  if (record.homeConversion !== undefined) {
+    const c = record.homeConversion;
+    if (!isObject(c) || !isNonEmptyString(c.currency) || !isFiniteNumber(c.rate) || !isFiniteNumber(c.timestamp)) {
+      errors.push('homeConversion needs currency, rate and timestamp');
+    }
+  }
+
+  errors.push(
+    ...checkArray(record, 'legs', (leg) =>
+      isObject(leg) &&
+      isNonEmptyString(leg.id) &&
+      oneOf(LEG_SIDE, leg.side) &&
+      isFiniteNumber(leg.timestamp) &&
+      isFiniteNumber(leg.price) &&
+      isFiniteNumber(leg.quantity)
+        ? null
+        : 'needs id, side, timestamp, price and quantity'
+    ),
+    ...checkArray(record, 'takeProfits', (tp) =>
+      isObject(tp) && isNonEmptyString(tp.id) && isFiniteNumber(tp.price) && (tp.percent === undefined || isFiniteNumber(tp.percent))
+        ? null
+        : 'needs id and price'
+    ),
+    ...checkArray(record, 'adjustments', (adj) =>
+      isObject(adj) &&
+      isNonEmptyString(adj.id) &&
+      oneOf(ADJUSTMENT_KIND, adj.kind) &&
+      isFiniteNumber(adj.timestamp) &&
+      isFiniteNumber(adj.price)
+        ? null
+        : 'needs id, kind, timestamp and price'
+    ),
+    ...checkArray(record, 'attachments', (a) =>
+      isObject(a) && isNonEmptyString(a.id) && typeof a.name === 'string' && typeof a.type === 'string' && isFiniteNumber(a.size)
+        ? null
+        : 'needs id, name, type and size'
+    ),
+    ...(['tags', 'checkedRules', 'mistakes'] as const).flatMap((field) =>
+      checkArray(record, field, (item) => (typeof item === 'string' ? null : 'must be text'))
+    )
+  );
+
+  return errors;
+}
+
+/** Narrowing wrapper for records that passed validation */
+export function isValidTrade(record: unknown): record is Trade {
+  return validateTradeRecord(record).length === 0;
+}